@@ -5,14 +5,27 @@ import {
   Box, Typography, TextField, Button, List, ListItem, ListItemText,
   CircularProgress, Alert, Paper, IconButton, FormGroup, FormControlLabel, Checkbox, Divider,
   Accordion, AccordionSummary, AccordionDetails, Card, CardContent, CardHeader, Tab, Tabs,
-  Switch
+  Switch, Chip, Tooltip
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import SettingsIcon from '@mui/icons-material/Settings';
 import VpnKeyIcon from '@mui/icons-material/VpnKey';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
 import { useAddonContext } from '@/context/AddonContext';
 import { useTmdbContext } from '@/context/TmdbContext';
+import StreamProfileSettings from '@/components/StreamProfileSettings';
+import StreamingServerSettings from '@/components/StreamingServerSettings';
+import PlaybackSettings from '@/components/PlaybackSettings';
+import ParentalControlsSettings from '@/components/ParentalControlsSettings';
+import BackupSettings from '@/components/BackupSettings';
+import SyncSettings from '@/components/SyncSettings';
+import AddonAccountImport from '@/components/AddonAccountImport';
+import AddonPrioritySettings from '@/components/AddonPrioritySettings';
+import { describeManifestDiff } from '@/lib/addonUpdates';
 
 // --- Interfaces are now managed by AddonContext ---
 // Re-declare AddonCatalog for getCatalogUniqueId if not importing from context or a shared types file
@@ -30,6 +43,13 @@ export default function AddonsPage() {
     installAddon,
     uninstallAddon,
     toggleCatalogSelection,
+    setAddonUseProxy,
+    addonStatuses,
+    refreshAddons,
+    isRefreshingAddons,
+    addonRefreshResults,
+    setAddonNewCatalogPolicy,
+    moveAddon,
   } = useAddonContext();
 
   const {
@@ -38,7 +58,9 @@ export default function AddonsPage() {
     isLoadingKey: isLoadingTmdbKey,
     keyError: tmdbKeyError,
     isTmdbEnabled,
-    toggleTmdbEnabled
+    toggleTmdbEnabled,
+    useTmdbProxy,
+    toggleTmdbProxy
   } = useTmdbContext();
 
   const [addonUrl, setAddonUrl] = useState<string>('');
@@ -47,6 +69,7 @@ export default function AddonsPage() {
   const [activeTab, setActiveTab] = useState<number>(0);
   const [inputTmdbKey, setInputTmdbKey] = useState<string>('');
   const [tmdbKeySaveMessage, setTmdbKeySaveMessage] = useState<string | null>(null);
+  const [draggedAddonIndex, setDraggedAddonIndex] = useState<number | null>(null);
 
   const getCatalogUniqueId = (catalog: AddonCatalog) => `${catalog.type}/${catalog.id}`;
 
@@ -168,6 +191,7 @@ export default function AddonsPage() {
         }}>
           <Tab label="Installed Addons" />
           <Tab label="Configure Catalogs" />
+          <Tab label="Stream Profiles" />
         </Tabs>
       </Box>
 
@@ -222,6 +246,8 @@ export default function AddonsPage() {
               </Button>
             </Box>
           </Paper>
+
+          <AddonAccountImport />
           
           <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
             <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center' }}>
@@ -290,6 +316,20 @@ export default function AddonsPage() {
                     label={`TMDB Integration: ${isTmdbEnabled ? 'Enabled' : 'Disabled'}`}
                     sx={{ color: tmdbApiKey ? 'grey.200' : 'grey.600'}}
                 />
+                <FormControlLabel 
+                    control={
+                        <Switch 
+                            checked={useTmdbProxy}
+                            onChange={toggleTmdbProxy}
+                            sx={{ 
+                                '& .MuiSwitch-switchBase.Mui-checked': { color: '#01d277' },
+                                '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#01d277' },
+                            }}
+                        />
+                    }
+                    label="Send TMDB requests through this app's server (keeps the key out of request URLs, caches responses)"
+                    sx={{ color: 'grey.200'}}
+                />
             </FormGroup>
 
             {tmdbKeySaveMessage && (
@@ -312,10 +352,30 @@ export default function AddonsPage() {
                 </Typography>
             )}
           </Paper>
+
+          <StreamingServerSettings />
+          <PlaybackSettings />
+          <ParentalControlsSettings />
+          <BackupSettings />
+          <SyncSettings />
           
-          <Typography variant="h5" component="h2" sx={{ mt: 4, mb: 2, fontWeight: 'bold', color: 'white' }}>
-            Installed Addons ({installedAddons?.length || 0})
-          </Typography>
+          <Box sx={{ mt: 4, mb: 2, display: 'flex', alignItems: 'center', justifyContent: 'space-between', flexWrap: 'wrap', gap: 1 }}>
+            <Typography variant="h5" component="h2" sx={{ fontWeight: 'bold', color: 'white' }}>
+              Installed Addons ({installedAddons?.length || 0})
+            </Typography>
+            {installedAddons && installedAddons.length > 0 && (
+              <Button
+                variant="outlined"
+                color="inherit"
+                startIcon={isRefreshingAddons ? <CircularProgress size={16} color="inherit" /> : <RefreshIcon />}
+                disabled={isRefreshingAddons}
+                onClick={() => refreshAddons()}
+                sx={{ color: 'grey.300' }}
+              >
+                Check for updates
+              </Button>
+            )}
+          </Box>
 
           {(!installedAddons || installedAddons.length === 0) && !isLoadingAddons && (
             <Alert severity="info" sx={{ backgroundColor: '#1f1f1f', color: 'white' }}>
@@ -323,25 +383,118 @@ export default function AddonsPage() {
             </Alert>
           )}
 
+          {installedAddons && installedAddons.length > 1 && (
+            <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+              Drag addons to set their priority. Addons higher in the list are asked first for details, streams
+              and subtitles, and their catalogs come first on the home page.
+            </Typography>
+          )}
+
           {installedAddons && installedAddons.length > 0 && (
             <List disablePadding>
-              {installedAddons.map((addon) => (
-                <Paper key={addon.manifestUrl} elevation={0} sx={{ backgroundColor: '#1f1f1f', mb: 1.5, borderRadius: '4px', p: 2 }}>
+              {installedAddons.map((addon, index) => (
+                <Paper
+                  key={addon.manifestUrl}
+                  elevation={0}
+                  draggable
+                  onDragStart={() => setDraggedAddonIndex(index)}
+                  onDragOver={(e) => { if (draggedAddonIndex !== null) e.preventDefault(); }}
+                  onDrop={() => {
+                    if (draggedAddonIndex !== null) moveAddon(draggedAddonIndex, index);
+                    setDraggedAddonIndex(null);
+                  }}
+                  onDragEnd={() => setDraggedAddonIndex(null)}
+                  sx={{ backgroundColor: '#1f1f1f', mb: 1.5, borderRadius: '4px', p: 2, opacity: draggedAddonIndex === index ? 0.5 : 1 }}
+                >
                   <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                    <Box>
-                      <Typography variant="h6" component="div" sx={{ color: 'white', fontWeight: 'medium' }}>
-                        {addon.name}
-                      </Typography>
-                      <Typography variant="body2" sx={{ color: 'grey.400', fontSize: '0.8rem' }}>
-                        ID: {addon.id} | Version: {addon.version}
-                      </Typography>
-                      <Typography variant="caption" sx={{ color: 'grey.500', display: 'block', mt: 0.5, wordBreak: 'break-all' }}>
-                        {addon.manifestUrl}
-                      </Typography>
+                    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+                      <DragIndicatorIcon sx={{ color: 'grey.600', mt: 0.5, cursor: 'grab' }} />
+                      <Box>
+                        <Typography variant="h6" component="div" sx={{ color: 'white', fontWeight: 'medium', display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {addon.name}
+                          {/* Outcome of the last request made to this addon during this session */}
+                          {addonStatuses[addon.id] && addonStatuses[addon.id].state !== 'ok' && (
+                            <Tooltip title={addonStatuses[addon.id].message || ''}>
+                              <Chip
+                                label={addonStatuses[addon.id].state === 'timeout' ? 'Timed out' : 'Failing'}
+                                size="small"
+                                sx={{ backgroundColor: addonStatuses[addon.id].state === 'timeout' ? '#8a6d1f' : '#7a1c1c', color: 'white', height: 20, fontSize: '0.7rem' }}
+                              />
+                            </Tooltip>
+                          )}
+                          {/* The manifest URL failed on the last refresh */}
+                          {addonRefreshResults[addon.manifestUrl]?.error && (
+                            <Tooltip title={addonRefreshResults[addon.manifestUrl].error || ''}>
+                              <Chip
+                                label="Manifest unreachable"
+                                size="small"
+                                sx={{ backgroundColor: '#7a1c1c', color: 'white', height: 20, fontSize: '0.7rem' }}
+                              />
+                            </Tooltip>
+                          )}
+                        </Typography>
+                        <Typography variant="body2" sx={{ color: 'grey.400', fontSize: '0.8rem' }}>
+                          ID: {addon.id} | Version: {addon.version}
+                          {addon.manifestCheckedAt ? ` | Checked ${new Date(addon.manifestCheckedAt).toLocaleDateString()}` : ''}
+                        </Typography>
+                        {addonRefreshResults[addon.manifestUrl]?.diff && (
+                          <Typography variant="body2" sx={{ color: '#46d369', fontSize: '0.8rem', mt: 0.5 }}>
+                            Updated: {describeManifestDiff(addonRefreshResults[addon.manifestUrl].diff!)}
+                          </Typography>
+                        )}
+                        <Typography variant="caption" sx={{ color: 'grey.500', display: 'block', mt: 0.5, wordBreak: 'break-all' }}>
+                          {addon.manifestUrl}
+                        </Typography>
+                        <FormControlLabel
+                          control={
+                            <Switch
+                              size="small"
+                              checked={!!addon.useProxy}
+                              onChange={(e) => setAddonUseProxy(addon.manifestUrl, e.target.checked)}
+                              sx={{
+                                '& .MuiSwitch-switchBase.Mui-checked': { color: '#e50914' },
+                                '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#e50914' },
+                              }}
+                            />
+                          }
+                          label="Use proxy (for addons that block browser requests)"
+                          sx={{ color: 'grey.400', mt: 0.5, '& .MuiFormControlLabel-label': { fontSize: '0.8rem' } }}
+                        />
+                        <FormControlLabel
+                          control={
+                            <Switch
+                              size="small"
+                              checked={addon.newCatalogPolicy !== 'ignore'}
+                              onChange={(e) => setAddonNewCatalogPolicy(addon.manifestUrl, e.target.checked ? 'select' : 'ignore')}
+                              sx={{
+                                '& .MuiSwitch-switchBase.Mui-checked': { color: '#e50914' },
+                                '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#e50914' },
+                              }}
+                            />
+                          }
+                          label="Show catalogs added in updates"
+                          sx={{ color: 'grey.400', display: 'flex', '& .MuiFormControlLabel-label': { fontSize: '0.8rem' } }}
+                        />
+                      </Box>
+                    </Box>
+                    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                      <IconButton aria-label="move up" disabled={index === 0} onClick={() => moveAddon(index, index - 1)} sx={{color: 'grey.500', '&:hover': {color: 'white'}}}>
+                        <ArrowUpwardIcon />
+                      </IconButton>
+                      <IconButton aria-label="move down" disabled={index === installedAddons.length - 1} onClick={() => moveAddon(index, index + 1)} sx={{color: 'grey.500', '&:hover': {color: 'white'}}}>
+                        <ArrowDownwardIcon />
+                      </IconButton>
+                      <Tooltip title="Check for updates">
+                        <span>
+                          <IconButton aria-label="refresh" disabled={isRefreshingAddons} onClick={() => refreshAddons([addon.manifestUrl])} sx={{color: 'grey.500', '&:hover': {color: 'white'}}}>
+                            <RefreshIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <IconButton edge="end" aria-label="delete" onClick={() => handleUninstallAddon(addon.manifestUrl)} sx={{color: 'grey.500', '&:hover': {color: '#e50914'}}}>
+                        <DeleteIcon />
+                      </IconButton>
                     </Box>
-                    <IconButton edge="end" aria-label="delete" onClick={() => handleUninstallAddon(addon.manifestUrl)} sx={{color: 'grey.500', '&:hover': {color: '#e50914'}}}>
-                      <DeleteIcon />
-                    </IconButton>
                   </Box>
                   {addon.description && (
                     <Typography variant="body2" sx={{ color: 'grey.300', mt: 1, fontSize: '0.9rem' }}>
@@ -403,6 +556,8 @@ export default function AddonsPage() {
               ))}
             </List>
           )}
+
+          <AddonPrioritySettings />
         </>
       )}
 
@@ -498,6 +653,8 @@ export default function AddonsPage() {
           }
         </>
       )}
+
+      {activeTab === 2 && <StreamProfileSettings />}
     </Box>
   );
 } 
\ No newline at end of file
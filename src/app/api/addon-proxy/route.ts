@@ -0,0 +1,81 @@
+// Forwards Stremio addon protocol requests for addons that block browser requests (CORS).
+// Only manifest and resource URLs on public hosts are accepted, optionally limited to the hosts in
+// ADDON_PROXY_ALLOWED_HOSTS (comma separated). Redirects are checked against the same rules.
+// Responses are cached per their Cache-Control.
+// Usage: /api/addon-proxy?url=https%3A%2F%2Faddon.example.com%2Fstream%2Fmovie%2Ftt123.json
+
+import {
+  cachedJsonResponse,
+  fetchUpstream,
+  getCachedResponse,
+  getTtlSeconds,
+  proxyErrorResponse,
+  readUpstreamBody,
+  setCachedResponse,
+} from '@/lib/proxyCache';
+
+// "/manifest.json" or "/{resource}/{type}/{id}[/{extras}].json"
+const ADDON_PATH_REGEX = /(?:\/manifest\.json|\/(catalog|meta|stream|subtitles|addon_catalog)\/[^/]+\/[^/]+(?:\/[^/]+)?\.json)$/;
+
+// Default TTLs when the addon doesn't send Cache-Control
+const DEFAULT_TTL_SECONDS: Record<string, number> = {
+  manifest: 60 * 60,
+  catalog: 60 * 60,
+  meta: 6 * 60 * 60,
+  stream: 5 * 60,
+  subtitles: 60 * 60,
+  addon_catalog: 6 * 60 * 60,
+};
+
+const allowedHosts = (process.env.ADDON_PROXY_ALLOWED_HOSTS || '')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Why a URL may not be proxied, or null if it may; applied to the requested URL and every redirect
+const getRefusal = (url: URL): string | null => {
+  if ((url.protocol !== 'http:' && url.protocol !== 'https:') || !ADDON_PATH_REGEX.test(url.pathname)) {
+    return 'Only Stremio addon manifest and resource URLs can be proxied';
+  }
+  if (allowedHosts.length > 0 && !allowedHosts.includes(url.hostname.toLowerCase())) {
+    return `Addon host ${url.hostname} is not on the proxy allow-list`;
+  }
+  return null;
+};
+
+export async function GET(request: Request) {
+  const target = new URL(request.url).searchParams.get('url');
+  if (!target) return proxyErrorResponse(400, 'bad_request', 'Missing "url" parameter');
+
+  let targetUrl: URL;
+  try {
+    targetUrl = new URL(target);
+  } catch {
+    return proxyErrorResponse(400, 'bad_request', 'Invalid addon URL');
+  }
+  const refusal = getRefusal(targetUrl);
+  if (refusal) return proxyErrorResponse(403, 'forbidden', refusal);
+  const pathMatch = targetUrl.pathname.match(ADDON_PATH_REGEX)!;
+
+  const cacheKey = `addon:${targetUrl.toString()}`;
+  const cached = getCachedResponse(cacheKey);
+  if (cached) return cachedJsonResponse(cached, 'HIT', Math.round((cached.expiresAt - Date.now()) / 1000));
+
+  const upstream = await fetchUpstream(targetUrl.toString(), { headers: { Accept: 'application/json' } }, getRefusal);
+  if (!upstream.ok) return upstream;
+
+  const read = await readUpstreamBody(upstream);
+  if ('error' in read) return read.error;
+  const { body } = read;
+  try {
+    JSON.parse(body);
+  } catch {
+    return proxyErrorResponse(502, 'upstream', 'Addon returned invalid JSON', upstream.status);
+  }
+
+  const resource = pathMatch[1] || 'manifest';
+  const ttlSeconds = getTtlSeconds(upstream.headers.get('cache-control'), DEFAULT_TTL_SECONDS[resource]);
+  const entry = { body, status: upstream.status, contentType: 'application/json' };
+  setCachedResponse(cacheKey, entry, ttlSeconds);
+  return cachedJsonResponse(entry, 'MISS', ttlSeconds);
+}
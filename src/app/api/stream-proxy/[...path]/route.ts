@@ -0,0 +1,72 @@
+// Streams an addon video through the app so behaviorHints.proxyHeaders can be applied: the
+// browser can't set headers like Referer or User-Agent on a <video> request, and some hosts
+// need response headers they don't send themselves.
+// URL layout: /api/stream-proxy/{signed config}/{upstream path}?{upstream query}
+// The config is signed by /api/stream-proxy/sign; only public hosts are fetched, and only media
+// response headers are passed back.
+
+import { fetchPublicUrl, OutboundRequestError } from '@/lib/outboundRequests';
+import { proxyErrorResponse } from '@/lib/proxyCache';
+import { ALLOWED_RESPONSE_HEADERS, getSafeContentType, verifyProxyToken } from '@/lib/streamProxy';
+
+// Request headers from the player that matter for media playback
+const FORWARDED_REQUEST_HEADERS = ['range', 'if-range', 'accept'];
+
+const proxyRequest = async (request: Request, params: Promise<{ path: string[] }>, method: 'GET' | 'HEAD') => {
+  const [token] = (await params).path;
+  const config = token ? verifyProxyToken(token) : null;
+  if (!config) {
+    return proxyErrorResponse(403, 'forbidden', 'Invalid or expired proxy configuration');
+  }
+
+  // Take the upstream path from the raw URL so its original encoding survives (signed URLs care)
+  const requestUrl = new URL(request.url);
+  const upstreamPath = requestUrl.pathname.slice(requestUrl.pathname.indexOf(token) + token.length) || '/';
+
+  let upstreamUrl: URL;
+  try {
+    upstreamUrl = new URL(`${config.origin}${upstreamPath}${requestUrl.search}`);
+  } catch {
+    return proxyErrorResponse(400, 'bad_request', 'Invalid upstream URL');
+  }
+  if (upstreamUrl.origin !== config.origin) {
+    return proxyErrorResponse(400, 'bad_request', 'Invalid upstream URL');
+  }
+
+  const headers = new Headers();
+  FORWARDED_REQUEST_HEADERS.forEach(name => {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  });
+  Object.entries(config.requestHeaders || {}).forEach(([name, value]) => headers.set(name, value));
+
+  let upstream: Response;
+  try {
+    upstream = await fetchPublicUrl(upstreamUrl, { method, headers, signal: request.signal });
+  } catch (err) {
+    if (err instanceof OutboundRequestError) {
+      return proxyErrorResponse(403, 'forbidden', err.message);
+    }
+    console.error('StreamProxy: Upstream request failed for', upstreamUrl.origin, err);
+    return proxyErrorResponse(502, 'network', 'Upstream request failed');
+  }
+
+  const responseHeaders = new Headers();
+  ALLOWED_RESPONSE_HEADERS.forEach(name => {
+    const value = config.responseHeaders?.[name] ?? upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  });
+  responseHeaders.set('content-type', getSafeContentType(responseHeaders.get('content-type')));
+  responseHeaders.set('x-content-type-options', 'nosniff');
+  responseHeaders.set('content-security-policy', "default-src 'none'; sandbox");
+
+  return new Response(method === 'HEAD' ? null : upstream.body, { status: upstream.status, headers: responseHeaders });
+};
+
+export async function GET(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  return proxyRequest(request, params, 'GET');
+}
+
+export async function HEAD(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  return proxyRequest(request, params, 'HEAD');
+}
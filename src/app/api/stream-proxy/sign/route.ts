@@ -0,0 +1,35 @@
+// Signs a stream proxy config for /api/stream-proxy.
+// POST { origin, requestHeaders?, responseHeaders? } -> { token }
+// Only the app's own pages may ask; the config is cleaned up before it's signed.
+
+import { proxyErrorResponse } from '@/lib/proxyCache';
+import { sanitizeProxyConfig, signProxyConfig } from '@/lib/streamProxy';
+import type { StreamProxySignResponse } from '@/lib/streamPlayback';
+
+const isSameOriginRequest = (request: Request) => {
+  const fetchSite = request.headers.get('sec-fetch-site');
+  if (fetchSite) return fetchSite === 'same-origin';
+  const origin = request.headers.get('origin');
+  if (!origin) return false;
+  try {
+    return new URL(origin).host === (request.headers.get('host') || new URL(request.url).host);
+  } catch {
+    return false;
+  }
+};
+
+export async function POST(request: Request) {
+  if (!isSameOriginRequest(request)) {
+    return proxyErrorResponse(403, 'forbidden', 'Stream proxy configs can only be signed for this app');
+  }
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return proxyErrorResponse(400, 'bad_request', 'Request body must be JSON');
+  }
+  const config = sanitizeProxyConfig(body);
+  if (!config) return proxyErrorResponse(400, 'bad_request', 'Expected an http(s) origin');
+
+  return Response.json({ token: signProxyConfig(config) } satisfies StreamProxySignResponse, { headers: { 'Cache-Control': 'no-store' } });
+}
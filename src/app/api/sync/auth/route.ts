@@ -0,0 +1,45 @@
+// Accounts for the self-hosted sync backend.
+// POST { action: "register" | "login", username, password } -> { token, username }
+// DELETE with "Authorization: Bearer {token}" logs that token out.
+
+import { proxyErrorResponse } from '@/lib/proxyCache';
+import type { SyncAuthResponse } from '@/lib/sync';
+import {
+  createAccount,
+  getBearerToken,
+  getSyncErrorStatus,
+  issueToken,
+  revokeToken,
+  SyncStoreError,
+  verifyAccount,
+} from '@/lib/syncStore';
+
+export async function POST(request: Request) {
+  let body: { action?: unknown; username?: unknown; password?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return proxyErrorResponse(400, 'bad_request', 'Request body must be JSON');
+  }
+  const { action, username, password } = body;
+  if ((action !== 'register' && action !== 'login') || typeof username !== 'string' || typeof password !== 'string') {
+    return proxyErrorResponse(400, 'bad_request', 'Expected an action, a username and a password');
+  }
+
+  try {
+    const account = action === 'register' ? await createAccount(username, password) : await verifyAccount(username, password);
+    const token = await issueToken(account);
+    return Response.json({ token, username: account } satisfies SyncAuthResponse, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    if (err instanceof SyncStoreError) return proxyErrorResponse(getSyncErrorStatus(err), err.kind, err.message);
+    console.error('SyncAuth: Request failed:', err);
+    return proxyErrorResponse(500, 'network', 'The sync server could not handle the request');
+  }
+}
+
+export async function DELETE(request: Request) {
+  const token = getBearerToken(request);
+  if (!token) return proxyErrorResponse(401, 'unauthorized', 'Missing sync token');
+  await revokeToken(token);
+  return new Response(null, { status: 204 });
+}
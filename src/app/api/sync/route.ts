@@ -0,0 +1,36 @@
+// Sync endpoint for the self-hosted sync backend. Needs "Authorization: Bearer {token}".
+// POST { since, changes } applies the client's changes and returns the fields that changed
+// on the server since its last sync: { revision, changes }.
+
+import { proxyErrorResponse } from '@/lib/proxyCache';
+import type { SyncRequest } from '@/lib/sync';
+import { applySyncChanges, getAccountForToken, getBearerToken, getSyncErrorStatus, SyncStoreError } from '@/lib/syncStore';
+
+const MAX_CHANGES_PER_REQUEST = 5000;
+
+export async function POST(request: Request) {
+  const token = getBearerToken(request);
+  const username = token ? await getAccountForToken(token) : null;
+  if (!username) return proxyErrorResponse(401, 'unauthorized', 'Sign in to sync again');
+
+  let body: Partial<SyncRequest>;
+  try {
+    body = await request.json();
+  } catch {
+    return proxyErrorResponse(400, 'bad_request', 'Request body must be JSON');
+  }
+  const since = typeof body.since === 'number' && body.since >= 0 ? body.since : 0;
+  if (!Array.isArray(body.changes)) return proxyErrorResponse(400, 'bad_request', 'Expected a list of changes');
+  if (body.changes.length > MAX_CHANGES_PER_REQUEST) {
+    return proxyErrorResponse(400, 'bad_request', `At most ${MAX_CHANGES_PER_REQUEST} changes per request`);
+  }
+
+  try {
+    const result = await applySyncChanges(username, since, body.changes);
+    return Response.json(result, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    if (err instanceof SyncStoreError) return proxyErrorResponse(getSyncErrorStatus(err), err.kind, err.message);
+    console.error('Sync: Request failed for', username, err);
+    return proxyErrorResponse(500, 'network', 'The sync server could not save the changes');
+  }
+}
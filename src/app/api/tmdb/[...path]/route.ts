@@ -0,0 +1,75 @@
+// Forwards TMDB v3 requests so the API key stays out of browser URLs.
+// The key comes from the TMDB_API_KEY environment variable, or from the user's own key sent in
+// the x-tmdb-api-key header. Responses are cached (the cache key never includes the API key), so
+// a user's key is only trusted for cached responses once TMDB has accepted it.
+// Usage: /api/tmdb/movie/popular?page=1
+
+import { createHash } from 'node:crypto';
+import {
+  cachedJsonResponse,
+  fetchUpstream,
+  getCachedResponse,
+  getTtlSeconds,
+  proxyErrorResponse,
+  readUpstreamBody,
+  setCachedResponse,
+} from '@/lib/proxyCache';
+import { TMDB_API_BASE_URL } from '@/lib/tmdbClient';
+
+// First path segments the app uses
+const ALLOWED_ROOTS = new Set(['movie', 'tv', 'search', 'find', 'trending', 'discover', 'genre', 'configuration', 'collection']);
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const SEARCH_TTL_SECONDS = 10 * 60;
+const VERIFIED_KEY_TTL_MS = 60 * 60 * 1000; // Revoked keys stop getting cached responses after this
+
+// Hashes of user keys TMDB accepted, with when that stops counting
+const verifiedKeys = new Map<string, number>();
+
+const hashKey = (apiKey: string) => createHash('sha256').update(apiKey).digest('hex');
+
+const isVerifiedKey = (keyHash: string) => {
+  const expiresAt = verifiedKeys.get(keyHash);
+  if (expiresAt === undefined) return false;
+  if (expiresAt > Date.now()) return true;
+  verifiedKeys.delete(keyHash);
+  return false;
+};
+
+export async function GET(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  if (!path?.length || !ALLOWED_ROOTS.has(path[0])) {
+    return proxyErrorResponse(403, 'forbidden', 'This TMDB endpoint is not available through the proxy');
+  }
+
+  const serverKey = process.env.TMDB_API_KEY;
+  const apiKey = serverKey || request.headers.get('x-tmdb-api-key');
+  if (!apiKey) return proxyErrorResponse(401, 'unauthorized', 'No TMDB API key configured');
+  const userKeyHash = serverKey ? null : hashKey(apiKey);
+
+  const searchParams = new URLSearchParams(new URL(request.url).searchParams);
+  searchParams.delete('api_key');
+  searchParams.sort();
+  const tmdbPath = `/${path.map(encodeURIComponent).join('/')}`;
+  const query = searchParams.toString();
+
+  const cacheKey = `tmdb:${tmdbPath}?${query}`;
+  // An unknown user key goes to TMDB even when the response is cached, which checks it
+  const cached = !userKeyHash || isVerifiedKey(userKeyHash) ? getCachedResponse(cacheKey) : null;
+  if (cached) return cachedJsonResponse(cached, 'HIT', Math.round((cached.expiresAt - Date.now()) / 1000));
+
+  searchParams.set('api_key', apiKey);
+  const upstream = await fetchUpstream(`${TMDB_API_BASE_URL}${tmdbPath}?${searchParams.toString()}`);
+  if (!upstream.ok) return upstream;
+  if (userKeyHash) verifiedKeys.set(userKeyHash, Date.now() + VERIFIED_KEY_TTL_MS);
+
+  const read = await readUpstreamBody(upstream);
+  if ('error' in read) return read.error;
+  const entry = { body: read.body, status: upstream.status, contentType: 'application/json' };
+  const ttlSeconds = getTtlSeconds(
+    upstream.headers.get('cache-control'),
+    path[0] === 'search' ? SEARCH_TTL_SECONDS : DEFAULT_TTL_SECONDS
+  );
+  setCachedResponse(cacheKey, entry, ttlSeconds);
+  return cachedJsonResponse(entry, 'MISS', ttlSeconds);
+}
@@ -0,0 +1,9 @@
+// Tells the client whether the TMDB proxy has its own key (TMDB_API_KEY), in which case the
+// user's key isn't sent along.
+// GET -> { serverKey: boolean }
+
+import type { TmdbProxyStatus } from '@/lib/tmdbClient';
+
+export async function GET() {
+  return Response.json({ serverKey: !!process.env.TMDB_API_KEY } satisfies TmdbProxyStatus, { headers: { 'Cache-Control': 'no-store' } });
+}
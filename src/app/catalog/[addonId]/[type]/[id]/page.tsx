@@ -0,0 +1,303 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, usePathname, useRouter, useSearchParams } from 'next/navigation';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControl from '@mui/material/FormControl';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import CatalogGrid, { type CatalogGridItem } from '@/components/CatalogGrid';
+import { useAddonContext } from '@/context/AddonContext';
+import { useTmdbContext } from '@/context/TmdbContext';
+import { fetchCatalog } from '@/lib/addonClient';
+import { fetchTmdb } from '@/lib/tmdbClient';
+import { isAbortError } from '@/lib/network';
+import { catalogSupportsSkip, mergeCatalogPage } from '@/lib/catalogPaging';
+import {
+  buildTmdbCatalogRequest,
+  findTmdbCatalog,
+  getAddonCatalogFilters,
+  getTmdbCatalogFilters,
+  getTmdbMediaType,
+  readCatalogFilters,
+  TMDB_IMAGE_BASE_URL,
+  TMDB_SOURCE_ID,
+  type CatalogFilter,
+  type CatalogFilters,
+} from '@/lib/catalogBrowse';
+
+interface TmdbListItem {
+  id: number;
+  title?: string;
+  name?: string;
+  poster_path: string | null;
+  release_date?: string;
+  first_air_date?: string;
+  vote_average?: number;
+}
+
+interface TmdbListResponse {
+  results?: TmdbListItem[];
+  total_pages?: number;
+}
+
+// TMDB stops serving list pages after page 500
+const TMDB_MAX_PAGE = 500;
+
+const getParam = (value: string | string[] | undefined) =>
+  typeof value === 'string' ? decodeURIComponent(value) : Array.isArray(value) ? decodeURIComponent(value[0]) : '';
+
+const selectSx = {
+  color: 'white',
+  backgroundColor: '#2b2b2b',
+  '.MuiOutlinedInput-notchedOutline': { borderColor: 'grey.700' },
+  '.MuiSvgIcon-root': { color: 'white' },
+};
+
+// The whole of one catalog as an infinite grid, with the catalog's filters kept in the URL
+export default function CatalogPage() {
+  const params = useParams();
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const router = useRouter();
+  const sourceId = getParam(params.addonId);
+  const type = getParam(params.type);
+  const catalogId = getParam(params.id);
+  const isTmdb = sourceId === TMDB_SOURCE_ID;
+
+  const { installedAddons, isLoading: isLoadingAddons, reportAddonResult } = useAddonContext();
+  const { tmdbApiKey, isTmdbEnabled, isLoadingKey: isLoadingTmdbKey } = useTmdbContext();
+
+  const addon = isTmdb ? undefined : installedAddons.find(a => a.id === sourceId);
+  const addonCatalog = addon?.catalogs?.find(catalog => catalog.type === type && catalog.id === catalogId);
+  const tmdbCatalog = isTmdb ? findTmdbCatalog(type, catalogId) : undefined;
+  const tmdbKey = isTmdbEnabled ? tmdbApiKey : null;
+
+  const [tmdbGenres, setTmdbGenres] = useState<{ id: number; name: string }[]>([]);
+  const [items, setItems] = useState<CatalogGridItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null); // Next skip (addons) or page (TMDB)
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isLoadingMore, setIsLoadingMore] = useState<boolean>(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+  const isLoadingMoreRef = useRef(false);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+  const requestIdRef = useRef(0); // Pages requested for earlier filters are dropped
+
+  const filters: CatalogFilter[] = useMemo(() => {
+    if (addonCatalog) return getAddonCatalogFilters(addonCatalog);
+    if (tmdbCatalog) return getTmdbCatalogFilters(tmdbGenres);
+    return [];
+  }, [addonCatalog, tmdbCatalog, tmdbGenres]);
+  const filterQuery = searchParams.toString();
+  const activeFilters = useMemo(() => readCatalogFilters(new URLSearchParams(filterQuery), filters), [filterQuery, filters]);
+  // Genre options arriving later don't change the values, so the key doesn't either
+  const activeFiltersKey = JSON.stringify(activeFilters);
+
+  // TMDB genre names for the genre filter
+  useEffect(() => {
+    if (!tmdbCatalog || !tmdbKey) return;
+    const abortController = new AbortController();
+    fetchTmdb<{ genres?: { id: number; name: string }[] }>(`/genre/${getTmdbMediaType(tmdbCatalog.type)}/list`, tmdbKey, { language: 'en-US' }, { signal: abortController.signal })
+      .then(data => setTmdbGenres(data.genres || []))
+      .catch(err => {
+        if (!isAbortError(err)) console.warn('CatalogPage: Could not load TMDB genres:', err instanceof Error ? err.message : err);
+      });
+    return () => abortController.abort();
+  }, [tmdbCatalog, tmdbKey]);
+
+  // One page of the catalog, from `cursor` (0 for the first page)
+  const fetchCatalogPage = useCallback(async (cursor: number, pageFilters: CatalogFilters, signal?: AbortSignal) => {
+    if (addon && addonCatalog) {
+      try {
+        const data = await fetchCatalog(addon, type, catalogId, { ...pageFilters, skip: cursor || undefined }, { signal });
+        reportAddonResult(addon.id);
+        const pageItems: CatalogGridItem[] = data.metas.map(meta => ({
+          id: meta.id,
+          type: meta.type || type,
+          name: meta.name || meta.id,
+          poster: meta.poster,
+          releaseInfo: meta.releaseInfo,
+          imdbRating: meta.imdbRating,
+        }));
+        const next = catalogSupportsSkip(addonCatalog) && data.metas.length > 0 ? cursor + data.metas.length : null;
+        return { pageItems, next };
+      } catch (err) {
+        reportAddonResult(addon.id, err);
+        throw err;
+      }
+    }
+    if (tmdbCatalog && tmdbKey) {
+      const page = cursor || 1;
+      const request = buildTmdbCatalogRequest(tmdbCatalog, pageFilters, page);
+      const data = await fetchTmdb<TmdbListResponse>(request.path, tmdbKey, { language: 'en-US', ...request.params }, { signal });
+      const pageItems: CatalogGridItem[] = (data.results || []).map(item => ({
+        id: `tmdb:${item.id}`,
+        type: tmdbCatalog.type,
+        name: item.title || item.name || 'TMDB Item',
+        poster: item.poster_path ? `${TMDB_IMAGE_BASE_URL}w342${item.poster_path}` : undefined,
+        releaseInfo: (item.release_date || item.first_air_date)?.slice(0, 4),
+        imdbRating: item.vote_average ? item.vote_average.toFixed(1) : undefined,
+      }));
+      const next = page < Math.min(data.total_pages || 1, TMDB_MAX_PAGE) ? page + 1 : null;
+      return { pageItems, next };
+    }
+    return { pageItems: [], next: null };
+  }, [addon, addonCatalog, tmdbCatalog, tmdbKey, type, catalogId, reportAddonResult]);
+
+  // First page, again whenever the filters change
+  useEffect(() => {
+    if (isLoadingAddons || isLoadingTmdbKey) return;
+    setItems([]);
+    setNextCursor(null);
+    setPageError(null);
+    if (isTmdb ? !tmdbCatalog : !addonCatalog) {
+      setIsLoading(false);
+      return;
+    }
+    const abortController = new AbortController();
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    fetchCatalogPage(0, JSON.parse(activeFiltersKey), abortController.signal)
+      .then(({ pageItems, next }) => {
+        if (requestId !== requestIdRef.current) return;
+        setItems(mergeCatalogPage([], pageItems).items);
+        setNextCursor(next);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('CatalogPage: Error loading catalog:', err);
+        setPageError(`Could not load this catalog: ${err instanceof Error ? err.message : 'unknown error'}`);
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) setIsLoading(false);
+      });
+    return () => abortController.abort();
+  }, [fetchCatalogPage, activeFiltersKey, isLoadingAddons, isLoadingTmdbKey, isTmdb, tmdbCatalog, addonCatalog]);
+
+  // A page with nothing new ends the catalog
+  const loadMore = useCallback(async () => {
+    if (nextCursor === null || isLoadingMoreRef.current) return;
+    isLoadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    const requestId = requestIdRef.current;
+    try {
+      const { pageItems, next } = await fetchCatalogPage(nextCursor, activeFilters);
+      if (requestId !== requestIdRef.current) return;
+      const { items: mergedItems, added } = mergeCatalogPage(itemsRef.current, pageItems);
+      setItems(mergedItems);
+      setNextCursor(added > 0 ? next : null);
+    } catch (err) {
+      console.error('CatalogPage: Error loading more items:', err);
+      if (requestId === requestIdRef.current) setNextCursor(null);
+    } finally {
+      isLoadingMoreRef.current = false;
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, fetchCatalogPage, activeFilters]);
+
+  const setFilter = (name: string, value: string) => {
+    const query = new URLSearchParams(searchParams.toString());
+    if (value) query.set(name, value);
+    else query.delete(name);
+    const queryString = query.toString();
+    router.replace(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+  };
+
+  const hasOptionalFilters = filters.some(filter => !filter.isRequired && searchParams.get(filter.name));
+  const title = addonCatalog?.name || tmdbCatalog?.title || catalogId;
+  const sourceLabel = isTmdb ? 'TMDB' : addon?.name;
+  const isWaiting = isLoadingAddons || isLoadingTmdbKey;
+
+  let unavailableMessage: string | null = null;
+  if (!isWaiting) {
+    if (isTmdb && !tmdbCatalog) unavailableMessage = 'This TMDB list doesn\'t exist.';
+    else if (isTmdb && !tmdbKey) unavailableMessage = 'TMDB lists need a TMDB API key with the integration enabled. Set it up on the Addons page.';
+    else if (!isTmdb && !addon) unavailableMessage = 'The addon for this catalog isn\'t installed.';
+    else if (!isTmdb && !addonCatalog) unavailableMessage = 'The addon no longer offers this catalog.';
+  }
+
+  return (
+    <Box sx={{ pt: 12, px: { xs: 2, md: 7.5 }, pb: 6, minHeight: '100vh', backgroundColor: '#141414' }}>
+      <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 1.5, mb: 3, flexWrap: 'wrap' }}>
+        <Typography variant="h4" sx={{ color: 'white', fontWeight: 'bold' }}>
+          {title}
+        </Typography>
+        {sourceLabel && (
+          <Typography variant="body2" sx={{ color: 'grey.500' }}>
+            {sourceLabel}
+          </Typography>
+        )}
+      </Box>
+
+      {unavailableMessage && (
+        <Alert severity="info" sx={{ backgroundColor: '#1f1f1f', color: 'white' }}>
+          {unavailableMessage}
+        </Alert>
+      )}
+
+      {!unavailableMessage && filters.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1.5, mb: 3 }}>
+          {filters.map(filter => (
+            <FormControl key={filter.name} size="small" sx={{ minWidth: 150 }}>
+              <Select
+                value={activeFilters[filter.name] || ''}
+                displayEmpty
+                onChange={(e) => setFilter(filter.name, e.target.value)}
+                inputProps={{ 'aria-label': filter.label }}
+                sx={selectSx}
+                MenuProps={{ PaperProps: { sx: { backgroundColor: '#1f1f1f', color: 'white', maxHeight: 400 } } }}
+              >
+                {!filter.isRequired && <MenuItem value="">Any {filter.label.toLowerCase()}</MenuItem>}
+                {filter.options.map(option => (
+                  <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+                ))}
+                {/* A value from a shared link that isn't among the options (yet) */}
+                {activeFilters[filter.name] && !filter.options.some(option => option.value === activeFilters[filter.name]) && (
+                  <MenuItem value={activeFilters[filter.name]}>{activeFilters[filter.name]}</MenuItem>
+                )}
+              </Select>
+            </FormControl>
+          ))}
+          {hasOptionalFilters && (
+            <Button color="inherit" onClick={() => router.replace(pathname, { scroll: false })} sx={{ color: 'grey.400' }}>
+              Clear filters
+            </Button>
+          )}
+        </Box>
+      )}
+
+      {(isWaiting || isLoading) && !unavailableMessage && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress sx={{ color: 'red' }} />
+        </Box>
+      )}
+
+      {pageError && (
+        <Alert severity="warning" sx={{ backgroundColor: '#333', color: 'white' }}>
+          {pageError}
+        </Alert>
+      )}
+
+      {!isWaiting && !isLoading && !pageError && !unavailableMessage && items.length === 0 && (
+        <Alert severity="info" sx={{ backgroundColor: '#1f1f1f', color: 'white' }}>
+          Nothing matches these filters.
+        </Alert>
+      )}
+
+      {!isLoading && items.length > 0 && (
+        <CatalogGrid
+          items={items}
+          addonId={addon?.id}
+          hasMore={nextCursor !== null}
+          isLoadingMore={isLoadingMore}
+          onLoadMore={loadMore}
+        />
+      )}
+    </Box>
+  );
+}
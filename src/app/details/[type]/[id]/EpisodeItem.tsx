@@ -5,6 +5,8 @@ import Image from 'next/image';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
 import PlayArrow from '@mui/icons-material/PlayArrow';
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import type { WatchProgress } from '@/lib/watchState';
 
 // Reuse the Episode interface (or import if defined elsewhere)
 interface Episode {
@@ -21,9 +23,10 @@ interface Episode {
 interface EpisodeItemProps {
   episode: Episode;
   onClick: (episode: Episode) => void;
+  progress?: WatchProgress; // Saved watch progress for this episode, if any
 }
 
-export default function EpisodeItem({ episode, onClick }: EpisodeItemProps) {
+export default function EpisodeItem({ episode, onClick, progress }: EpisodeItemProps) {
   const [imgError, setImgError] = useState(false);
 
   const handleImageError = () => {
@@ -144,13 +147,20 @@ export default function EpisodeItem({ episode, onClick }: EpisodeItemProps) {
         >
           <PlayArrow sx={{ fontSize: { xs: '2rem', sm: '3rem' } }} />
         </Box>
+        {/* Watch progress bar */}
+        {progress && !progress.watched && progress.duration > 0 && progress.position > 0 && (
+          <Box sx={{ position: 'absolute', left: 0, right: 0, bottom: 0, height: 4, backgroundColor: 'rgba(255,255,255,0.3)', zIndex: 2 }}>
+            <Box sx={{ height: '100%', width: `${Math.min(100, (progress.position / progress.duration) * 100)}%`, backgroundColor: '#e50914' }} />
+          </Box>
+        )}
       </Box>
 
       {/* Episode Info (Title, Runtime, Overview) */}
       <Box sx={{ flexGrow: 1, pt: { xs: 0.5, sm: 1 } }}>
         <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline', mb: 1 }}>
-          <Typography variant="body1" component="h3" sx={{ fontWeight: 'bold' }}>
+          <Typography variant="body1" component="h3" sx={{ fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: 1 }}>
             {episode.title || `Episode ${episode.episode}`}
+            {progress?.watched && <CheckCircleIcon titleAccess="Watched" sx={{ fontSize: '1.1rem', color: 'grey.400' }} />}
           </Typography>
           {episode.runtime && (
             <Typography variant="body2" sx={{ color: 'grey.400', flexShrink: 0, ml: 1 }}>
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { useParams, useSearchParams, useRouter } from 'next/navigation';
 import Image from 'next/image';
 import Box from '@mui/material/Box';
@@ -9,6 +9,7 @@ import Button from '@mui/material/Button';
 import CircularProgress from '@mui/material/CircularProgress';
 import PlayArrow from '@mui/icons-material/PlayArrow';
 import AddIcon from '@mui/icons-material/Add';
+import CheckIcon from '@mui/icons-material/Check';
 import VolumeOffIcon from '@mui/icons-material/VolumeOff';
 import Link from 'next/link';
 import Alert from '@mui/material/Alert';
@@ -26,10 +27,20 @@ import Zoom from '@mui/material/Zoom';
 import Slide from '@mui/material/Slide';
 import { useAddonContext } from '@/context/AddonContext';
 import { useTmdbContext } from '@/context/TmdbContext';
+import { useWatchStateContext } from '@/context/WatchStateContext';
+import { useLibraryContext } from '@/context/LibraryContext';
+import { useContentAllowed } from '@/context/ParentalControlsContext';
+import type { EpisodeRef } from '@/lib/watchState';
 import { Chip, Paper } from '@mui/material';
 import List from '@mui/material/List';
 import ListItem from '@mui/material/ListItem';
 import ListItemText from '@mui/material/ListItemText';
+import { addonSupportsResource, fetchCatalog, fetchMeta, getCatalogUniqueId } from '@/lib/addonClient';
+import { fetchTmdb } from '@/lib/tmdbClient';
+import { isAbortError } from '@/lib/network';
+import { getIdForAddon, resolveContentIds, type ContentIds } from '@/lib/idMapping';
+import { extractTmdbCertifications } from '@/lib/parentalControls';
+import type { InstalledAddon, MetaVideo } from '@/types/stremio';
 
 interface MetaDetails {
   id: string;
@@ -141,23 +152,31 @@ const getEnhancedImageUrl = (url: string | undefined): string => {
   return url;
 };
 
+// --- TMDB responses this page reads fields from ---
+interface TmdbImage {
+  file_path: string;
+  iso_639_1: string | null;
+  vote_average?: number;
+  vote_count?: number;
+}
+
+interface TmdbImagesResponse {
+  logos?: TmdbImage[];
+  backdrops?: TmdbImage[];
+}
+
+interface TmdbDetailsResponse {
+  seasons?: { season_number: number }[];
+}
+
+interface TmdbSeasonResponse {
+  episodes?: unknown[];
+}
+
 // --- Helper function to fetch data from TMDB ---
-const fetchTmdbData = async (path: string, apiKey: string, params?: Record<string, string>) => {
-  let queryString = `api_key=${apiKey}`;
-  if (params) {
-    queryString += `&${new URLSearchParams(params).toString()}`;
-  }
-  const url = `https://api.themoviedb.org/3${path}?${queryString}`;
-  console.log(`Fetching TMDB data from: ${url}`);
-  const response = await fetch(url);
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({})); // Try to parse error, default to empty obj
-    throw new Error(
-      `TMDB API error ${response.status}: ${response.statusText}. ` +
-      `${errorData?.status_message || 'No additional error message from TMDB.'}`
-    );
-  }
-  return response.json();
+const fetchTmdbData = async <T = unknown>(path: string, apiKey: string, params?: Record<string, string>, signal?: AbortSignal): Promise<T> => {
+  console.log(`Fetching TMDB data from: ${path}`);
+  return fetchTmdb<T>(path, apiKey, params, { signal });
 };
 
 // --- Helper function to transform TMDB API response to our Meta interface ---
@@ -206,16 +225,8 @@ const transformTmdbDetailsToMeta = (tmdbData: any, type: string, originalId: str
     }
   }
   
-  let certification: string | undefined = undefined;
-  if (type === 'movie' && tmdbData.release_dates?.results) {
-    const usRelease = tmdbData.release_dates.results.find((r: any) => r.iso_3166_1 === 'US');
-    if (usRelease?.release_dates?.length > 0) {
-      certification = usRelease.release_dates.find((rd: any) => rd.certification !== "")?.certification;
-    }
-  } else if (type === 'series' && tmdbData.content_ratings?.results) {
-    const usRating = tmdbData.content_ratings.results.find((r: any) => r.iso_3166_1 === 'US');
-    certification = usRating?.rating;
-  }
+  // Ratings for every region; parental controls check them, the page shows the US one
+  const certifications = extractTmdbCertifications(tmdbData, type);
 
   const releaseDate = tmdbData.release_date || tmdbData.first_air_date;
 
@@ -238,7 +249,8 @@ const transformTmdbDetailsToMeta = (tmdbData: any, type: string, originalId: str
     imdbRating: tmdbData.vote_average ? tmdbData.vote_average.toFixed(1) : undefined,
     country: tmdbData.production_countries?.map((c: any) => c.name) || [],
     language: tmdbData.spoken_languages?.map((l: any) => l.english_name) || [],
-    certification: certification,
+    certification: certifications.US,
+    certifications,
     trailer: trailerUrl,
     // videos: tmdbData.videos?.results.map((v:any) => ({id: v.key, title: v.name, type: v.type, site: v.site})), // map if needed
     // seasons: handled separately for series
@@ -278,6 +290,7 @@ interface Meta {
     streams?: any[];
     seasons?: Season[];
     certification?: string;
+    certifications?: Record<string, string>; // Region -> rating
     country?: string[];
     language?: string[];
     trailer?: string;
@@ -293,9 +306,12 @@ export default function DetailsPage() {
     installedAddons, 
     isLoading: isLoadingAddons, 
     error: addonContextError,
-    getAddonById // Get the function from context
+    getAddonById, // Get the function from context
+    getAddonsForResource
   } = useAddonContext(); // Use context
   const { tmdbApiKey, isTmdbEnabled } = useTmdbContext(); // Get TMDB context values
+  const { getProgress } = useWatchStateContext();
+  const { isInLibrary, toggleLibraryItem } = useLibraryContext();
   
   // Decode the ID parameter
   const id = typeof rawId === 'string' ? decodeURIComponent(rawId) : Array.isArray(rawId) ? decodeURIComponent(rawId[0]) : '';
@@ -304,6 +320,12 @@ export default function DetailsPage() {
   const type = typeof routeType === 'string' ? routeType : '';
 
   const [details, setDetails] = useState<Meta | null>(null);
+  // TMDB details already carry the ratings, which saves parental controls a lookup
+  const detailsRating = useMemo(
+    () => (details?.certifications ? { certifications: details.certifications, genres: details.genres || [] } : undefined),
+    [details?.certifications, details?.genres]
+  );
+  const contentAllowed = useContentAllowed(type, id, detailsRating);
   const [loadingDetails, setLoadingDetails] = useState<boolean>(true);
   const [pageError, setPageError] = useState<string | null>(null);
   const [partialMetadata, setPartialMetadata] = useState<boolean>(false);
@@ -320,30 +342,24 @@ export default function DetailsPage() {
   // Animation states
   const [contentLoaded, setContentLoaded] = useState(false);
   
-  const getCatalogUniqueId = (catalog: { type: string; id: string }) => `${catalog.type}/${catalog.id}`;
-
   // --- Restore fetchSeasons function --- 
-  const fetchSeasons = useCallback(async (addonBaseUrl: string, seriesType: string, seriesId: string): Promise<number[]> => {
+  const fetchSeasons = useCallback(async (addon: InstalledAddon, seriesType: string, seriesId: string, signal?: AbortSignal): Promise<number[]> => {
     try {
-      const metaUrl = `${addonBaseUrl}/meta/${seriesType}/${seriesId}.json`;
-      console.log(`DetailsPage (Seasons): Trying meta endpoint: ${metaUrl}`);
-      const response = await fetch(metaUrl);
-      if (response.ok) {
-        const data = await response.json();
-        if (data && data.meta && Array.isArray(data.meta.videos)) {
-          const seasonNumbersSet = new Set<number>();
-          data.meta.videos.forEach((video: any) => {
-            if (video.season !== undefined && video.season !== null) {
-              const seasonNum = Number(video.season);
-              if (!isNaN(seasonNum)) seasonNumbersSet.add(seasonNum);
-            }
-          });
-          const seasonNumbers = Array.from(seasonNumbersSet).sort((a, b) => a - b);
-          if (seasonNumbers.length > 0) {
-            console.log(`DetailsPage (Seasons): Found seasons in meta:`, seasonNumbers);
-            setAvailableSeasons(seasonNumbers);
-            return seasonNumbers;
+      console.log(`DetailsPage (Seasons): Trying meta endpoint of ${addon.name} for ${seriesType}/${seriesId}`);
+      const data = await fetchMeta(addon, seriesType, seriesId, undefined, { signal });
+      if (data.meta && Array.isArray(data.meta.videos)) {
+        const seasonNumbersSet = new Set<number>();
+        data.meta.videos.forEach((video: MetaVideo) => {
+          if (video.season !== undefined && video.season !== null) {
+            const seasonNum = Number(video.season);
+            if (!isNaN(seasonNum)) seasonNumbersSet.add(seasonNum);
           }
+        });
+        const seasonNumbers = Array.from(seasonNumbersSet).sort((a, b) => a - b);
+        if (seasonNumbers.length > 0) {
+          console.log(`DetailsPage (Seasons): Found seasons in meta:`, seasonNumbers);
+          setAvailableSeasons(seasonNumbers);
+          return seasonNumbers;
         }
       }
       // Fallback (you might have other legacy endpoints)
@@ -351,6 +367,7 @@ export default function DetailsPage() {
       setAvailableSeasons([1]);
       return [1]; 
     } catch (err) {
+      if (isAbortError(err)) return [];
       console.error(`DetailsPage (Seasons): Error fetching seasons for ${seriesId}:`, err);
       setAvailableSeasons([1]); // Default fallback
       return [1];
@@ -358,21 +375,17 @@ export default function DetailsPage() {
   }, []); // Empty dependency array, relies on arguments
 
   // --- Restore fetchEpisodes function ---
-  const fetchEpisodes = useCallback(async (addonBaseUrl: string, seriesType: string, seriesId: string, season: number) => {
+  const fetchEpisodes = useCallback(async (addon: InstalledAddon, seriesType: string, seriesId: string, season: number) => {
     setLoadingEpisodes(true);
     setEpisodesError(null);
     setEpisodes([]); // Clear previous episodes
     try {
-      const metaSeasonUrl = `${addonBaseUrl}/meta/${seriesType}/${seriesId}/season=${season}.json`;
-      console.log(`DetailsPage (Episodes): Fetching episodes from: ${metaSeasonUrl}`);
-      const response = await fetch(metaSeasonUrl);
-      if (!response.ok) throw new Error(`HTTP error ${response.status} fetching episodes from ${metaSeasonUrl}`);
-      
-      const data = await response.json();
+      console.log(`DetailsPage (Episodes): Fetching S${season} episodes of ${seriesId} from ${addon.name}`);
+      const data = await fetchMeta(addon, seriesType, seriesId, { season });
       let fetchedEpData: Episode[] = [];
 
-      if (data?.meta?.episodes) {
-          fetchedEpData = data.meta.episodes.map((ep: any): Episode => ({
+      if (data.meta?.episodes) {
+          fetchedEpData = data.meta.episodes.map((ep: MetaVideo): Episode => ({
             id: ep.id || `${seriesId}-s${season}-e${ep.episode || 0}`,
             title: ep.title || ep.name || `Episode ${ep.episode || 0}`,
             overview: ep.overview || ep.description || '',
@@ -382,10 +395,10 @@ export default function DetailsPage() {
             released: ep.released || ep.air_date || '',
             runtime: ep.runtime || ep.duration || ''
           }));
-      } else if (data?.meta?.videos) { // Check videos array as fallback
+      } else if (data.meta?.videos) { // Check videos array as fallback
            fetchedEpData = data.meta.videos
-            .filter((v: any) => v.season === season || (season === 1 && v.season === undefined)) // Filter by season
-            .map((v: any): Episode => ({ 
+            .filter((v: MetaVideo) => v.season === season || (season === 1 && v.season === undefined)) // Filter by season
+            .map((v: MetaVideo): Episode => ({ 
               id: v.id || `${seriesId}-s${season}-e${v.episode || 0}`,
               title: v.title || v.name || `Episode ${v.episode || 0}`,
               overview: v.overview || v.description || '',
@@ -427,11 +440,16 @@ export default function DetailsPage() {
         return;
     }
 
+    // Aborted on cleanup so a stale item can't overwrite the one being navigated to
+    const abortController = new AbortController();
+    const { signal } = abortController;
+
     // --- Check for TMDB ID and settings ---
     const isTmdbId = id.startsWith('tmdb:');
     const canFetchTmdb = isTmdbId && isTmdbEnabled && !!tmdbApiKey;
 
     // --- Function to fetch and transform TMDB data ---
+    let fallingBackToAddons = false;
     const fetchTmdbDetails = async () => {
         setLoadingDetails(true);
         setPageError(null);
@@ -454,13 +472,13 @@ export default function DetailsPage() {
         const tmdbType = type === 'series' ? 'tv' : 'movie';
         const path = `/${tmdbType}/${numericId}`;
         const queryParams = {
-            append_to_response: `images,videos,credits,external_ids${tmdbType === 'tv' ? ',content_ratings' : ''}`,
+            append_to_response: `images,videos,credits,external_ids,${tmdbType === 'tv' ? 'content_ratings' : 'release_dates'}`,
             language: 'en-US'
         };
 
         try {
             console.log(`DetailsPage (TMDB): Fetching details for ${path}`);
-            const tmdbData = await fetchTmdbData(path, tmdbApiKey, queryParams);
+            const tmdbData = await fetchTmdbData<TmdbDetailsResponse>(path, tmdbApiKey, queryParams, signal);
             console.log(`DetailsPage (TMDB): Received data:`, tmdbData);
 
             const transformedDetails = transformTmdbDetailsToMeta(tmdbData, type, id as string);
@@ -487,21 +505,11 @@ export default function DetailsPage() {
               try {
                 const imagePath = `/${tmdbType}/${numericId}/images`;
                 const imageParams = {
-                  api_key: tmdbApiKey,
                   include_image_language: 'en,null'  // Get English and language-neutral images
                 };
                 
-                // Construct URL manually since we're using a different parameter format
-                const queryString = new URLSearchParams(imageParams).toString();
-                const imageUrl = `https://api.themoviedb.org/3${imagePath}?${queryString}`;
-                
-                console.log(`DetailsPage (TMDB): Fetching images from: ${imageUrl}`);
-                const response = await fetch(imageUrl);
-                if (!response.ok) {
-                  throw new Error(`Image fetch failed: ${response.status}`);
-                }
-                
-                const imageData = await response.json();
+                console.log(`DetailsPage (TMDB): Fetching images from: ${imagePath}`);
+                const imageData = await fetchTmdbData<TmdbImagesResponse>(imagePath, tmdbApiKey, imageParams, signal);
                 console.log(`DetailsPage (TMDB): Got image data:`, imageData);
                 
                 // Update details object with a functional update to ensure we have the latest state
@@ -514,8 +522,8 @@ export default function DetailsPage() {
                   // Check if there are logos
                   if (imageData.logos && imageData.logos.length > 0) {
                     // Find the best logo (prefer English, then null language, then first available)
-                    const englishLogo = imageData.logos.find((logo: any) => logo.iso_639_1 === 'en');
-                    const neutralLogo = imageData.logos.find((logo: any) => logo.iso_639_1 === null);
+                    const englishLogo = imageData.logos.find(logo => logo.iso_639_1 === 'en');
+                    const neutralLogo = imageData.logos.find(logo => logo.iso_639_1 === null);
                     const bestLogo = englishLogo || neutralLogo || imageData.logos[0];
                     
                     if (bestLogo) {
@@ -556,6 +564,7 @@ export default function DetailsPage() {
                 });
                 
               } catch (error) {
+                if (isAbortError(error)) return;
                 console.error(`DetailsPage (TMDB): Error fetching images:`, error);
                 // Don't set an error state or affect the UI if image fetch fails
               }
@@ -567,8 +576,8 @@ export default function DetailsPage() {
             // --- Handle TMDB Series Seasons ---
             if (tmdbType === 'tv' && tmdbData.seasons) {
                 const seasonNumbers = tmdbData.seasons
-                    .filter((s: any) => s.season_number !== 0) // Often season 0 is specials
-                    .map((s: any) => s.season_number)
+                    .filter(s => s.season_number !== 0) // Often season 0 is specials
+                    .map(s => s.season_number)
                     .sort((a: number, b: number) => a - b);
                 console.log(`DetailsPage (TMDB): Found seasons:`, seasonNumbers);
                 setAvailableSeasons(seasonNumbers);
@@ -585,11 +594,18 @@ export default function DetailsPage() {
             }
 
         } catch (error: any) {
+            if (isAbortError(error)) return;
             console.error(`DetailsPage (TMDB): Error fetching details:`, error);
+            if (installedAddons.length > 0) {
+                // Addons can answer for TMDB items through the ID mapping
+                console.log("DetailsPage (TMDB): Falling back to Stremio addons.");
+                fallingBackToAddons = true;
+                fetchStremioDetails();
+                return;
+            }
             setPageError(`Failed to load details from TMDB: ${error.message}`);
-            // Maybe fallback to Stremio here? For now, just show error.
         } finally {
-            setLoadingDetails(false);
+            if (!signal.aborted && !fallingBackToAddons) setLoadingDetails(false);
         }
     };
     
@@ -606,7 +622,8 @@ export default function DetailsPage() {
       let triedBasicMeta = false;
 
       // --- Prioritize Addons ---
-      const prioritizedAddons = [...installedAddons];
+      // Addon priority for details (see the Addons page); the addon the user came from goes first
+      const prioritizedAddons = [...getAddonsForResource('meta')];
       if (sourceAddonId) {
           const sourceIndex = prioritizedAddons.findIndex(a => a.id === sourceAddonId);
           if (sourceIndex > 0) {
@@ -623,44 +640,40 @@ export default function DetailsPage() {
           return;
       }
 
+      // Alternate IDs so addons can answer for tmdb: items too (served from cache when known)
+      let contentIds: ContentIds = {};
+      try {
+        contentIds = await resolveContentIds(id, type, isTmdbEnabled ? tmdbApiKey : null, { signal });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.warn(`DetailsPage: Could not resolve alternate IDs for ${id}:`, err);
+      }
+      if (signal.aborted) return;
+      const knownIds = new Set([id, ...Object.values(contentIds)]);
+
       // 1. Fetch Full Metadata
       console.log(`DetailsPage: Fetching details for ${type} ${id} from ${prioritizedAddons.length} addons.`);
       let partialMeta: Meta | null = null;
       for (const addon of prioritizedAddons) {
         // Skip if addon has no meta resource defined or doesn't support the type
-        const providesMeta = addon.resources?.some(resource => 
-            (typeof resource === 'string' && resource === 'meta') ||
-            (typeof resource === 'object' && resource.name === 'meta' && (!resource.types || resource.types.includes(type)))
-        );
+        const providesMeta = addonSupportsResource(addon, 'meta', type);
         if (!providesMeta) {
             console.log(`DetailsPage: Skipping meta fetch for ${addon.name} (doesn't provide meta for type ${type})`);
             continue;
         }
 
-        // --- Add check for TMDB ID before querying Stremio addon ---
-        console.log(`DetailsPage: Checking ID value before skip: '${id}' (type: ${typeof id})`);
-        if (id.startsWith('tmdb:')) {
-            console.warn(`DetailsPage: Skipping meta fetch for ${addon.name} (${type}/${id}) because Stremio addons don't support 'tmdb:' prefixed IDs directly.`);
+        // --- Pick an ID this addon understands (tmdb: items usually need their IMDb ID) ---
+        const idForAddon = getIdForAddon(addon, 'meta', type, id, contentIds);
+        if (!idForAddon) {
+            console.log(`DetailsPage: Skipping meta fetch for ${addon.name} (${type}/${id}), none of its IDs are supported.`);
             continue; // Skip this addon for this ID
         }
-        // --- End check ---
 
         try {
-          const manifestUrlParts = addon.manifestUrl.split('/');
-          manifestUrlParts.pop();
-          const baseUrl = manifestUrlParts.join('/');
-          const metaUrl = `${baseUrl}/meta/${type}/${id}.json`;
-          console.log(`DetailsPage: Trying meta endpoint: ${metaUrl}`);
-          
-          const response = await fetch(metaUrl);
-          if (!response.ok) {
-            console.warn(`DetailsPage: Failed meta fetch from ${addon.name} (${metaUrl}): ${response.statusText}`);
-            continue; 
-          }
+          console.log(`DetailsPage: Trying meta endpoint of ${addon.name} for ${type}/${idForAddon}`);
+          const data = await fetchMeta(addon, type, idForAddon, undefined, { signal });
           
-          const data = await response.json(); // Expecting StremioMetaResponse structure
-          
-          if (data && data.meta && hasMinimalProperties(data.meta)) {
+          if (data.meta && hasMinimalProperties(data.meta)) {
              console.log(`DetailsPage: Received meta from ${addon.name}`);
              const currentMeta = data.meta as Meta; // Type assertion
 
@@ -680,9 +693,10 @@ export default function DetailsPage() {
                 partialMeta = currentMeta;
              }
           } else {
-             console.warn(`DetailsPage: Invalid or empty meta received from ${addon.name} (${metaUrl})`, data);
+             console.warn(`DetailsPage: Invalid or empty meta received from ${addon.name} for ${type}/${id}`, data);
           }
         } catch (addonError) {
+          if (isAbortError(addonError)) return;
           console.error(`DetailsPage: Error fetching meta from addon ${addon.name}:`, addonError);
         }
       }
@@ -707,25 +721,17 @@ export default function DetailsPage() {
                 );
                 
                 if (filteredCatalogs.length === 0) continue;
-                const manifestUrlParts = addon.manifestUrl.split('/');
-                manifestUrlParts.pop();
-                const baseUrl = manifestUrlParts.join('/');
                 
                 for (const catalog of filteredCatalogs) {
                   try {
-                    const catalogUrl = `${baseUrl}/catalog/${catalog.type}/${catalog.id}.json`;
-                    const response = await fetch(catalogUrl);
-                    if (!response.ok) continue;
-                    const data = await response.json();
-                    if (data && Array.isArray(data.metas)) {
-                      const item = data.metas.find((meta: any) => meta.id === id);
-                      if (item && item.name && item.id && item.type) { // Basic check
-                        basicInfo = {
-                          id: item.id, type: item.type, name: item.name, poster: item.poster
-                        };
-                        console.log(`DetailsPage: Extracted basic info from ${addon.name}/${catalog.id}`);
-                        break; 
-                      }
+                    const data = await fetchCatalog(addon, catalog.type, catalog.id, undefined, { signal });
+                    const item = data.metas.find(meta => knownIds.has(meta.id));
+                    if (item && item.name && item.id && item.type) { // Basic check
+                      basicInfo = {
+                        id: item.id, type: item.type, name: item.name, poster: item.poster
+                      };
+                      console.log(`DetailsPage: Extracted basic info from ${addon.name}/${catalog.id}`);
+                      break;
                     }
                   } catch (err) { console.warn(`DetailsPage: Error checking catalog ${addon.name}/${catalog.id} for basic info:`, err); }
                 }
@@ -744,6 +750,7 @@ export default function DetailsPage() {
       }
 
       // 3. Update State
+      if (signal.aborted) return;
       setDetails(fetchedDetails); // Set final details (could be full, partial, or basic)
       setPageError(detailFetchError); // Set page error only if detail fetching failed completely
       setLoadingDetails(false);
@@ -751,7 +758,7 @@ export default function DetailsPage() {
       // --- If details found AND it's a series, fetch available seasons ---
       if (fetchedDetails && fetchedDetails.type === 'series') {
           // Find the addon that provided the details to get its base URL
-          let addonUsedForDetails: any = null;
+          let addonUsedForDetails: InstalledAddon | undefined = undefined;
           if (sourceAddonId) addonUsedForDetails = getAddonById(sourceAddonId);
           if (!addonUsedForDetails) { // Fallback if source ID missing or addon not found
              // Heuristic: assume the first addon in the list provided it, or find based on fetchedDetails content if possible
@@ -760,11 +767,8 @@ export default function DetailsPage() {
           }
 
           if (addonUsedForDetails) {
-              const manifestUrlParts = addonUsedForDetails.manifestUrl.split('/');
-              manifestUrlParts.pop();
-              const baseUrl = manifestUrlParts.join('/');
-              console.log(`DetailsPage: Fetching seasons using base URL from addon: ${addonUsedForDetails.name}`);
-              await fetchSeasons(baseUrl, fetchedDetails.type, fetchedDetails.id);
+              console.log(`DetailsPage: Fetching seasons using addon: ${addonUsedForDetails.name}`);
+              await fetchSeasons(addonUsedForDetails, fetchedDetails.type, fetchedDetails.id, signal);
           } else {
               console.warn("DetailsPage: Could not determine addon base URL to fetch seasons.");
               setAvailableSeasons([1]); // Default fallback
@@ -798,9 +802,9 @@ export default function DetailsPage() {
       fetchStremioDetails(); // Call the original Stremio fetching logic
     }
 
-    // Clean up function (optional)
+    // Cancel any ongoing fetches when the item changes or the page unmounts
     return () => {
-        // Cancel any ongoing fetches if necessary
+        abortController.abort();
     };
 
   }, [
@@ -811,6 +815,7 @@ export default function DetailsPage() {
       isLoadingAddons, 
       addonContextError, 
       getAddonById, 
+      getAddonsForResource,
       fetchSeasons, // Keep fetchSeasons for Stremio path
       // Add TMDB dependencies
       tmdbApiKey,
@@ -833,6 +838,7 @@ export default function DetailsPage() {
         }
 
         if (canFetchTmdbEpisodes) {
+            const abortController = new AbortController();
             // --- Fetch TMDB Episodes ---
             const fetchTmdbEpisodesInternal = async () => {
                 setLoadingEpisodes(true);
@@ -851,7 +857,7 @@ export default function DetailsPage() {
                 
                 try {
                     console.log(`DetailsPage (TMDB Episodes): Fetching episodes for ${path} S${seasonToFetch}`);
-                    const seasonData = await fetchTmdbData(path, tmdbApiKey, queryParams);
+                    const seasonData = await fetchTmdbData<TmdbSeasonResponse>(path, tmdbApiKey, queryParams, abortController.signal);
                     
                     if (seasonData && Array.isArray(seasonData.episodes)) {
                          // TODO: Implement transformTmdbEpisodeToLocalFormat
@@ -869,30 +875,29 @@ export default function DetailsPage() {
                     }
 
                 } catch (err: any) {
+                     if (isAbortError(err)) return;
                      console.error(`DetailsPage (TMDB Episodes): Error fetching episodes for ${details.id} S${seasonToFetch}:`, err);
                      setEpisodesError(err.message || 'Failed to load episodes for this season from TMDB');
                 } finally {
-                    setLoadingEpisodes(false);
+                    if (!abortController.signal.aborted) setLoadingEpisodes(false);
                 }
             };
             fetchTmdbEpisodesInternal();
+            return () => abortController.abort(); // Season switched before the response arrived
 
         } else if (!isTmdbId) { 
              // --- Fetch Stremio Episodes (Existing Logic) ---
              // Find addon base URL again (similar logic as above)
-             let addonUsedForDetails: any = null;
+             let addonUsedForDetails: InstalledAddon | undefined = undefined;
              if (sourceAddonId) addonUsedForDetails = getAddonById(sourceAddonId);
              if (!addonUsedForDetails) { 
                  addonUsedForDetails = installedAddons.find(a => a.id === details.id.split(':')[0]); // Try to guess from meta ID prefix
-                 if (!addonUsedForDetails) addonUsedForDetails = installedAddons[0]; // Last resort
+                 if (!addonUsedForDetails) addonUsedForDetails = getAddonsForResource('meta')[0]; // Last resort
              }
 
              if (addonUsedForDetails) {
-                 const manifestUrlParts = addonUsedForDetails.manifestUrl.split('/');
-                 manifestUrlParts.pop();
-                 const baseUrl = manifestUrlParts.join('/');
-                 console.log(`DetailsPage: Fetching episodes for S${seasonToFetch} using base URL from addon: ${addonUsedForDetails.name}`);
-                 fetchEpisodes(baseUrl, details.type, details.id, seasonToFetch);
+                 console.log(`DetailsPage: Fetching episodes for S${seasonToFetch} using addon: ${addonUsedForDetails.name}`);
+                 fetchEpisodes(addonUsedForDetails, details.type, details.id, seasonToFetch);
              } else {
                  console.error("DetailsPage: Could not determine addon base URL to fetch episodes.");
                  setEpisodesError("Could not determine addon source for episodes.");
@@ -911,6 +916,7 @@ export default function DetailsPage() {
       installedAddons, 
       sourceAddonId, 
       getAddonById, 
+      getAddonsForResource,
       fetchEpisodes, // Keep for Stremio path
       // Add TMDB dependencies
       tmdbApiKey, 
@@ -946,6 +952,24 @@ export default function DetailsPage() {
     openStreamDialog({ season: episode.season, episode: episode.episode });
   };
 
+  // Next episode after the one in the stream dialog: the next one in this season, else the
+  // first episode of the following season
+  const getNextEpisodeTarget = (): EpisodeRef | null => {
+    if (!streamTarget?.season || !streamTarget.episode) return null;
+    const seasonEpisodes = episodes.filter(ep => ep.season === streamTarget.season).sort((a, b) => a.episode - b.episode);
+    const nextInSeason = seasonEpisodes.find(ep => ep.episode > streamTarget.episode!);
+    if (nextInSeason) return { season: nextInSeason.season, episode: nextInSeason.episode };
+    const nextSeason = availableSeasons.filter(seasonNumber => seasonNumber > streamTarget.season!).sort((a, b) => a - b)[0];
+    return nextSeason ? { season: nextSeason, episode: 1 } : null;
+  };
+
+  const handlePlayNextEpisode = () => {
+    const next = getNextEpisodeTarget();
+    if (!next) return;
+    if (next.season !== selectedSeason) setSelectedSeason(next.season);
+    setStreamTarget(next);
+  };
+
   // --- Display Logic ---
   // ... loading/error checks ...
 
@@ -953,7 +977,20 @@ export default function DetailsPage() {
   const episodesToDisplay = episodes; // Use the fetched episodes state directly
   const showEpisodesSection = details && details.type === 'series'; // Show if it's a series
 
-  if (!details) { /* ... handle loading or error states ... */ return null; }
+  if (contentAllowed === false) {
+    return (
+      <Box sx={{ pt: 12, px: { xs: 2, md: 7.5 }, minHeight: '100vh', backgroundColor: '#141414' }}>
+        <Alert severity="info" sx={{ backgroundColor: '#1f1f1f', color: 'white' }}>
+          This title is blocked by parental controls on this profile.
+        </Alert>
+        <Button color="inherit" onClick={() => router.push('/')} sx={{ mt: 2, color: 'grey.300' }}>
+          Back to Home
+        </Button>
+      </Box>
+    );
+  }
+
+  if (!details || contentAllowed === null) { /* ... handle loading or error states ... */ return null; }
 
   // --- Render Details --- 
   return (
@@ -1144,14 +1181,27 @@ export default function DetailsPage() {
             
             <Button
               variant="contained"
-              startIcon={<AddIcon />}
+              startIcon={isInLibrary(id) ? <CheckIcon /> : <AddIcon />}
+              onClick={() => toggleLibraryItem({
+                id,
+                type: details.type,
+                name: details.name,
+                poster: details.poster,
+                background: details.background,
+                logo: details.logo,
+                description: details.description,
+                releaseInfo: details.releaseInfo,
+                year: details.year,
+                imdbRating: details.imdbRating,
+                genres: details.genres,
+              })}
               sx={{ 
                 backgroundColor: 'rgba(133,133,133,0.6)', 
                 color: 'white',
                 '&:hover': { backgroundColor: 'rgba(133,133,133,0.4)' }
               }}
             >
-              My List
+              {isInLibrary(id) ? 'In My List' : 'My List'}
             </Button>
             
             <Box sx={{ 
@@ -1274,6 +1324,7 @@ export default function DetailsPage() {
                         <EpisodeItem 
                           episode={episode} 
                           onClick={() => handleEpisodeClick(episode)} 
+                          progress={getProgress({ contentId: String(id), season: episode.season, episode: episode.episode })}
                         />
                       </div>
                     </Zoom>
@@ -1319,7 +1370,11 @@ export default function DetailsPage() {
             season={streamTarget?.season}
             episode={streamTarget?.episode}
             contentName={details?.name}
+            contentPoster={details?.poster}
+            contentBackground={details?.background}
+            nextEpisode={details?.type === 'series' ? getNextEpisodeTarget() : undefined}
             initialAddonId={sourceAddonId}
+            onPlayNextEpisode={details?.type === 'series' && getNextEpisodeTarget() ? handlePlayNextEpisode : undefined}
           />
         </div>
       </Grow>
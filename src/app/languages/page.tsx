@@ -0,0 +1,53 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControl from '@mui/material/FormControl';
+import BrowsePage from '@/components/BrowsePage';
+import { loadLanguageRows } from '@/lib/browsePages';
+import { TMDB_LANGUAGE_OPTIONS } from '@/lib/catalogBrowse';
+
+const selectSx = {
+  color: 'white',
+  backgroundColor: 'rgba(0,0,0,0.6)',
+  '.MuiOutlinedInput-notchedOutline': { borderColor: 'grey.500' },
+  '.MuiSvgIcon-root': { color: 'white' },
+};
+
+// Titles by original language; the language is kept in the URL (?language=ko) so the page can be shared
+export default function LanguagesPage() {
+  const searchParams = useSearchParams();
+  const pathname = usePathname();
+  const router = useRouter();
+
+  const requestedLanguage = searchParams.get('language');
+  const language = TMDB_LANGUAGE_OPTIONS.find(option => option.value === requestedLanguage) || TMDB_LANGUAGE_OPTIONS[0];
+  const loadRows = useMemo(() => loadLanguageRows(language), [language]);
+
+  const languagePicker = (
+    <FormControl size="small" sx={{ minWidth: 160 }}>
+      <Select
+        value={language.value}
+        onChange={(e) => router.replace(`${pathname}?language=${encodeURIComponent(e.target.value)}`, { scroll: false })}
+        inputProps={{ 'aria-label': 'Original language' }}
+        sx={selectSx}
+        MenuProps={{ PaperProps: { sx: { backgroundColor: '#1f1f1f', color: 'white', maxHeight: 400 } } }}
+      >
+        {TMDB_LANGUAGE_OPTIONS.map(option => (
+          <MenuItem key={option.value} value={option.value}>{option.label}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <BrowsePage
+      title="Browse by Languages"
+      loadRows={loadRows}
+      heroControls={languagePicker}
+      emptyMessage={`Nothing in ${language.label} to show. Configure a TMDB API key, or select catalogs whose titles list their language.`}
+    />
+  );
+}
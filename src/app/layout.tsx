@@ -8,6 +8,15 @@ import theme from './theme'; // Assuming a theme file exists or will be created
 import Header from '../components/Header'; // Import the Header component
 import { AddonProvider } from '@/context/AddonContext'; // Import the AddonProvider
 import { TmdbProvider } from '@/context/TmdbContext'; // Import the TmdbProvider
+import { StreamProfileProvider } from '@/context/StreamProfileContext';
+import { StreamingServerProvider } from '@/context/StreamingServerContext';
+import { WatchStateProvider } from '@/context/WatchStateContext';
+import { LibraryProvider } from '@/context/LibraryContext';
+import { ParentalControlsProvider } from '@/context/ParentalControlsContext';
+import { ProfileProvider } from '@/context/ProfileContext';
+import { SyncProvider } from '@/context/SyncContext';
+import { HomeLayoutProvider } from '@/context/HomeLayoutContext';
+import ProfileGate from '@/components/ProfileGate';
 
 // Removed Geist font definitions
 // const geistSans = Geist({
@@ -39,12 +48,30 @@ export default function RootLayout({
           <ThemeProvider theme={theme}>
             {/* CssBaseline kickstarts an elegant, consistent, and simple baseline to build upon. */}
             <CssBaseline />
-            <TmdbProvider>
-              <AddonProvider>
-                <Header />
-                <main>{children}</main>
-              </AddonProvider>
-            </TmdbProvider>
+            <ProfileProvider>
+              <ProfileGate>
+                <SyncProvider>
+                  <TmdbProvider>
+                    <AddonProvider>
+                      <StreamProfileProvider>
+                        <StreamingServerProvider>
+                          <WatchStateProvider>
+                            <LibraryProvider>
+                              <ParentalControlsProvider>
+                                <HomeLayoutProvider>
+                                  <Header />
+                                  <main>{children}</main>
+                                </HomeLayoutProvider>
+                              </ParentalControlsProvider>
+                            </LibraryProvider>
+                          </WatchStateProvider>
+                        </StreamingServerProvider>
+                      </StreamProfileProvider>
+                    </AddonProvider>
+                  </TmdbProvider>
+                </SyncProvider>
+              </ProfileGate>
+            </ProfileProvider>
           </ThemeProvider>
         </AppRouterCacheProvider>
       </body>
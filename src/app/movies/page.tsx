@@ -0,0 +1,17 @@
+'use client';
+
+import React from 'react';
+import BrowsePage from '@/components/BrowsePage';
+import { loadTypeRows } from '@/lib/browsePages';
+
+const loadMovieRows = loadTypeRows('movie');
+
+export default function MoviesPage() {
+  return (
+    <BrowsePage
+      title="Movies"
+      loadRows={loadMovieRows}
+      emptyMessage="No movies to show. Configure a TMDB API key, or select movie catalogs on the Addons page."
+    />
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Select from '@mui/material/Select';
+import MenuItem from '@mui/material/MenuItem';
+import FormControl from '@mui/material/FormControl';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Checkbox from '@mui/material/Checkbox';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useLibraryContext } from '@/context/LibraryContext';
+import {
+  getLibraryItemYear,
+  LIBRARY_SORT_LABELS,
+  sortLibraryItems,
+  type LibraryItem,
+  type LibrarySortKey,
+} from '@/lib/library';
+
+const TYPE_LABELS: Record<string, string> = { movie: 'Movies', series: 'TV Shows' };
+
+const getTypeLabel = (type: string) => TYPE_LABELS[type] || type.charAt(0).toUpperCase() + type.slice(1);
+
+export default function MyListPage() {
+  const router = useRouter();
+  const { libraryItems, isLoading, removeFromLibrary } = useLibraryContext();
+  const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [sortKey, setSortKey] = useState<LibrarySortKey>('addedAt');
+  const [sortDescending, setSortDescending] = useState(true);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+
+  // Types present in the library, movies and series first
+  const availableTypes = useMemo(() => {
+    const types = [...new Set(libraryItems.map(item => item.type))];
+    return types.sort((a, b) => (TYPE_LABELS[b] ? 1 : 0) - (TYPE_LABELS[a] ? 1 : 0) || a.localeCompare(b));
+  }, [libraryItems]);
+
+  const visibleItems = useMemo(() => sortLibraryItems(
+    typeFilter === 'all' ? libraryItems : libraryItems.filter(item => item.type === typeFilter),
+    sortKey,
+    sortDescending
+  ), [libraryItems, typeFilter, sortKey, sortDescending]);
+
+  const handleSortKeyChange = (key: LibrarySortKey) => {
+    setSortKey(key);
+    setSortDescending(key !== 'name'); // Newest/highest first, names A-Z
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const exitSelectMode = () => {
+    setSelectMode(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleItemClick = (item: LibraryItem) => {
+    if (selectMode) {
+      toggleSelected(item.id);
+      return;
+    }
+    router.push(`/details/${item.type}/${item.id}`);
+  };
+
+  const handleBulkRemove = () => {
+    removeFromLibrary([...selectedIds]);
+    setConfirmOpen(false);
+    exitSelectMode();
+  };
+
+  const allVisibleSelected = visibleItems.length > 0 && visibleItems.every(item => selectedIds.has(item.id));
+
+  return (
+    <Box sx={{ pt: 12, px: { xs: 2, md: 7.5 }, pb: 6, minHeight: '100vh', backgroundColor: '#141414' }}>
+      <Typography variant="h4" sx={{ color: 'white', mb: 3, fontWeight: 'bold' }}>
+        My List
+      </Typography>
+
+      {isLoading && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 8 }}>
+          <CircularProgress sx={{ color: 'red' }} />
+        </Box>
+      )}
+
+      {!isLoading && libraryItems.length === 0 && (
+        <Alert severity="info" sx={{ backgroundColor: '#1f1f1f', color: 'white' }}>
+          Your list is empty. Use the My List button on a title, or the + on a card, to save it here.
+        </Alert>
+      )}
+
+      {!isLoading && libraryItems.length > 0 && (
+        <>
+          {/* Filters, sorting and bulk actions */}
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1.5, mb: 3 }}>
+            {['all', ...availableTypes].map(type => (
+              <Chip
+                key={type}
+                label={type === 'all' ? `All (${libraryItems.length})` : getTypeLabel(type)}
+                onClick={() => setTypeFilter(type)}
+                sx={{
+                  backgroundColor: typeFilter === type ? 'white' : 'rgba(255,255,255,0.1)',
+                  color: typeFilter === type ? 'black' : 'white',
+                  fontWeight: typeFilter === type ? 'bold' : 'normal',
+                  '&:hover': { backgroundColor: typeFilter === type ? 'rgba(255,255,255,0.85)' : 'rgba(255,255,255,0.2)' },
+                }}
+              />
+            ))}
+
+            <Box sx={{ flexGrow: 1 }} />
+
+            <FormControl size="small" sx={{ minWidth: 150 }}>
+              <Select
+                value={sortKey}
+                onChange={(e) => handleSortKeyChange(e.target.value as LibrarySortKey)}
+                sx={{ color: 'white', backgroundColor: '#2b2b2b', '.MuiOutlinedInput-notchedOutline': { borderColor: 'grey.700' }, '.MuiSvgIcon-root': { color: 'white' } }}
+                MenuProps={{ PaperProps: { sx: { backgroundColor: '#1f1f1f', color: 'white' } } }}
+              >
+                {(Object.keys(LIBRARY_SORT_LABELS) as LibrarySortKey[]).map(key => (
+                  <MenuItem key={key} value={key}>{LIBRARY_SORT_LABELS[key]}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <Tooltip title={sortDescending ? 'Descending' : 'Ascending'}>
+              <IconButton onClick={() => setSortDescending(prev => !prev)} sx={{ color: 'white' }} aria-label="Toggle sort direction">
+                {sortDescending ? <ArrowDownwardIcon /> : <ArrowUpwardIcon />}
+              </IconButton>
+            </Tooltip>
+
+            {selectMode ? (
+              <>
+                <Button
+                  color="inherit"
+                  onClick={() => setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleItems.map(item => item.id)))}
+                  sx={{ color: 'grey.300' }}
+                >
+                  {allVisibleSelected ? 'Select none' : 'Select all'}
+                </Button>
+                <Button
+                  variant="contained"
+                  startIcon={<DeleteIcon />}
+                  disabled={selectedIds.size === 0}
+                  onClick={() => setConfirmOpen(true)}
+                  sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+                >
+                  Remove ({selectedIds.size})
+                </Button>
+                <Button color="inherit" onClick={exitSelectMode} sx={{ color: 'grey.300' }}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <Button variant="outlined" color="inherit" onClick={() => setSelectMode(true)} sx={{ color: 'grey.300' }}>
+                Select
+              </Button>
+            )}
+          </Box>
+
+          {/* Poster grid */}
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: { xs: 'repeat(auto-fill, minmax(120px, 1fr))', md: 'repeat(auto-fill, minmax(170px, 1fr))' },
+              gap: { xs: 1.5, md: 2 },
+            }}
+          >
+            {visibleItems.map(item => {
+              const imageUrl = item.poster || item.background;
+              const showImage = imageUrl && !failedImages.has(item.id);
+              const year = getLibraryItemYear(item);
+              const selected = selectedIds.has(item.id);
+              return (
+                <Box key={item.id} onClick={() => handleItemClick(item)} sx={{ cursor: 'pointer' }}>
+                  <Box
+                    sx={{
+                      position: 'relative',
+                      aspectRatio: '2 / 3',
+                      borderRadius: '4px',
+                      overflow: 'hidden',
+                      backgroundColor: 'grey.800',
+                      outline: selected ? '3px solid #e50914' : 'none',
+                      transition: 'transform 0.3s ease',
+                      '&:hover': { transform: selectMode ? 'none' : 'scale(1.04)' },
+                    }}
+                  >
+                    {showImage ? (
+                      <Image
+                        src={imageUrl}
+                        alt={item.name}
+                        fill
+                        style={{ objectFit: 'cover' }}
+                        sizes="(max-width: 900px) 120px, 170px"
+                        onError={() => setFailedImages(prev => new Set(prev).add(item.id))}
+                      />
+                    ) : (
+                      <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 1.5, textAlign: 'center', background: 'linear-gradient(45deg, #181818 0%, #2a2a2a 100%)' }}>
+                        <Typography variant="body2" sx={{ color: 'grey.300', fontWeight: 'medium' }}>
+                          {item.name}
+                        </Typography>
+                      </Box>
+                    )}
+                    {selectMode && (
+                      <Checkbox
+                        checked={selected}
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={() => toggleSelected(item.id)}
+                        inputProps={{ 'aria-label': `Select ${item.name}` }}
+                        sx={{ position: 'absolute', top: 4, left: 4, color: 'white', backgroundColor: 'rgba(0,0,0,0.5)', p: 0.5, '&.Mui-checked': { color: '#e50914' } }}
+                      />
+                    )}
+                  </Box>
+                  <Typography variant="body2" noWrap sx={{ color: 'white', mt: 1, fontWeight: 'medium' }}>
+                    {item.name}
+                  </Typography>
+                  <Typography variant="caption" sx={{ color: 'grey.500' }}>
+                    {[year, item.imdbRating ? `★ ${item.imdbRating}` : null, getTypeLabel(item.type)].filter(Boolean).join(' · ')}
+                  </Typography>
+                </Box>
+              );
+            })}
+          </Box>
+        </>
+      )}
+
+      <Dialog
+        open={confirmOpen}
+        onClose={() => setConfirmOpen(false)}
+        PaperProps={{ sx: { backgroundColor: '#1f1f1f', color: 'white' } }}
+      >
+        <DialogTitle>Remove {selectedIds.size} {selectedIds.size === 1 ? 'title' : 'titles'} from My List?</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ color: 'grey.400' }}>
+            Watch progress for these titles is kept.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setConfirmOpen(false)}>Cancel</Button>
+          <Button variant="contained" onClick={handleBulkRemove} sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}>
+            Remove
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
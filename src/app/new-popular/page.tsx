@@ -0,0 +1,15 @@
+'use client';
+
+import React from 'react';
+import BrowsePage from '@/components/BrowsePage';
+import { loadNewAndPopularRows } from '@/lib/browsePages';
+
+export default function NewAndPopularPage() {
+  return (
+    <BrowsePage
+      title="New & Popular"
+      loadRows={loadNewAndPopularRows}
+      emptyMessage="Nothing new to show. Configure a TMDB API key, or select catalogs on the Addons page."
+    />
+  );
+}
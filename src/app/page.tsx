@@ -1,23 +1,25 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { Box, CircularProgress, Typography, Alert } from '@mui/material';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Box, CircularProgress, Typography, Alert, Button } from '@mui/material';
+import DashboardCustomizeIcon from '@mui/icons-material/DashboardCustomize';
 import Hero from '../components/Hero';
 import MediaRow from '../components/MediaRow';
+import ContinueWatchingRow from '../components/ContinueWatchingRow';
+import HomeLayoutEditor from '../components/HomeLayoutEditor';
 import { useAddonContext } from '@/context/AddonContext';
 import { useTmdbContext } from '@/context/TmdbContext'; // Import TMDB context
-
-// --- Stremio Types ---
-interface StremioAddonCatalog {
-  type: string;
-  id: string;
-  name?: string;
-}
-
-interface StremioCatalogResponse {
-  metas?: { id: string; name?: string; poster?: string; type?: string }[];
-}
-// --- End Stremio Types ---
+import { useHomeLayoutContext } from '@/context/HomeLayoutContext';
+import { fetchCatalog, getCatalogUniqueId } from '@/lib/addonClient';
+import { fetchTmdb } from '@/lib/tmdbClient';
+import { isAbortError } from '@/lib/network';
+import { isImdbId, rememberIdMapping } from '@/lib/idMapping';
+import type { InstalledAddon } from '@/types/stremio';
+import { profileStorageKey } from '@/lib/profiles';
+import { applyHomeLayout, type HomeRowImageType } from '@/lib/homeLayout';
+import { catalogSupportsSkip, mergeCatalogPage } from '@/lib/catalogPaging';
+import { buildCatalogPath, TMDB_CATALOGS, TMDB_SOURCE_ID } from '@/lib/catalogBrowse';
+import type { MetaPreview } from '@/types/stremio';
 
 // --- TMDB Types ---
 const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/';
@@ -37,6 +39,13 @@ interface TmdbItem {
   media_type?: 'movie' | 'tv'; // present in multi-search or trending all
 }
 
+interface TmdbImage {
+  file_path: string;
+  iso_639_1: string | null;
+  vote_average?: number;
+  vote_count?: number;
+}
+
 interface TmdbPagedResponse {
   page: number;
   results: TmdbItem[];
@@ -56,52 +65,53 @@ interface MediaItem {
   _tmdbRawBackdropPath?: string | null; // For TMDB item fallback
   _tmdbRawPosterPath?: string | null;   // For TMDB item fallback
   isLoading?: boolean;    // Flag to indicate if the item is in loading state
+  releaseInfo?: string;   // Saved with the item when it's added to My List
+  imdbRating?: string;
 }
 
+// How a row loads its next page; absent when the catalog can't page or has run out
+type RowPaging =
+  | { kind: 'skip'; type: string; catalogId: string; skip: number } // Addon catalog with the skip extra
+  | { kind: 'page'; endpoint: string; type: 'movie' | 'series'; page: number }; // TMDB list
+
 interface HomepageCatalogRow {
   title: string;
   items: MediaItem[];
   id: string; // Unique ID for the row (e.g., addonId-catalogId or tmdb-trending_movies)
   addonId?: string; // Only for addon-sourced rows
   source: 'addon' | 'tmdb'; // To distinguish the origin
+  sourceLabel: string; // "TMDB" or the addon's name, shown beside the title
+  paging?: RowPaging;
+  seeAllHref?: string; // The row's full catalog page
 }
 // --- End Shared Types ---
 
 const HOMEPAGE_CATALOGS_CACHE_KEY = 'homepageCatalogsCache';
 const HOMEPAGE_CONFIG_SIGNATURE_KEY = 'homepageConfigSignature';
 
-// Re-import or define InstalledAddon if not already in scope
-// Assuming InstalledAddon is similar to this, adjust if necessary:
-interface AddonCatalogSignature {
-  type: string;
-  id: string;
-  name?: string;
-}
-interface InstalledAddonSignature extends AddonManifestSignature {
-  manifestUrl: string;
-  selectedCatalogIds?: string[];
-}
-interface AddonManifestSignature {
-  id: string;
-  version: string;
-  name: string;
-  description?: string;
-  catalogs?: AddonCatalogSignature[];
-  resources?: (string | { name: string; types?: string[]; idPrefixes?: string[] })[];
-  types?: string[];
-}
+// Short FNV-1a fingerprint, so the saved signature changes with the TMDB key without storing it
+const fingerprint = (value: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16);
+};
 
-// Helper to generate a signature for the current data-fetching configuration
+// Signature of everything the home rows are fetched from: a fingerprint of the TMDB key when TMDB
+// rows are on, and the addons' selected catalogs
 const generateConfigSignature = (
   apiKey: string | null, 
   tmdbEnabled: boolean, 
-  addons: InstalledAddonSignature[] | null | undefined // Use the specific type
+  addons: InstalledAddon[] | null | undefined
 ): string => {
-  const addonSignature = addons?.map((a: InstalledAddonSignature) => ({ 
+  // Kept in priority order, so reordering addons refetches the rows in the new order
+  const addonSignature = addons?.map((a: InstalledAddon) => ({ 
     id: a.id, 
-    selected: a.selectedCatalogIds?.sort().join(',') 
-  })).sort((x: {id: string}, y: {id: string}) => x.id.localeCompare(y.id)) || [];
-  return JSON.stringify({ apiKey, tmdbEnabled, addons: addonSignature });
+    selected: [...(a.selectedCatalogIds || [])].sort().join(',') 
+  })) || [];
+  return JSON.stringify({ tmdb: tmdbEnabled && apiKey ? fingerprint(apiKey) : null, addons: addonSignature });
 };
 
 export default function HomePage() {
@@ -109,8 +119,12 @@ export default function HomePage() {
   const {
     installedAddons,
     isLoading: isLoadingAddons,
-    error: addonContextError
+    error: addonContextError,
+    reportAddonResult,
+    getAddonsForResource
   } = useAddonContext();
+  // Home rows follow the addon priority for catalogs
+  const catalogAddons = useMemo(() => getAddonsForResource('catalog'), [getAddonsForResource]);
 
   // TMDB Context
   const {
@@ -123,53 +137,59 @@ export default function HomePage() {
   const [homepageCatalogs, setHomepageCatalogs] = useState<HomepageCatalogRow[]>([]);
   const [isLoadingPageData, setIsLoadingPageData] = useState<boolean>(true);
   const [pageError, setPageError] = useState<string | null>(null);
+  const [isLayoutEditorOpen, setIsLayoutEditorOpen] = useState<boolean>(false);
+  const { layout: homeLayout } = useHomeLayoutContext();
+
+  // Rows as the layout shows them; the fetched rows stay untouched for the editor
+  const layoutRows = useMemo(() => homepageCatalogs.map(row => ({
+    ...row,
+    imageType: (row.source === 'tmdb' ? 'backdrop' : 'poster') as HomeRowImageType, // Backdrops for TMDB, posters for addons
+  })), [homepageCatalogs]);
+  const visibleRows = useMemo(() => applyHomeLayout(layoutRows, homeLayout), [layoutRows, homeLayout]);
+
+  const [loadingMoreRowIds, setLoadingMoreRowIds] = useState<Set<string>>(new Set());
+  const loadingMoreRowIdsRef = useRef<Set<string>>(new Set()); // Scroll events can fire before the state updates
+  const loadMoreAbortRef = useRef(new AbortController()); // Replaced whenever the rows are fetched again
+  const homepageCatalogsRef = useRef(homepageCatalogs);
+  homepageCatalogsRef.current = homepageCatalogs;
+  // Signature of the config the rows were fetched for; the cache is only written under it
+  const cacheSignatureRef = useRef<string | null>(null);
 
   // Wrapped setHomepageCatalogs to also update sessionStorage
   const setHomepageCatalogsWithCache = useCallback((data: HomepageCatalogRow[], currentSignature: string) => {
+    cacheSignatureRef.current = currentSignature;
     setHomepageCatalogs(data);
-    if (typeof window !== 'undefined') {
-      try {
-        sessionStorage.setItem(HOMEPAGE_CATALOGS_CACHE_KEY, JSON.stringify(data));
-        sessionStorage.setItem(HOMEPAGE_CONFIG_SIGNATURE_KEY, currentSignature);
-        console.log("HomePage: Saved to sessionStorage with signature:", currentSignature);
-      } catch (e) {
-        console.warn("HomePage: Failed to save homepage catalogs to sessionStorage", e);
-      }
-    }
   }, []);
 
-  const getStremioCatalogUniqueId = (catalog: StremioAddonCatalog) => `${catalog.type}/${catalog.id}`;
+  // Keep the cache in step with the rows, pages loaded later included
+  useEffect(() => {
+    const currentSignature = cacheSignatureRef.current;
+    if (!currentSignature || typeof window === 'undefined') return;
+    try {
+      sessionStorage.setItem(profileStorageKey(HOMEPAGE_CATALOGS_CACHE_KEY), JSON.stringify(homepageCatalogs));
+      sessionStorage.setItem(profileStorageKey(HOMEPAGE_CONFIG_SIGNATURE_KEY), currentSignature);
+      console.log("HomePage: Saved to sessionStorage with signature:", currentSignature);
+    } catch (e) {
+      console.warn("HomePage: Failed to save homepage catalogs to sessionStorage", e);
+    }
+  }, [homepageCatalogs]);
 
   // --- TMDB Data Fetching Functions --- 
-  const fetchTmdbData = async (endpoint: string, apiKey: string): Promise<TmdbItem[]> => {
-    let url = `https://api.themoviedb.org/3${endpoint}`;
-    if (endpoint.includes('?')) {
-      url += `&api_key=${apiKey}&language=en-US&page=1`;
-    } else {
-      url += `?api_key=${apiKey}&language=en-US&page=1`;
-    }
-    console.log(`HomePage (TMDB): Fetching ${url}`);
-    const response = await fetch(url);
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({ message: response.statusText }));
-      throw new Error(`TMDB API error for ${endpoint}: ${errorData.message || response.statusText} (${response.status})`);
-    }
-    const data: TmdbPagedResponse = await response.json();
-    return data.results || [];
+  const fetchTmdbData = async (endpoint: string, apiKey: string, signal?: AbortSignal, page: number = 1): Promise<TmdbPagedResponse> => {
+    console.log(`HomePage (TMDB): Fetching ${endpoint} (page ${page})`);
+    const data = await fetchTmdb<TmdbPagedResponse>(endpoint, apiKey, { language: 'en-US', page }, { signal });
+    return { ...data, results: data.results || [] };
   };
 
   // Function to fetch backdrops for a specific movie/TV item from the /images endpoint
-  const fetchTmdbItemBackdrop = async (itemType: 'movie' | 'tv', itemId: number, apiKey: string): Promise<string | null> => {
+  const fetchTmdbItemBackdrop = async (itemType: 'movie' | 'tv', itemId: number, apiKey: string, signal?: AbortSignal): Promise<string | null> => {
     try {
-      const url = `https://api.themoviedb.org/3/${itemType}/${itemId}/images?api_key=${apiKey}&include_image_language=en,null`;
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        console.warn(`Failed to fetch images for ${itemType}/${itemId}: ${response.status}`);
-        return null;
-      }
-      
-      const data = await response.json();
+      const data = await fetchTmdb<{ backdrops?: TmdbImage[] }>(
+        `/${itemType}/${itemId}/images`,
+        apiKey,
+        { include_image_language: 'en,null' },
+        { signal }
+      );
       
       // Find the best backdrop - prioritize by language first (English), then quality
       if (data?.backdrops && data.backdrops.length > 0) {
@@ -217,7 +237,7 @@ export default function HomePage() {
       
       return null;
     } catch (error) {
-      console.error(`Error fetching backdrop for ${itemType}/${itemId}:`, error);
+      if (!isAbortError(error)) console.error(`Error fetching backdrop for ${itemType}/${itemId}:`, error);
       return null;
     }
   };
@@ -250,208 +270,177 @@ export default function HomePage() {
       alt: item.title || item.name || 'TMDB Item',
       type: itemType,
       source: 'tmdb',
+      releaseInfo: (item.release_date || item.first_air_date)?.slice(0, 4),
+      imdbRating: item.vote_average ? item.vote_average.toFixed(1) : undefined, // TMDB votes use the same 0-10 scale
       _tmdbRawBackdropPath: item.backdrop_path,
       _tmdbRawPosterPath: item.poster_path,
       isLoading: true // TMDB items start in loading state
     };
   };
 
-  const fetchTmdbHomepageCatalogs = async (apiKey: string) => {
-    setIsLoadingPageData(true);
-    setPageError(null);
+  // Fetches the TMDB rows with their basic images; enhanceTmdbRows fills in better backdrops afterwards
+  const fetchTmdbHomepageCatalogs = async (apiKey: string, signal: AbortSignal): Promise<HomepageCatalogRow[]> => {
     console.log("HomePage: Fetching catalogs from TMDB...");
 
-    const currentSignature = generateConfigSignature(apiKey, true, installedAddons);
-
-    const tmdbCatalogsToFetch = [
-      { id: 'trending_movies_week', endpoint: '/trending/movie/week', title: 'Trending Movies', type: 'movie' as const },
-      { id: 'popular_movies', endpoint: '/movie/popular', title: 'Popular Movies', type: 'movie' as const },
-      { id: 'top_rated_movies', endpoint: '/movie/top_rated', title: 'Top Rated Movies', type: 'movie' as const },
-      { id: 'trending_tv_week', endpoint: '/trending/tv/week', title: 'Trending TV Shows', type: 'series' as const },
-      {
-        id: 'popular_tv',
-        endpoint: '/discover/tv?include_adult=false&sort_by=popularity.desc&without_genres=10767',
-        title: 'Popular TV Shows',
-        type: 'series' as const
-      },
-      { id: 'top_rated_tv', endpoint: '/tv/top_rated', title: 'Top Rated TV Shows', type: 'series' as const },
-    ];
 
-    try {
-      const fetchedTmdbRows: HomepageCatalogRow[] = [];
-      const promises = tmdbCatalogsToFetch.map(async (tmdbCat) => {
-        try {
-          const tmdbItems = await fetchTmdbData(tmdbCat.endpoint, apiKey);
-          
-          // Process TMDB items with basic backdrop/poster paths first
-          const basicMediaItems: MediaItem[] = tmdbItems
-            .map(item => transformTmdbItemToMediaItem(item, tmdbCat.type))
-            .filter((item): item is MediaItem => item !== null);
-          
-          if (basicMediaItems.length > 0) {
-            // Create a row with the basic items - enhanced ones will come later
-            fetchedTmdbRows.push({
-              id: `tmdb-${tmdbCat.id}`,
-              title: `${tmdbCat.title} • TMDB`,
-              items: basicMediaItems,
-              source: 'tmdb',
-            });
-          }
-        } catch (catError) {
-          console.error(`HomePage (TMDB): Error fetching TMDB catalog ${tmdbCat.title}:`, catError);
-          // Optionally collect these errors to show a partial error message
+    const fetchedTmdbRows: HomepageCatalogRow[] = [];
+    const promises = TMDB_CATALOGS.map(async (tmdbCat) => {
+      try {
+        const tmdbPage = await fetchTmdbData(tmdbCat.endpoint, apiKey, signal);
+        const tmdbItems = tmdbPage.results;
+        
+        // Process TMDB items with basic backdrop/poster paths first
+        const basicMediaItems: MediaItem[] = tmdbItems
+          .map(item => transformTmdbItemToMediaItem(item, tmdbCat.type))
+          .filter((item): item is MediaItem => item !== null);
+        
+        if (basicMediaItems.length > 0) {
+          // Create a row with the basic items - enhanced ones will come later
+          fetchedTmdbRows.push({
+            id: `tmdb-${tmdbCat.id}`,
+            title: tmdbCat.title,
+            items: basicMediaItems,
+            source: 'tmdb',
+            sourceLabel: 'TMDB',
+            seeAllHref: buildCatalogPath(TMDB_SOURCE_ID, tmdbCat.type, tmdbCat.id),
+            paging: tmdbPage.total_pages > 1 ? { kind: 'page', endpoint: tmdbCat.endpoint, type: tmdbCat.type, page: 2 } : undefined,
+          });
         }
-      });
+      } catch (catError) {
+        if (isAbortError(catError)) return;
+        console.error(`HomePage (TMDB): Error fetching TMDB catalog ${tmdbCat.title}:`, catError);
+        // Optionally collect these errors to show a partial error message
+      }
+    });
 
-      await Promise.all(promises);
-      
-      // Simple sort for TMDB rows, can be customized
-      fetchedTmdbRows.sort((a,b) => a.title.localeCompare(b.title));
-      // setHomepageCatalogs(fetchedTmdbRows); // Initial render with empty imageURLs for TMDB items
-      // Update state AND cache for initial TMDB rows (without enhanced images yet)
-      setHomepageCatalogsWithCache(fetchedTmdbRows, currentSignature);
-
-      // New function to process enhancement of all TMDB rows concurrently
-      const enhanceTmdbRowsConcurrently = async (initialRows: HomepageCatalogRow[], apiKeyToUse: string) => {
-        const rowEnhancementPromises = initialRows.map(async (row) => {
-          if (row.source !== 'tmdb') {
-            return row; // Pass through non-TMDB rows
-          }
+    await Promise.all(promises);
 
-          const itemsToEnhanceInRow = [...row.items]; // Work on a copy for this specific row
-          
-          const BATCH_SIZE = 3;
-          for (let i = 0; i < itemsToEnhanceInRow.length; i += BATCH_SIZE) {
-            const batch = itemsToEnhanceInRow.slice(i, i + BATCH_SIZE);
+    // Rows arrive in completion order; keep the order they're declared in (the home layout can change it)
+    const tmdbRowOrder = TMDB_CATALOGS.map(tmdbCat => `tmdb-${tmdbCat.id}`);
+    fetchedTmdbRows.sort((a, b) => tmdbRowOrder.indexOf(a.id) - tmdbRowOrder.indexOf(b.id));
+    return fetchedTmdbRows;
+  };
+
+  const enhanceTmdbRows = async (initialRows: HomepageCatalogRow[], apiKeyToUse: string, signal?: AbortSignal): Promise<HomepageCatalogRow[]> => {
+    const rowEnhancementPromises = initialRows.map(async (row) => {
+      if (row.source !== 'tmdb') {
+        return row; // Pass through non-TMDB rows
+      }
+
+      const itemsToEnhanceInRow = [...row.items]; // Work on a copy for this specific row
+      
+      const BATCH_SIZE = 3;
+      for (let i = 0; i < itemsToEnhanceInRow.length; i += BATCH_SIZE) {
+        const batch = itemsToEnhanceInRow.slice(i, i + BATCH_SIZE);
+        
+        const itemDetailPromises = batch.map(async (item) => {
+          // Find the item's current index in itemsToEnhanceInRow to ensure updates apply to the correct object
+          // This is important because 'item' here is from the 'batch' slice.
+          const originalItemIndex = itemsToEnhanceInRow.findIndex(it => it.id === item.id);
+
+          if (item.source !== 'tmdb' || !item.id.startsWith('tmdb:')) return; // Should already be filtered by row.source
+
+          try {
+            const tmdbId = parseInt(item.id.replace('tmdb:', ''));
+            if (isNaN(tmdbId)) return;
+
+            const mediaType = item.type === 'movie' ? 'movie' : 'tv';
+            const betterBackdropUrl = await fetchTmdbItemBackdrop(mediaType, tmdbId, apiKeyToUse, signal);
+
+            let finalImageUrl = '';
+            if (betterBackdropUrl) {
+              finalImageUrl = betterBackdropUrl;
+            } else {
+              if (item._tmdbRawBackdropPath) {
+                finalImageUrl = `${TMDB_IMAGE_BASE_URL}original${item._tmdbRawBackdropPath}`;
+              } else if (item._tmdbRawPosterPath) {
+                finalImageUrl = `${TMDB_IMAGE_BASE_URL}w500${item._tmdbRawPosterPath}`;
+              }
+            }
             
-            const itemDetailPromises = batch.map(async (item) => {
-              // Find the item's current index in itemsToEnhanceInRow to ensure updates apply to the correct object
-              // This is important because 'item' here is from the 'batch' slice.
-              const originalItemIndex = itemsToEnhanceInRow.findIndex(it => it.id === item.id);
-
-              if (item.source !== 'tmdb' || !item.id.startsWith('tmdb:')) return; // Should already be filtered by row.source
-
-              try {
-                const tmdbId = parseInt(item.id.replace('tmdb:', ''));
-                if (isNaN(tmdbId)) return;
-
-                const mediaType = item.type === 'movie' ? 'movie' : 'tv';
-                const betterBackdropUrl = await fetchTmdbItemBackdrop(mediaType, tmdbId, apiKeyToUse);
-
-                let finalImageUrl = '';
-                if (betterBackdropUrl) {
-                  finalImageUrl = betterBackdropUrl;
-                } else {
-                  if (item._tmdbRawBackdropPath) {
-                    finalImageUrl = `${TMDB_IMAGE_BASE_URL}original${item._tmdbRawBackdropPath}`;
-                  } else if (item._tmdbRawPosterPath) {
-                    finalImageUrl = `${TMDB_IMAGE_BASE_URL}w500${item._tmdbRawPosterPath}`;
-                  }
-                }
-                
-                // Update the item in the itemsToEnhanceInRow array for this current row
-                if (originalItemIndex !== -1 && itemsToEnhanceInRow[originalItemIndex].imageUrl !== finalImageUrl) {
-                  itemsToEnhanceInRow[originalItemIndex] = {
-                    ...itemsToEnhanceInRow[originalItemIndex],
-                    imageUrl: finalImageUrl,
-                    isLoading: false // No longer loading once we have a URL
-                  };
+            // Update the item in the itemsToEnhanceInRow array for this current row
+            if (originalItemIndex !== -1 && itemsToEnhanceInRow[originalItemIndex].imageUrl !== finalImageUrl) {
+              itemsToEnhanceInRow[originalItemIndex] = {
+                ...itemsToEnhanceInRow[originalItemIndex],
+                imageUrl: finalImageUrl,
+                isLoading: false // No longer loading once we have a URL
+              };
+            }
+          } catch (error) {
+            console.warn(`Error enhancing backdrop for ${item.id} in row ${row.title}:`, error);
+            const currentItemToFallback = itemsToEnhanceInRow[originalItemIndex];
+            if (originalItemIndex !== -1 && currentItemToFallback) {
+                let fallbackImageUrlOnError = '';
+                if (currentItemToFallback._tmdbRawBackdropPath) {
+                    fallbackImageUrlOnError = `${TMDB_IMAGE_BASE_URL}original${currentItemToFallback._tmdbRawBackdropPath}`;
+                } else if (currentItemToFallback._tmdbRawPosterPath) {
+                    fallbackImageUrlOnError = `${TMDB_IMAGE_BASE_URL}w500${currentItemToFallback._tmdbRawPosterPath}`;
                 }
-              } catch (error) {
-                console.warn(`Error enhancing backdrop for ${item.id} in row ${row.title}:`, error);
-                const currentItemToFallback = itemsToEnhanceInRow[originalItemIndex];
-                if (originalItemIndex !== -1 && currentItemToFallback) {
-                    let fallbackImageUrlOnError = '';
-                    if (currentItemToFallback._tmdbRawBackdropPath) {
-                        fallbackImageUrlOnError = `${TMDB_IMAGE_BASE_URL}original${currentItemToFallback._tmdbRawBackdropPath}`;
-                    } else if (currentItemToFallback._tmdbRawPosterPath) {
-                        fallbackImageUrlOnError = `${TMDB_IMAGE_BASE_URL}w500${currentItemToFallback._tmdbRawPosterPath}`;
-                    }
-                    if (itemsToEnhanceInRow[originalItemIndex].imageUrl !== fallbackImageUrlOnError) {
-                       itemsToEnhanceInRow[originalItemIndex] = { 
-                         ...itemsToEnhanceInRow[originalItemIndex], 
-                         imageUrl: fallbackImageUrlOnError,
-                         isLoading: false // No longer loading even with fallback
-                       };
-                    }
+                if (itemsToEnhanceInRow[originalItemIndex].imageUrl !== fallbackImageUrlOnError) {
+                   itemsToEnhanceInRow[originalItemIndex] = { 
+                     ...itemsToEnhanceInRow[originalItemIndex], 
+                     imageUrl: fallbackImageUrlOnError,
+                     isLoading: false // No longer loading even with fallback
+                   };
                 }
-              }
-            });
-            
-            await Promise.allSettled(itemDetailPromises); // Wait for all items in this batch to be processed
-            
-            // Add a small delay after each batch for this row to avoid overwhelming the API too quickly
-            // Only add delay if there are more batches to come for this row
-            if (i + BATCH_SIZE < itemsToEnhanceInRow.length) {
-                await new Promise(resolve => setTimeout(resolve, 200));
             }
           }
-          return { ...row, items: itemsToEnhanceInRow }; // Return the row with its items enhanced
-        });
-
-        const allEnhancedOrOriginalRows = await Promise.all(rowEnhancementPromises);
-        // setHomepageCatalogs(allEnhancedOrOriginalRows); // Single state update with all images populated
-        // Update state AND cache after TMDB rows are enhanced
-        setHomepageCatalogsWithCache(allEnhancedOrOriginalRows, currentSignature);
-      };
-      
-      // Start the enhancement process if there are TMDB rows
-      if (fetchedTmdbRows.some(r => r.source === 'tmdb')) {
-        enhanceTmdbRowsConcurrently(fetchedTmdbRows, apiKey).catch(error => {
-          console.error("HomePage (TMDB): Error during concurrent enhancement of TMDB rows:", error);
-          // Potentially set an error state or revert to initial rows if needed
         });
+        
+        await Promise.allSettled(itemDetailPromises); // Wait for all items in this batch to be processed
+        
+        // Add a small delay after each batch for this row to avoid overwhelming the API too quickly
+        // Only add delay if there are more batches to come for this row
+        if (signal?.aborted) break;
+        if (i + BATCH_SIZE < itemsToEnhanceInRow.length) {
+            await new Promise(resolve => setTimeout(resolve, 200));
+        }
       }
+      return { ...row, items: itemsToEnhanceInRow }; // Return the row with its items enhanced
+    });
 
-      if (fetchedTmdbRows.length === 0) {
-        setPageError("Could not load any content from TMDB. The API might be temporarily unavailable or there's no content for these categories.");
-      }
-
-    } catch (error: any) {
-      console.error("HomePage (TMDB): Failed to fetch TMDB homepage catalogs:", error);
-      setPageError(`Failed to load data from TMDB: ${error.message}`);
-    } finally {
-      setIsLoadingPageData(false);
-    }
+    const allEnhancedOrOriginalRows = await Promise.all(rowEnhancementPromises);
+    return allEnhancedOrOriginalRows;
   };
   // --- End TMDB Data Fetching Functions ---
 
   // --- Stremio Addon Data Fetching (Original Logic, adapted) ---
-  const fetchStremioHomepageCatalogs = async () => {
-    if (!installedAddons || installedAddons.length === 0) {
-      console.log("HomePage: No addons installed or loaded yet for Stremio fetching.");
-      if (typeof window !== 'undefined') { // Clear cache if no addons
-        sessionStorage.removeItem(HOMEPAGE_CATALOGS_CACHE_KEY);
-        sessionStorage.removeItem(HOMEPAGE_CONFIG_SIGNATURE_KEY);
+  const transformAddonMetas = (metas: MetaPreview[]): MediaItem[] => {
+    // Catalogs that cross-reference TMDB save us a lookup later (StreamDialog, details page)
+    metas.forEach(meta => {
+      if (meta.moviedb_id && isImdbId(meta.id)) {
+        rememberIdMapping(meta.type, { imdb: meta.id, tmdb: `tmdb:${meta.moviedb_id}` });
       }
-      setHomepageCatalogsWithCache([], generateConfigSignature(tmdbApiKey, isTmdbEnabled, installedAddons)); // Cache empty state
+    });
+    return metas
+      .filter(meta => meta.poster && meta.type) // Ensure type is present for Stremio items
+      .map(meta => ({ 
+        id: meta.id,
+        imageUrl: meta.poster!,
+        alt: meta.name || meta.id,
+        type: meta.type as 'movie' | 'series', // Assuming type is 'movie' or 'series'
+        source: 'addon', // Add source for Stremio/addon items
+        isLoading: false, // Stremio items start with imageUrl ready
+        releaseInfo: meta.releaseInfo,
+        imdbRating: meta.imdbRating,
+      }));
+  };
 
-      // Only set error if TMDB isn't also an option or has failed
-      if (!addonContextError) {
-           setPageError("No Stremio addons are currently installed. Please visit the Addons page to install some, or configure TMDB.");
-      }
-      setIsLoadingPageData(false);
-      return;
-    }
-    
-    setIsLoadingPageData(true);
-    setPageError(null);
+  const fetchStremioHomepageCatalogs = async (signal: AbortSignal): Promise<HomepageCatalogRow[]> => {
     console.log("HomePage: Fetching catalogs from Stremio Addons...");
-    let allFetchedStremioRows: HomepageCatalogRow[] = [];
+    const allFetchedStremioRows: HomepageCatalogRow[] = [];
     const fetchPromises: Promise<void>[] = [];
+    const rowOrder: string[] = []; // Row IDs in addon priority, then manifest catalog order
 
-    const currentSignature = generateConfigSignature(null, false, installedAddons);
-
-    installedAddons.forEach(addon => {
+    catalogAddons.forEach(addon => {
       const addonSelectedCatalogs = addon.catalogs?.filter(catalog => 
-        addon.selectedCatalogIds?.includes(getStremioCatalogUniqueId(catalog))
+        addon.selectedCatalogIds?.includes(getCatalogUniqueId(catalog))
       ) || [];
 
       if (addonSelectedCatalogs.length > 0) {
-        const baseUrl = addon.manifestUrl.substring(0, addon.manifestUrl.lastIndexOf('/'));
-
         addonSelectedCatalogs.forEach(stremioCatalog => {
-          const catalogFullId = getStremioCatalogUniqueId(stremioCatalog);
+          const catalogFullId = getCatalogUniqueId(stremioCatalog);
+          rowOrder.push(`${addon.id}-${catalogFullId}`);
           let catalogTitle = stremioCatalog.name || `${stremioCatalog.type} ${stremioCatalog.id}`.replace(/[-_]/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
           
           const lowerCaseName = catalogTitle.toLowerCase();
@@ -461,27 +450,12 @@ export default function HomePage() {
           if (stremioCatalog.type === 'movie' && !hasMovieWord) catalogTitle += ' Movies';
           else if (stremioCatalog.type === 'series' && !hasSeriesWord) catalogTitle += ' TV Shows';
           
-          catalogTitle = `${catalogTitle} • ${addon.name}`;
-          const catalogUrl = `${baseUrl}/catalog/${stremioCatalog.type}/${stremioCatalog.id}.json`;
-          
           fetchPromises.push(
-            fetch(catalogUrl)
-              .then(response => {
-                if (!response.ok) throw new Error(`Fetch failed for ${catalogTitle}: ${response.statusText} (${catalogUrl})`);
-                return response.json() as Promise<StremioCatalogResponse>;
-              })
+            fetchCatalog(addon, stremioCatalog.type, stremioCatalog.id, undefined, { signal })
               .then(data => {
-                if (data?.metas && data.metas.length > 0) {
-                  const items: MediaItem[] = data.metas
-                    .filter(meta => meta.poster && meta.type) // Ensure type is present for Stremio items
-                    .map(meta => ({ 
-                      id: meta.id!,
-                      imageUrl: meta.poster!,
-                      alt: meta.name || meta.id!,
-                      type: meta.type as 'movie' | 'series', // Assuming type is 'movie' or 'series'
-                      source: 'addon', // Add source for Stremio/addon items
-                      isLoading: false // Stremio items start with imageUrl ready
-                    }));
+                reportAddonResult(addon.id);
+                if (data.metas.length > 0) {
+                  const items = transformAddonMetas(data.metas);
                   if (items.length > 0) {
                     allFetchedStremioRows.push({ 
                       title: catalogTitle, 
@@ -489,11 +463,19 @@ export default function HomePage() {
                       id: `${addon.id}-${catalogFullId}`,
                       addonId: addon.id,
                       source: 'addon',
+                      sourceLabel: addon.name,
+                      seeAllHref: buildCatalogPath(addon.id, stremioCatalog.type, stremioCatalog.id),
+                      paging: catalogSupportsSkip(stremioCatalog)
+                        ? { kind: 'skip', type: stremioCatalog.type, catalogId: stremioCatalog.id, skip: data.metas.length }
+                        : undefined,
                     });
                   }
                 }
               })
               .catch(err => {
+                // A failing or timed-out addon only loses its own rows
+                reportAddonResult(addon.id, err);
+                if (isAbortError(err)) return;
                 console.error(`HomePage (Stremio): Error fetching/processing catalog ${catalogTitle}:`, err);
               })
           );
@@ -501,82 +483,199 @@ export default function HomePage() {
       }
     });
 
+    await Promise.all(fetchPromises);
+    allFetchedStremioRows.sort((a, b) => rowOrder.indexOf(a.id) - rowOrder.indexOf(b.id));
+    return allFetchedStremioRows;
+  };
+  // --- End Stremio Addon Data Fetching ---
+
+  // Why the home page has no rows, once both sources have been tried
+  const describeEmptyHomepage = (usedTmdb: boolean): string | null => {
+    if (installedAddons.some(a => a.selectedCatalogIds && a.selectedCatalogIds.length > 0)) {
+      return "No content could be loaded from the selected Stremio addon catalogs. Check addon configurations, or enable 'Use proxy' for addons that block browser requests.";
+    }
+    if (usedTmdb) {
+      return "Could not load any content from TMDB. The API might be temporarily unavailable or there's no content for these categories.";
+    }
+    if (installedAddons.length > 0) {
+      return "No Stremio addon catalogs selected to display. Visit the Addons page to enable some.";
+    }
+    // An addon loading error is already on screen
+    return addonContextError ? null : "No Stremio addons are currently installed. Please visit the Addons page to install some, or configure TMDB.";
+  };
+
+  // TMDB and addon rows load side by side and are shown as one list: TMDB rows first, then addon
+  // rows in priority order. The home layout reorders them from there.
+  const fetchHomepageCatalogs = async (signal: AbortSignal, currentSignature: string) => {
+    setIsLoadingPageData(true);
+    setPageError(null);
+    const useTmdb = !!tmdbApiKey && isTmdbEnabled;
+    const [tmdbResult, addonResult] = await Promise.allSettled([
+      useTmdb ? fetchTmdbHomepageCatalogs(tmdbApiKey, signal) : Promise.resolve([]),
+      fetchStremioHomepageCatalogs(signal),
+    ]);
+    if (signal.aborted) return; // Superseded by a newer fetch or page left
+
+    if (tmdbResult.status === 'rejected') console.error("HomePage (TMDB): Failed to fetch TMDB homepage catalogs:", tmdbResult.reason);
+    if (addonResult.status === 'rejected') console.error("HomePage (Stremio): Error during Promise.all for catalogs:", addonResult.reason);
+    const tmdbRows = tmdbResult.status === 'fulfilled' ? tmdbResult.value : [];
+    const addonRows = addonResult.status === 'fulfilled' ? addonResult.value : [];
+
+    // TMDB items start without images, so show everything now and fill the images in after
+    setHomepageCatalogsWithCache([...tmdbRows, ...addonRows], currentSignature);
+    if (tmdbRows.length === 0 && addonRows.length === 0) setPageError(describeEmptyHomepage(useTmdb));
+    setIsLoadingPageData(false);
+
+    if (tmdbRows.length > 0 && tmdbApiKey) {
+      try {
+        const enhancedRows = await enhanceTmdbRows(tmdbRows, tmdbApiKey, signal);
+        if (signal.aborted) return;
+        // Rows may have loaded more pages in the meantime; those items stay
+        const enhancedById = new Map(enhancedRows.map(row => [row.id, row]));
+        setHomepageCatalogs(prev => prev.map(row => {
+          const enhanced = enhancedById.get(row.id);
+          return enhanced ? { ...row, items: [...enhanced.items, ...row.items.slice(enhanced.items.length)] } : row;
+        }));
+      } catch (error) {
+        console.error("HomePage (TMDB): Error during concurrent enhancement of TMDB rows:", error);
+      }
+    }
+  };
+
+  // Appends the next page of a row. A page with nothing new, or a failed one, ends the row's paging.
+  // TMDB pages are appended with their basic images first and enhanced afterwards.
+  const loadMoreRow = async (rowId: string) => {
+    const row = homepageCatalogsRef.current.find(r => r.id === rowId);
+    const paging = row?.paging;
+    if (!row || !paging || loadingMoreRowIdsRef.current.has(rowId)) return;
+    const { signal } = loadMoreAbortRef.current;
+    loadingMoreRowIdsRef.current.add(rowId);
+    setLoadingMoreRowIds(new Set(loadingMoreRowIdsRef.current));
+
+    let pageItems: MediaItem[] = [];
+    let nextPaging: RowPaging | undefined;
     try {
-      await Promise.all(fetchPromises);
-      allFetchedStremioRows.sort((a, b) => a.title.localeCompare(b.title));
-      // setHomepageCatalogs(allFetchedStremioRows);
-      setHomepageCatalogsWithCache(allFetchedStremioRows, currentSignature);
-
-      if (allFetchedStremioRows.length === 0 && installedAddons.some(a => a.selectedCatalogIds && a.selectedCatalogIds.length > 0)) {
-          setPageError("No content could be loaded from the selected Stremio addon catalogs. Check addon configurations or CORS issues.");
-      } else if (allFetchedStremioRows.length === 0 && installedAddons.length > 0) {
-          setPageError("No Stremio addon catalogs selected to display. Visit the Addons page to enable some.");
+      if (paging.kind === 'skip') {
+        const addon = installedAddons.find(a => a.id === row.addonId);
+        if (addon) {
+          try {
+            const data = await fetchCatalog(addon, paging.type, paging.catalogId, { skip: paging.skip }, { signal });
+            reportAddonResult(addon.id);
+            pageItems = transformAddonMetas(data.metas);
+            if (data.metas.length > 0) nextPaging = { ...paging, skip: paging.skip + data.metas.length };
+          } catch (err) {
+            reportAddonResult(addon.id, err);
+            throw err;
+          }
+        }
+      } else if (tmdbApiKey) {
+        const data = await fetchTmdbData(paging.endpoint, tmdbApiKey, signal, paging.page);
+        pageItems = data.results
+          .map(item => transformTmdbItemToMediaItem(item, paging.type))
+          .filter((item): item is MediaItem => item !== null);
+        if (paging.page < data.total_pages) nextPaging = { ...paging, page: paging.page + 1 };
       }
+    } catch (err) {
+      if (!isAbortError(err)) console.error(`HomePage: Error loading more items for row ${row.title}:`, err);
+    }
+
+    loadingMoreRowIdsRef.current.delete(rowId);
+    // Superseded by a new config or page left; the rows this page belonged to are gone
+    if (signal.aborted) return;
+    setLoadingMoreRowIds(new Set(loadingMoreRowIdsRef.current));
+
+    const addedIds = new Set(mergeCatalogPage(row.items, pageItems).items.slice(row.items.length).map(item => item.id));
+    setHomepageCatalogs(prev => prev.map(r => {
+      if (r.id !== rowId) return r;
+      const { items, added } = mergeCatalogPage(r.items, pageItems);
+      return { ...r, items, paging: added > 0 ? nextPaging : undefined };
+    }));
 
-    } catch (overallError) {
-       console.error("HomePage (Stremio): Error during Promise.all for catalogs:", overallError);
-       setPageError("An error occurred while fetching Stremio addon catalog data.");
-    } finally {
-      setIsLoadingPageData(false);
+    if (row.source !== 'tmdb' || !tmdbApiKey || addedIds.size === 0) return;
+    try {
+      const [enhancedRow] = await enhanceTmdbRows([{ ...row, items: pageItems.filter(item => addedIds.has(item.id)) }], tmdbApiKey, signal);
+      if (signal.aborted) return;
+      const enhancedById = new Map(enhancedRow.items.map(item => [item.id, item]));
+      setHomepageCatalogs(prev => prev.map(r => (
+        r.id === rowId ? { ...r, items: r.items.map(item => enhancedById.get(item.id) || item) } : r
+      )));
+    } catch (err) {
+      console.error(`HomePage (TMDB): Error enhancing more items for row ${row.title}:`, err);
     }
   };
-  // --- End Stremio Addon Data Fetching ---
 
+  // One stable handler per row, so MediaRow's scroll effect doesn't re-run on every render
+  const loadMoreRowRef = useRef(loadMoreRow);
+  loadMoreRowRef.current = loadMoreRow;
+  const loadMoreHandlersRef = useRef(new Map<string, () => void>());
+  const getLoadMoreHandler = useCallback((rowId: string) => {
+    let handler = loadMoreHandlersRef.current.get(rowId);
+    if (!handler) {
+      handler = () => loadMoreRowRef.current(rowId);
+      loadMoreHandlersRef.current.set(rowId, handler);
+    }
+    return handler;
+  }, []);
 
   useEffect(() => {
+    // Further pages belong to the rows of this run
+    const abortLoadMore = () => {
+      loadMoreAbortRef.current.abort();
+      loadMoreAbortRef.current = new AbortController();
+      loadingMoreRowIdsRef.current.clear();
+      setLoadingMoreRowIds(new Set());
+    };
+
     if (addonContextError) {
         setPageError(`Addon loading error: ${addonContextError}`);
     }
 
     // Try to load from cache first
     if (typeof window !== 'undefined') {
-      const cachedDataString = sessionStorage.getItem(HOMEPAGE_CATALOGS_CACHE_KEY);
-      const cachedSignature = sessionStorage.getItem(HOMEPAGE_CONFIG_SIGNATURE_KEY);
-      const currentSignature = generateConfigSignature(tmdbApiKey, isTmdbEnabled, installedAddons);
+      const cachedDataString = sessionStorage.getItem(profileStorageKey(HOMEPAGE_CATALOGS_CACHE_KEY));
+      const cachedSignature = sessionStorage.getItem(profileStorageKey(HOMEPAGE_CONFIG_SIGNATURE_KEY));
+      const currentSignature = generateConfigSignature(tmdbApiKey, isTmdbEnabled, catalogAddons);
 
       if (cachedDataString && cachedSignature && cachedSignature === currentSignature) {
         try {
           const cachedData = JSON.parse(cachedDataString);
           if (cachedData && Array.isArray(cachedData)) {
+            cacheSignatureRef.current = currentSignature;
             setHomepageCatalogs(cachedData);
             setIsLoadingPageData(false);
             console.log("HomePage: Loaded catalogs from sessionStorage (signature match).");
-            return; // Exit early as data is loaded from cache
+            return abortLoadMore; // Exit early as data is loaded from cache
           }
         } catch (e) {
           console.warn("HomePage: Failed to parse cached homepage catalogs, will re-fetch.", e);
-          sessionStorage.removeItem(HOMEPAGE_CATALOGS_CACHE_KEY);
-          sessionStorage.removeItem(HOMEPAGE_CONFIG_SIGNATURE_KEY);
+          sessionStorage.removeItem(profileStorageKey(HOMEPAGE_CATALOGS_CACHE_KEY));
+          sessionStorage.removeItem(profileStorageKey(HOMEPAGE_CONFIG_SIGNATURE_KEY));
         }
       } else if (cachedDataString || cachedSignature) {
         // If cache exists but signature doesn't match or is missing, it's stale.
         console.log("HomePage: Cache signature mismatch or missing. Invalidating cache.");
-        sessionStorage.removeItem(HOMEPAGE_CATALOGS_CACHE_KEY);
-        sessionStorage.removeItem(HOMEPAGE_CONFIG_SIGNATURE_KEY);
+        sessionStorage.removeItem(profileStorageKey(HOMEPAGE_CATALOGS_CACHE_KEY));
+        sessionStorage.removeItem(profileStorageKey(HOMEPAGE_CONFIG_SIGNATURE_KEY));
       }
     }
 
-    // Decide whether to fetch from TMDB or Stremio Addons
+    const abortController = new AbortController();
     if (!isLoadingTmdbKey && !isLoadingAddons) { // Wait until *both* contexts have loaded their initial state
-      // Clear previous page error before attempting a new fetch
-      setPageError(null);
-      const currentSignature = generateConfigSignature(tmdbApiKey, isTmdbEnabled, installedAddons);
-
-      if (tmdbApiKey && isTmdbEnabled) { // Check for API Key AND enabled status
-        console.log("HomePage: TMDB API Key found and integration enabled. Fetching from TMDB.");
-        fetchTmdbHomepageCatalogs(tmdbApiKey);
-      } else {
-        // Fallback to Stremio addons if TMDB key missing OR TMDB is disabled
-        if (!tmdbApiKey) console.log("HomePage: No TMDB API Key found. Fetching from Stremio Addons.");
-        if (tmdbApiKey && !isTmdbEnabled) console.log("HomePage: TMDB integration is disabled. Fetching from Stremio Addons.");
-        fetchStremioHomepageCatalogs();
-      }
+      if (!tmdbApiKey) console.log("HomePage: No TMDB API Key found. Showing Stremio Addon rows only.");
+      if (tmdbApiKey && !isTmdbEnabled) console.log("HomePage: TMDB integration is disabled. Showing Stremio Addon rows only.");
+      fetchHomepageCatalogs(abortController.signal, generateConfigSignature(tmdbApiKey, isTmdbEnabled, catalogAddons));
     } else {
         console.log(`HomePage: Waiting for initial context loading... (TMDB Key: ${isLoadingTmdbKey}, Addons: ${isLoadingAddons})`);
         setIsLoadingPageData(true); // Show loading while waiting for contexts
     }
+
+    // Cancel in-flight requests, further pages included, if the config changes again or the page unmounts
+    return () => {
+      abortController.abort();
+      abortLoadMore();
+    };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [tmdbApiKey, isTmdbEnabled, isLoadingTmdbKey, installedAddons, isLoadingAddons, addonContextError, setHomepageCatalogsWithCache]); // Added setHomepageCatalogsWithCache and useCallback
+  }, [tmdbApiKey, isTmdbEnabled, isLoadingTmdbKey, catalogAddons, isLoadingAddons, addonContextError, setHomepageCatalogsWithCache]); // Added setHomepageCatalogsWithCache and useCallback
 
 
   // Combined loading state for UI
@@ -586,6 +685,8 @@ export default function HomePage() {
     <Box>
       <Hero />
       <Box sx={{ pb: 4, backgroundColor: '#141414' }}>
+        <ContinueWatchingRow />
+
         {showLoadingIndicator && (
           <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '200px' }}>
             <CircularProgress sx={{color: 'red'}} />
@@ -605,19 +706,39 @@ export default function HomePage() {
         )}
 
         {!showLoadingIndicator && homepageCatalogs.length > 0 && (
-          homepageCatalogs.map((catalogRow) => (
+          <Box sx={{ display: 'flex', justifyContent: 'flex-end', mx: { xs: 2, md: 7.5 }, mb: 1 }}>
+            <Button
+              size="small"
+              color="inherit"
+              startIcon={<DashboardCustomizeIcon />}
+              onClick={() => setIsLayoutEditorOpen(true)}
+              sx={{ color: 'grey.400', '&:hover': { color: 'white' } }}
+            >
+              Customize rows
+            </Button>
+          </Box>
+        )}
+
+        {!showLoadingIndicator && visibleRows.length > 0 && (
+          visibleRows.map((catalogRow) => (
             <MediaRow 
               key={catalogRow.id} 
               title={catalogRow.title} 
+              sourceLabel={catalogRow.sourceLabel}
+              seeAllHref={catalogRow.seeAllHref}
               items={catalogRow.items} 
               addonId={catalogRow.source === 'addon' ? catalogRow.addonId : undefined}
-              imageType={catalogRow.source === 'tmdb' ? 'backdrop' : 'poster'} // Use backdrop format for TMDB, poster for addons
+              imageType={catalogRow.imageType}
+              hasMore={!!catalogRow.paging}
+              isLoadingMore={loadingMoreRowIds.has(catalogRow.id)}
+              onLoadMore={getLoadMoreHandler(catalogRow.id)}
               // Pass TMDB ID or Stremio ID appropriately to details page in MediaRow if needed
               // For TMDB items, catalogRow.items[any].id is `tmdb:${tmdb_id}`
             />
           ))
         )}
       </Box>
+      <HomeLayoutEditor open={isLayoutEditorOpen} onClose={() => setIsLayoutEditorOpen(false)} rows={layoutRows} />
     </Box>
   );
 }
@@ -0,0 +1,260 @@
+'use client';
+
+import React, { useState } from 'react';
+import Box from '@mui/material/Box';
+import Paper from '@mui/material/Paper';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import TextField from '@mui/material/TextField';
+import Alert from '@mui/material/Alert';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import CheckIcon from '@mui/icons-material/Check';
+import CloseIcon from '@mui/icons-material/Close';
+import DeleteIcon from '@mui/icons-material/Delete';
+import LockIcon from '@mui/icons-material/Lock';
+import LockOpenIcon from '@mui/icons-material/LockOpen';
+import ProfileAvatar from '@/components/ProfileAvatar';
+import ProfilePinDialog from '@/components/ProfilePinDialog';
+import { useProfileContext } from '@/context/ProfileContext';
+import { MAX_PROFILES, type UserProfile } from '@/lib/profiles';
+
+// Steps of the PIN flow: protected profiles confirm their current PIN before it can change
+type PinAction =
+  | { step: 'verify'; profile: UserProfile; next: 'set' | 'remove' | 'delete' }
+  | { step: 'set'; profile: UserProfile };
+
+const textFieldSx = {
+  '& .MuiInputBase-input': { color: 'white' },
+  '& .MuiInputLabel-root': { color: 'grey.500' },
+  '& .MuiOutlinedInput-notchedOutline': { borderColor: 'grey.700' },
+};
+
+export default function ProfilesPage() {
+  const {
+    profiles,
+    activeProfile,
+    createProfile,
+    renameProfile,
+    setProfilePin,
+    checkProfilePin,
+    deleteProfile,
+  } = useProfileContext();
+  const [newName, setNewName] = useState('');
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [pinAction, setPinAction] = useState<PinAction | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<UserProfile | null>(null);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreateError(null);
+    try {
+      await createProfile(newName);
+      setNewName('');
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Could not create the profile.');
+    }
+  };
+
+  const startRename = (profile: UserProfile) => {
+    setEditingId(profile.id);
+    setEditingName(profile.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) renameProfile(editingId, editingName);
+    setEditingId(null);
+  };
+
+  // The active profile is already unlocked; any other protected profile needs its PIN first
+  const runProtected = (profile: UserProfile, next: 'set' | 'remove' | 'delete') => {
+    if (profile.pinHash && profile.id !== activeProfile?.id) {
+      setPinAction({ step: 'verify', profile, next });
+      return;
+    }
+    continueAfterVerify(profile, next);
+  };
+
+  const continueAfterVerify = (profile: UserProfile, next: 'set' | 'remove' | 'delete') => {
+    if (next === 'set') {
+      setPinAction({ step: 'set', profile });
+      return;
+    }
+    setPinAction(null);
+    if (next === 'remove') setProfilePin(profile.id, null);
+    else setDeleteTarget(profile);
+  };
+
+  const handlePinSubmit = async (pin: string) => {
+    if (!pinAction) return false;
+    if (pinAction.step === 'verify') {
+      if (!(await checkProfilePin(pinAction.profile.id, pin))) return false;
+      continueAfterVerify(pinAction.profile, pinAction.next);
+      return true;
+    }
+    await setProfilePin(pinAction.profile.id, pin);
+    setPinAction(null);
+    return true;
+  };
+
+  const handleDelete = () => {
+    if (deleteTarget) deleteProfile(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <Box sx={{ pt: 12, px: { xs: 2, md: 7.5 }, pb: 6, minHeight: '100vh', backgroundColor: '#141414' }}>
+      <Typography variant="h4" sx={{ color: 'white', mb: 1, fontWeight: 'bold' }}>
+        Manage Profiles
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 4 }}>
+        Each profile keeps its own addons, catalogs, TMDB settings, list, watch history and player preferences.
+      </Typography>
+
+      <Box sx={{ maxWidth: 720, display: 'flex', flexDirection: 'column', gap: 2 }}>
+        {profiles.map(profile => {
+          const isEditing = editingId === profile.id;
+          return (
+            <Paper key={profile.id} sx={{ p: 2, backgroundColor: '#1f1f1f', color: 'white', display: 'flex', alignItems: 'center', gap: 2 }}>
+              <ProfileAvatar profile={profile} size={48} />
+              <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                {isEditing ? (
+                  <TextField
+                    autoFocus
+                    size="small"
+                    value={editingName}
+                    onChange={(e) => setEditingName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename();
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                    inputProps={{ maxLength: 20, 'aria-label': 'Profile name' }}
+                    sx={textFieldSx}
+                  />
+                ) : (
+                  <Typography variant="h6" noWrap>{profile.name}</Typography>
+                )}
+                <Typography variant="caption" sx={{ color: 'grey.500' }}>
+                  {[profile.id === activeProfile?.id ? 'Current profile' : null, profile.pinHash ? 'PIN protected' : 'No PIN'].filter(Boolean).join(' · ')}
+                </Typography>
+              </Box>
+
+              {isEditing ? (
+                <>
+                  <Tooltip title="Save name">
+                    <span>
+                      <IconButton onClick={commitRename} disabled={!editingName.trim()} sx={{ color: 'white' }} aria-label="Save name">
+                        <CheckIcon />
+                      </IconButton>
+                    </span>
+                  </Tooltip>
+                  <Tooltip title="Cancel">
+                    <IconButton onClick={() => setEditingId(null)} sx={{ color: 'grey.400' }} aria-label="Cancel rename">
+                      <CloseIcon />
+                    </IconButton>
+                  </Tooltip>
+                </>
+              ) : (
+                <Tooltip title="Rename">
+                  <IconButton onClick={() => startRename(profile)} sx={{ color: 'grey.400' }} aria-label={`Rename ${profile.name}`}>
+                    <EditIcon />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <Tooltip title={profile.pinHash ? 'Change PIN' : 'Set PIN'}>
+                <IconButton onClick={() => runProtected(profile, 'set')} sx={{ color: 'grey.400' }} aria-label={`Set PIN for ${profile.name}`}>
+                  <LockIcon />
+                </IconButton>
+              </Tooltip>
+              {profile.pinHash && (
+                <Tooltip title="Remove PIN">
+                  <IconButton onClick={() => runProtected(profile, 'remove')} sx={{ color: 'grey.400' }} aria-label={`Remove PIN for ${profile.name}`}>
+                    <LockOpenIcon />
+                  </IconButton>
+                </Tooltip>
+              )}
+              <Tooltip title={profiles.length <= 1 ? 'The last profile can\'t be deleted' : 'Delete'}>
+                <span>
+                  <IconButton
+                    onClick={() => runProtected(profile, 'delete')}
+                    disabled={profiles.length <= 1}
+                    sx={{ color: '#e50914', '&.Mui-disabled': { color: 'grey.700' } }}
+                    aria-label={`Delete ${profile.name}`}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Paper>
+          );
+        })}
+
+        {/* Create */}
+        {profiles.length < MAX_PROFILES ? (
+          <Paper component="form" onSubmit={handleCreate} sx={{ p: 2, backgroundColor: '#1f1f1f', display: 'flex', alignItems: 'center', gap: 2 }}>
+            <TextField
+              size="small"
+              label="New profile name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              inputProps={{ maxLength: 20 }}
+              sx={{ flexGrow: 1, ...textFieldSx }}
+            />
+            <Button
+              type="submit"
+              variant="contained"
+              startIcon={<AddIcon />}
+              disabled={!newName.trim()}
+              sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+            >
+              Add Profile
+            </Button>
+          </Paper>
+        ) : (
+          <Alert severity="info" sx={{ backgroundColor: '#1f1f1f', color: 'white' }}>
+            You can have up to {MAX_PROFILES} profiles.
+          </Alert>
+        )}
+        {createError && <Alert severity="error">{createError}</Alert>}
+      </Box>
+
+      <ProfilePinDialog
+        open={!!pinAction}
+        title={!pinAction ? '' : pinAction.step === 'verify'
+          ? `Enter the current PIN for ${pinAction.profile.name}`
+          : `New PIN for ${pinAction.profile.name}`}
+        description={pinAction?.step === 'set' ? 'The PIN is asked for when switching to this profile.' : undefined}
+        confirmLabel={pinAction?.step === 'set' ? 'Save PIN' : 'Continue'}
+        onClose={() => setPinAction(null)}
+        onSubmit={handlePinSubmit}
+      />
+
+      <Dialog
+        open={!!deleteTarget}
+        onClose={() => setDeleteTarget(null)}
+        PaperProps={{ sx: { backgroundColor: '#1f1f1f', color: 'white' } }}
+      >
+        <DialogTitle>Delete {deleteTarget?.name}?</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ color: 'grey.400' }}>
+            This removes the profile&apos;s addons, settings, list and watch history from this browser. It can&apos;t be undone.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setDeleteTarget(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleDelete} sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -9,36 +9,11 @@ import Alert from '@mui/material/Alert';
 import MediaRow from '@/components/MediaRow';
 import { useAddonContext } from '@/context/AddonContext';
 import { useTmdbContext } from '@/context/TmdbContext';
-
-// Define interfaces based on existing types in the app
-interface AddonCatalog {
-  id: string;
-  name?: string;
-  type: string;
-}
-
-interface AddonManifest {
-  id: string;
-  name: string;
-  version: string;
-  catalogs?: AddonCatalog[];
-}
-
-interface InstalledAddon extends AddonManifest {
-  manifestUrl: string;
-  selectedCatalogIds?: string[];
-}
-
-interface StremioCatalogMeta {
-  id: string;
-  name: string;
-  poster?: string;
-  type?: string;
-}
-
-interface StremioCatalogResponse {
-  metas?: StremioCatalogMeta[];
-}
+import { useAllowedItems } from '@/context/ParentalControlsContext';
+import { fetchCatalog, getCatalogUniqueId } from '@/lib/addonClient';
+import { fetchTmdb } from '@/lib/tmdbClient';
+import { isAbortError } from '@/lib/network';
+import type { MetaPreview } from '@/types/stremio';
 
 // Unified MediaItem for search results
 interface MediaItem {
@@ -51,7 +26,19 @@ interface MediaItem {
 
 // A common ID for the official Cinemeta v3 addon
 const CINEMETA_ADDON_ID = 'community.cinemeta'; 
-const CINEMETA_BASE_URL = 'https://v3-cinemeta.strem.io';
+const CINEMETA_MANIFEST_URL = 'https://v3-cinemeta.strem.io/manifest.json';
+
+// Keeps only movie/series metas with a poster and maps them to MediaItems
+const transformSearchMetas = (metas: MetaPreview[]): MediaItem[] =>
+  metas
+    .filter(meta => meta.poster && (meta.type === 'movie' || meta.type === 'series'))
+    .map(meta => ({
+      id: meta.id,
+      imageUrl: meta.poster!,
+      alt: meta.name || meta.id,
+      type: meta.type as 'movie' | 'series',
+      source: 'addon' as const,
+    }));
 
 // TMDB types
 const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/';
@@ -96,8 +83,6 @@ export default function SearchPage() {
   const [pageError, setPageError] = useState<string | null>(null);
   const [currentSearchSource, setCurrentSearchSource] = useState<'tmdb' | 'addons' | 'cinemeta' | null>(null);
 
-  const getCatalogUniqueId = (catalog: AddonCatalog) => `${catalog.type}/${catalog.id}`;
-  
   useEffect(() => {
     if (addonContextError) {
         setPageError(`Addon context error: ${addonContextError}`);
@@ -139,7 +124,7 @@ export default function SearchPage() {
     };
   }, []);
 
-  const performTmdbSearch = useCallback(async (searchQuery: string, apiKey: string) => {
+  const performTmdbSearch = useCallback(async (searchQuery: string, apiKey: string, signal: AbortSignal) => {
     setIsLoadingSearch(true);
     setPageError(null);
     setAllSearchResults([]);
@@ -147,13 +132,12 @@ export default function SearchPage() {
     console.log(`SearchPage: Searching TMDB for "${searchQuery}"`);
 
     try {
-      const searchUrl = `https://api.themoviedb.org/3/search/multi?api_key=${apiKey}&query=${encodeURIComponent(searchQuery)}&language=en-US&page=1&include_adult=false`;
-      const response = await fetch(searchUrl);
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ message: response.statusText }));
-        throw new Error(`TMDB API error: ${errorData.message || response.statusText} (${response.status})`);
-      }
-      const data: TmdbSearchResponse = await response.json();
+      const data = await fetchTmdb<TmdbSearchResponse>(
+        '/search/multi',
+        apiKey,
+        { query: searchQuery, language: 'en-US', page: 1, include_adult: false },
+        { signal }
+      );
       
       const tmdbMediaItems = data.results
         .map(transformTmdbItemToMediaItem)
@@ -164,15 +148,16 @@ export default function SearchPage() {
         setPageError(`No results found for "${searchQuery}" on TMDB.`);
       }
     } catch (err: any) {
+      if (isAbortError(err)) return;
       console.error("SearchPage: Error searching TMDB:", err);
       setPageError(`Failed to search TMDB: ${err.message}`);
       setAllSearchResults([]);
     } finally {
-      setIsLoadingSearch(false);
+      if (!signal.aborted) setIsLoadingSearch(false);
     }
   }, [transformTmdbItemToMediaItem]);
 
-  const performAddonSearch = useCallback(async (searchQuery: string) => {
+  const performAddonSearch = useCallback(async (searchQuery: string, signal: AbortSignal) => {
     setIsLoadingSearch(true);
     setPageError(null);
     setAllSearchResults([]);
@@ -188,27 +173,9 @@ export default function SearchPage() {
       console.log("SearchPage: Cinemeta addon found. Searching only Cinemeta.");
       const typesToSearch: ('movie' | 'series')[] = ['movie', 'series'];
       typesToSearch.forEach(type => {
-        const searchUrl = `${CINEMETA_BASE_URL}/catalog/${type}/top/search=${encodeURIComponent(searchQuery)}.json`;
         searchPromises.push(
-          fetch(searchUrl)
-            .then(res => {
-              if (!res.ok) throw new Error(`HTTP error ${res.status} for ${searchUrl}`);
-              return res.json() as Promise<StremioCatalogResponse>;
-            })
-            .then(data => {
-              if (data?.metas && data.metas.length > 0) {
-                return data.metas
-                  .filter(meta => meta.poster && (meta.type === 'movie' || meta.type === 'series')) 
-                  .map(meta => ({
-                    id: meta.id,
-                    imageUrl: meta.poster!,
-                    alt: meta.name || meta.id,
-                    type: meta.type as 'movie' | 'series',
-                    source: 'addon' as 'addon'
-                  }));
-              }
-              return [];
-            })
+          fetchCatalog({ manifestUrl: CINEMETA_MANIFEST_URL }, type, 'top', { search: searchQuery }, { signal })
+            .then(data => transformSearchMetas(data.metas))
             .catch(err => {
               console.error(`SearchPage: Error searching Cinemeta ${type}/top:`, err);
               return []; 
@@ -223,35 +190,15 @@ export default function SearchPage() {
         
         const selectedCatalogIds = addon.selectedCatalogIds || addon.catalogs.map(getCatalogUniqueId);
         if (selectedCatalogIds.length === 0) return;
-
-        const baseUrl = addon.manifestUrl.substring(0, addon.manifestUrl.lastIndexOf('/'));
         
         addon.catalogs.forEach(catalog => {
           const catalogFullId = getCatalogUniqueId(catalog);
           if (!selectedCatalogIds.includes(catalogFullId)) return;
           if (catalog.type !== 'movie' && catalog.type !== 'series') return;
 
-          const searchUrl = `${baseUrl}/catalog/${catalog.type}/${catalog.id}/search=${encodeURIComponent(searchQuery)}.json`;
           searchPromises.push(
-            fetch(searchUrl)
-              .then(res => {
-                if (!res.ok) throw new Error(`HTTP error ${res.status} for ${searchUrl}`);
-                return res.json() as Promise<StremioCatalogResponse>;
-              })
-              .then(data => {
-                if (data?.metas && data.metas.length > 0) {
-                  return data.metas
-                    .filter(meta => meta.poster && (meta.type === 'movie' || meta.type === 'series'))
-                    .map(meta => ({
-                      id: meta.id,
-                      imageUrl: meta.poster!,
-                      alt: meta.name || meta.id,
-                      type: meta.type as 'movie' | 'series',
-                      source: 'addon' as 'addon'
-                    }));
-                }
-                return [];
-              })
+            fetchCatalog(addon, catalog.type, catalog.id, { search: searchQuery }, { signal })
+              .then(data => transformSearchMetas(data.metas))
               .catch(err => {
                 console.error(`SearchPage: Error searching ${addon.name} - ${catalog.name || catalog.id}:`, err);
                 return [];
@@ -270,6 +217,7 @@ export default function SearchPage() {
     
     try {
       const resultsFromAllPromises = await Promise.all(searchPromises);
+      if (signal.aborted) return; // A newer query took over
       const combinedResults = resultsFromAllPromises.flat();
       
       const uniqueResults: MediaItem[] = [];
@@ -289,9 +237,9 @@ export default function SearchPage() {
       console.error("SearchPage: Error during addon Promise.all execution:", err);
       setPageError('An error occurred while aggregating addon search results');
     } finally {
-      setIsLoadingSearch(false);
+      if (!signal.aborted) setIsLoadingSearch(false);
     }
-  }, [installedAddons, getCatalogUniqueId]);
+  }, [installedAddons]);
 
   useEffect(() => {
     if (!query) {
@@ -307,16 +255,20 @@ export default function SearchPage() {
       return;
     }
     
+    const abortController = new AbortController();
     if (isTmdbEnabled && tmdbApiKey) {
-      performTmdbSearch(query, tmdbApiKey);
+      performTmdbSearch(query, tmdbApiKey, abortController.signal);
     } else if (installedAddons.length > 0) {
-      performAddonSearch(query);
+      performAddonSearch(query, abortController.signal);
     } else {
       setPageError("Search unavailable. Please enable TMDB with an API key or install an addon.");
       setIsLoadingSearch(false);
       setAllSearchResults([]);
       setCurrentSearchSource(null);
     }
+
+    // Cancel the previous search when the query changes or the page unmounts
+    return () => abortController.abort();
   }, [
     query, 
     installedAddons, 
@@ -326,8 +278,15 @@ export default function SearchPage() {
     isLoadingTmdbKey
   ]);
 
+  // Results hidden by parental controls are left out before grouping
+  const { allowedItems: visibleResults, isChecking: isCheckingResults } = useAllowedItems(
+    allSearchResults,
+    item => ({ type: item.type, id: item.id })
+  );
+  const hiddenResultCount = allSearchResults.length - visibleResults.length;
+
   const resultsByType: Record<string, MediaItem[]> = {};
-  allSearchResults.forEach(item => {
+  visibleResults.forEach(item => {
     const typeKey = item.type || 'other';
     if (!resultsByType[typeKey]) {
       resultsByType[typeKey] = [];
@@ -335,7 +294,7 @@ export default function SearchPage() {
     resultsByType[typeKey].push(item);
   });
 
-  const showOverallLoading = isLoadingAddons || isLoadingTmdbKey || isLoadingSearch;
+  const showOverallLoading = isLoadingAddons || isLoadingTmdbKey || isLoadingSearch || isCheckingResults;
 
   const getSearchSourceMessage = () => {
     if (!query || showOverallLoading || pageError) return null;
@@ -385,6 +344,12 @@ export default function SearchPage() {
         </Alert>
       )}
 
+      {!showOverallLoading && !pageError && hiddenResultCount > 0 && (
+        <Alert severity="info" sx={{ mt: 2, mb: 3, backgroundColor: '#333', color: 'white' }}>
+          {hiddenResultCount === allSearchResults.length ? 'All' : hiddenResultCount} {hiddenResultCount === 1 ? 'result was' : 'results were'} hidden by parental controls.
+        </Alert>
+      )}
+
       {!showOverallLoading && Object.keys(resultsByType).length > 0 && (
         <>
           {Object.entries(resultsByType).map(([type, items], index, arr) => {
@@ -0,0 +1,17 @@
+'use client';
+
+import React from 'react';
+import BrowsePage from '@/components/BrowsePage';
+import { loadTypeRows } from '@/lib/browsePages';
+
+const loadSeriesRows = loadTypeRows('series');
+
+export default function TvShowsPage() {
+  return (
+    <BrowsePage
+      title="TV Shows"
+      loadRows={loadSeriesRows}
+      emptyMessage="No TV shows to show. Configure a TMDB API key, or select series catalogs on the Addons page."
+    />
+  );
+}
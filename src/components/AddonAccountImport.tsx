@@ -0,0 +1,295 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Paper,
+  Alert,
+  Chip,
+  Checkbox,
+  CircularProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+} from '@mui/material';
+import CloudDownloadIcon from '@mui/icons-material/CloudDownload';
+import { useAddonContext } from '@/context/AddonContext';
+import {
+  buildAccountCollection,
+  createStremioAccountProvider,
+  previewAddonImport,
+  type AddonAccountProvider,
+  type AddonAccountSession,
+  type AddonImportAction,
+  type AddonImportItem,
+} from '@/lib/addonAccounts';
+
+const defaultProvider = createStremioAccountProvider();
+
+const ACTION_LABELS: Record<AddonImportAction, string> = {
+  add: 'New',
+  update: 'Update',
+  unchanged: 'Installed',
+};
+
+const ACTION_COLORS: Record<AddonImportAction, string> = {
+  add: 'success.dark',
+  update: 'warning.dark',
+  unchanged: 'grey.700',
+};
+
+const textFieldSx = {
+  flexGrow: 1,
+  "& .MuiOutlinedInput-root": {
+    "& fieldset": { borderColor: "grey.700" },
+    "&:hover fieldset": { borderColor: "grey.500" },
+    "&.Mui-focused fieldset": { borderColor: "#e50914" },
+    backgroundColor: '#2b2b2b',
+  },
+  "& .MuiInputLabel-root": { color: "grey.400" },
+  "& .MuiInputBase-input": { color: "white" },
+};
+
+const getErrorMessage = (err: unknown, fallback: string) => (err instanceof Error ? err.message : fallback);
+
+// Signs in to an addon account (Stremio by default) to import its addon collection, or to
+// replace that collection with the addons installed here. The session isn't stored.
+export default function AddonAccountImport({ provider = defaultProvider }: { provider?: AddonAccountProvider }) {
+  const { installedAddons, importAccountAddons } = useAddonContext();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [session, setSession] = useState<AddonAccountSession | null>(null);
+  const [busy, setBusy] = useState<'login' | 'fetch' | 'push' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [importItems, setImportItems] = useState<AddonImportItem[] | null>(null);
+  const [selectedUrls, setSelectedUrls] = useState<Set<string>>(new Set());
+  const [confirmPush, setConfirmPush] = useState(false);
+
+  const selectedItems = useMemo(
+    () => (importItems || []).filter(item => selectedUrls.has(item.addon.manifestUrl)),
+    [importItems, selectedUrls]
+  );
+
+  const handleLogin = async () => {
+    if (!email.trim() || !password) {
+      setError('Enter the email and password of your account.');
+      return;
+    }
+    setBusy('login');
+    setError(null);
+    try {
+      setSession(await provider.login(email.trim(), password));
+      setPassword('');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not sign in.'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleLogout = async () => {
+    const current = session;
+    setSession(null);
+    setMessage(null);
+    if (!current) return;
+    try {
+      await provider.logout(current);
+    } catch (err) {
+      console.warn('AddonAccountImport: Logout failed:', getErrorMessage(err, 'unknown error'));
+    }
+  };
+
+  const handleFetch = async () => {
+    if (!session) return;
+    setBusy('fetch');
+    setError(null);
+    setMessage(null);
+    try {
+      const items = previewAddonImport(installedAddons, await provider.getAddonCollection(session));
+      setImportItems(items);
+      setSelectedUrls(new Set(items.filter(item => item.action !== 'unchanged').map(item => item.addon.manifestUrl)));
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not load the account\'s addons.'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleSelected = (manifestUrl: string) => {
+    setSelectedUrls(prev => {
+      const next = new Set(prev);
+      if (next.has(manifestUrl)) next.delete(manifestUrl);
+      else next.add(manifestUrl);
+      return next;
+    });
+  };
+
+  const handleImport = () => {
+    importAccountAddons(selectedItems);
+    setMessage(`Imported ${selectedItems.length} addon(s) from ${provider.name}.`);
+    setImportItems(null);
+  };
+
+  const handlePush = async () => {
+    if (!session) return;
+    setConfirmPush(false);
+    setBusy('push');
+    setError(null);
+    setMessage(null);
+    try {
+      const current = await provider.getAddonCollection(session);
+      await provider.setAddonCollection(session, buildAccountCollection(installedAddons, current));
+      setMessage(`Your ${provider.name} account now has the ${installedAddons.length} addon(s) installed here.`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not update the account\'s addons.'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <CloudDownloadIcon sx={{ color: '#e50914' }} /> Import from {provider.name}
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+        Sign in to your {provider.name} account to install its addons here, configured URLs and order included,
+        or to send the addons installed here back to the account. Your password isn&apos;t saved.
+      </Typography>
+
+      {session ? (
+        <>
+          <Typography variant="body2" sx={{ color: 'grey.200', mb: 2 }}>
+            Signed in as <strong>{session.email}</strong>
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            <Button
+              variant="contained"
+              disabled={!!busy}
+              onClick={() => void handleFetch()}
+              sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+            >
+              {busy === 'fetch' ? <CircularProgress size={24} color="inherit" /> : 'Import addons'}
+            </Button>
+            <Button variant="outlined" color="inherit" disabled={!!busy} onClick={() => setConfirmPush(true)} sx={{ color: 'grey.300' }}>
+              {busy === 'push' ? <CircularProgress size={24} color="inherit" /> : 'Send installed addons to account'}
+            </Button>
+            <Button color="inherit" disabled={!!busy} onClick={() => void handleLogout()} sx={{ color: 'grey.400' }}>
+              Sign out
+            </Button>
+          </Box>
+        </>
+      ) : (
+        <Box
+          component="form"
+          onSubmit={(e) => { e.preventDefault(); void handleLogin(); }}
+          sx={{ display: 'flex', gap: {xs: 1, sm: 2}, alignItems: 'flex-start', flexDirection: {xs: 'column', sm: 'row'} }}
+        >
+          <TextField fullWidth label="Email" size="small" autoComplete="email" value={email} onChange={(e) => setEmail(e.target.value)} sx={textFieldSx} />
+          <TextField
+            fullWidth
+            label="Password"
+            type="password"
+            size="small"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            sx={textFieldSx}
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={!!busy}
+            sx={{ backgroundColor: '#e50914', fontWeight: 'bold', px: 3, py: 1.25, minWidth: {xs: '100%', sm: '120px'}, '&:hover': { backgroundColor: '#b20710' } }}
+          >
+            {busy === 'login' ? <CircularProgress size={24} color="inherit" /> : 'Sign in'}
+          </Button>
+        </Box>
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {message && (
+        <Alert severity="success" sx={{ mt: 2 }} onClose={() => setMessage(null)}>
+          {message}
+        </Alert>
+      )}
+
+      {/* Import preview */}
+      <Dialog
+        open={!!importItems}
+        onClose={() => setImportItems(null)}
+        maxWidth="sm"
+        fullWidth
+        PaperProps={{ sx: { backgroundColor: '#1f1f1f', color: 'white' } }}
+      >
+        <DialogTitle>Import addons from {provider.name}</DialogTitle>
+        <DialogContent>
+          {importItems?.length === 0 ? (
+            <Typography variant="body2" sx={{ color: 'grey.500' }}>The account has no addons.</Typography>
+          ) : (
+            <List dense>
+              {importItems?.map(item => (
+                <ListItem key={item.addon.manifestUrl} disableGutters onClick={() => toggleSelected(item.addon.manifestUrl)} sx={{ cursor: 'pointer' }}>
+                  <ListItemIcon sx={{ minWidth: 40 }}>
+                    <Checkbox
+                      edge="start"
+                      checked={selectedUrls.has(item.addon.manifestUrl)}
+                      sx={{ color: 'grey.500', '&.Mui-checked': { color: '#e50914' } }}
+                    />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={`${item.addon.manifest.name}${item.addon.manifest.version ? ` v${item.addon.manifest.version}` : ''}`}
+                    secondary={item.addon.manifestUrl}
+                    secondaryTypographyProps={{ sx: { color: 'grey.500', wordBreak: 'break-all' } }}
+                  />
+                  <Chip size="small" label={ACTION_LABELS[item.action]} sx={{ bgcolor: ACTION_COLORS[item.action], color: 'white', ml: 1 }} />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setImportItems(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleImport}
+            disabled={selectedItems.length === 0}
+            sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+          >
+            Import {selectedItems.length > 0 ? selectedItems.length : ''}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Push confirmation */}
+      <Dialog open={confirmPush} onClose={() => setConfirmPush(false)} PaperProps={{ sx: { backgroundColor: '#1f1f1f', color: 'white' } }}>
+        <DialogTitle>Replace the account&apos;s addons?</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ color: 'grey.400' }}>
+            Your {provider.name} account&apos;s addons will be replaced with the {installedAddons.length} addon(s) installed
+            here, in the same order. Addons the account can&apos;t remove are kept.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setConfirmPush(false)}>Cancel</Button>
+          <Button variant="contained" onClick={() => void handlePush()} sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}>
+            Replace
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Box, Typography, Paper, Switch, FormControlLabel, IconButton, List, ListItem, ListItemText, Divider } from '@mui/material';
+import SwapVertIcon from '@mui/icons-material/SwapVert';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import { useAddonContext } from '@/context/AddonContext';
+import { ADDON_PRIORITY_RESOURCES, getAddonsProvidingResource, moveItem, type AddonPriorityResource } from '@/lib/addonPriority';
+
+const switchSx = {
+  '& .MuiSwitch-switchBase.Mui-checked': { color: '#e50914' },
+  '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#e50914' },
+};
+
+// Per-resource overrides of the addon order. Without an override a resource follows the order
+// of the installed addons list.
+export default function AddonPrioritySettings() {
+  const { installedAddons, addonResourceOrder, setAddonResourceOrder, getAddonsForResource } = useAddonContext();
+  const [dragging, setDragging] = useState<{ resource: AddonPriorityResource; index: number } | null>(null);
+
+  const resources = ADDON_PRIORITY_RESOURCES
+    .map(entry => ({ ...entry, addons: getAddonsProvidingResource(getAddonsForResource(entry.resource), entry.resource) }))
+    .filter(entry => entry.addons.length > 1);
+
+  if (installedAddons.length < 2) return null;
+
+  const moveInResource = (resource: AddonPriorityResource, urls: string[], fromIndex: number, toIndex: number) => {
+    setAddonResourceOrder(resource, moveItem(urls, fromIndex, toIndex));
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <SwapVertIcon sx={{ color: '#e50914' }} /> Addon Priority per Resource
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+        Addons are asked in the order of the installed addons list. Turn on a custom order to ask them in a
+        different order for one kind of request only.
+      </Typography>
+
+      {resources.length === 0 && (
+        <Typography variant="body2" sx={{ color: 'grey.500' }}>
+          No resource is provided by more than one addon yet.
+        </Typography>
+      )}
+
+      {resources.map(({ resource, label, addons }, position) => {
+        const isCustom = !!addonResourceOrder[resource];
+        const urls = addons.map(addon => addon.manifestUrl);
+        return (
+          <Box key={resource}>
+            {position > 0 && <Divider sx={{ borderColor: 'grey.800', my: 1.5 }} />}
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 1 }}>
+              <Typography variant="subtitle1" sx={{ color: 'white', fontWeight: 'medium' }}>{label}</Typography>
+              <FormControlLabel
+                control={
+                  <Switch
+                    size="small"
+                    checked={isCustom}
+                    onChange={(e) => setAddonResourceOrder(resource, e.target.checked ? urls : null)}
+                    sx={switchSx}
+                  />
+                }
+                label="Custom order"
+                sx={{ color: 'grey.400', mr: 0, '& .MuiFormControlLabel-label': { fontSize: '0.85rem' } }}
+              />
+            </Box>
+            {isCustom ? (
+              <List dense disablePadding>
+                {addons.map((addon, index) => (
+                  <ListItem
+                    key={addon.manifestUrl}
+                    draggable
+                    onDragStart={() => setDragging({ resource, index })}
+                    onDragOver={(e) => { if (dragging?.resource === resource) e.preventDefault(); }}
+                    onDrop={() => {
+                      if (dragging?.resource === resource) moveInResource(resource, urls, dragging.index, index);
+                      setDragging(null);
+                    }}
+                    onDragEnd={() => setDragging(null)}
+                    sx={{
+                      backgroundColor: '#2b2b2b',
+                      borderRadius: '4px',
+                      mb: 0.5,
+                      cursor: 'grab',
+                      opacity: dragging?.resource === resource && dragging.index === index ? 0.5 : 1,
+                    }}
+                    secondaryAction={
+                      <Box>
+                        <IconButton size="small" aria-label="move up" disabled={index === 0} onClick={() => moveInResource(resource, urls, index, index - 1)} sx={{ color: 'grey.400' }}>
+                          <ArrowUpwardIcon fontSize="small" />
+                        </IconButton>
+                        <IconButton size="small" aria-label="move down" disabled={index === addons.length - 1} onClick={() => moveInResource(resource, urls, index, index + 1)} sx={{ color: 'grey.400' }}>
+                          <ArrowDownwardIcon fontSize="small" />
+                        </IconButton>
+                      </Box>
+                    }
+                  >
+                    <DragIndicatorIcon fontSize="small" sx={{ color: 'grey.600', mr: 1 }} />
+                    <ListItemText primary={`${index + 1}. ${addon.name}`} primaryTypographyProps={{ sx: { color: 'grey.200' } }} />
+                  </ListItem>
+                ))}
+              </List>
+            ) : (
+              <Typography variant="body2" sx={{ color: 'grey.500' }}>
+                {addons.map(addon => addon.name).join(' → ')}
+              </Typography>
+            )}
+          </Box>
+        );
+      })}
+    </Paper>
+  );
+}
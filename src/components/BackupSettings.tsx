@@ -0,0 +1,196 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Button,
+  Alert,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  RadioGroup,
+  Radio,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemText,
+} from '@mui/material';
+import BackupIcon from '@mui/icons-material/Backup';
+import DownloadIcon from '@mui/icons-material/Download';
+import UploadIcon from '@mui/icons-material/Upload';
+import { useProfileContext } from '@/context/ProfileContext';
+import { useParentalControlsContext } from '@/context/ParentalControlsContext';
+import {
+  BACKUP_SECTION_LABELS,
+  BackupError,
+  combineBackupData,
+  createBackupFile,
+  getBackupFileName,
+  parseBackupFile,
+  previewImport,
+  readBackupData,
+  writeBackupData,
+  type BackupFile,
+  type BackupSectionChange,
+  type ImportMode,
+} from '@/lib/backup';
+
+// Settings sections are compared field by field, so they get a plainer summary than lists
+const SETTINGS_SECTIONS = new Set(['tmdb', 'streamingServer', 'parentalControls', 'addonPriority', 'homeLayout']);
+
+const describeChange = (change: BackupSectionChange) => {
+  if (change.added + change.updated + change.removed === 0) return 'No changes';
+  if (SETTINGS_SECTIONS.has(change.section)) return 'Settings will change';
+  return [
+    change.added ? `${change.added} added` : null,
+    change.updated ? `${change.updated} updated` : null,
+    change.removed ? `${change.removed} removed` : null,
+  ].filter(Boolean).join(' · ');
+};
+
+// Export and import of the current profile's data, shown on the addons page
+export default function BackupSettings() {
+  const { activeProfile } = useProfileContext();
+  const { settings: parentalSettings } = useParentalControlsContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // An import could lift the restrictions, so it waits until they're unlocked (turned off)
+  const importLocked = parentalSettings.enabled && !!parentalSettings.pinHash;
+
+  const preview = useMemo(
+    () => (pendingBackup ? previewImport(readBackupData(), pendingBackup.data, importMode) : []),
+    [pendingBackup, importMode]
+  );
+
+  const handleExport = () => {
+    const backup = createBackupFile(activeProfile?.name);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getBackupFileName(backup);
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log('BackupSettings: Exported backup', link.download);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Picking the same file again should still fire
+    if (!file) return;
+    setImportError(null);
+    try {
+      setPendingBackup(parseBackupFile(await file.text()));
+      setImportMode('merge');
+    } catch (err) {
+      setImportError(err instanceof BackupError ? err.message : 'Could not read the backup file.');
+    }
+  };
+
+  const handleImport = () => {
+    if (!pendingBackup) return;
+    try {
+      writeBackupData(combineBackupData(readBackupData(), pendingBackup.data, importMode));
+      console.log('BackupSettings: Imported backup with mode', importMode);
+      window.location.reload(); // Every context reads its storage again
+    } catch (err) {
+      setImportError(err instanceof Error ? `Import failed: ${err.message}` : 'Import failed.');
+      setPendingBackup(null);
+    }
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <BackupIcon sx={{ color: '#e50914' }} /> Backup
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+        Save this profile&apos;s addons, catalog selections, TMDB and player settings, list and watch history to a file,
+        or restore them from one. The file includes your TMDB API key, so keep it private.
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+        <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleExport} sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}>
+          Export
+        </Button>
+        <Button variant="outlined" color="inherit" startIcon={<UploadIcon />} disabled={importLocked} onClick={() => fileInputRef.current?.click()} sx={{ color: 'grey.300' }}>
+          Import
+        </Button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" hidden onChange={handleFileChange} />
+      </Box>
+
+      {importLocked && (
+        <Typography variant="caption" sx={{ display: 'block', color: 'grey.500', mt: 1 }}>
+          Turn off restricted mode in Parental Controls to import a backup.
+        </Typography>
+      )}
+      {importError && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setImportError(null)}>
+          {importError}
+        </Alert>
+      )}
+
+      <Dialog
+        open={!!pendingBackup}
+        onClose={() => setPendingBackup(null)}
+        maxWidth="sm"
+        fullWidth
+        PaperProps={{ sx: { backgroundColor: '#1f1f1f', color: 'white' } }}
+      >
+        <DialogTitle>Import backup</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+            {[
+              pendingBackup?.profileName ? `From profile "${pendingBackup.profileName}"` : null,
+              pendingBackup?.exportedAt ? `exported ${new Date(pendingBackup.exportedAt).toLocaleString()}` : null,
+            ].filter(Boolean).join(', ') || 'Backup file'}
+          </Typography>
+
+          <RadioGroup value={importMode} onChange={(e) => setImportMode(e.target.value as ImportMode)}>
+            <FormControlLabel
+              value="merge"
+              control={<Radio sx={{ color: 'grey.500', '&.Mui-checked': { color: '#e50914' } }} />}
+              label="Merge: keep what's here and add what the backup has"
+            />
+            <FormControlLabel
+              value="replace"
+              control={<Radio sx={{ color: 'grey.500', '&.Mui-checked': { color: '#e50914' } }} />}
+              label="Replace: make each section match the backup"
+            />
+          </RadioGroup>
+
+          <List dense sx={{ mt: 1 }}>
+            {preview.map(change => (
+              <ListItem key={change.section} disableGutters>
+                <ListItemText
+                  primary={BACKUP_SECTION_LABELS[change.section]}
+                  secondary={describeChange(change)}
+                  secondaryTypographyProps={{ sx: { color: change.removed ? '#f48fb1' : 'grey.500' } }}
+                />
+              </ListItem>
+            ))}
+          </List>
+          {preview.length === 0 && (
+            <Typography variant="body2" sx={{ color: 'grey.500' }}>The backup doesn&apos;t contain any data.</Typography>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setPendingBackup(null)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={handleImport}
+            disabled={preview.length === 0}
+            sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+          >
+            Import
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Box from '@mui/material/Box';
+import Alert from '@mui/material/Alert';
+import CircularProgress from '@mui/material/CircularProgress';
+import Hero from '@/components/Hero';
+import MediaRow from '@/components/MediaRow';
+import { useAddonContext } from '@/context/AddonContext';
+import { useTmdbContext } from '@/context/TmdbContext';
+import { isAbortError } from '@/lib/network';
+import { interleaveMetas, type BrowseRow, type BrowseSources } from '@/lib/browsePages';
+
+const MAX_HERO_ITEMS = 10;
+
+interface BrowsePageProps {
+  title: string; // Shown over the hero
+  loadRows: (sources: BrowseSources, signal: AbortSignal) => Promise<BrowseRow[]>; // Keep it stable; rows reload when it changes
+  emptyMessage: string;
+  heroControls?: React.ReactNode; // Shown beside the title, e.g. a language picker
+}
+
+// A home-style page of rows with a hero made from the rows' own top titles
+export default function BrowsePage({ title, loadRows, emptyMessage, heroControls }: BrowsePageProps) {
+  const { getAddonsForResource, isLoading: isLoadingAddons, reportAddonResult } = useAddonContext();
+  const { tmdbApiKey, isTmdbEnabled, isLoadingKey: isLoadingTmdbKey } = useTmdbContext();
+  const catalogAddons = useMemo(() => getAddonsForResource('catalog'), [getAddonsForResource]);
+  const tmdbKey = isTmdbEnabled ? tmdbApiKey : null;
+
+  const [rows, setRows] = useState<BrowseRow[]>([]);
+  const [isLoadingRows, setIsLoadingRows] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (isLoadingAddons || isLoadingTmdbKey) return;
+    const abortController = new AbortController();
+    setRows([]);
+    setIsLoadingRows(true);
+    loadRows({ addons: catalogAddons, tmdbApiKey: tmdbKey, reportAddonResult }, abortController.signal)
+      .then(loadedRows => {
+        if (!abortController.signal.aborted) setRows(loadedRows);
+      })
+      .catch(err => {
+        if (!isAbortError(err)) console.error(`BrowsePage: Error loading rows for ${title}:`, err);
+      })
+      .finally(() => {
+        if (!abortController.signal.aborted) setIsLoadingRows(false);
+      });
+    // Cancel in-flight requests if the sources change again or the page unmounts
+    return () => abortController.abort();
+  }, [loadRows, catalogAddons, tmdbKey, reportAddonResult, isLoadingAddons, isLoadingTmdbKey, title]);
+
+  // The first titles of each row that have the artwork and text a hero needs
+  const heroItems = useMemo(
+    () => interleaveMetas(rows.map(row => row.items.filter(meta => meta.background && meta.description)), MAX_HERO_ITEMS),
+    [rows]
+  );
+
+  const showLoadingIndicator = isLoadingAddons || isLoadingTmdbKey || isLoadingRows;
+
+  return (
+    <Box>
+      <Hero items={heroItems} isLoadingItems={showLoadingIndicator} label={title} controls={heroControls} />
+      <Box sx={{ pb: 4, backgroundColor: '#141414' }}>
+        {showLoadingIndicator && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', minHeight: '200px' }}>
+            <CircularProgress sx={{ color: 'red' }} />
+          </Box>
+        )}
+
+        {!showLoadingIndicator && rows.length === 0 && (
+          <Alert severity="info" sx={{ mx: { xs: 2, md: 7.5 }, my: 2, backgroundColor: '#1f1f1f', color: 'white' }}>
+            {emptyMessage}
+          </Alert>
+        )}
+
+        {!showLoadingIndicator && rows.map(row => (
+          <MediaRow
+            key={row.id}
+            title={row.title}
+            sourceLabel={row.sourceLabel}
+            seeAllHref={row.seeAllHref}
+            addonId={row.addonId}
+            items={row.items.map(meta => ({
+              id: meta.id,
+              imageUrl: meta.poster || '',
+              alt: meta.name || meta.id,
+              type: meta.type,
+              releaseInfo: meta.releaseInfo,
+              imdbRating: meta.imdbRating,
+            }))}
+          />
+        ))}
+      </Box>
+    </Box>
+  );
+}
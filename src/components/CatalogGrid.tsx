@@ -0,0 +1,106 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Image from 'next/image';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import CircularProgress from '@mui/material/CircularProgress';
+import { useAllowedItems } from '@/context/ParentalControlsContext';
+
+export interface CatalogGridItem {
+  id: string; // Stremio ID or tmdb:TMDB_ID
+  type: string;
+  name: string;
+  poster?: string;
+  releaseInfo?: string;
+  imdbRating?: string;
+}
+
+interface CatalogGridProps {
+  items: CatalogGridItem[];
+  addonId?: string; // Passed on to the details page
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void; // Called as the end of the grid comes into view, while hasMore is set
+}
+
+// Poster grid that asks for the next page as its end scrolls into view
+export default function CatalogGrid({ items, addonId, hasMore, isLoadingMore, onLoadMore }: CatalogGridProps) {
+  const router = useRouter();
+  const { allowedItems } = useAllowedItems(items, item => ({ type: item.type, id: item.id }));
+  const [failedImages, setFailedImages] = useState<Set<string>>(new Set());
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !onLoadMore || !hasMore || isLoadingMore) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: '600px 0px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [items, hasMore, isLoadingMore, onLoadMore]);
+
+  const handleItemClick = (item: CatalogGridItem) => {
+    router.push(`/details/${item.type}/${item.id}${addonId ? `?addonId=${addonId}` : ''}`);
+  };
+
+  return (
+    <>
+      <Box
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: { xs: 'repeat(auto-fill, minmax(120px, 1fr))', md: 'repeat(auto-fill, minmax(170px, 1fr))' },
+          gap: { xs: 1.5, md: 2 },
+        }}
+      >
+        {allowedItems.map(item => {
+          const showImage = item.poster && !failedImages.has(item.id);
+          return (
+            <Box key={item.id} onClick={() => handleItemClick(item)} sx={{ cursor: 'pointer' }}>
+              <Box
+                sx={{
+                  position: 'relative',
+                  aspectRatio: '2 / 3',
+                  borderRadius: '4px',
+                  overflow: 'hidden',
+                  backgroundColor: 'grey.800',
+                  transition: 'transform 0.3s ease',
+                  '&:hover': { transform: 'scale(1.04)' },
+                }}
+              >
+                {showImage ? (
+                  <Image
+                    src={item.poster!}
+                    alt={item.name}
+                    fill
+                    style={{ objectFit: 'cover' }}
+                    sizes="(max-width: 900px) 120px, 170px"
+                    onError={() => setFailedImages(prev => new Set(prev).add(item.id))}
+                  />
+                ) : (
+                  <Box sx={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center', p: 1.5, textAlign: 'center', background: 'linear-gradient(45deg, #181818 0%, #2a2a2a 100%)' }}>
+                    <Typography variant="body2" sx={{ color: 'grey.300', fontWeight: 'medium' }}>
+                      {item.name}
+                    </Typography>
+                  </Box>
+                )}
+              </Box>
+              <Typography variant="body2" noWrap sx={{ color: 'white', mt: 1, fontWeight: 'medium' }}>
+                {item.name}
+              </Typography>
+              <Typography variant="caption" sx={{ color: 'grey.500' }}>
+                {[item.releaseInfo, item.imdbRating ? `★ ${item.imdbRating}` : null].filter(Boolean).join(' · ')}
+              </Typography>
+            </Box>
+          );
+        })}
+      </Box>
+
+      <Box ref={sentinelRef} sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+        {isLoadingMore && <CircularProgress sx={{ color: 'red' }} />}
+      </Box>
+    </>
+  );
+}
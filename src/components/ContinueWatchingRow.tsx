@@ -0,0 +1,71 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import MediaRow from './MediaRow';
+import StreamDialog from './StreamDialog';
+import { useWatchStateContext } from '@/context/WatchStateContext';
+import { getContinueWatchingItems, getWatchKey, type ContinueWatchingItem } from '@/lib/watchState';
+
+const FALLBACK_IMAGE = '/assets/images/hero-background-new.png';
+
+// "Continue Watching" row for the home page, built from saved watch progress.
+// Cards open the stream dialog straight on the movie or episode to play.
+export default function ContinueWatchingRow() {
+  const { watchProgress, isLoading, removeFromContinueWatching } = useWatchStateContext();
+  const [dialogTarget, setDialogTarget] = useState<ContinueWatchingItem | null>(null);
+
+  const continueItems = useMemo(() => getContinueWatchingItems(watchProgress), [watchProgress]);
+
+  const mediaItems = useMemo(() => continueItems.map(item => ({
+    id: getWatchKey(item),
+    imageUrl: item.background || item.poster || FALLBACK_IMAGE,
+    alt: item.name || item.contentId,
+    type: item.contentType,
+    progress: item.progress,
+    subtitle: item.season != null && item.episode != null ? `S${item.season}:E${item.episode}` : undefined,
+  })), [continueItems]);
+
+  const findItem = (id: string | number) => continueItems.find(item => getWatchKey(item) === id);
+
+  // Episode after the one in the dialog, if it was saved with the episode list at hand
+  const nextEpisode = dialogTarget ? watchProgress[getWatchKey(dialogTarget)]?.nextEpisode : undefined;
+
+  const handlePlayNextEpisode = () => {
+    if (!dialogTarget || !nextEpisode) return;
+    setDialogTarget({ ...dialogTarget, ...nextEpisode, episodeInfo: undefined, progress: 0 });
+  };
+
+  if (isLoading || mediaItems.length === 0) return null;
+
+  return (
+    <>
+      <MediaRow
+        title="Continue Watching"
+        items={mediaItems}
+        imageType="backdrop"
+        disableLibraryActions // Card IDs are per-episode watch keys
+        onItemClick={(mediaItem) => setDialogTarget(findItem(mediaItem.id) || null)}
+        onRemoveItem={(mediaItem) => {
+          const item = findItem(mediaItem.id);
+          if (item) removeFromContinueWatching(item.contentId);
+        }}
+      />
+      {dialogTarget && (
+        <StreamDialog
+          open={!!dialogTarget}
+          onClose={() => setDialogTarget(null)}
+          contentType={dialogTarget.contentType}
+          contentId={dialogTarget.contentId}
+          season={dialogTarget.season}
+          episode={dialogTarget.episode}
+          contentName={dialogTarget.name}
+          episodeInfo={dialogTarget.episodeInfo}
+          contentPoster={dialogTarget.poster}
+          contentBackground={dialogTarget.background}
+          nextEpisode={nextEpisode}
+          onPlayNextEpisode={nextEpisode ? handlePlayNextEpisode : undefined}
+        />
+      )}
+    </>
+  );
+}
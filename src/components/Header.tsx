@@ -6,33 +6,44 @@ import Toolbar from '@mui/material/Toolbar';
 import Box from '@mui/material/Box';
 import Link from '@mui/material/Link';
 import IconButton from '@mui/material/IconButton';
-import Avatar from '@mui/material/Avatar';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import ListItemIcon from '@mui/material/ListItemIcon';
+import Divider from '@mui/material/Divider';
 import SearchIcon from '@mui/icons-material/Search';
 import NotificationsIcon from '@mui/icons-material/Notifications';
 import CloseIcon from '@mui/icons-material/Close';
+import EditIcon from '@mui/icons-material/Edit';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import LockIcon from '@mui/icons-material/Lock';
 import InputBase from '@mui/material/InputBase';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image'; // Use next/image for logo
 import NextLink from 'next/link'; // Import NextLink for client-side navigation
+import ProfileAvatar from './ProfileAvatar';
+import ProfilePinDialog from './ProfilePinDialog';
+import SyncStatusIndicator from './SyncStatusIndicator';
+import { useProfileContext } from '@/context/ProfileContext';
+import type { UserProfile } from '@/lib/profiles';
 
 const navLinks = [
   { name: 'Home', href: '/' }, // Point Home to root
-  { name: 'TV Shows', href: '#' },
-  { name: 'Movies', href: '#' },
-  { name: 'New & Popular', href: '#' },
-  { name: 'My List', href: '#' },
-  { name: 'Browse by Languages', href: '#' },
+  { name: 'TV Shows', href: '/tv' },
+  { name: 'Movies', href: '/movies' },
+  { name: 'New & Popular', href: '/new-popular' },
+  { name: 'My List', href: '/my-list' },
+  { name: 'Browse by Languages', href: '/languages' },
   { name: 'Addons', href: '/addons' }, // Added Addons link
 ];
 
-// TODO: Add profile image from Figma node 5:408 if needed
-const profileImageUrl = '/assets/icons/default-profile.png'; // Placeholder
-
 const Header: React.FC = () => {
   const [searchOpen, setSearchOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const searchInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
+  const { profiles, activeProfile, selectProfile, switchProfile } = useProfileContext();
+  const [profileMenuAnchor, setProfileMenuAnchor] = useState<HTMLElement | null>(null);
+  const [pinProfile, setPinProfile] = useState<UserProfile | null>(null);
   
   // Focus the search input when opened
   useEffect(() => {
@@ -56,6 +67,15 @@ const Header: React.FC = () => {
     }
   };
 
+  const handleProfileSwitch = (profile: UserProfile) => {
+    setProfileMenuAnchor(null);
+    if (profile.pinHash) {
+      setPinProfile(profile);
+      return;
+    }
+    selectProfile(profile.id);
+  };
+
   return (
     <AppBar position="fixed" sx={{ background: 'transparent', backgroundImage: 'linear-gradient(to bottom, rgba(0,0,0,0.7) 10%, rgba(0,0,0,0))', boxShadow: 'none' }}>
       <Toolbar sx={{ justifyContent: 'space-between', px: { xs: 2, md: 7.5 } /* Corresponds to 60px padding */ }}>
@@ -142,14 +162,46 @@ const Header: React.FC = () => {
             </IconButton>
           )}
           
+          <SyncStatusIndicator />
           <IconButton color="inherit">
             <NotificationsIcon />
           </IconButton>
           {/* Profile Avatar/Dropdown */}
-          <IconButton sx={{ p: 0 }}>
-            <Avatar alt="Profile" src={profileImageUrl} sx={{ width: 32, height: 32, borderRadius: '4px' /* From Figma */ }} />
+          <IconButton sx={{ p: 0 }} onClick={(e) => setProfileMenuAnchor(e.currentTarget)} aria-label="Profile menu">
+            {activeProfile && <ProfileAvatar profile={activeProfile} />}
             <img src="/assets/icons/dropdown-arrow-icon.svg" alt="Dropdown" style={{ marginLeft: '6px' }} />
           </IconButton>
+          <Menu
+            anchorEl={profileMenuAnchor}
+            open={!!profileMenuAnchor}
+            onClose={() => setProfileMenuAnchor(null)}
+            anchorOrigin={{ vertical: 'bottom', horizontal: 'right' }}
+            transformOrigin={{ vertical: 'top', horizontal: 'right' }}
+            PaperProps={{ sx: { backgroundColor: 'rgba(0,0,0,0.9)', color: 'white', border: '1px solid #333', minWidth: 200 } }}
+          >
+            {profiles.filter(profile => profile.id !== activeProfile?.id).map(profile => (
+              <MenuItem key={profile.id} onClick={() => handleProfileSwitch(profile)} sx={{ gap: 1.5 }}>
+                <ProfileAvatar profile={profile} size={28} />
+                {profile.name}
+                {profile.pinHash && <LockIcon sx={{ fontSize: 14, color: 'grey.500' }} />}
+              </MenuItem>
+            ))}
+            <MenuItem component={NextLink} href="/profiles" onClick={() => setProfileMenuAnchor(null)}>
+              <ListItemIcon><EditIcon fontSize="small" sx={{ color: 'grey.400' }} /></ListItemIcon>
+              Manage Profiles
+            </MenuItem>
+            <Divider sx={{ borderColor: '#333' }} />
+            <MenuItem onClick={() => { setProfileMenuAnchor(null); switchProfile(); }}>
+              <ListItemIcon><SwapHorizIcon fontSize="small" sx={{ color: 'grey.400' }} /></ListItemIcon>
+              Switch Profile
+            </MenuItem>
+          </Menu>
+          <ProfilePinDialog
+            open={!!pinProfile}
+            title={pinProfile ? `Enter the PIN for ${pinProfile.name}` : ''}
+            onClose={() => setPinProfile(null)}
+            onSubmit={(pin) => (pinProfile ? selectProfile(pinProfile.id, pin) : Promise.resolve(false))}
+          />
         </Box>
       </Toolbar>
     </AppBar>
@@ -8,48 +8,20 @@ import CircularProgress from '@mui/material/CircularProgress';
 // Removed MUI icons, using downloaded SVGs
 // import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined'; 
 // import PlayArrowIcon from '@mui/icons-material/PlayArrow'; 
+import AddIcon from '@mui/icons-material/Add';
+import CheckIcon from '@mui/icons-material/Check';
 import Image from 'next/image';
 import Head from 'next/head';
 import { useRouter } from 'next/navigation';
 import StreamDialog from '../components/StreamDialog';
+import { fetchCatalog, getCatalogUniqueId } from '@/lib/addonClient';
+import type { AddonCatalog, InstalledAddon, MetaPreview } from '@/types/stremio';
+import { useLibraryContext } from '@/context/LibraryContext';
+import { useAllowedItems, useParentalControlsContext } from '@/context/ParentalControlsContext';
+import { profileStorageKey } from '@/lib/profiles';
 
-// Extended StremioMeta interface to include hero-specific fields
-interface HeroMeta {
-  id: string;
-  type: string;
-  name: string;
-  poster?: string;
-  background?: string;
-  logo?: string;
-  description?: string;
-  releaseInfo?: string;
-  imdbRating?: string;
-  runtime?: string;
-  genres?: string[];
-  posterShape?: 'square' | 'poster' | 'landscape';
-}
-
-// Addon interfaces (matching those in page.tsx)
-interface AddonCatalog {
-  type: string;
-  id: string;
-  name?: string;
-}
-
-interface AddonManifest {
-  id: string;
-  version: string;
-  name: string;
-  description?: string;
-  resources?: (string | { name: string; types?: string[]; idPrefixes?: string[] })[];
-  types?: string[];
-  catalogs?: AddonCatalog[];
-}
-
-interface InstalledAddon extends AddonManifest {
-  manifestUrl: string;
-  selectedCatalogIds?: string[];
-}
+// Hero items are plain catalog metas; the hero-specific fields are already part of MetaPreview
+type HeroMeta = MetaPreview;
 
 // Simple Top 10 Badge Component (using downloaded SVGs)
 const Top10Badge = () => (
@@ -100,9 +72,19 @@ const getEnhancedImageUrl = (url: string): string => {
 const HERO_ROTATION_INTERVAL = 15000; // 15 seconds
 const MAX_HERO_ITEMS = 10; // Increased from 5 to 10 for more variety
 
-const Hero: React.FC = () => {
+interface HeroProps {
+  items?: HeroMeta[]; // The page's own picks, shown in order instead of picks from the selected catalogs
+  isLoadingItems?: boolean; // While the page is still fetching its picks
+  label?: string; // Page name shown over the top of the hero, e.g. "Movies"
+  controls?: React.ReactNode; // Shown beside the label, e.g. a language picker
+}
+
+const Hero: React.FC<HeroProps> = ({ items, isLoadingItems, label, controls }) => {
   const router = useRouter();
-  const [heroItems, setHeroItems] = useState<HeroMeta[]>([]);
+  const { isInLibrary, toggleLibraryItem } = useLibraryContext();
+  const [fetchedHeroItems, setHeroItems] = useState<HeroMeta[]>([]);
+  const { isRestricted } = useParentalControlsContext();
+  const { allowedItems: heroItems } = useAllowedItems(fetchedHeroItems, item => ({ type: item.type, id: item.id }));
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -116,6 +98,7 @@ const Hero: React.FC = () => {
   
   const rotationTimerRef = useRef<NodeJS.Timeout | null>(null);
   const imagesPreloaded = useRef<boolean>(false);
+  const hasOwnItems = items !== undefined;
 
   // Fallback data in case we can't fetch from catalogs
   const fallbackHeroData = {
@@ -155,14 +138,25 @@ const Hero: React.FC = () => {
     }, 500); // Half a second for fade out
   }, [heroItems.length]);
 
+  // Pages with their own picks skip the catalog fetch below
+  useEffect(() => {
+    if (!items) return;
+    setHeroItems(items.slice(0, MAX_HERO_ITEMS));
+    setCurrentIndex(0);
+    setIsLoading(!!isLoadingItems);
+  }, [items, isLoadingItems]);
+
   useEffect(() => {
+    if (hasOwnItems) return;
+    const abortController = new AbortController();
+
     const fetchHeroContent = async () => {
       setIsLoading(true);
       setError(null);
       
       try {
         // Load installed addons
-        const storedAddons = localStorage.getItem('installedAddons');
+        const storedAddons = localStorage.getItem(profileStorageKey('installedAddons'));
         if (!storedAddons) {
           console.log("No addons installed for hero content");
           setIsLoading(false);
@@ -179,7 +173,7 @@ const Hero: React.FC = () => {
         const potentialHeroAddons = loadedAddons.filter((addon: InstalledAddon) => 
           addon.catalogs?.some((catalog: AddonCatalog) => 
             (catalog.type === 'movie' || catalog.type === 'series') && 
-            (addon.selectedCatalogIds?.includes(`${catalog.type}/${catalog.id}`))
+            (addon.selectedCatalogIds?.includes(getCatalogUniqueId(catalog)))
           )
         );
 
@@ -192,14 +186,14 @@ const Hero: React.FC = () => {
         // Collect hero items from various catalogs
         const allHeroItems: HeroMeta[] = [];
         const fetchPromises: Promise<void>[] = [];
-        const allRawData: any[] = []; // Store all raw catalog data for fallback use
+        const allRawData: { metas: HeroMeta[] }[] = []; // Store all raw catalog data for fallback use
 
         // Use all available addons instead of just 3
         for (const selectedAddon of potentialHeroAddons) {
           // Find all suitable catalogs from the selected addon
           const heroTypeCatalogs = selectedAddon.catalogs!.filter((catalog: AddonCatalog) => 
             (catalog.type === 'movie' || catalog.type === 'series') && 
-            selectedAddon.selectedCatalogIds?.includes(`${catalog.type}/${catalog.id}`)
+            selectedAddon.selectedCatalogIds?.includes(getCatalogUniqueId(catalog))
           );
 
           if (!heroTypeCatalogs.length) continue;
@@ -207,18 +201,11 @@ const Hero: React.FC = () => {
           // Process all catalogs instead of picking just one
           for (const selectedCatalog of heroTypeCatalogs) {
             // Create fetch promise
-            const baseUrl = selectedAddon.manifestUrl.substring(0, selectedAddon.manifestUrl.lastIndexOf('/'));
-            const catalogUrl = `${baseUrl}/catalog/${selectedCatalog.type}/${selectedCatalog.id}.json`;
-            
-            console.log(`Fetching from: ${catalogUrl} (${selectedAddon.name} - ${selectedCatalog.name || selectedCatalog.id})`);
+            console.log(`Fetching hero catalog ${selectedCatalog.type}/${selectedCatalog.id} (${selectedAddon.name} - ${selectedCatalog.name || selectedCatalog.id})`);
             
-            const fetchPromise = fetch(catalogUrl)
-              .then(response => {
-                if (!response.ok) throw new Error(`Failed to fetch: ${response.statusText}`);
-                return response.json();
-              })
+            const fetchPromise = fetchCatalog(selectedAddon, selectedCatalog.type, selectedCatalog.id, undefined, { signal: abortController.signal })
               .then(data => {
-                if (!data?.metas?.length) {
+                if (!data.metas.length) {
                   console.log(`No items found in ${selectedCatalog.type}/${selectedCatalog.id}`);
                   return;
                 }
@@ -271,6 +258,7 @@ const Hero: React.FC = () => {
 
         // Wait for all fetches to complete
         await Promise.all(fetchPromises);
+        if (abortController.signal.aborted) return; // Unmounted meanwhile
         
         // Get the final count of items
         console.log(`Found a total of ${allHeroItems.length} suitable hero items`);
@@ -308,19 +296,20 @@ const Hero: React.FC = () => {
         console.error("Error fetching hero content:", err);
         setError("Failed to load hero content");
       } finally {
-        setIsLoading(false);
+        if (!abortController.signal.aborted) setIsLoading(false);
       }
     };
     
     fetchHeroContent();
     
-    // Clean up rotation timer on unmount
+    // Cancel pending catalog requests and clean up rotation timer on unmount
     return () => {
+      abortController.abort();
       if (rotationTimerRef.current) {
         clearInterval(rotationTimerRef.current);
       }
     };
-  }, []);
+  }, [hasOwnItems]);
   
   // Set up rotation timer when hero items are loaded
   useEffect(() => {
@@ -348,18 +337,19 @@ const Hero: React.FC = () => {
   }, [heroItems]);
 
   // Current hero content (or null if none available)
-  const heroContent = heroItems.length > 0 ? heroItems[currentIndex] : null;
+  // Parental controls can shrink the list after the index was set
+  const heroContent = heroItems.length > 0 ? heroItems[currentIndex % heroItems.length] : null;
   
   // Get next hero item for preloading
   const nextIndex = heroItems.length > 0 ? (currentIndex + 1) % heroItems.length : -1;
   const nextHeroContent = nextIndex >= 0 ? heroItems[nextIndex] : null;
   
-  // Derived hero data
+  // Derived hero data. The placeholder title is a real show, so restricted mode leaves it out.
   const displayData = {
     backgroundImage: heroContent?.background ? getEnhancedImageUrl(heroContent.background) : fallbackHeroData.backgroundImage,
     title: heroContent?.name || "",
-    description: heroContent?.description || fallbackHeroData.description,
-    logoImage: heroContent?.logo ? getEnhancedImageUrl(heroContent.logo) : fallbackHeroData.titleLogo,
+    description: heroContent?.description || (isRestricted ? '' : fallbackHeroData.description),
+    logoImage: heroContent?.logo ? getEnhancedImageUrl(heroContent.logo) : (isRestricted && !heroContent ? '' : fallbackHeroData.titleLogo),
   };
 
   // All images to preload for smooth transitions
@@ -394,6 +384,22 @@ const Hero: React.FC = () => {
     router.push(`/details/${heroContent.type}/${heroContent.id}`);
   };
 
+  const handleMyListClick = () => {
+    if (!heroContent) return;
+    toggleLibraryItem({
+      id: heroContent.id,
+      type: heroContent.type,
+      name: heroContent.name,
+      poster: heroContent.poster,
+      background: heroContent.background,
+      logo: heroContent.logo,
+      description: heroContent.description,
+      releaseInfo: heroContent.releaseInfo,
+      imdbRating: heroContent.imdbRating,
+      genres: heroContent.genres,
+    });
+  };
+
   // Add handler to restart rotation when dialog closes
   const handleStreamDialogClose = () => {
     setIsStreamDialogOpen(false);
@@ -430,6 +436,28 @@ const Hero: React.FC = () => {
           pointerEvents: 'none' // So it doesn't interfere with clicks
         }
       }}>
+        {label && (
+          <Box
+            sx={{
+              position: 'absolute',
+              top: { xs: 72, md: 88 },
+              left: 0,
+              right: 0,
+              px: { xs: 2, md: 7.5 },
+              zIndex: 2,
+              display: 'flex',
+              alignItems: 'center',
+              flexWrap: 'wrap',
+              gap: 2,
+            }}
+          >
+            <Typography variant="h4" component="h1" sx={{ color: 'white', fontWeight: 'bold', textShadow: '1px 1px 2px rgba(0,0,0,0.7)' }}>
+              {label}
+            </Typography>
+            {controls}
+          </Box>
+        )}
+
         {/* Preload next images */}
         {!isLoading && !error && heroItems.length > 0 && (
           <ImagePreloader imageUrls={getImagesToPreload()} />
@@ -555,6 +583,26 @@ const Hero: React.FC = () => {
             >
               More Info
             </Button>
+            {heroContent && (
+              <Button
+                variant="contained"
+                startIcon={isInLibrary(heroContent.id) ? <CheckIcon /> : <AddIcon />}
+                onClick={handleMyListClick}
+                sx={{
+                  backgroundColor: 'rgba(109, 109, 110, 0.7)',
+                  color: 'white',
+                  fontWeight: 'bold',
+                  borderRadius: '4px',
+                  px: { xs: 2, md: 3 },
+                  py: { xs: 1, md: 1.875 },
+                  fontSize: { xs: '1rem', md: '1.1rem' },
+                  textTransform: 'none',
+                  '&:hover': { backgroundColor: 'rgba(109, 109, 110, 0.4)' }
+                }}
+              >
+                My List
+              </Button>
+            )}
           </Box>
         </Box>
 
@@ -571,6 +619,8 @@ const Hero: React.FC = () => {
           contentType={streamContentType}
           contentId={streamContentId}
           contentName={streamContentName}
+          contentPoster={heroContent?.poster}
+          contentBackground={heroContent?.background}
           onClose={handleStreamDialogClose}
         />
       </Box>
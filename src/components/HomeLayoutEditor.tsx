@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  IconButton,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  ToggleButton,
+  ToggleButtonGroup,
+} from '@mui/material';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import PushPinIcon from '@mui/icons-material/PushPin';
+import PushPinOutlinedIcon from '@mui/icons-material/PushPinOutlined';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
+import { useHomeLayoutContext } from '@/context/HomeLayoutContext';
+import { orderHomeRows, type HomeLayoutRow, type HomeRowImageType } from '@/lib/homeLayout';
+import { moveItem } from '@/lib/addonPriority';
+
+const textFieldSx = {
+  flexGrow: 1,
+  "& .MuiOutlinedInput-root": {
+    "& fieldset": { borderColor: "grey.700" },
+    "&:hover fieldset": { borderColor: "grey.500" },
+    "&.Mui-focused fieldset": { borderColor: "#e50914" },
+    backgroundColor: '#2b2b2b',
+  },
+  "& .MuiInputBase-input": { color: "white" },
+};
+
+const toggleSx = {
+  color: 'grey.400',
+  borderColor: 'grey.700',
+  textTransform: 'none',
+  '&.Mui-selected, &.Mui-selected:hover': { color: 'white', backgroundColor: '#e50914' },
+};
+
+interface HomeLayoutEditorProps {
+  open: boolean;
+  onClose: () => void;
+  rows: HomeLayoutRow[]; // Every fetched row, hidden ones included, with their default title and style
+}
+
+// Reorders, renames, hides, pins and restyles the home rows. Changes apply as they're made.
+export default function HomeLayoutEditor({ open, onClose, rows }: HomeLayoutEditorProps) {
+  const { layout, setRowOrder, updateRow, resetLayout } = useHomeLayoutContext();
+  const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
+
+  const orderedRows = orderHomeRows(rows, layout);
+
+  const moveRow = (fromIndex: number, toIndex: number) => {
+    const rowIds = moveItem(orderedRows.map(row => row.id), fromIndex, toIndex);
+    // Rows saved in the order but not loaded right now keep their place after the loaded ones
+    setRowOrder([...rowIds, ...layout.order.filter(id => !rowIds.includes(id))]);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { backgroundColor: '#1f1f1f', color: 'white' } }}>
+      <DialogTitle>Customize home</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+          Drag rows to reorder them. Pinned rows always come first. Leave a name empty to use the catalog&apos;s own.
+        </Typography>
+        {orderedRows.length === 0 && (
+          <Typography variant="body2" sx={{ color: 'grey.500' }}>No rows have loaded yet.</Typography>
+        )}
+        {orderedRows.map((row, index) => {
+          const settings = layout.rows[row.id] || {};
+          return (
+            <Box
+              key={row.id}
+              onDragOver={(e) => { if (draggedIndex !== null) e.preventDefault(); }}
+              onDrop={() => {
+                if (draggedIndex !== null) moveRow(draggedIndex, index);
+                setDraggedIndex(null);
+              }}
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                flexWrap: { xs: 'wrap', sm: 'nowrap' },
+                gap: 1,
+                p: 1,
+                mb: 1,
+                borderRadius: '4px',
+                backgroundColor: '#2b2b2b',
+                opacity: draggedIndex === index ? 0.5 : settings.hidden ? 0.6 : 1,
+              }}
+            >
+              {/* Only the handle drags, so the name field stays editable */}
+              <Box
+                draggable
+                onDragStart={() => setDraggedIndex(index)}
+                onDragEnd={() => setDraggedIndex(null)}
+                sx={{ display: 'flex', cursor: 'grab' }}
+              >
+                <DragIndicatorIcon sx={{ color: 'grey.600' }} />
+              </Box>
+              <TextField
+                size="small"
+                value={settings.title ?? ''}
+                placeholder={row.title}
+                onChange={(e) => updateRow(row.id, { title: e.target.value })}
+                inputProps={{ 'aria-label': `Name of ${row.title}` }}
+                sx={textFieldSx}
+              />
+              {row.sourceLabel && (
+                <Typography variant="caption" sx={{ color: 'grey.500', minWidth: 64, maxWidth: 120, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {row.sourceLabel}
+                </Typography>
+              )}
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={settings.imageType || row.imageType}
+                onChange={(_, value: HomeRowImageType | null) => {
+                  if (value) updateRow(row.id, { imageType: value === row.imageType ? undefined : value });
+                }}
+              >
+                <ToggleButton value="poster" sx={toggleSx}>Poster</ToggleButton>
+                <ToggleButton value="backdrop" sx={toggleSx}>Backdrop</ToggleButton>
+              </ToggleButtonGroup>
+              <Tooltip title={settings.pinned ? 'Unpin' : 'Pin to top'}>
+                <IconButton onClick={() => updateRow(row.id, { pinned: !settings.pinned })} sx={{ color: settings.pinned ? '#e50914' : 'grey.500' }}>
+                  {settings.pinned ? <PushPinIcon /> : <PushPinOutlinedIcon />}
+                </IconButton>
+              </Tooltip>
+              <Tooltip title={settings.hidden ? 'Show' : 'Hide'}>
+                <IconButton onClick={() => updateRow(row.id, { hidden: !settings.hidden })} sx={{ color: 'grey.500' }}>
+                  {settings.hidden ? <VisibilityOffIcon /> : <VisibilityIcon />}
+                </IconButton>
+              </Tooltip>
+            </Box>
+          );
+        })}
+      </DialogContent>
+      <DialogActions>
+        <Button color="inherit" onClick={resetLayout} sx={{ color: 'grey.400', mr: 'auto' }}>Reset layout</Button>
+        <Button variant="contained" onClick={onClose} sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}>
+          Done
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -4,12 +4,19 @@ import React, { useRef, useState, useEffect, useCallback } from 'react';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { SxProps, Theme } from '@mui/material/styles';
 import Skeleton from '@mui/material/Skeleton';
 import IconButton from '@mui/material/IconButton';
 import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
 import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import CloseIcon from '@mui/icons-material/Close';
+import AddIcon from '@mui/icons-material/Add';
+import CheckIcon from '@mui/icons-material/Check';
+import Tooltip from '@mui/material/Tooltip';
+import { useLibraryContext } from '@/context/LibraryContext';
+import { useAllowedItems } from '@/context/ParentalControlsContext';
 
 // Add the image enhancement helper function
 const getEnhancedImageUrl = (url: string): string => {
@@ -40,31 +47,65 @@ interface MediaItem {
   type?: string; // Add type for content categorization (movie, series, etc.)
   logoUrl?: string; // Add logoUrl here as well
   isLoading?: boolean; // Flag to indicate loading state
+  progress?: number; // 0-1 watch progress, shown as a bar along the bottom of the card
+  subtitle?: string; // Short caption over the image, e.g. "S2:E5"
+  releaseInfo?: string; // Saved with the item when it's added to My List
+  imdbRating?: string;
 }
 
 interface MediaRowProps {
   title: string;
+  sourceLabel?: string; // Where the row comes from, shown beside the title; otherwise taken from "Title • Source"
   items: MediaItem[];
   addonId?: string; // Optional addon ID for tracking source
   disableBottomMargin?: boolean; // New prop
   imageType?: 'poster' | 'backdrop'; // New prop for image aspect ratio
   disableNegativeTopMargin?: boolean; // New prop for search page
+  onItemClick?: (item: MediaItem) => void; // Replaces the default navigation to the details page
+  onRemoveItem?: (item: MediaItem) => void; // Shows a remove button on each card
+  disableLibraryActions?: boolean; // Hide the My List button (rows whose IDs aren't content IDs)
+  hasMore?: boolean; // The catalog has more pages
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void; // Called as the end of the row comes into view, while hasMore is set
+  seeAllHref?: string; // Shows a "See all" link to the full catalog
 }
 
-const MediaRow: React.FC<MediaRowProps> = ({ title, items, addonId, disableBottomMargin, imageType = 'poster', disableNegativeTopMargin }) => {
+const MediaRow: React.FC<MediaRowProps> = ({
+  title,
+  sourceLabel,
+  items: rowItems,
+  addonId,
+  disableBottomMargin,
+  imageType = 'poster',
+  disableNegativeTopMargin,
+  onItemClick,
+  onRemoveItem,
+  disableLibraryActions,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  seeAllHref,
+}) => {
   const router = useRouter();
+  const { isInLibrary, toggleLibraryItem } = useLibraryContext();
+  // Titles hidden by parental controls never reach the row
+  const { allowedItems: items } = useAllowedItems(rowItems, item => ({ type: item.type || 'movie', id: String(item.id) }));
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const [showControls, setShowControls] = useState(false);
   const [canScrollLeft, setCanScrollLeft] = useState(false);
   const [canScrollRight, setCanScrollRight] = useState(false);
   
   // Split the title by the bullet character to separate catalog name from addon name
-  const titleParts = title.split(' • ');
+  const titleParts = sourceLabel ? [title] : title.split(' • ');
   const catalogName = titleParts[0];
-  const addonName = titleParts.length > 1 ? titleParts[1] : null;
+  const addonName = sourceLabel || (titleParts.length > 1 ? titleParts[1] : null);
   
   // Handle click on media item
   const handleItemClick = (item: MediaItem) => {
+    if (onItemClick) {
+      onItemClick(item);
+      return;
+    }
     // Navigate to the details page with the item ID and addon ID (if available)
     const type = item.type || 'movie'; // Default to movie if type is not provided
     router.push(`/details/${type}/${item.id}?${addonId ? `addonId=${addonId}` : ''}`);
@@ -72,6 +113,20 @@ const MediaRow: React.FC<MediaRowProps> = ({ title, items, addonId, disableBotto
 
   const isBackdrop = imageType === 'backdrop';
 
+  const handleLibraryToggle = (event: React.MouseEvent, item: MediaItem) => {
+    event.stopPropagation(); // Don't open the item
+    toggleLibraryItem({
+      id: String(item.id),
+      type: item.type || 'movie',
+      name: item.alt,
+      poster: isBackdrop ? undefined : item.imageUrl,
+      background: isBackdrop ? item.imageUrl : undefined,
+      logo: item.logoUrl,
+      releaseInfo: item.releaseInfo,
+      imdbRating: item.imdbRating,
+    });
+  };
+
   const getItemSx = (): SxProps<Theme> => {
     const baseStyles: SxProps<Theme> = {
       position: 'relative',
@@ -84,6 +139,7 @@ const MediaRow: React.FC<MediaRowProps> = ({ title, items, addonId, disableBotto
         cursor: 'pointer',
         boxShadow: '0px 8px 20px rgba(0,0,0,0.6)',
         zIndex: 10, // Ensure hovered item comes to the front
+        '& .media-row-action': { opacity: 1 },
       }
     };
 
@@ -126,6 +182,18 @@ const MediaRow: React.FC<MediaRowProps> = ({ title, items, addonId, disableBotto
     };
   }, [items, checkScrollability]); // Re-check if items change (e.g. new row loaded)
 
+  // Ask for the next page once less than a screen's width of the row is left to scroll
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container || !onLoadMore || !hasMore || isLoadingMore) return;
+    const checkEndReached = () => {
+      if (container.scrollWidth - container.scrollLeft - container.clientWidth < container.clientWidth) onLoadMore();
+    };
+    checkEndReached();
+    container.addEventListener('scroll', checkEndReached);
+    return () => container.removeEventListener('scroll', checkEndReached);
+  }, [items, hasMore, isLoadingMore, onLoadMore]);
+
 
   const scrollLeft = () => {
     if (scrollContainerRef.current) {
@@ -139,6 +207,9 @@ const MediaRow: React.FC<MediaRowProps> = ({ title, items, addonId, disableBotto
     }
   };
 
+  // Every title was filtered out (or is still being checked)
+  if (rowItems.length > 0 && items.length === 0) return null;
+
   // Debug output
   // console.log(`MediaRow received title: "${title}"`);
   // console.log(`Split into catalogName: "${catalogName}" and addonName: "${addonName}"`);
@@ -230,6 +301,17 @@ const MediaRow: React.FC<MediaRowProps> = ({ title, items, addonId, disableBotto
             {addonName}
           </Typography>
         )}
+
+        {seeAllHref && (
+          <Typography
+            component={Link}
+            href={seeAllHref}
+            variant="body2"
+            sx={{ color: 'grey.400', ml: 2, fontSize: '0.85rem', textDecoration: 'none', '&:hover': { color: 'white' } }}
+          >
+            See all ›
+          </Typography>
+        )}
       </Box>
       
       <Box 
@@ -308,8 +390,86 @@ const MediaRow: React.FC<MediaRowProps> = ({ title, items, addonId, disableBotto
                 />
               </Box>
             )}
+            {item.subtitle && !item.isLoading && (
+              <Typography
+                variant="caption"
+                sx={{
+                  position: 'absolute',
+                  top: 6,
+                  left: 6,
+                  px: 0.75,
+                  borderRadius: '2px',
+                  backgroundColor: 'rgba(0,0,0,0.7)',
+                  color: 'white',
+                  fontWeight: 'bold',
+                  zIndex: 2,
+                }}
+              >
+                {item.subtitle}
+              </Typography>
+            )}
+            {onRemoveItem && !item.isLoading && (
+              <Tooltip title="Remove from row">
+                <IconButton
+                  className="media-row-action"
+                  size="small"
+                  aria-label={`Remove ${item.alt}`}
+                  onClick={(e) => {
+                    e.stopPropagation(); // Don't open the item
+                    onRemoveItem(item);
+                  }}
+                  sx={{
+                    position: 'absolute',
+                    top: 4,
+                    right: 4,
+                    zIndex: 3,
+                    opacity: { xs: 1, md: 0 }, // Hover-only where there is a mouse
+                    transition: 'opacity 0.2s ease',
+                    backgroundColor: 'rgba(20, 20, 20, 0.7)',
+                    color: 'white',
+                    '&:hover': { backgroundColor: 'rgba(20, 20, 20, 0.9)' },
+                  }}
+                >
+                  <CloseIcon fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            )}
+            {!disableLibraryActions && !item.isLoading && (
+              <Tooltip title={isInLibrary(String(item.id)) ? 'Remove from My List' : 'Add to My List'}>
+                <IconButton
+                  className="media-row-action"
+                  size="small"
+                  aria-label={isInLibrary(String(item.id)) ? `Remove ${item.alt} from My List` : `Add ${item.alt} to My List`}
+                  onClick={(e) => handleLibraryToggle(e, item)}
+                  sx={{
+                    position: 'absolute',
+                    bottom: 8,
+                    right: 8,
+                    zIndex: 3,
+                    opacity: { xs: 1, md: 0 }, // Hover-only where there is a mouse
+                    transition: 'opacity 0.2s ease',
+                    border: '1px solid rgba(255,255,255,0.7)',
+                    backgroundColor: 'rgba(20, 20, 20, 0.7)',
+                    color: 'white',
+                    '&:hover': { backgroundColor: 'rgba(20, 20, 20, 0.9)', borderColor: 'white' },
+                  }}
+                >
+                  {isInLibrary(String(item.id)) ? <CheckIcon fontSize="small" /> : <AddIcon fontSize="small" />}
+                </IconButton>
+              </Tooltip>
+            )}
+            {item.progress !== undefined && item.progress > 0 && !item.isLoading && (
+              <Box sx={{ position: 'absolute', left: 0, right: 0, bottom: 0, height: 4, backgroundColor: 'rgba(255,255,255,0.3)', zIndex: 2 }}>
+                <Box sx={{ height: '100%', width: `${Math.min(100, item.progress * 100)}%`, backgroundColor: '#e50914' }} />
+              </Box>
+            )}
           </Box>
         ))}
+        {isLoadingMore && (
+          <Box sx={getItemSx()}>
+            <Skeleton variant="rectangular" animation="wave" width="100%" height="100%" sx={{ bgcolor: 'grey.800' }} />
+          </Box>
+        )}
       </Box>
     </Box>
   );
@@ -0,0 +1,170 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Switch,
+  FormControlLabel,
+  Select,
+  MenuItem,
+  FormControl,
+  InputLabel,
+  Chip,
+  Button,
+  Alert,
+} from '@mui/material';
+import ShieldIcon from '@mui/icons-material/Shield';
+import LockIcon from '@mui/icons-material/Lock';
+import ProfilePinDialog from './ProfilePinDialog';
+import { useParentalControlsContext } from '@/context/ParentalControlsContext';
+import { useTmdbContext } from '@/context/TmdbContext';
+import { BLOCKABLE_GENRES, getRatingLevel, RATING_SYSTEMS } from '@/lib/parentalControls';
+import { hashPin } from '@/lib/profiles';
+
+const NO_LIMIT = '';
+
+// Restricted mode settings, shown on the addons page. With a PIN set, restricted mode can't be
+// changed or turned off without it.
+export default function ParentalControlsSettings() {
+  const { settings, updateSettings, checkSettingsPin } = useParentalControlsContext();
+  const { tmdbApiKey, isTmdbEnabled } = useTmdbContext();
+  const [unlocked, setUnlocked] = useState(false);
+  const [pinDialog, setPinDialog] = useState<'unlock' | 'set' | null>(null);
+
+  const isLocked = settings.enabled && !!settings.pinHash && !unlocked;
+
+  const handleMaxCertificationChange = (region: string, rating: string) => {
+    const maxCertifications = { ...settings.maxCertifications };
+    if (rating === NO_LIMIT) delete maxCertifications[region];
+    else maxCertifications[region] = rating;
+    updateSettings({ maxCertifications });
+  };
+
+  const toggleGenre = (genre: string) => {
+    const blockedGenres = settings.blockedGenres.includes(genre)
+      ? settings.blockedGenres.filter(blocked => blocked !== genre)
+      : [...settings.blockedGenres, genre];
+    updateSettings({ blockedGenres });
+  };
+
+  const handlePinSubmit = async (pin: string) => {
+    if (pinDialog === 'unlock') {
+      if (!(await checkSettingsPin(pin))) return false;
+      setUnlocked(true);
+    } else {
+      updateSettings({ pinHash: await hashPin(pin) });
+      setUnlocked(true); // Whoever just set it can keep editing
+    }
+    setPinDialog(null);
+    return true;
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <ShieldIcon sx={{ color: '#e50914' }} /> Parental Controls
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+        Restricted mode hides titles above the maximum rating for each region you set, and titles in blocked genres,
+        everywhere on this profile. Titles without a known rating are hidden too.
+      </Typography>
+
+      {settings.enabled && !(tmdbApiKey && isTmdbEnabled) && (
+        <Alert severity="warning" sx={{ mb: 2, backgroundColor: '#333', color: 'white' }}>
+          Ratings are looked up on TMDB. Without an enabled TMDB API key every title counts as unrated and is hidden.
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={settings.enabled}
+              disabled={isLocked}
+              onChange={(e) => updateSettings({ enabled: e.target.checked })}
+              sx={{ '& .MuiSwitch-switchBase.Mui-checked': { color: '#e50914' }, '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#e50914' } }}
+            />
+          }
+          label="Restricted mode"
+          sx={{ color: 'white' }}
+        />
+        {isLocked ? (
+          <Button variant="outlined" color="inherit" startIcon={<LockIcon />} onClick={() => setPinDialog('unlock')} sx={{ color: 'grey.300' }}>
+            Unlock to change
+          </Button>
+        ) : (
+          <>
+            <Button variant="outlined" color="inherit" onClick={() => setPinDialog('set')} sx={{ color: 'grey.300' }}>
+              {settings.pinHash ? 'Change PIN' : 'Set PIN'}
+            </Button>
+            {settings.pinHash && (
+              <Button color="inherit" onClick={() => updateSettings({ pinHash: undefined })} sx={{ color: 'grey.400' }}>
+                Remove PIN
+              </Button>
+            )}
+          </>
+        )}
+      </Box>
+
+      {/* Maximum rating per region */}
+      <Typography variant="subtitle2" sx={{ color: 'white', mb: 1.5 }}>Maximum rating</Typography>
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: 'repeat(2, minmax(0, 240px))' }, gap: 2, mb: 3 }}>
+        {Object.entries(RATING_SYSTEMS).map(([region, system]) => {
+          const current = settings.maxCertifications[region];
+          const level = current ? getRatingLevel(region, current) : -1;
+          return (
+            <FormControl key={region} size="small" disabled={isLocked}>
+              <InputLabel id={`max-rating-${region}`} sx={{ color: 'grey.400' }}>{system.label}</InputLabel>
+              <Select
+                labelId={`max-rating-${region}`}
+                label={system.label}
+                value={level === -1 ? NO_LIMIT : system.levels[level].ratings[0]}
+                onChange={(e) => handleMaxCertificationChange(region, e.target.value)}
+                displayEmpty
+                sx={{ color: 'white', backgroundColor: '#2b2b2b', '.MuiOutlinedInput-notchedOutline': { borderColor: 'grey.700' }, '.MuiSvgIcon-root': { color: 'white' } }}
+                MenuProps={{ PaperProps: { sx: { backgroundColor: '#1f1f1f', color: 'white' } } }}
+              >
+                <MenuItem value={NO_LIMIT}>Not checked</MenuItem>
+                {system.levels.map(ratingLevel => (
+                  <MenuItem key={ratingLevel.label} value={ratingLevel.ratings[0]}>{ratingLevel.label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          );
+        })}
+      </Box>
+
+      {/* Blocked genres */}
+      <Typography variant="subtitle2" sx={{ color: 'white', mb: 1.5 }}>Blocked genres</Typography>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+        {BLOCKABLE_GENRES.map(genre => {
+          const blocked = settings.blockedGenres.includes(genre);
+          return (
+            <Chip
+              key={genre}
+              label={genre}
+              disabled={isLocked}
+              onClick={() => toggleGenre(genre)}
+              sx={{
+                backgroundColor: blocked ? '#e50914' : 'rgba(255,255,255,0.1)',
+                color: 'white',
+                '&:hover': { backgroundColor: blocked ? '#b20710' : 'rgba(255,255,255,0.2)' },
+              }}
+            />
+          );
+        })}
+      </Box>
+
+      <ProfilePinDialog
+        open={!!pinDialog}
+        title={pinDialog === 'unlock' ? 'Enter the parental controls PIN' : 'New parental controls PIN'}
+        description={pinDialog === 'set' ? 'The PIN is needed to change parental controls or turn restricted mode off.' : undefined}
+        confirmLabel={pinDialog === 'set' ? 'Save PIN' : 'Unlock'}
+        onClose={() => setPinDialog(null)}
+        onSubmit={handlePinSubmit}
+      />
+    </Paper>
+  );
+}
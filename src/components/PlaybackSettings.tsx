@@ -0,0 +1,37 @@
+'use client';
+
+import React from 'react';
+import { Box, Typography, Paper, Slider } from '@mui/material';
+import HistoryIcon from '@mui/icons-material/History';
+import { useWatchStateContext } from '@/context/WatchStateContext';
+
+// Watch progress settings, shown on the addons page under the streaming server
+export default function PlaybackSettings() {
+  const { watchedThreshold, setWatchedThreshold } = useWatchStateContext();
+
+  return (
+    <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <HistoryIcon sx={{ color: '#e50914' }} /> Watch Progress
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+        Your position is saved while you watch, and you can resume where you stopped. A movie or episode counts as
+        watched once you get past {Math.round(watchedThreshold * 100)}% of it.
+      </Typography>
+      <Box sx={{ px: 1, maxWidth: 480 }}>
+        <Slider
+          value={Math.round(watchedThreshold * 100)}
+          onChange={(_event, value) => setWatchedThreshold((value as number) / 100)}
+          min={50}
+          max={100}
+          step={5}
+          marks={[{ value: 50, label: '50%' }, { value: 90, label: '90%' }, { value: 100, label: '100%' }]}
+          valueLabelDisplay="auto"
+          valueLabelFormat={(value) => `${value}%`}
+          aria-label="Watched threshold"
+          sx={{ color: '#e50914', '& .MuiSlider-markLabel': { color: 'grey.500' } }}
+        />
+      </Box>
+    </Paper>
+  );
+}
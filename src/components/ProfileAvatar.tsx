@@ -0,0 +1,31 @@
+'use client';
+
+import React from 'react';
+import Avatar from '@mui/material/Avatar';
+import type { UserProfile } from '@/lib/profiles';
+
+interface ProfileAvatarProps {
+  profile: Pick<UserProfile, 'name' | 'color'>;
+  size?: number;
+}
+
+// Square avatar with the profile's initial on its color
+const ProfileAvatar: React.FC<ProfileAvatarProps> = ({ profile, size = 32 }) => (
+  <Avatar
+    alt={profile.name}
+    variant="rounded"
+    sx={{
+      width: size,
+      height: size,
+      borderRadius: '4px',
+      backgroundColor: profile.color,
+      color: 'white',
+      fontSize: size * 0.45,
+      fontWeight: 'bold',
+    }}
+  >
+    {profile.name.charAt(0).toUpperCase()}
+  </Avatar>
+);
+
+export default ProfileAvatar;
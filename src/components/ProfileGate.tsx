@@ -0,0 +1,25 @@
+'use client';
+
+import React, { ReactNode } from 'react';
+import Box from '@mui/material/Box';
+import CircularProgress from '@mui/material/CircularProgress';
+import ProfilePicker from './ProfilePicker';
+import { useProfileContext } from '@/context/ProfileContext';
+
+// Renders the app only once a profile is chosen. Keying the subtree by profile remounts every
+// per-profile provider on a switch, so each one reloads its state from the new profile's storage.
+export default function ProfileGate({ children }: { children: ReactNode }) {
+  const { activeProfile, isLoading } = useProfileContext();
+
+  if (isLoading) {
+    return (
+      <Box sx={{ minHeight: '100vh', display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: '#141414' }}>
+        <CircularProgress sx={{ color: 'red' }} />
+      </Box>
+    );
+  }
+
+  if (!activeProfile) return <ProfilePicker />;
+
+  return <React.Fragment key={activeProfile.id}>{children}</React.Fragment>;
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import React, { useState } from 'react';
+import Box from '@mui/material/Box';
+import Typography from '@mui/material/Typography';
+import Button from '@mui/material/Button';
+import ButtonBase from '@mui/material/ButtonBase';
+import TextField from '@mui/material/TextField';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import AddIcon from '@mui/icons-material/Add';
+import LockIcon from '@mui/icons-material/Lock';
+import ProfileAvatar from './ProfileAvatar';
+import ProfilePinDialog from './ProfilePinDialog';
+import { useProfileContext } from '@/context/ProfileContext';
+import { MAX_PROFILES, type UserProfile } from '@/lib/profiles';
+
+const tileSx = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'center',
+  gap: 1.5,
+  color: 'grey.500',
+  borderRadius: '4px',
+  '&:hover, &.Mui-focusVisible': { color: 'white', '& .profile-tile-image': { outline: '3px solid white' } },
+};
+
+// Full-screen "Who's watching?" screen shown at launch until a profile is chosen
+export default function ProfilePicker() {
+  const { profiles, selectProfile, createProfile } = useProfileContext();
+  const [pinProfile, setPinProfile] = useState<UserProfile | null>(null);
+  const [createOpen, setCreateOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const handleProfileClick = (profile: UserProfile) => {
+    if (profile.pinHash) {
+      setPinProfile(profile);
+      return;
+    }
+    selectProfile(profile.id);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    await createProfile(newName);
+    setNewName('');
+    setCreateOpen(false);
+  };
+
+  return (
+    <Box
+      sx={{
+        minHeight: '100vh',
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'center',
+        justifyContent: 'center',
+        backgroundColor: '#141414',
+        px: 2,
+      }}
+    >
+      <Typography variant="h3" sx={{ color: 'white', mb: 5, fontSize: { xs: '2rem', md: '3.5rem' } }}>
+        Who&apos;s watching?
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', justifyContent: 'center', gap: { xs: 2, md: 4 } }}>
+        {profiles.map(profile => (
+          <ButtonBase key={profile.id} onClick={() => handleProfileClick(profile)} sx={tileSx}>
+            <Box className="profile-tile-image" sx={{ borderRadius: '4px' }}>
+              <ProfileAvatar profile={profile} size={120} />
+            </Box>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <Typography variant="h6" sx={{ fontSize: '1.1rem' }}>{profile.name}</Typography>
+              {profile.pinHash && <LockIcon sx={{ fontSize: 16 }} />}
+            </Box>
+          </ButtonBase>
+        ))}
+
+        {profiles.length < MAX_PROFILES && (
+          <ButtonBase onClick={() => setCreateOpen(true)} sx={tileSx}>
+            <Box
+              className="profile-tile-image"
+              sx={{ width: 120, height: 120, borderRadius: '4px', display: 'flex', alignItems: 'center', justifyContent: 'center', border: '2px solid', borderColor: 'grey.700' }}
+            >
+              <AddIcon sx={{ fontSize: 64 }} />
+            </Box>
+            <Typography variant="h6" sx={{ fontSize: '1.1rem' }}>Add Profile</Typography>
+          </ButtonBase>
+        )}
+      </Box>
+
+      <ProfilePinDialog
+        open={!!pinProfile}
+        title={pinProfile ? `Enter the PIN for ${pinProfile.name}` : ''}
+        onClose={() => setPinProfile(null)}
+        onSubmit={(pin) => (pinProfile ? selectProfile(pinProfile.id, pin) : Promise.resolve(false))}
+      />
+
+      <Dialog
+        open={createOpen}
+        onClose={() => setCreateOpen(false)}
+        maxWidth="xs"
+        fullWidth
+        PaperProps={{ component: 'form', onSubmit: handleCreate, sx: { backgroundColor: '#1f1f1f', color: 'white' } }}
+      >
+        <DialogTitle>Add Profile</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+            Each profile has its own addons, settings, list and watch history. You can add a PIN later from Manage Profiles.
+          </Typography>
+          <TextField
+            autoFocus
+            fullWidth
+            label="Name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            inputProps={{ maxLength: 20 }}
+            sx={{
+              mt: 1,
+              '& .MuiInputBase-input': { color: 'white' },
+              '& .MuiInputLabel-root': { color: 'grey.500' },
+              '& .MuiOutlinedInput-notchedOutline': { borderColor: 'grey.700' },
+            }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button color="inherit" onClick={() => setCreateOpen(false)}>Cancel</Button>
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={!newName.trim()}
+            sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
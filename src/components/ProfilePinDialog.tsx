@@ -0,0 +1,112 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Dialog from '@mui/material/Dialog';
+import DialogTitle from '@mui/material/DialogTitle';
+import DialogContent from '@mui/material/DialogContent';
+import DialogActions from '@mui/material/DialogActions';
+import TextField from '@mui/material/TextField';
+import Button from '@mui/material/Button';
+import Typography from '@mui/material/Typography';
+import { isValidPin } from '@/lib/profiles';
+
+interface ProfilePinDialogProps {
+  open: boolean;
+  title: string;
+  description?: string;
+  confirmLabel?: string;
+  onClose: () => void;
+  // Resolves to false when the PIN was rejected, which keeps the dialog open with an error
+  onSubmit: (pin: string) => Promise<boolean>;
+}
+
+// Four-digit PIN prompt, used both to unlock a profile and to set a new PIN
+const ProfilePinDialog: React.FC<ProfilePinDialogProps> = ({
+  open,
+  title,
+  description,
+  confirmLabel = 'Continue',
+  onClose,
+  onSubmit,
+}) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start from an empty field every time the dialog opens or moves on to another prompt
+  useEffect(() => {
+    if (open) {
+      setPin('');
+      setError(null);
+    }
+  }, [open, title]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidPin(pin)) {
+      setError('Enter 4 digits.');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      if (!(await onSubmit(pin))) {
+        setError('Incorrect PIN.');
+        setPin('');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onClose={onClose}
+      maxWidth="xs"
+      fullWidth
+      PaperProps={{ component: 'form', onSubmit: handleSubmit, sx: { backgroundColor: '#1f1f1f', color: 'white' } }}
+    >
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        {description && (
+          <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+            {description}
+          </Typography>
+        )}
+        <TextField
+          autoFocus
+          fullWidth
+          type="password"
+          label="PIN"
+          value={pin}
+          onChange={(e) => {
+            setPin(e.target.value.replace(/\D/g, '').slice(0, 4));
+            setError(null);
+          }}
+          error={!!error}
+          helperText={error || ' '}
+          inputProps={{ inputMode: 'numeric', autoComplete: 'off', maxLength: 4 }}
+          sx={{
+            mt: 1,
+            '& .MuiInputBase-input': { color: 'white', letterSpacing: '0.5em' },
+            '& .MuiInputLabel-root': { color: 'grey.500' },
+            '& .MuiOutlinedInput-notchedOutline': { borderColor: 'grey.700' },
+          }}
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button color="inherit" onClick={onClose}>Cancel</Button>
+        <Button
+          type="submit"
+          variant="contained"
+          disabled={isSubmitting}
+          sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+        >
+          {confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ProfilePinDialog;
@@ -0,0 +1,56 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import ReplayIcon from '@mui/icons-material/Replay';
+import { formatResumeTime } from '@/lib/watchState';
+
+interface ResumePromptProps {
+  position: number; // Seconds
+  onResume: () => void;
+  onStartOver: () => void;
+}
+
+const AUTO_DISMISS_MS = 15000;
+
+// "Resume from 42:10" offer shown over the player when a stream with saved progress opens.
+// Dismisses itself (keeps playing from the start) if the user doesn't pick.
+export default function ResumePrompt({ position, onResume, onStartOver }: ResumePromptProps) {
+  useEffect(() => {
+    const timeout = setTimeout(onStartOver, AUTO_DISMISS_MS);
+    return () => clearTimeout(timeout);
+  }, [onStartOver]);
+
+  return (
+    <Box
+      onClick={(e) => e.stopPropagation()}
+      sx={{
+        position: 'absolute',
+        left: { xs: 16, sm: 32 },
+        bottom: { xs: 96, sm: 112 },
+        display: 'flex',
+        gap: 1,
+        zIndex: 5,
+      }}
+    >
+      <Button
+        variant="contained"
+        startIcon={<PlayArrowIcon />}
+        onClick={onResume}
+        sx={{ backgroundColor: '#e50914', fontWeight: 'bold', '&:hover': { backgroundColor: '#b20710' } }}
+      >
+        Resume from {formatResumeTime(position)}
+      </Button>
+      <Button
+        variant="contained"
+        startIcon={<ReplayIcon />}
+        onClick={onStartOver}
+        sx={{ backgroundColor: 'rgba(109, 109, 110, 0.7)', color: 'white', '&:hover': { backgroundColor: 'rgba(109, 109, 110, 0.5)' } }}
+      >
+        Start over
+      </Button>
+    </Box>
+  );
+}
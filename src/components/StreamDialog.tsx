@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import Dialog from '@mui/material/Dialog';
 import DialogTitle from '@mui/material/DialogTitle';
 import DialogContent from '@mui/material/DialogContent';
@@ -26,30 +26,45 @@ import MenuItem from '@mui/material/MenuItem';
 import InputLabel from '@mui/material/InputLabel';
 import IconButton from '@mui/material/IconButton';
 import CloseIcon from '@mui/icons-material/Close';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
 import { TransitionProps } from '@mui/material/transitions';
 import Collapse from '@mui/material/Collapse';
+import Chip from '@mui/material/Chip';
+import Tooltip from '@mui/material/Tooltip';
 import { useTmdbContext } from '@/context/TmdbContext'; // Import TMDB context
 import dynamic from 'next/dynamic';
 import { useAddonContext } from '@/context/AddonContext'; // Import AddonContext
+import { useStreamProfileContext } from '@/context/StreamProfileContext';
+import { useStreamingServerContext } from '@/context/StreamingServerContext';
+import { useContentAllowed } from '@/context/ParentalControlsContext';
+import { STREAMING_SERVER_STATUS_COLORS, STREAMING_SERVER_STATUS_LABELS } from './StreamingServerSettings';
+import { buildVideoId, fetchStreams as fetchAddonStreams } from '@/lib/addonClient';
+import { getAddonPriorityIndex } from '@/lib/addonPriority';
+import { getIdForAddon, isTmdbId, resolveContentIds, type ContentIds } from '@/lib/idMapping';
+import { getAddonStatusFromResult, isAbortError } from '@/lib/network';
+import { parseStream, type ParsedRelease } from '@/lib/streamParser';
+import { rankStreams, type StreamRanking } from '@/lib/streamRanking';
+import { groupStreams } from '@/lib/streamGrouping';
+import { isTorrentStream, resolveTorrentStreamUrl } from '@/lib/streamingServer';
+import {
+  getBingeSelection,
+  getPlaybackSource,
+  getUserCountryCode,
+  isStreamAllowedInCountry,
+  rememberBingeSelection,
+  type BingeSelection,
+} from '@/lib/streamPlayback';
+import type { AddonStream } from '@/types/stremio';
+import type { EpisodeRef } from '@/lib/watchState';
 
 // Import VideoPlayerWrapper with SSR disabled (was VideoPlayer)
 const VideoPlayerWrapper = dynamic(() => import('./VideoPlayerWrapper'), { ssr: false });
 
-// Interfaces (Copied from stream page)
-interface Stream {
-  name: string;
-  title?: string;
-  url: string;
-  description?: string;
-  behaviorHints?: {
-    videoSize?: number;
-    filename?: string;
-    [key: string]: any;
-  };
+// Addon stream plus the fields we parse out of its name/description/filename
+interface Stream extends AddonStream {
   behindProxy?: boolean;
   external?: boolean;
-  ytId?: string;
-  externalUrl?: string;
   addon: string;
   addonName: string;
   quality?: string | null;
@@ -65,14 +80,72 @@ interface Stream {
   release_group?: string;
   is10bit?: boolean;      // Added for 10-bit video information
   cachedInfo?: string;   // Added for caching provider information (e.g., "Cached on RD, AD")
+  parsed?: ParsedRelease; // Full parse of the release name, with per-field confidence
 }
 
-interface StreamResponse {
-  streams?: Stream[];
-  addon?: string;
-  error?: string;
+// Per-addon progress while streams load
+type AddonStreamState = 'pending' | 'done' | 'failed' | 'timeout';
+
+interface AddonStreamStatus {
+  name: string;
+  state: AddonStreamState;
+  count: number;
+  message?: string;
 }
 
+const ADDON_STREAM_STATE_LABELS: Record<AddonStreamState, string> = {
+  pending: 'Loading',
+  done: 'Done',
+  failed: 'Failed',
+  timeout: 'Timed out',
+};
+
+const ADDON_STREAM_STATE_COLORS: Record<AddonStreamState, string> = {
+  pending: 'rgba(255,255,255,0.12)',
+  done: '#1f5f2a',
+  failed: '#7a1c1c',
+  timeout: '#8a6d1f',
+};
+
+// Higher resolution first. Used to keep the list sorted as each addon's results arrive.
+const getQualityValue = (stream: Stream) => {
+  if (stream.resolution) {
+    const match = stream.resolution.match(/\d+/);
+    return match ? parseInt(match[0], 10) : 0;
+  }
+  if (stream.quality) {
+    if (stream.quality.includes('1080')) return 1080;
+    if (stream.quality.includes('720')) return 720;
+    if (stream.quality.includes('480')) return 480;
+    if (stream.quality.includes('HD')) return 720;
+    if (stream.quality.includes('SD')) return 480;
+  }
+  return 0;
+};
+
+const compareStreamsByQuality = (a: Stream, b: Stream) => getQualityValue(b) - getQualityValue(a);
+
+// Tooltip body explaining a stream's place in the ranking
+const renderRankingExplanation = (ranking: StreamRanking) => (
+  <Box sx={{ fontSize: '0.75rem' }}>
+    {ranking.excludedBy.length > 0 && (
+      <Box sx={{ mb: 0.5, color: '#ff8a80' }}>Hidden by profile: {ranking.excludedBy.join(', ')}</Box>
+    )}
+    {ranking.reasons.length > 0 ? ranking.reasons.map(reason => (
+      <Box key={reason.criterion} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}>
+        <span>{reason.label}</span>
+        <span>{reason.points > 0 ? '+' : ''}{reason.points}</span>
+      </Box>
+    )) : <span>Nothing in this stream matches the profile&apos;s criteria</span>}
+  </Box>
+);
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1073741824) return `${(bytes / 1073741824).toFixed(2)} GB`;
+  if (bytes >= 1048576) return `${(bytes / 1048576).toFixed(2)} MB`;
+  return `${bytes} B`;
+};
+
 // Component Props
 interface StreamDialogProps {
   open: boolean;
@@ -83,7 +156,11 @@ interface StreamDialogProps {
   episode?: number | null;
   contentName?: string;
   episodeInfo?: string;
+  contentPoster?: string; // Saved with watch progress for the Continue Watching row
+  contentBackground?: string;
+  nextEpisode?: EpisodeRef | null; // Episode after this one, if known
   initialAddonId?: string | null;
+  onPlayNextEpisode?: () => void; // Moves the dialog to the next episode; enables bingeGroup auto-play
   TransitionComponent?: React.ComponentType<
     TransitionProps & {
       children: React.ReactElement<any, any>;
@@ -101,7 +178,11 @@ export default function StreamDialog({
   episode,
   contentName = 'Content',
   episodeInfo = '',
+  contentPoster,
+  contentBackground,
+  nextEpisode,
   initialAddonId,
+  onPlayNextEpisode,
   TransitionComponent,
   keepMounted,
 }: StreamDialogProps) {
@@ -109,73 +190,63 @@ export default function StreamDialog({
   const [loading, setLoading] = useState(false); // Start as false, fetch on open
   const [error, setError] = useState<string | null>(null);
   const [selectedAddon, setSelectedAddon] = useState<string | null>(null);
+  const [addonStreamStatus, setAddonStreamStatus] = useState<Record<string, AddonStreamStatus>>({});
   const [conversionError, setConversionError] = useState<string | null>(null); // For ID conversion errors
   const [selectedStream, setSelectedStream] = useState<Stream | null>(null); // New state for the selected stream
+  const [showExcluded, setShowExcluded] = useState(false); // Also list streams the profile hides
+  const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({}); // Duplicate groups showing every provider
+  const [resolvingStream, setResolvingStream] = useState<Stream | null>(null); // Torrent being handed to the streaming server, or stream waiting for its proxy URL
+  const [playbackError, setPlaybackError] = useState<string | null>(null);
+  const [bingeMatch, setBingeMatch] = useState<Stream | null>(null); // Next episode's stream from the same bingeGroup
+  const bingePendingRef = useRef(false); // Set when playback ended and we moved on to the next episode
+  const countryCode = useMemo(() => getUserCountryCode(), []);
+  const abortControllerRef = useRef<AbortController | null>(null); // Cancels in-flight requests on close/refetch
 
   const { tmdbApiKey } = useTmdbContext(); // Get TMDB API key
   const { 
     installedAddons, 
     isLoading: addonsLoading, 
     isStreamingAddon,  // Get the new helper
-    installSampleAddon // Get the sample addon installer
+    installSampleAddon, // Get the sample addon installer
+    reportAddonResult,
+    getAddonsForResource
   } = useAddonContext(); // Get addons from context
-
-  // Log when component renders with current addon state
-  useEffect(() => {
-    console.log('StreamDialog: Component rendered with addons:', 
-      addonsLoading ? 'loading...' : `${installedAddons?.length || 0} addons loaded`);
-    
-    // Check localStorage directly for debugging
-    try {
-      const storedAddons = localStorage.getItem('installedAddons');
-      const parsedAddons = storedAddons ? JSON.parse(storedAddons) : [];
-      console.log('StreamDialog: Direct localStorage check -', 
-        storedAddons ? `found ${parsedAddons.length} addons` : 'no addons in localStorage');
-    } catch (e) {
-      console.error('StreamDialog: Error checking localStorage:', e);
-    }
-  }, [addonsLoading, installedAddons]);
-
-  // Function to convert TMDB ID to IMDb ID
-  const fetchImdbIdFromTmdb = useCallback(async (tmdbNumericId: string, type: 'movie' | 'series'): Promise<string | null> => {
-    if (!tmdbApiKey) {
-      console.warn('StreamDialog: TMDB API key is missing, cannot convert TMDB ID to IMDb ID.');
-      setConversionError('TMDB API key missing. Cannot look up IMDb ID.');
-      return null;
-    }
-    const tmdbType = type === 'series' ? 'tv' : 'movie';
-    const url = `https://api.themoviedb.org/3/${tmdbType}/${tmdbNumericId}/external_ids?api_key=${tmdbApiKey}`;
-    
-    console.log(`StreamDialog: Fetching IMDb ID from TMDB: ${url}`);
-    try {
-      const response = await fetch(url);
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`TMDB External IDs API error ${response.status}: ${errorData.status_message || response.statusText}`);
-      }
-      const data = await response.json();
-      if (data.imdb_id) {
-        console.log(`StreamDialog: Found IMDb ID: ${data.imdb_id} for TMDB ID: ${tmdbNumericId}`);
-        return data.imdb_id;
-      }
-      console.warn(`StreamDialog: IMDb ID not found in TMDB external IDs for ${tmdbNumericId}`);
-      setConversionError(`IMDb ID not found for this TMDB item.`);
-      return null;
-    } catch (err: any) {
-      console.error("StreamDialog: Error fetching IMDb ID from TMDB:", err);
-      setConversionError(`Failed to fetch IMDb ID: ${err.message}`);
-      return null;
-    }
-  }, [tmdbApiKey]);
+  const { profiles, activeProfile, setActiveProfileId } = useStreamProfileContext();
+  const {
+    serverUrl,
+    status: serverStatus,
+    hideUnplayableStreams,
+    checkServer,
+  } = useStreamingServerContext();
+  const canPlayTorrents = !!serverUrl && serverStatus !== 'offline';
+  // Null while parental controls check the title; no streams are fetched unless it's allowed
+  const contentAllowed = useContentAllowed(open ? contentType : undefined, open ? contentId : undefined);
 
   // Fetch streams logic (adapted from stream page)
   const fetchStreams = useCallback(async () => {
     if (!open || !contentType || !contentId) return; // Don't fetch if not open or missing params
 
+    // Cancel whatever the previous run still has in flight
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+
     setLoading(true);
     setStreams([]);
+    setAddonStreamStatus({});
+    setSelectedAddon(initialAddonId || null); // Show everything unless the caller asked for one addon
     setError(null);
     setConversionError(null); // Reset conversion error
+    setBingeMatch(null);
+
+    // After an episode ended, look for the stream that continues its bingeGroup
+    const previousBinge = bingePendingRef.current ? getBingeSelection() : null;
+    bingePendingRef.current = false;
+    const bingeTarget: BingeSelection | null =
+      previousBinge && previousBinge.contentId === contentId &&
+      (previousBinge.season !== season || previousBinge.episode !== episode) ? previousBinge : null;
+    let bingeMatched = false;
 
     try {
       if (addonsLoading) {
@@ -183,7 +254,12 @@ export default function StreamDialog({
         return;
       }
 
-      const streamingAddons = installedAddons.filter(isStreamingAddon);
+      // In stream priority order, which also orders the addon filter
+      const streamingAddons = getAddonsForResource('stream').filter(isStreamingAddon);
+      // Equal quality goes to the higher-priority addon; ranking keeps that order for equal scores
+      const compareStreams = (a: Stream, b: Stream) =>
+        compareStreamsByQuality(a, b) ||
+        getAddonPriorityIndex(streamingAddons, a.addon) - getAddonPriorityIndex(streamingAddons, b.addon);
 
       if (!streamingAddons || streamingAddons.length === 0) {
         setError(
@@ -194,10 +270,28 @@ export default function StreamDialog({
         return;
       }
 
-      // Build the video ID based on type, ID, and optional season/episode
-      let videoId = `${contentId}`;
-      if (contentType === 'series' && season && episode) {
-        videoId = `${contentId}:${season}:${episode}`;
+      // Every addon starts out pending; each one updates its own entry as it answers
+      setAddonStreamStatus(Object.fromEntries(
+        streamingAddons.map(addon => [addon.id, { name: addon.name, state: 'pending', count: 0 } as AddonStreamStatus])
+      ));
+      const updateAddonStreamStatus = (addonId: string, patch: Partial<AddonStreamStatus>) => {
+        if (signal.aborted) return;
+        setAddonStreamStatus(prev => ({ ...prev, [addonId]: { ...prev[addonId], ...patch } }));
+      };
+
+      // Resolve alternate IDs (tmdb: -> tt...) once for all addons; cached across opens
+      let contentIds: ContentIds = {};
+      let idLookupError: string | null = null;
+      try {
+        contentIds = await resolveContentIds(contentId, contentType, tmdbApiKey, { signal });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error("StreamDialog: Error resolving alternate IDs:", err);
+        idLookupError = `Failed to fetch IMDb ID: ${err instanceof Error ? err.message : String(err)}`;
+      }
+      if (signal.aborted) return;
+      if (isTmdbId(contentId) && !contentIds.imdb && !idLookupError) {
+        idLookupError = tmdbApiKey ? 'IMDb ID not found for this TMDB item.' : 'TMDB API key missing. Cannot look up IMDb ID.';
       }
 
       const allStreams: Stream[] = [];
@@ -207,54 +301,29 @@ export default function StreamDialog({
       // For each STREAMING addon, try to fetch streams
       for (const addon of streamingAddons) { // Use filtered list
         anAddonWasAttempted = true;
-        let idForAddon = contentId;
-        let videoIdForUrl = contentId; // This will include season/episode for series
-
-        // Check if contentId is TMDB ID and needs conversion
-        if (contentId.startsWith('tmdb:')) {
-          const tmdbNumericIdOnly = contentId.substring(5);
-          const imdbId = await fetchImdbIdFromTmdb(tmdbNumericIdOnly, contentType as 'movie' | 'series');
-          if (imdbId) {
-            idForAddon = imdbId; // Use IMDb ID for this addon
-            videoIdForUrl = imdbId; // Update videoIdForUrl as well
-          } else {
-            // If conversion fails, log it and skip this addon for this TMDB item
-            console.warn(`StreamDialog: Skipping addon ${addon.name} for TMDB item ${contentId} due to failed IMDb ID conversion.`);
-            // Optionally, accumulate these errors to show a more specific message
-            if (!conversionError) setConversionError(prev => prev ? `${prev}, ${addon.name}` : `Could not get IMDb ID for some sources (e.g., ${addon.name})`);
-            continue; // Skip to the next addon
-          }
+        // Pick the ID this addon understands (e.g. the IMDb ID for a tmdb: item)
+        const idForAddon = getIdForAddon(addon, 'stream', contentType, contentId, contentIds);
+        if (!idForAddon) {
+          console.warn(`StreamDialog: Skipping addon ${addon.name} for ${contentId}, none of its IDs are supported.`);
+          updateAddonStreamStatus(addon.id, { state: 'failed', message: 'No supported ID for this item' });
+          continue; // Skip to the next addon
         }
-        
+
         // Build the final video ID for the URL (including season/episode if applicable)
-        if (contentType === 'series' && season && episode) {
-          videoIdForUrl = `${idForAddon}:${season}:${episode}`;
-        } else {
-          videoIdForUrl = idForAddon; // Ensure it uses the potentially converted ID
-        }
+        const videoIdForUrl = contentType === 'series' ? buildVideoId(idForAddon, season, episode) : idForAddon;
 
         try {
-          const manifestUrlParts = addon.manifestUrl.split('/');
-          manifestUrlParts.pop();
-          const baseUrl = manifestUrlParts.join('/');
-
           const fetchPromise = (async () => {
             try {
-              const streamUrl = `${baseUrl}/stream/${contentType}/${videoIdForUrl}.json`;
-              console.log(`StreamDialog: Fetching streams from ${addon.name}: ${streamUrl} (using ID: ${videoIdForUrl})`);
+              console.log(`StreamDialog: Fetching streams from ${addon.name} (using ID: ${videoIdForUrl})`);
 
-              const response = await fetch(streamUrl);
-              if (!response.ok) {
-                console.warn(`No streams available from ${addon.name} for ID ${videoIdForUrl}`);
-                return;
-              }
-              const data = await response.json() as StreamResponse;
-              console.log(`StreamDialog: Raw response from ${addon.name} for ID ${videoIdForUrl}:`, data); // Log the entire response
+              const data = await fetchAddonStreams(addon, contentType, videoIdForUrl, { signal });
+              reportAddonResult(addon.id, undefined);
 
-              if (data && Array.isArray(data.streams) && data.streams.length > 0) {
-                // Process and add streams
-                const processedStreams = data.streams.map(stream => {
-                  console.log(`StreamDialog: Original stream object from ${addon.name}:`, JSON.parse(JSON.stringify(stream))); // Log original stream before enhancement
+              if (data.streams.length > 0) {
+                // Process and add streams. Some addons send pre-parsed fields (resolution, codec...) alongside the standard ones.
+                const processedStreams = data.streams.map(addonStream => {
+                  const stream = addonStream as Stream;
 
                   let enhancedStream: Stream = {
                     ...stream, // Start with the original stream object
@@ -277,123 +346,39 @@ export default function StreamDialog({
 
                   // --- Start of new parsing logic ---
 
-                  // 1. Prioritize behaviorHints.videoSize for filesize
-                  if (stream.behaviorHints && stream.behaviorHints.videoSize && typeof stream.behaviorHints.videoSize === 'number') {
-                    const sizeInBytes = stream.behaviorHints.videoSize;
-                    if (sizeInBytes >= 1073741824) { // GB
-                      enhancedStream.size = `${(sizeInBytes / 1073741824).toFixed(2)} GB`;
-                    } else if (sizeInBytes >= 1048576) { // MB
-                      enhancedStream.size = `${(sizeInBytes / 1048576).toFixed(2)} MB`;
-                    } else if (sizeInBytes > 0) {
-                      enhancedStream.size = `${sizeInBytes} B`;
-                    }
-                  }
-
-                  // Combine filename (highest priority), description, title, and name for comprehensive parsing
-                  const filenameText = (stream.behaviorHints && stream.behaviorHints.filename) ? stream.behaviorHints.filename : '';
-                  const descriptionText = stream.description || '';
-                  const titleText = stream.title || '';
+                  // Parse filename, description, title and name together; fields the addon already sent win
+                  const parsed = parseStream(stream);
+                  enhancedStream.parsed = parsed;
                   const nameText = stream.name || '';
-                  
-                  // Give priority to filename, then description, then title, then name
-                  const sourceToParse = `${filenameText} ${descriptionText} ${titleText} ${nameText}`.toLowerCase();
-
-                  // Regex patterns (keeping them as they are for now, might need refinement)
-                  const formatPatterns = [
-                    { regex: /\b(bluray|blu-ray|bdrip|remux)\b/i, format: 'BluRay' }, // Added remux
-                    { regex: /\bweb-?dl\b/i, format: 'WEB-DL' },
-                    { regex: /\bhdtv\b/i, format: 'HDTV' },
-                    { regex: /\bdvdrip\b/i, format: 'DVDRip' },
-                    { regex: /\bwebrip\b/i, format: 'WEBRip' },
-                    { regex: /\bcam\b/i, format: 'CAM' },
-                  ];
-
-                  const codecPatterns = [
-                    { regex: /\b(hevc|h\.?265|x\.?265)\b/i, codec: 'HEVC' },
-                    { regex: /\b(avc|h\.?264|x\.?264)\b/i, codec: 'AVC' }, // Grouped H264/AVC
-                    { regex: /\bvp9\b/i, codec: 'VP9' },
-                    { regex: /\bav1\b/i, codec: 'AV1' },
-                  ];
-
-                  const audioPatterns = [
-                    { regex: /\batmos\b/i, audio: 'Atmos' },
-                    { regex: /\bdts-?hd(?:-?ma)?\b/i, audio: 'DTS-HD' }, // More specific DTS-HD
-                    { regex: /\bdts\b/i, audio: 'DTS' }, // General DTS
-                    { regex: /\bdolby\s*digital\s*plus\b|\bdd\+\b|\beac3\b/i, audio: 'DD+' },
-                    { regex: /\bdolby\s*digital\b|\bdd\b|\bac3\b/i, audio: 'DD' },
-                    { regex: /\b(?:5|7)\.1\b/i, audio: 'Surround' }, // General surround
-                    { regex: /\btrue\s*hd\b/i, audio: 'TrueHD' },
-                    { regex: /\baac\b/i, audio: 'AAC' },
-                  ];
-
-                  const hdrPatterns = [
-                    { regex: /\bhdr10\+\b/i, hdr: true, dv: false }, // HDR10+
-                    { regex: /\bhdr10\b/i, hdr: true, dv: false },  // HDR10
-                    { regex: /\bhdr\b/i, hdr: true, dv: false },     // Generic HDR
-                    { regex: /\bdv\b|\bdolby\s*vision\b/i, hdr: true, dv: true }, // Dolby Vision implies HDR
-                  ];
-                  
-                  const resolutionPatterns = [
-                    { regex: /\b(2160p|4k|ultra\s*hd)\b/i, resolution: '2160p' },
-                    { regex: /\b(1080p|full\s*hd)\b/i, resolution: '1080p' },
-                    { regex: /\b(720p|hd)\b/i, resolution: '720p' },
-                    { regex: /\b480p\b/i, resolution: '480p' },
-                  ];
-                  
-                  const languagePatterns = [
-                      { regex: /\b(eng|english)\b/i, language: 'English' },
-                      { regex: /\b(esp|spanish|espanol|latino)\b/i, language: 'Spanish' },
-                      { regex: /\b(fre|french|français)\b/i, language: 'French' },
-                      { regex: /\b(ger|german|deutsch)\b/i, language: 'German' },
-                      { regex: /\b(ita|italian)\b/i, language: 'Italian' },
-                      { regex: /\b(multi|dual\s*audio)\b/i, language: 'Multi Audio' },
-                  ];
-
-                  // Release group detection (often in square brackets or parentheses, or after a dash at the end)
-                  const releaseGroupRegex = /(?:\b|-)([a-z0-9]+(?:-[a-z0-9]+)*)(?=\s*\.\w{2,4}$)|(?:\[|\()([a-z0-9\s-]+)(?:\]|\))/i;
-
-                  // Apply parsing if not already present or to refine existing data
-                  if (!enhancedStream.format) {
-                    for (const p of formatPatterns) if (p.regex.test(sourceToParse)) { enhancedStream.format = p.format; break; }
-                  }
-                  if (!enhancedStream.codec) {
-                    for (const p of codecPatterns) if (p.regex.test(sourceToParse)) { enhancedStream.codec = p.codec; break; }
-                  }
-                  if (!enhancedStream.audio) {
-                    for (const p of audioPatterns) if (p.regex.test(sourceToParse)) { enhancedStream.audio = p.audio; break; }
-                  }
-                  
-                  // HDR/DV - allow multiple matches if DV also sets HDR
-                  for (const p of hdrPatterns) {
-                      if (p.regex.test(sourceToParse)) {
-                          if (p.hdr) enhancedStream.hdr = true;
-                          if (p.dv) enhancedStream.dv = true;
-                          // Don't break, allow DV to also set HDR if a generic HDR was found first
-                      }
+                  const descriptionText = stream.description || '';
+
+                  // 1. Prioritize behaviorHints.videoSize for filesize, then a size mentioned in the text
+                  const videoSize = stream.behaviorHints?.videoSize;
+                  if (typeof videoSize === 'number' && videoSize > 0) {
+                    enhancedStream.size = formatSize(videoSize);
+                  } else if (!enhancedStream.size && parsed.sizeBytes) {
+                    enhancedStream.size = formatSize(parsed.sizeBytes.value);
                   }
 
-                  if (!enhancedStream.resolution) {
-                    for (const p of resolutionPatterns) if (p.regex.test(sourceToParse)) { enhancedStream.resolution = p.resolution; break; }
+                  if (!enhancedStream.format && parsed.source) enhancedStream.format = parsed.source.value;
+                  if (!enhancedStream.codec && parsed.codec) enhancedStream.codec = parsed.codec.value;
+                  if (!enhancedStream.audio && parsed.audio) enhancedStream.audio = parsed.audio.value[0];
+                  if (parsed.hdr) {
+                    enhancedStream.hdr = true; // DV implies HDR
+                    if (parsed.hdr.value.includes('DV')) enhancedStream.dv = true;
                   }
+                  if (!enhancedStream.resolution && parsed.resolution) enhancedStream.resolution = parsed.resolution.value;
                   if (!enhancedStream.language) {
-                    for (const p of languagePatterns) if (p.regex.test(sourceToParse)) { enhancedStream.language = p.language; break; }
-                  }
-                  if (!enhancedStream.release_group) {
-                    const rgMatch = sourceToParse.match(releaseGroupRegex);
-                    if (rgMatch) {
-                      enhancedStream.release_group = (rgMatch[1] || rgMatch[2] || '').trim();
-                    }
-                  }
-                  
-                  // Special handling for 10bit from description/filename 
-                  if (!enhancedStream.is10bit && (sourceToParse.includes('10bit') || sourceToParse.includes('10-bit'))) {
-                    enhancedStream.is10bit = true;
+                    if (parsed.languages) enhancedStream.language = parsed.languages.value.join(' / ');
+                    else if (parsed.multiAudio?.value) enhancedStream.language = 'Multi Audio';
                   }
+                  if (!enhancedStream.release_group && parsed.releaseGroup) enhancedStream.release_group = parsed.releaseGroup.value;
+                  if (!enhancedStream.is10bit && parsed.bitDepth && parsed.bitDepth.value >= 10) enhancedStream.is10bit = true;
 
                   // Extract caching information specifically from the original description if not already set
                   if (!enhancedStream.cachedInfo && stream.description) {
                     const cachedOnRegex = /cached on ([\w\s,&]+)/i;
-                    // Use stream.description directly here, not sourceToParse, to avoid lowercasing issues if provider names are case-sensitive
+                    // Use stream.description directly here to keep provider names in their original case
                     const cachedMatch = stream.description.match(cachedOnRegex);
                     if (cachedMatch && cachedMatch[1]) {
                       enhancedStream.cachedInfo = `Cached on ${cachedMatch[1].trim()}`;
@@ -416,14 +401,31 @@ export default function StreamDialog({
                     enhancedStream.release_group = undefined;
                   }
 
-                  console.log('StreamDialog: Enhanced stream metadata:', enhancedStream);
                   return enhancedStream;
                 });
 
                 allStreams.push(...processedStreams);
+                if (bingeTarget && !bingeMatched && addon.id === bingeTarget.addonId) {
+                  const match = processedStreams.find(s => s.behaviorHints?.bingeGroup === bingeTarget.bingeGroup);
+                  if (match && !signal.aborted) {
+                    console.log(`StreamDialog: Continuing bingeGroup ${bingeTarget.bingeGroup} with ${addon.name}`);
+                    bingeMatched = true;
+                    setBingeMatch(match);
+                  }
+                }
+                // Show this addon's streams right away, merged into the sorted list
+                if (!signal.aborted) {
+                  setStreams(prev => [...prev, ...processedStreams].sort(compareStreams));
+                }
                 console.log(`Added ${processedStreams.length} streams from ${addon.name}`);
               }
+              updateAddonStreamStatus(addon.id, { state: 'done', count: data.streams.length });
             } catch (addonError) {
+              // One slow or broken addon only loses its own results; the others still come through
+              reportAddonResult(addon.id, addonError);
+              if (isAbortError(addonError)) return;
+              const status = getAddonStatusFromResult(addonError);
+              updateAddonStreamStatus(addon.id, { state: status?.state === 'timeout' ? 'timeout' : 'failed', message: status?.message });
               console.error(`Error fetching streams from ${addon.name}:`, addonError);
             }
           })();
@@ -436,80 +438,133 @@ export default function StreamDialog({
 
       // Wait for all fetchPromises to complete
       await Promise.all(fetchPromises);
+      if (signal.aborted) return; // Dialog closed or parameters changed meanwhile
 
       if (allStreams.length === 0) {
-        if (conversionError && !error) {
-            setError(conversionError); // Prioritize conversion error if no streams found
+        if (idLookupError) {
+            setConversionError(idLookupError); // Prioritize conversion error if no streams found
         } else if (!error) {
             setError(anAddonWasAttempted ? 'No streaming sources found from available addons.' : 'No addons available to fetch streams.');
         }
-      } else {
-        // Sort streams by quality (if available)
-        const sortedStreams = allStreams.sort((a, b) => {
-          // Try to sort by resolution/quality
-          const getQualityValue = (stream: Stream) => {
-            if (stream.resolution) {
-              const match = stream.resolution.match(/\d+/);
-              return match ? parseInt(match[0], 10) : 0;
-            }
-            if (stream.quality) {
-              if (stream.quality.includes('1080')) return 1080;
-              if (stream.quality.includes('720')) return 720;
-              if (stream.quality.includes('480')) return 480;
-              if (stream.quality.includes('HD')) return 720;
-              if (stream.quality.includes('SD')) return 480;
-            }
-            return 0;
-          };
-
-          const qualityA = getQualityValue(a);
-          const qualityB = getQualityValue(b);
-
-          return qualityB - qualityA; // Higher quality first
-        });
-
-        setStreams(sortedStreams);
-
-        // Set initial selected addon if there are streams
-        if (sortedStreams.length > 0) {
-           // Use initialAddonId if provided, otherwise default to the first addon found
-           const initialSelected = initialAddonId && sortedStreams.some(s => s.addon === initialAddonId)
-             ? initialAddonId
-             : sortedStreams[0].addon;
-          setSelectedAddon(initialSelected);
-        }
+      } else if (initialAddonId && !allStreams.some(s => s.addon === initialAddonId)) {
+        // The requested addon had nothing for this item, fall back to showing every addon
+        setSelectedAddon(null);
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error fetching streams:', err);
-      setError(err.message || 'Failed to load streaming sources');
+      setError((err instanceof Error && err.message) || 'Failed to load streaming sources');
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
-  }, [open, contentType, contentId, season, episode, initialAddonId, fetchImdbIdFromTmdb, installedAddons, addonsLoading, isStreamingAddon]);
+  }, [open, contentType, contentId, season, episode, initialAddonId, tmdbApiKey, addonsLoading, isStreamingAddon, reportAddonResult, getAddonsForResource]);
 
   // Trigger fetch when dialog opens or parameters change
   useEffect(() => {
     if (open) {
-      fetchStreams();
+      if (contentAllowed) fetchStreams();
     } else {
       // Reset state when dialog closes
       setStreams([]);
+      setAddonStreamStatus({});
       setLoading(false);
       setError(null);
       setSelectedAddon(null);
       setSelectedStream(null);
+      setShowExcluded(false);
+      setExpandedGroups({});
+      setResolvingStream(null);
+      setPlaybackError(null);
+      setBingeMatch(null);
     }
-  }, [open, fetchStreams, addonsLoading]);
+  }, [open, fetchStreams, addonsLoading, contentAllowed]);
+
+  // Refresh the streaming server status each time the dialog opens
+  useEffect(() => {
+    if (open && serverUrl) void checkServer();
+  }, [open, serverUrl, checkServer]);
+
+  // Abort in-flight requests when the dialog closes or unmounts
+  useEffect(() => {
+    if (!open) return;
+    return () => {
+      abortControllerRef.current?.abort();
+      abortControllerRef.current = null;
+    };
+  }, [open]);
 
   // Handle stream selection
-  const handleStreamSelect = (stream: Stream) => {
+  const handleStreamSelect = async (stream: Stream) => {
+    setPlaybackError(null);
+    // Remember the bingeGroup so the next episode can pick a matching stream
+    if (contentType === 'series' && season && episode && stream.behaviorHints?.bingeGroup) {
+      rememberBingeSelection({ contentId, season, episode, addonId: stream.addon, bingeGroup: stream.behaviorHints.bingeGroup });
+    }
     if (stream.externalUrl) {
       window.open(stream.externalUrl, '_blank');
+    } else if (stream.ytId && !stream.url) {
+      window.open(`https://www.youtube.com/watch?v=${encodeURIComponent(stream.ytId)}`, '_blank');
+    } else if (isTorrentStream(stream)) {
+      // Torrents play through the streaming server, which serves the file over HTTP
+      if (!serverUrl) {
+        setPlaybackError('This is a torrent stream. Set up a streaming server on the Addons page to play it.');
+        return;
+      }
+      const signal = abortControllerRef.current?.signal;
+      setResolvingStream(stream);
+      try {
+        const url = await resolveTorrentStreamUrl(serverUrl, stream, { signal });
+        if (signal?.aborted) return;
+        console.log(`StreamDialog: Torrent ${stream.infoHash} resolved to ${url}`);
+        setSelectedStream({ ...stream, url });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('StreamDialog: Streaming server could not start the torrent:', err);
+        setPlaybackError(`Streaming server error: ${err instanceof Error ? err.message : String(err)}`);
+        void checkServer();
+      } finally {
+        setResolvingStream(null);
+      }
     } else {
-      setSelectedStream(stream);
+      // notWebReady and proxyHeaders streams are routed through a proxy; everything else plays as is
+      const signal = abortControllerRef.current?.signal;
+      setResolvingStream(stream);
+      try {
+        const source = await getPlaybackSource(stream, canPlayTorrents ? serverUrl : null, { signal });
+        if (signal?.aborted) return;
+        if (source?.mayNotPlay) console.warn('StreamDialog: Stream is not web ready and no streaming server is available, playback may fail');
+        setSelectedStream(source ? { ...stream, url: source.url } : stream);
+      } catch (err) {
+        if (isAbortError(err)) return;
+        console.error('StreamDialog: Could not set up the stream proxy:', err);
+        setPlaybackError(`Stream proxy error: ${err instanceof Error ? err.message : String(err)}`);
+      } finally {
+        setResolvingStream(null);
+      }
     }
   };
 
+  // Play the next episode's matching stream as soon as it arrives
+  useEffect(() => {
+    if (!bingeMatch) return;
+    setBingeMatch(null);
+    void handleStreamSelect(bingeMatch);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only react to a new match
+  }, [bingeMatch]);
+
+  // Move on to the next episode when playback finishes, if the stream belongs to a bingeGroup
+  const handlePlayerEnded = () => {
+    if (!onPlayNextEpisode || !selectedStream?.behaviorHints?.bingeGroup) return;
+    bingePendingRef.current = true;
+    setSelectedStream(null);
+    onPlayNextEpisode();
+  };
+
+  // Torrents are only playable while a streaming server is configured and reachable
+  const isStreamPlayable = useCallback(
+    (stream: Stream) => !!(stream.url || stream.externalUrl || stream.ytId) || (isTorrentStream(stream) && canPlayTorrents),
+    [canPlayTorrents]
+  );
+
   // Handle player close
   const handlePlayerClose = () => {
     setSelectedStream(null);
@@ -517,7 +572,7 @@ export default function StreamDialog({
 
   // Handle addon filter change
   const handleAddonChange = (event: any) => {
-    setSelectedAddon(event.target.value as string);
+    setSelectedAddon((event.target.value as string) || null); // '' is the "All addons" entry
   };
 
   // Get quality icon based on stream
@@ -529,13 +584,38 @@ export default function StreamDialog({
     return null; 
   };
 
-  // Filter streams by selected addon
-  const filteredStreams = selectedAddon
-    ? streams.filter(stream => stream.addon === selectedAddon)
-    : streams;
+  // Filter streams by selected addon, then order them by the active profile
+  const rankedStreams = useMemo(
+    () => rankStreams(
+      streams.filter(stream =>
+        (!selectedAddon || stream.addon === selectedAddon) &&
+        (!hideUnplayableStreams || isStreamPlayable(stream)) &&
+        isStreamAllowedInCountry(stream, countryCode)
+      ),
+      activeProfile
+    ),
+    [streams, selectedAddon, activeProfile, hideUnplayableStreams, isStreamPlayable, countryCode]
+  );
+  const regionBlockedCount = streams.filter(stream => !isStreamAllowedInCountry(stream, countryCode)).length;
+  const hasTorrentStreams = streams.some(isTorrentStream);
+  const unplayableHiddenCount = hideUnplayableStreams ? streams.filter(stream => !isStreamPlayable(stream)).length : 0;
+  // Streams the profile excludes stay hidden unless the user asks to see them
+  const excludedCount = rankedStreams.filter(({ ranking }) => ranking.excludedBy.length > 0).length;
+  const visibleStreams = useMemo(
+    () => (showExcluded ? rankedStreams : rankedStreams.filter(({ ranking }) => ranking.excludedBy.length === 0)),
+    [rankedStreams, showExcluded]
+  );
+  // Same release from several addons collapses into one row; the best-ranked copy is shown
+  const streamGroups = useMemo(() => groupStreams(visibleStreams, ({ stream }) => stream), [visibleStreams]);
+
+  const toggleGroupExpanded = (event: React.MouseEvent, key: string) => {
+    event.stopPropagation(); // Don't start playback
+    setExpandedGroups(prev => ({ ...prev, [key]: !prev[key] }));
+  };
 
-  // Get unique addons that have streams
-  const availableAddons = [...new Set(streams.map(stream => stream.addon))];
+  // Addons that were queried, in priority order, plus any that only show up on streams
+  const availableAddons = [...new Set([...Object.keys(addonStreamStatus), ...streams.map(stream => stream.addon)])];
+  const showLoadingOverlay = (loading && streams.length === 0) || contentAllowed === null; // Once something arrived, show it while the rest load
 
   // Conditional rendering: Player view or Stream list view
   if (selectedStream) {
@@ -549,11 +629,23 @@ export default function StreamDialog({
         PaperProps={{ sx: { backgroundColor: 'black' } }}
       >
         <VideoPlayerWrapper
-          url={selectedStream.url} 
+          url={selectedStream.url || ''} 
           title={selectedStream.title || selectedStream.name || contentName}
           quality={selectedStream.quality || selectedStream.resolution || ''}
           addonName={selectedStream.addonName}
           onClose={handlePlayerClose} 
+          onEnded={handlePlayerEnded}
+          watchTarget={{
+            contentId,
+            contentType,
+            season,
+            episode,
+            name: contentName,
+            episodeInfo: episodeInfo || undefined,
+            poster: contentPoster,
+            background: contentBackground,
+            nextEpisode,
+          }}
           autoPlay={true}
           // useStremio prop defaults to true in VideoPlayerWrapper
         />
@@ -593,6 +685,13 @@ export default function StreamDialog({
                 {episodeInfo}
               </Typography>
             )}
+            {hasTorrentStreams && (
+              <Chip
+                size="small"
+                label={`Streaming server: ${STREAMING_SERVER_STATUS_LABELS[serverStatus]}`}
+                sx={{ mt: 0.5, bgcolor: STREAMING_SERVER_STATUS_COLORS[serverStatus], color: 'white', height: 20, fontSize: '0.7rem' }}
+              />
+            )}
             <IconButton
               aria-label="close"
               onClick={onClose}
@@ -609,14 +708,18 @@ export default function StreamDialog({
 
       <DialogContent dividers sx={{ bgcolor: '#141414', p: { xs: 1.5, sm: 2, md: 3 }, position: 'relative', flexGrow: 1 /* Allow content to grow */, overflowY: 'auto' /* Ensure content scrolls */ }}>
             {/* Loading indicator */}
-            {loading && (
+            {showLoadingOverlay && (
           <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100%', position: 'absolute', top: 0, left: 0, right: 0, bottom: 0, zIndex: 1, backgroundColor: 'rgba(0,0,0,0.5)' }}>
                 <CircularProgress color="inherit" />
               </Box>
             )}
 
-            <Collapse in={!loading} timeout="auto" unmountOnExit> 
-              {error || conversionError ? (
+            <Collapse in={!showLoadingOverlay} timeout="auto" unmountOnExit> 
+              {contentAllowed === false ? (
+                <Alert severity="info" sx={{ backgroundColor: '#333', color: 'white', '.MuiAlert-icon': { color: 'white' } }}>
+                  This title is blocked by parental controls on this profile.
+                </Alert>
+              ) : error || conversionError ? (
                 <Alert
                   severity="warning"
                   sx={{
@@ -647,8 +750,9 @@ export default function StreamDialog({
                 </Alert>
               ) : (
                 <>
+              <Box sx={{ mb: 2, display: 'flex', flexWrap: 'wrap', gap: 1.5 }}>
                   {availableAddons.length > 1 && (
-                <Box sx={{ mb: 2, maxWidth: { xs: '100%', sm: '300px' } }}>
+                <Box sx={{ flex: { xs: '1 1 100%', sm: '0 1 300px' } }}>
                       <FormControl fullWidth variant="filled" size="small">
                         <InputLabel id="addon-select-label" sx={{ color: 'grey.300' }}>
                           Addon Source
@@ -657,6 +761,8 @@ export default function StreamDialog({
                           labelId="addon-select-label"
                           value={selectedAddon || ''}
                           onChange={handleAddonChange}
+                          displayEmpty
+                          renderValue={(value) => value ? (installedAddons.find(ad => ad.id === value)?.name || addonStreamStatus[value]?.name || value) : 'All addons'}
                           label="Addon Source"
                           sx={{
                             color: 'white',
@@ -667,12 +773,24 @@ export default function StreamDialog({
                           }}
                           disableUnderline
                         >
+                          <MenuItem value="" sx={{ bgcolor: '#333', '&:hover': { bgcolor: '#444' } }}>
+                            All addons ({streams.length})
+                          </MenuItem>
                           {availableAddons.map(addonId => {
                         const addonInfo = installedAddons.find(ad => ad.id === addonId);
                         const addonName = addonInfo?.name || streams.find(s => s.addon === addonId)?.addonName || addonId;
+                        const status = addonStreamStatus[addonId];
                             return (
-                              <MenuItem key={addonId} value={addonId} sx={{ bgcolor: '#333', '&:hover': { bgcolor: '#444' } }}>
-                                {addonName}
+                              <MenuItem key={addonId} value={addonId} sx={{ bgcolor: '#333', '&:hover': { bgcolor: '#444' }, display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                                <span>{addonName}</span>
+                                {status && (
+                                  <Chip
+                                    size="small"
+                                    title={status.message}
+                                    label={status.state === 'done' ? `${status.count}` : ADDON_STREAM_STATE_LABELS[status.state]}
+                                    sx={{ bgcolor: ADDON_STREAM_STATE_COLORS[status.state], color: 'white', height: 20, fontSize: '0.7rem' }}
+                                  />
+                                )}
                               </MenuItem>
                             );
                           })}
@@ -680,21 +798,90 @@ export default function StreamDialog({
                       </FormControl>
                     </Box>
                   )}
+                <Box sx={{ flex: { xs: '1 1 100%', sm: '0 1 220px' } }}>
+                  <FormControl fullWidth variant="filled" size="small">
+                    <InputLabel id="profile-select-label" sx={{ color: 'grey.300' }}>
+                      Sort Profile
+                    </InputLabel>
+                    <Select
+                      labelId="profile-select-label"
+                      value={activeProfile.id}
+                      onChange={(event) => setActiveProfileId(event.target.value as string)}
+                      label="Sort Profile"
+                      sx={{
+                        color: 'white',
+                        backgroundColor: 'rgba(255,255,255,0.08)',
+                        '&:hover': { backgroundColor: 'rgba(255,255,255,0.12)' },
+                        '.MuiFilledInput-input': { py: 1.5 },
+                        '.MuiSvgIcon-root': { color: 'white' }
+                      }}
+                      disableUnderline
+                    >
+                      {profiles.map(profile => (
+                        <MenuItem key={profile.id} value={profile.id} sx={{ bgcolor: '#333', '&:hover': { bgcolor: '#444' } }}>
+                          {profile.name}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Box>
+              </Box>
 
-              <Typography variant="body2" component="h3" sx={{ mb: 1, fontWeight: 'medium', color: 'grey.300' }}>
-                    Available Streams {filteredStreams.length > 0 && `(${filteredStreams.length})`}
+              <Typography variant="body2" component="h3" sx={{ mb: 1, fontWeight: 'medium', color: 'grey.300', display: 'flex', alignItems: 'center', gap: 1 }}>
+                    Available Streams {streamGroups.length > 0 && `(${streamGroups.length})`}
+                    {loading && (
+                      <>
+                        <CircularProgress size={12} color="inherit" />
+                        <Typography component="span" variant="caption" sx={{ color: 'grey.500' }}>
+                          {Object.values(addonStreamStatus).filter(status => status.state === 'pending').length} addon(s) still loading
+                        </Typography>
+                      </>
+                    )}
                   </Typography>
 
-                  {filteredStreams.length > 0 ? (
+                  {playbackError && (
+                    <Alert severity="error" onClose={() => setPlaybackError(null)} sx={{ mb: 1, backgroundColor: '#5c0f0f', color: 'white' }}>
+                      {playbackError}
+                    </Alert>
+                  )}
+
+                  {unplayableHiddenCount > 0 && (
+                    <Typography variant="caption" sx={{ display: 'block', color: 'grey.500', mb: 1 }}>
+                      {unplayableHiddenCount} torrent stream(s) hidden because no streaming server is available
+                    </Typography>
+                  )}
+
+                  {regionBlockedCount > 0 && (
+                    <Typography variant="caption" sx={{ display: 'block', color: 'grey.500', mb: 1 }}>
+                      {regionBlockedCount} stream(s) not available in your country
+                    </Typography>
+                  )}
+
+                  {excludedCount > 0 && (
+                    <Typography variant="caption" sx={{ display: 'flex', alignItems: 'center', gap: 1, color: 'grey.500', mb: 1 }}>
+                      {showExcluded
+                        ? `Showing ${excludedCount} stream(s) hidden by "${activeProfile.name}"`
+                        : `${excludedCount} stream(s) hidden by "${activeProfile.name}"`}
+                      <Button size="small" onClick={() => setShowExcluded(prev => !prev)} sx={{ color: 'grey.300', minWidth: 0, p: 0, fontSize: '0.7rem' }}>
+                        {showExcluded ? 'Hide' : 'Show'}
+                      </Button>
+                    </Typography>
+                  )}
+
+                  {visibleStreams.length > 0 ? (
                 <List sx={{ p: 0, bgcolor: 'rgba(0,0,0,0.1)', borderRadius: '4px', overflow: 'hidden' }}>
-                      {filteredStreams.map((stream, index) => (
-                    <React.Fragment key={`${stream.addon}-${stream.url}-${index}`}> {/* Ensure key is unique enough */}
+                      {streamGroups.map((group, index) => {
+                        const { stream, ranking } = group.members[0]; // Preferred source by the active ranking
+                        const isExpanded = !!expandedGroups[group.key];
+                        return (
+                    <React.Fragment key={`${group.key}-${index}`}> {/* Ensure key is unique enough */}
                       {index > 0 && <Divider sx={{ borderColor: 'rgba(255,255,255,0.05)' }} />}
                           <ListItem
                             component="div"
                             onClick={() => handleStreamSelect(stream)}
                             sx={{
                               cursor: 'pointer',
+                          opacity: ranking.excludedBy.length > 0 ? 0.5 : 1,
                           '&:hover': { backgroundColor: 'rgba(255,255,255,0.05)' },
                           py: 1.2, 
                           px: 1.5 
@@ -728,9 +915,24 @@ export default function StreamDialog({
                                       {stream.size}
                                     </Box>
                                   )}
+                                  {isTorrentStream(stream) && (
+                                    <Box component="span" sx={{ bgcolor: canPlayTorrents ? 'rgba(255,255,255,0.07)' : '#5c4b0f', px: 0.8, py: 0.2, borderRadius: '3px' }}>
+                                      {canPlayTorrents ? 'Torrent' : 'Torrent · needs streaming server'}
+                                    </Box>
+                                  )}
                               <Box component="span" sx={{ opacity: 0.8 }}>
                                     via {stream.addonName}
                                   </Box>
+                                  {group.addonIds.length > 1 && (
+                                    <Box component="span" sx={{ bgcolor: 'rgba(255,255,255,0.07)', px: 0.8, py: 0.2, borderRadius: '3px' }}>
+                                      Available from {group.addonIds.length} addons
+                                    </Box>
+                                  )}
+                                  <Tooltip title={renderRankingExplanation(ranking)} placement="top" arrow>
+                                    <Box component="span" sx={{ bgcolor: ranking.excludedBy.length > 0 ? '#7a1c1c' : 'rgba(229, 9, 20, 0.25)', px: 0.8, py: 0.2, borderRadius: '3px', cursor: 'help' }}>
+                                      {ranking.excludedBy.length > 0 ? 'Hidden' : `Score ${ranking.score}`}
+                                    </Box>
+                                  </Tooltip>
                                   {stream.cachedInfo && (
                                 <Typography variant="caption" sx={{ color: '#4caf50', fontSize: '0.7rem', display: 'inline-block', ml: 0.5 }}>
                                   ({stream.cachedInfo})
@@ -757,16 +959,65 @@ export default function StreamDialog({
                               }
                               secondaryTypographyProps={{ component: 'div' }}
                             />
+                        {group.members.length > 1 && (
+                          <IconButton
+                            size="small"
+                            aria-label={isExpanded ? 'Hide other providers' : 'Show every provider'}
+                            onClick={(event) => toggleGroupExpanded(event, group.key)}
+                            sx={{ color: 'grey.400', ml: 1 }}
+                          >
+                            {isExpanded ? <ExpandLessIcon fontSize="small" /> : <ExpandMoreIcon fontSize="small" />}
+                          </IconButton>
+                        )}
                         <ListItemIcon sx={{ color: '#e50914', minWidth: 'auto', pl: 1 }}>
-                              <PlayArrowIcon fontSize="small" />
+                              {resolvingStream === stream ? <CircularProgress size={16} color="inherit" /> : <PlayArrowIcon fontSize="small" />}
                             </ListItemIcon>
                           </ListItem>
+                          {group.members.length > 1 && (
+                            <Collapse in={isExpanded} timeout="auto" unmountOnExit>
+                              <List dense sx={{ p: 0, pl: 4, bgcolor: 'rgba(0,0,0,0.2)' }}>
+                                {group.members.slice(1).map(({ stream: member, ranking: memberRanking }, memberIndex) => (
+                                  <ListItem
+                                    key={`${member.addon}-${member.url || member.infoHash}-${memberIndex}`}
+                                    component="div"
+                                    onClick={() => handleStreamSelect(member)}
+                                    sx={{
+                                      cursor: 'pointer',
+                                      opacity: memberRanking.excludedBy.length > 0 ? 0.5 : 1,
+                                      '&:hover': { backgroundColor: 'rgba(255,255,255,0.05)' },
+                                      py: 0.5,
+                                      px: 1.5
+                                    }}
+                                  >
+                                    <ListItemText
+                                      primary={`${member.addonName}${member.size ? ` · ${member.size}` : ''}${member.cachedInfo ? ` · ${member.cachedInfo}` : ''}${isTorrentStream(member) ? ' · Torrent' : ''}`}
+                                      secondary={member.name?.replace(/\s+/g, ' ')}
+                                      primaryTypographyProps={{ sx: { color: 'grey.200', fontSize: '0.85rem' } }}
+                                      secondaryTypographyProps={{ sx: { color: 'grey.500', fontSize: '0.7rem' } }}
+                                    />
+                                    <Tooltip title={renderRankingExplanation(memberRanking)} placement="top" arrow>
+                                      <Box component="span" sx={{ color: 'grey.400', fontSize: '0.7rem', px: 1, cursor: 'help' }}>
+                                        {memberRanking.excludedBy.length > 0 ? 'Hidden' : `Score ${memberRanking.score}`}
+                                      </Box>
+                                    </Tooltip>
+                                    <ListItemIcon sx={{ color: '#e50914', minWidth: 'auto', pl: 1 }}>
+                                      {resolvingStream === member ? <CircularProgress size={16} color="inherit" /> : <PlayArrowIcon fontSize="small" />}
+                                    </ListItemIcon>
+                                  </ListItem>
+                                ))}
+                              </List>
+                            </Collapse>
+                          )}
                         </React.Fragment>
-                      ))}
+                        );
+                      })}
                     </List>
                   ) : (
                 <Typography variant="body2" sx={{ color: 'grey.400', textAlign: 'center', py: 3 }}>
-                  {loading ? 'Loading streams...' : (streams.length > 0 ? 'No streams available from this addon' : 'No streams found for this content.')}
+                  {loading ? 'Loading streams...' : (
+                    rankedStreams.length > 0 ? `Every stream is hidden by "${activeProfile.name}"` :
+                    streams.length > 0 ? 'No streams available from this addon' : 'No streams found for this content.'
+                  )}
                     </Typography>
                   )}
                   
@@ -0,0 +1,255 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box, Typography, TextField, Button, Paper, Select, MenuItem, FormControl, InputLabel,
+  Slider, Autocomplete, Chip, FormGroup, FormControlLabel, Checkbox, Divider,
+} from '@mui/material';
+import TuneIcon from '@mui/icons-material/Tune';
+import { useStreamProfileContext } from '@/context/StreamProfileContext';
+import { RANK_CRITERIA, type StreamProfile } from '@/lib/streamRanking';
+import { KNOWN_LANGUAGES, type ReleaseSource, type Resolution, type VideoCodec } from '@/lib/streamParser';
+
+const CODEC_OPTIONS: VideoCodec[] = ['AV1', 'HEVC', 'AVC', 'VP9', 'MPEG-2', 'XviD'];
+const SOURCE_OPTIONS: ReleaseSource[] = ['CAM', 'TS', 'TC', 'SCR', 'HDTV', 'DVDRip', 'WEBRip', 'WEB', 'WEB-DL', 'BluRay'];
+const RESOLUTION_OPTIONS: Resolution[] = ['4320p', '2160p', '1440p', '1080p', '720p', '576p', '480p', '360p'];
+
+const paperSx = { p: { xs: 2, sm: 3 }, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' };
+const checkboxSx = { color: 'grey.500', '&.Mui-checked': { color: '#e50914' } };
+
+// Empty input clears the value
+const parseOptionalNumber = (value: string) => (value.trim() === '' ? undefined : Math.max(0, Number(value)));
+
+// Toggles `value` in a list (used for the exclude checkboxes)
+const toggleValue = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+// Editor for stream sorting/filtering profiles, shown on the addons page.
+// Changes are saved as they are made.
+export default function StreamProfileSettings() {
+  const { profiles, activeProfile, setActiveProfileId, saveProfile, addProfile, deleteProfile } = useStreamProfileContext();
+  const [editingId, setEditingId] = useState<string>(activeProfile.id);
+
+  const profile = profiles.find(p => p.id === editingId) || activeProfile;
+  const isActive = profile.id === activeProfile.id;
+
+  const update = (patch: Partial<StreamProfile>) => saveProfile({ ...profile, ...patch });
+  const updateExcludes = (patch: Partial<StreamProfile['excludes']>) => update({ excludes: { ...profile.excludes, ...patch } });
+
+  const handleAddProfile = (base?: StreamProfile) => {
+    const created = addProfile(base ? `${base.name} (copy)` : 'New profile', base);
+    setEditingId(created.id);
+  };
+
+  const handleDeleteProfile = () => {
+    const remaining = profiles.filter(p => p.id !== profile.id);
+    if (remaining.length === 0) return;
+    deleteProfile(profile.id);
+    if (isActive) setActiveProfileId(remaining[0].id);
+    setEditingId(remaining[0].id);
+  };
+
+  return (
+    <>
+      <Typography variant="h5" component="h2" sx={{ mb: 1, fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: 1, color: 'white' }}>
+        <TuneIcon sx={{ color: '#e50914' }} />
+        Stream Profiles
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 3 }}>
+        Profiles decide how streams are ranked and which ones are hidden. The active profile is used whenever you pick a stream.
+      </Typography>
+
+      <Paper elevation={2} sx={paperSx}>
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1.5, alignItems: 'center' }}>
+          <FormControl size="small" sx={{ minWidth: 220 }}>
+            <InputLabel id="stream-profile-edit-label">Profile</InputLabel>
+            <Select
+              labelId="stream-profile-edit-label"
+              label="Profile"
+              value={profile.id}
+              onChange={(e) => setEditingId(e.target.value)}
+            >
+              {profiles.map(p => (
+                <MenuItem key={p.id} value={p.id}>
+                  {p.name}{p.id === activeProfile.id ? ' (active)' : ''}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="contained"
+            size="small"
+            disabled={isActive}
+            onClick={() => setActiveProfileId(profile.id)}
+            sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}
+          >
+            {isActive ? 'Active' : 'Use this profile'}
+          </Button>
+          <Button size="small" variant="outlined" color="inherit" onClick={() => handleAddProfile()}>New</Button>
+          <Button size="small" variant="outlined" color="inherit" onClick={() => handleAddProfile(profile)}>Duplicate</Button>
+          <Button size="small" variant="outlined" color="error" disabled={profiles.length <= 1} onClick={handleDeleteProfile}>Delete</Button>
+        </Box>
+
+        <TextField
+          label="Name"
+          size="small"
+          value={profile.name}
+          onChange={(e) => update({ name: e.target.value })}
+          sx={{ mt: 3, width: { xs: '100%', sm: 320 } }}
+        />
+
+        <Divider sx={{ my: 3, borderColor: '#333' }} />
+
+        {/* --- Weights --- */}
+        <Typography variant="subtitle1" sx={{ color: 'white', fontWeight: 'bold' }}>Weights</Typography>
+        <Typography variant="caption" sx={{ color: 'grey.500', display: 'block', mb: 2 }}>
+          How much each criterion counts. Negative values push matching streams down.
+        </Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, columnGap: 4 }}>
+          {RANK_CRITERIA.map(({ key, label }) => (
+            <Box key={key} sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+              <Typography variant="body2" sx={{ color: 'grey.300', width: 170, flexShrink: 0 }}>{label}</Typography>
+              <Slider
+                size="small"
+                min={-10}
+                max={10}
+                step={1}
+                marks={[{ value: 0 }]}
+                valueLabelDisplay="auto"
+                value={profile.weights[key]}
+                onChange={(_, value) => update({ weights: { ...profile.weights, [key]: value as number } })}
+                sx={{ color: '#e50914' }}
+              />
+            </Box>
+          ))}
+        </Box>
+
+        <Divider sx={{ my: 3, borderColor: '#333' }} />
+
+        {/* --- Preferences --- */}
+        <Typography variant="subtitle1" sx={{ color: 'white', fontWeight: 'bold', mb: 2 }}>Preferences</Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+          <Autocomplete
+            multiple
+            size="small"
+            options={CODEC_OPTIONS}
+            value={profile.preferredCodecs}
+            onChange={(_, value) => update({ preferredCodecs: value })}
+            renderTags={(value, getTagProps) => value.map((option, index) => (
+              <Chip size="small" label={`${index + 1}. ${option}`} {...getTagProps({ index })} key={option} />
+            ))}
+            renderInput={(params) => <TextField {...params} label="Preferred codecs (best first)" />}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={KNOWN_LANGUAGES}
+            value={profile.preferredLanguages}
+            onChange={(_, value) => update({ preferredLanguages: value })}
+            renderTags={(value, getTagProps) => value.map((option, index) => (
+              <Chip size="small" label={`${index + 1}. ${option}`} {...getTagProps({ index })} key={option} />
+            ))}
+            renderInput={(params) => <TextField {...params} label="Preferred languages (best first)" />}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={[]}
+            value={profile.preferredReleaseGroups}
+            onChange={(_, value) => update({ preferredReleaseGroups: value })}
+            renderInput={(params) => <TextField {...params} label="Preferred release groups" helperText="Type a group and press Enter" />}
+          />
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Preferred min size (GB)"
+              type="number"
+              size="small"
+              value={profile.preferredSizeGb.min ?? ''}
+              onChange={(e) => update({ preferredSizeGb: { ...profile.preferredSizeGb, min: parseOptionalNumber(e.target.value) } })}
+              fullWidth
+            />
+            <TextField
+              label="Preferred max size (GB)"
+              type="number"
+              size="small"
+              value={profile.preferredSizeGb.max ?? ''}
+              onChange={(e) => update({ preferredSizeGb: { ...profile.preferredSizeGb, max: parseOptionalNumber(e.target.value) } })}
+              fullWidth
+            />
+          </Box>
+        </Box>
+
+        <Divider sx={{ my: 3, borderColor: '#333' }} />
+
+        {/* --- Hard excludes --- */}
+        <Typography variant="subtitle1" sx={{ color: 'white', fontWeight: 'bold' }}>Hide streams</Typography>
+        <Typography variant="caption" sx={{ color: 'grey.500', display: 'block', mb: 1 }}>
+          Matching streams are hidden no matter how well they score.
+        </Typography>
+        <Typography variant="body2" sx={{ color: 'grey.300', mt: 1 }}>Sources</Typography>
+        <FormGroup row>
+          {SOURCE_OPTIONS.map(source => (
+            <FormControlLabel
+              key={source}
+              label={source}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={profile.excludes.sources.includes(source)}
+                  onChange={() => updateExcludes({ sources: toggleValue(profile.excludes.sources, source) })}
+                  sx={checkboxSx}
+                />
+              }
+              sx={{ color: 'grey.300' }}
+            />
+          ))}
+        </FormGroup>
+        <Typography variant="body2" sx={{ color: 'grey.300', mt: 1 }}>Resolutions</Typography>
+        <FormGroup row>
+          {RESOLUTION_OPTIONS.map(resolution => (
+            <FormControlLabel
+              key={resolution}
+              label={resolution}
+              control={
+                <Checkbox
+                  size="small"
+                  checked={profile.excludes.resolutions.includes(resolution)}
+                  onChange={() => updateExcludes({ resolutions: toggleValue(profile.excludes.resolutions, resolution) })}
+                  sx={checkboxSx}
+                />
+              }
+              sx={{ color: 'grey.300' }}
+            />
+          ))}
+        </FormGroup>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr 2fr' }, gap: 2, mt: 2 }}>
+          <TextField
+            label="Smaller than (GB)"
+            type="number"
+            size="small"
+            value={profile.excludes.minSizeGb ?? ''}
+            onChange={(e) => updateExcludes({ minSizeGb: parseOptionalNumber(e.target.value) })}
+          />
+          <TextField
+            label="Larger than (GB)"
+            type="number"
+            size="small"
+            value={profile.excludes.maxSizeGb ?? ''}
+            onChange={(e) => updateExcludes({ maxSizeGb: parseOptionalNumber(e.target.value) })}
+          />
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={[]}
+            value={profile.excludes.keywords}
+            onChange={(_, value) => updateExcludes({ keywords: value })}
+            renderInput={(params) => <TextField {...params} label="Keywords" helperText="Type a keyword and press Enter" />}
+          />
+        </Box>
+      </Paper>
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box, Typography, TextField, Button, Paper, FormGroup, FormControlLabel, Switch, Chip,
+} from '@mui/material';
+import DnsIcon from '@mui/icons-material/Dns';
+import { useStreamingServerContext } from '@/context/StreamingServerContext';
+import { DEFAULT_STREAMING_SERVER_URL, type StreamingServerStatus } from '@/lib/streamingServer';
+
+export const STREAMING_SERVER_STATUS_LABELS: Record<StreamingServerStatus, string> = {
+  disabled: 'Not configured',
+  checking: 'Checking...',
+  online: 'Online',
+  offline: 'Offline',
+};
+
+export const STREAMING_SERVER_STATUS_COLORS: Record<StreamingServerStatus, string> = {
+  disabled: 'rgba(255,255,255,0.12)',
+  checking: 'rgba(255,255,255,0.12)',
+  online: '#1f5f2a',
+  offline: '#7a1c1c',
+};
+
+// Streaming server settings, shown on the addons page next to the TMDB key
+export default function StreamingServerSettings() {
+  const {
+    serverUrl,
+    setServerUrl,
+    hideUnplayableStreams,
+    setHideUnplayableStreams,
+    status,
+    serverVersion,
+    checkServer,
+  } = useStreamingServerContext();
+  const [inputUrl, setInputUrl] = useState<string>('');
+
+  useEffect(() => {
+    setInputUrl(serverUrl || '');
+  }, [serverUrl]);
+
+  return (
+    <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <DnsIcon sx={{ color: '#e50914' }} /> Streaming Server
+        <Chip
+          size="small"
+          label={`${STREAMING_SERVER_STATUS_LABELS[status]}${status === 'online' && serverVersion ? ` · v${serverVersion}` : ''}`}
+          sx={{ bgcolor: STREAMING_SERVER_STATUS_COLORS[status], color: 'white', ml: 1 }}
+        />
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+        Torrent streams need a Stremio streaming server (for example the one bundled with the Stremio desktop app) to play.
+        Leave empty if you only use addons with direct links.
+      </Typography>
+      <Box component="form" onSubmit={(e) => { e.preventDefault(); setServerUrl(inputUrl); }} sx={{ display: 'flex', gap: {xs: 1, sm: 2}, alignItems: 'flex-start', flexDirection: {xs: 'column', sm: 'row'}, mb: 2 }}>
+        <TextField
+          fullWidth
+          label="Server URL"
+          variant="outlined"
+          size="small"
+          value={inputUrl}
+          onChange={(e) => setInputUrl(e.target.value)}
+          placeholder={DEFAULT_STREAMING_SERVER_URL}
+          sx={{
+            flexGrow: 1,
+            "& .MuiOutlinedInput-root": {
+              "& fieldset": { borderColor: "grey.700" },
+              "&:hover fieldset": { borderColor: "grey.500" },
+              "&.Mui-focused fieldset": { borderColor: "#e50914" },
+              backgroundColor: '#2b2b2b',
+            },
+            "& .MuiInputLabel-root": { color: "grey.400" },
+            "& .MuiInputBase-input": { color: "white" },
+          }}
+        />
+        <Button
+          type="submit"
+          variant="contained"
+          sx={{ backgroundColor: '#e50914', fontWeight: 'bold', px: 3, py: 1.25, minWidth: {xs: '100%', sm: '120px'}, '&:hover': { backgroundColor: '#b20710' } }}
+        >
+          Save
+        </Button>
+        <Button
+          variant="outlined"
+          color="inherit"
+          onClick={() => (serverUrl ? void checkServer() : setServerUrl(DEFAULT_STREAMING_SERVER_URL))}
+          sx={{ px: 2, py: 1.25, minWidth: {xs: '100%', sm: '120px'}, color: 'grey.300' }}
+        >
+          {serverUrl ? 'Test' : 'Use default'}
+        </Button>
+      </Box>
+      <FormGroup>
+        <FormControlLabel
+          control={
+            <Switch
+              checked={hideUnplayableStreams}
+              onChange={(e) => setHideUnplayableStreams(e.target.checked)}
+              sx={{
+                '& .MuiSwitch-switchBase.Mui-checked': { color: '#e50914' },
+                '& .MuiSwitch-switchBase.Mui-checked + .MuiSwitch-track': { backgroundColor: '#e50914' },
+              }}
+            />
+          }
+          label="Hide torrent streams when no server is available"
+          sx={{ color: 'grey.200' }}
+        />
+      </FormGroup>
+    </Paper>
+  );
+}
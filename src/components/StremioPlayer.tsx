@@ -10,6 +10,9 @@ interface VideoPlayerProps {
   addonName?: string;
   onClose?: () => void;
   autoPlay?: boolean;
+  onEnded?: () => void;
+  resumePosition?: number | null;
+  onProgress?: (position: number, duration: number) => void;
 }
 
 // This component maintains the same interface as the original VideoPlayer
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import Box from '@mui/material/Box';
 import IconButton from '@mui/material/IconButton';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
@@ -24,6 +24,7 @@ import SettingsIcon from '@mui/icons-material/Settings';
 import AudiotrackIcon from '@mui/icons-material/Audiotrack';
 import ClosedCaptionIcon from '@mui/icons-material/ClosedCaption';
 import SubjectIcon from '@mui/icons-material/Subject';
+import ResumePrompt from './ResumePrompt';
 
 // Import Stremio video package
 // @ts-ignore TODO: Update with correct types if official ones become available
@@ -38,6 +39,8 @@ interface VideoPlayerProps {
   autoPlay?: boolean;
   onReadyCallback?: (player: any) => void;
   onEnded?: () => void;
+  resumePosition?: number | null; // Seconds; offers "Resume from ..." when the stream opens
+  onProgress?: (position: number, duration: number) => void; // Seconds, on every time update
 }
 
 interface TrackInfo {
@@ -56,6 +59,8 @@ export default function StremioVideoPlayer({
   autoPlay = true,
   onReadyCallback,
   onEnded,
+  resumePosition = null,
+  onProgress,
 }: VideoPlayerProps) {
   // console.log('StremioVideoPlayer: Render/Re-render. URL:', url, 'autoPlay:', autoPlay); // Commented out for less noise
   // References
@@ -63,6 +68,11 @@ export default function StremioVideoPlayer({
   // @ts-ignore
   const playerRef = useRef<StremioVideo | null>(null); // Use the StremioVideo type
   const controlsTimeout = useRef<NodeJS.Timeout | null>(null);
+  const onEndedRef = useRef(onEnded); // Latest callback, without reloading the player when it changes
+  onEndedRef.current = onEnded;
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+  const durationRef = useRef(0); // Seconds; the player's event handlers outlive render closures
   
   // Player state - this will largely be driven by 'propChanged' events from the player
   const [playing, setPlaying] = useState(autoPlay);
@@ -78,6 +88,7 @@ export default function StremioVideoPlayer({
   const [controlsVisible, setControlsVisible] = useState(true);
   const [loading, setLoading] = useState(true); // Buffering/initial load
   const [hoverVolume, setHoverVolume] = useState(false);
+  const [resumeOffer, setResumeOffer] = useState<number | null>(resumePosition);
   
   // Track state
   const [audioTracks, setAudioTracks] = useState<TrackInfo[]>([]);
@@ -135,7 +146,7 @@ export default function StremioVideoPlayer({
       if (!isMounted) return;
       // console.log('StremioVideoPlayer: Video ended.'); // Commented out for less noise
       setPlaying(false);
-      // onEnded?.(); // Call prop if provided
+      onEndedRef.current?.(); // Call prop if provided
     });
 
     player.on('propChanged', (propName: string, propValue: any) => {
@@ -161,6 +172,7 @@ export default function StremioVideoPlayer({
           if (duration > 0) {
             setPlayed(timeInSeconds / duration);
           }
+          if (timeInSeconds > 0) onProgressRef.current?.(timeInSeconds, durationRef.current);
           break;
         case 'duration':
           console.log(`StremioVideoPlayer: duration changed to ${propValue}`);
@@ -171,6 +183,7 @@ export default function StremioVideoPlayer({
           console.log(`StremioVideoPlayer: converted duration to ${durationInSeconds} seconds`);
           
           setDuration(durationInSeconds);
+          durationRef.current = durationInSeconds;
           if (durationInSeconds > 0 && currentTime > 0) {
             setPlayed(currentTime / durationInSeconds);
           }
@@ -268,6 +281,11 @@ export default function StremioVideoPlayer({
     };
   }, [url, autoPlay]);
 
+  // Offer to resume again whenever a new source opens
+  useEffect(() => {
+    setResumeOffer(resumePosition);
+  }, [url, resumePosition]);
+
   // Format time helper
   const formatTime = (seconds: number): string => {
     // Check for invalid input
@@ -321,11 +339,21 @@ export default function StremioVideoPlayer({
   const handleSeekMouseUp = (_event: React.MouseEvent | React.TouchEvent) => {
     if (duration > 0) {
       const seekTime = played * duration;
-      setPlayerProp('time', seekTime);
+      setPlayerProp('time', seekTime * 1000); // The player's time prop is in milliseconds
     }
     setSeeking(false);
   };
 
+  // Resume offer
+  const handleResume = () => {
+    if (resumeOffer !== null) setPlayerProp('time', resumeOffer * 1000);
+    setResumeOffer(null);
+  };
+
+  const dismissResumeOffer = useCallback(() => {
+    setResumeOffer(null);
+  }, []);
+
   // Track selection
   const handleSelectAudioTrack = (trackId: string) => {
     setPlayerProp('selectedAudioTrackId', trackId);
@@ -483,6 +511,10 @@ export default function StremioVideoPlayer({
         </Box>
       )}
 
+      {resumeOffer !== null && !error && (
+        <ResumePrompt position={resumeOffer} onResume={handleResume} onStartOver={dismissResumeOffer} />
+      )}
+
       {/* Controls overlay */}
       <Box
         sx={{
@@ -0,0 +1,171 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Box, Typography, TextField, Button, Paper, Alert, Chip } from '@mui/material';
+import CloudSyncIcon from '@mui/icons-material/CloudSync';
+import { useSyncContext, type SyncStatus } from '@/context/SyncContext';
+import { useParentalControlsContext } from '@/context/ParentalControlsContext';
+
+const SYNC_STATUS_LABELS: Record<SyncStatus, string> = {
+  off: 'Off',
+  synced: 'Synced',
+  syncing: 'Syncing...',
+  pending: 'Changes waiting',
+  offline: 'Offline',
+  error: 'Error',
+  updates: 'Updates ready',
+};
+
+const SYNC_STATUS_COLORS: Record<SyncStatus, string> = {
+  off: 'grey.700',
+  synced: 'success.dark',
+  syncing: 'info.dark',
+  pending: 'warning.dark',
+  offline: 'grey.700',
+  error: '#b20710',
+  updates: 'success.dark',
+};
+
+const textFieldSx = {
+  flexGrow: 1,
+  "& .MuiOutlinedInput-root": {
+    "& fieldset": { borderColor: "grey.700" },
+    "&:hover fieldset": { borderColor: "grey.500" },
+    "&.Mui-focused fieldset": { borderColor: "#e50914" },
+    backgroundColor: '#2b2b2b',
+  },
+  "& .MuiInputLabel-root": { color: "grey.400" },
+  "& .MuiInputBase-input": { color: "white" },
+};
+
+// Account for the self-hosted sync server (this app's /api/sync routes), shown on the addons page.
+// Each profile signs in on its own.
+export default function SyncSettings() {
+  const { username, status, pendingCount, lastSyncedAt, error, signIn, signOut, syncNow, applyUpdates } = useSyncContext();
+  const { settings: parentalSettings } = useParentalControlsContext();
+  const [inputUsername, setInputUsername] = useState('');
+  const [inputPassword, setInputPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Signing in pulls the account's settings, parental controls included
+  const signInLocked = parentalSettings.enabled && !!parentalSettings.pinHash;
+
+  const handleSignIn = async (action: 'register' | 'login') => {
+    if (!inputUsername.trim() || !inputPassword) {
+      setFormError('Enter a username and a password.');
+      return;
+    }
+    setIsSubmitting(true);
+    setFormError(null);
+    try {
+      await signIn(action, inputUsername, inputPassword);
+      setInputPassword('');
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Could not reach the sync server.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: {xs: 2, sm: 3}, mb: 4, backgroundColor: '#1f1f1f', borderRadius: '8px' }}>
+      <Typography variant="h6" component="h2" sx={{ mb: 2, fontWeight: 'bold', color: 'white', display: 'flex', alignItems: 'center', gap: 1 }}>
+        <CloudSyncIcon sx={{ color: '#e50914' }} /> Sync
+        <Chip size="small" label={SYNC_STATUS_LABELS[status]} sx={{ bgcolor: SYNC_STATUS_COLORS[status], color: 'white', ml: 1 }} />
+      </Typography>
+      <Typography variant="body2" sx={{ color: 'grey.400', mb: 2 }}>
+        Keep this profile&apos;s addons, catalog selections, My List, watch progress and settings in sync across devices
+        through the server this app runs on. Changes made offline are sent once you&apos;re back online.
+      </Typography>
+
+      {error && (
+        <Alert severity={username ? 'error' : 'warning'} sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {username ? (
+        <>
+          <Typography variant="body2" sx={{ color: 'grey.200', mb: 0.5 }}>
+            Signed in as <strong>{username}</strong>
+          </Typography>
+          <Typography variant="caption" sx={{ display: 'block', color: 'grey.500', mb: 2 }}>
+            {lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleString()}` : 'Not synced yet'}
+            {pendingCount > 0 ? ` · ${pendingCount} change(s) waiting` : ''}
+          </Typography>
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2 }}>
+            {status === 'updates' ? (
+              <Button variant="contained" onClick={applyUpdates} sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}>
+                Apply changes from other devices
+              </Button>
+            ) : (
+              <Button variant="contained" disabled={status === 'syncing'} onClick={() => void syncNow()} sx={{ backgroundColor: '#e50914', '&:hover': { backgroundColor: '#b20710' } }}>
+                Sync now
+              </Button>
+            )}
+            <Button variant="outlined" color="inherit" onClick={() => void signOut()} sx={{ color: 'grey.300' }}>
+              Sign out
+            </Button>
+          </Box>
+        </>
+      ) : (
+        <Box
+          component="form"
+          onSubmit={(e) => { e.preventDefault(); void handleSignIn('login'); }}
+          sx={{ display: 'flex', gap: {xs: 1, sm: 2}, alignItems: 'flex-start', flexDirection: {xs: 'column', sm: 'row'} }}
+        >
+          <TextField
+            fullWidth
+            label="Username"
+            size="small"
+            autoComplete="username"
+            value={inputUsername}
+            disabled={signInLocked}
+            onChange={(e) => setInputUsername(e.target.value)}
+            sx={textFieldSx}
+          />
+          <TextField
+            fullWidth
+            label="Password"
+            type="password"
+            size="small"
+            autoComplete="current-password"
+            value={inputPassword}
+            disabled={signInLocked}
+            onChange={(e) => setInputPassword(e.target.value)}
+            sx={textFieldSx}
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={isSubmitting || signInLocked}
+            sx={{ backgroundColor: '#e50914', fontWeight: 'bold', px: 3, py: 1.25, minWidth: {xs: '100%', sm: '120px'}, '&:hover': { backgroundColor: '#b20710' } }}
+          >
+            Sign in
+          </Button>
+          <Button
+            variant="outlined"
+            color="inherit"
+            disabled={isSubmitting || signInLocked}
+            onClick={() => void handleSignIn('register')}
+            sx={{ px: 2, py: 1.25, minWidth: {xs: '100%', sm: '150px'}, color: 'grey.300' }}
+          >
+            Create account
+          </Button>
+        </Box>
+      )}
+
+      {!username && signInLocked && (
+        <Typography variant="caption" sx={{ display: 'block', color: 'grey.500', mt: 1 }}>
+          Turn off restricted mode in Parental Controls to sign in to sync.
+        </Typography>
+      )}
+      {formError && (
+        <Alert severity="error" sx={{ mt: 2 }} onClose={() => setFormError(null)}>
+          {formError}
+        </Alert>
+      )}
+    </Paper>
+  );
+}
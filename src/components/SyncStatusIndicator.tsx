@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import IconButton from '@mui/material/IconButton';
+import Tooltip from '@mui/material/Tooltip';
+import Badge from '@mui/material/Badge';
+import CircularProgress from '@mui/material/CircularProgress';
+import CloudDoneIcon from '@mui/icons-material/CloudDone';
+import CloudOffIcon from '@mui/icons-material/CloudOff';
+import CloudUploadIcon from '@mui/icons-material/CloudUpload';
+import CloudDownloadIcon from '@mui/icons-material/CloudDownload';
+import SyncProblemIcon from '@mui/icons-material/SyncProblem';
+import { useSyncContext } from '@/context/SyncContext';
+
+// Sync state in the header. Clicking it syncs now, or applies changes from other devices when
+// some are waiting. Hidden while this profile isn't signed in to sync.
+export default function SyncStatusIndicator() {
+  const { username, status, pendingCount, error, lastSyncedAt, syncNow, applyUpdates } = useSyncContext();
+
+  if (!username) return null;
+
+  const lastSynced = lastSyncedAt ? `Last synced ${new Date(lastSyncedAt).toLocaleTimeString()}` : 'Not synced yet';
+  const tooltip = {
+    off: '',
+    synced: `Synced as ${username}. ${lastSynced}`,
+    syncing: 'Syncing…',
+    pending: `${pendingCount} change(s) waiting to sync`,
+    offline: `Offline. ${pendingCount} change(s) will sync when you're back online`,
+    error: `Sync failed: ${error || 'unknown error'}`,
+    updates: 'Changes from your other devices are ready. Click to apply them',
+  }[status];
+
+  const icon = {
+    off: null,
+    synced: <CloudDoneIcon />,
+    syncing: <CircularProgress size={20} sx={{ color: 'white' }} />,
+    pending: <CloudUploadIcon />,
+    offline: <CloudOffIcon />,
+    error: <SyncProblemIcon sx={{ color: '#e50914' }} />,
+    updates: <CloudDownloadIcon sx={{ color: '#46d369' }} />,
+  }[status];
+
+  return (
+    <Tooltip title={tooltip}>
+      <span>
+        <IconButton
+          color="inherit"
+          disabled={status === 'syncing'}
+          onClick={() => (status === 'updates' ? applyUpdates() : syncNow())}
+          aria-label="Sync status"
+        >
+          <Badge badgeContent={status === 'pending' || status === 'offline' ? pendingCount : 0} color="error" max={99}>
+            {icon}
+          </Badge>
+        </IconButton>
+      </span>
+    </Tooltip>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import ReactPlayer from 'react-player';
 import Box from '@mui/material/Box';
 import IconButton from '@mui/material/IconButton';
@@ -24,6 +24,7 @@ import ListItemText from '@mui/material/ListItemText';
 import SettingsIcon from '@mui/icons-material/Settings';
 import AudiotrackIcon from '@mui/icons-material/Audiotrack';
 import ClosedCaptionIcon from '@mui/icons-material/ClosedCaption';
+import ResumePrompt from './ResumePrompt';
 
 interface VideoPlayerProps {
   url: string;
@@ -32,6 +33,9 @@ interface VideoPlayerProps {
   addonName?: string;
   onClose?: () => void;
   autoPlay?: boolean;
+  onEnded?: () => void;
+  resumePosition?: number | null; // Seconds; offers "Resume from ..." when the stream opens
+  onProgress?: (position: number, duration: number) => void; // Seconds, on every progress tick
 }
 
 export default function VideoPlayer({
@@ -41,6 +45,9 @@ export default function VideoPlayer({
   addonName = '',
   onClose,
   autoPlay = true,
+  onEnded,
+  resumePosition = null,
+  onProgress,
 }: VideoPlayerProps) {
   // Player state
   const [playing, setPlaying] = useState(autoPlay);
@@ -54,6 +61,7 @@ export default function VideoPlayer({
   const [controlsVisible, setControlsVisible] = useState(true);
   const [loading, setLoading] = useState(true);
   const [hoverVolume, setHoverVolume] = useState(false);
+  const [resumeOffer, setResumeOffer] = useState<number | null>(resumePosition);
 
   // State for audio and subtitle tracks
   interface TrackInfo {
@@ -364,8 +372,24 @@ export default function VideoPlayer({
     if (!seeking) {
       setPlayed(state.played);
     }
+    if (state.playedSeconds > 0) onProgress?.(state.playedSeconds, duration);
   };
 
+  // Resume offer
+  const handleResume = () => {
+    if (resumeOffer !== null && playerRef.current) playerRef.current.seekTo(resumeOffer, 'seconds');
+    setResumeOffer(null);
+  };
+
+  const dismissResumeOffer = useCallback(() => {
+    setResumeOffer(null);
+  }, []);
+
+  // Offer to resume again whenever a new source opens
+  useEffect(() => {
+    setResumeOffer(resumePosition);
+  }, [url, resumePosition]);
+
   // Handle fullscreen toggle
   const handleFullscreen = () => {
     const container = playerContainerRef.current;
@@ -484,6 +508,7 @@ export default function VideoPlayer({
         onReady={handleReady}
         onPlay={() => setPlaying(true)}
         onPause={() => setPlaying(false)}
+        onEnded={onEnded}
         onProgress={handleProgress}
         onDuration={setDuration}
         onError={handleError}
@@ -547,6 +572,10 @@ export default function VideoPlayer({
         </Box>
       )}
 
+      {resumeOffer !== null && !error && (
+        <ResumePrompt position={resumeOffer} onResume={handleResume} onStartOver={dismissResumeOffer} />
+      )}
+
       {/* Controls overlay */}
       <Box
         sx={{
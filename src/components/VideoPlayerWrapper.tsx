@@ -1,8 +1,10 @@
 'use client';
 
-import React from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import VideoPlayer from './VideoPlayer';
 import StremioPlayer from './StremioPlayer';
+import { useWatchStateContext } from '@/context/WatchStateContext';
+import { getResumePosition, getWatchKey, type WatchTarget } from '@/lib/watchState';
 
 interface VideoPlayerWrapperProps {
   url: string;
@@ -11,13 +13,73 @@ interface VideoPlayerWrapperProps {
   addonName?: string;
   onClose?: () => void;
   autoPlay?: boolean;
+  onEnded?: () => void; // Playback reached the end (used to move on to the next episode)
+  watchTarget?: WatchTarget; // What is playing; enables saved progress and the resume offer
   useStremio?: boolean; // Flag to choose which player to use
 }
 
+const SAVE_INTERVAL_MS = 10000;
+
 export default function VideoPlayerWrapper({
   useStremio = true, // Default to using Stremio player
+  watchTarget,
+  onEnded,
   ...props
 }: VideoPlayerWrapperProps) {
+  const { getProgress, saveProgress } = useWatchStateContext();
+  const [resumePosition, setResumePosition] = useState<number | null>(null);
+
+  // Latest values for the save-on-close cleanup, which runs after props have moved on
+  const watchTargetRef = useRef(watchTarget);
+  watchTargetRef.current = watchTarget;
+  const saveProgressRef = useRef(saveProgress);
+  saveProgressRef.current = saveProgress;
+  const getProgressRef = useRef(getProgress);
+  getProgressRef.current = getProgress;
+  const latestProgressRef = useRef<{ position: number; duration: number } | null>(null);
+  const lastSavedAtRef = useRef(0);
+
+  const watchKey = watchTarget ? getWatchKey(watchTarget) : null;
+
+  // Read saved progress once per opened stream (not on every save while it plays),
+  // and save the last known position when the stream closes or changes
+  useEffect(() => {
+    const target = watchTargetRef.current;
+    setResumePosition(target ? getResumePosition(getProgressRef.current(target)) : null);
+    latestProgressRef.current = null;
+    lastSavedAtRef.current = Date.now();
+
+    return () => {
+      const latest = latestProgressRef.current;
+      if (target && latest) saveProgressRef.current(target, latest.position, latest.duration);
+    };
+  }, [props.url, watchKey]);
+
+  const handleProgress = useCallback((position: number, duration: number) => {
+    latestProgressRef.current = { position, duration };
+    const target = watchTargetRef.current;
+    if (!target || Date.now() - lastSavedAtRef.current < SAVE_INTERVAL_MS) return;
+    lastSavedAtRef.current = Date.now();
+    saveProgressRef.current(target, position, duration);
+  }, []);
+
+  const handleEnded = useCallback(() => {
+    const latest = latestProgressRef.current;
+    const target = watchTargetRef.current;
+    if (target && latest && latest.duration > 0) {
+      saveProgressRef.current(target, latest.duration, latest.duration);
+      latestProgressRef.current = null;
+    }
+    onEnded?.();
+  }, [onEnded]);
+
+  const playerProps = {
+    ...props,
+    onEnded: handleEnded,
+    resumePosition,
+    onProgress: watchTarget ? handleProgress : undefined,
+  };
+
   // Use the Stremio player or fall back to the original player
-  return useStremio ? <StremioPlayer {...props} /> : <VideoPlayer {...props} />;
-} 
\ No newline at end of file
+  return useStremio ? <StremioPlayer {...playerProps} /> : <VideoPlayer {...playerProps} />;
+}
@@ -1,29 +1,24 @@
 'use client';
 
-import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
-
-// --- Interfaces (Mirroring those in addons/page.tsx) ---
-interface AddonCatalog {
-  type: string;
-  id: string;
-  name?: string;
-}
-
-interface AddonManifest {
-  id: string;
-  version: string;
-  name: string;
-  description?: string;
-  catalogs?: AddonCatalog[];
-  resources?: (string | { name: string; types?: string[]; idPrefixes?: string[] })[];
-  types?: string[];
-}
-
-interface InstalledAddon extends AddonManifest {
-  manifestUrl: string;
-  selectedCatalogIds?: string[]; // Stores IDs like "movie/top"
-}
-// --- End Interfaces ---
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useRef } from 'react';
+import type { AddonManifest, InstalledAddon, NewCatalogPolicy } from '@/types/stremio';
+import { addonSupportsResource, fetchManifest, getCatalogUniqueId } from '@/lib/addonClient';
+import { getAddonStatusFromResult, NetworkError, type AddonStatus } from '@/lib/network';
+import { profileStorageKey } from '@/lib/profiles';
+import { mergeAccountAddons, type AddonImportItem } from '@/lib/addonAccounts';
+import {
+  applyManifestUpdate,
+  diffManifests,
+  hasManifestChanges,
+  isManifestRefreshDue,
+  type AddonRefreshResult,
+} from '@/lib/addonUpdates';
+import {
+  moveItem,
+  sortAddonsByPriority,
+  type AddonPriorityResource,
+  type AddonResourceOrder,
+} from '@/lib/addonPriority';
 
 interface AddonContextType {
   installedAddons: InstalledAddon[];
@@ -32,15 +27,43 @@ interface AddonContextType {
   installAddon: (manifestUrl: string) => Promise<void>;
   uninstallAddon: (manifestUrl: string) => void;
   toggleCatalogSelection: (addonManifestUrl: string, catalogId: string) => void;
+  setAddonUseProxy: (addonManifestUrl: string, useProxy: boolean) => void;
   getAddonById: (id: string) => InstalledAddon | undefined;
   installSampleAddon: () => Promise<void>;
+  importAccountAddons: (items: AddonImportItem[]) => void;
+  refreshAddons: (manifestUrls?: string[]) => Promise<void>; // All addons when no URLs are given
+  isRefreshingAddons: boolean;
+  addonRefreshResults: Record<string, AddonRefreshResult>; // By manifest URL (not persisted)
+  setAddonNewCatalogPolicy: (addonManifestUrl: string, policy: NewCatalogPolicy) => void;
+  moveAddon: (fromIndex: number, toIndex: number) => void; // Changes the global priority
+  addonResourceOrder: AddonResourceOrder;
+  setAddonResourceOrder: (resource: AddonPriorityResource, manifestUrls: string[] | null) => void; // null follows the global order
+  getAddonsForResource: (resource: AddonPriorityResource) => InstalledAddon[];
   isStreamingAddon: (addon: InstalledAddon) => boolean;
+  addonStatuses: Record<string, AddonStatus>; // Last request outcome per addon ID (not persisted)
+  reportAddonResult: (addonId: string, err?: unknown) => void;
 }
 
 const AddonContext = createContext<AddonContextType | undefined>(undefined);
 
 // Define a key for local storage for Addons only
 const ADDONS_STORAGE_KEY = 'installedAddonsData'; // Renamed to be more specific
+const RESOURCE_ORDER_STORAGE_KEY = 'addonResourceOrder';
+
+// How often to look for addons whose manifest refresh is due
+const REFRESH_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+// A plain network failure on a reachable URL is usually CORS: retry through our proxy
+const fetchManifestWithFallback = async (manifestUrl: string, useProxy = false) => {
+  if (useProxy) return { manifest: await fetchManifest(manifestUrl, undefined, true), useProxy };
+  try {
+    return { manifest: await fetchManifest(manifestUrl), useProxy: false };
+  } catch (directErr) {
+    if (!(directErr instanceof NetworkError && directErr.kind === 'network')) throw directErr;
+    console.log('AddonContext: Direct manifest fetch failed, retrying through the proxy');
+    return { manifest: await fetchManifest(manifestUrl, undefined, true), useProxy: true };
+  }
+};
 
 // Interface for stored addon data (no longer includes TMDB key)
 // interface StoredData {
@@ -53,20 +76,26 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
   // Removed tmdbApiKey state
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-
-  const getCatalogUniqueId = (catalog: AddonCatalog) => `${catalog.type}/${catalog.id}`;
+  const [addonStatuses, setAddonStatuses] = useState<Record<string, AddonStatus>>({});
+  const [addonRefreshResults, setAddonRefreshResults] = useState<Record<string, AddonRefreshResult>>({});
+  const [isRefreshingAddons, setIsRefreshingAddons] = useState<boolean>(false);
+  const installedAddonsRef = useRef(installedAddons);
+  installedAddonsRef.current = installedAddons;
+  const refreshQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const pendingRefreshesRef = useRef(0);
+  const [addonResourceOrder, setAddonResourceOrderState] = useState<AddonResourceOrder>({});
 
   // Load addons from local storage on mount
   useEffect(() => {
     setIsLoading(true);
     try {
       // First try loading from our new storage key
-      let storedAddonsJson = localStorage.getItem(ADDONS_STORAGE_KEY);
+      let storedAddonsJson = localStorage.getItem(profileStorageKey(ADDONS_STORAGE_KEY));
       
       // If no data in new key, try loading from the original key
       if (!storedAddonsJson) {
         console.log('AddonContext: No data in new storage key, trying original key');
-        storedAddonsJson = localStorage.getItem('installedAddons');
+        storedAddonsJson = localStorage.getItem(profileStorageKey('installedAddons'));
         
         if (storedAddonsJson) {
           console.log('AddonContext: Successfully loaded data from original key');
@@ -81,6 +110,8 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
         selectedCatalogIds: addon.selectedCatalogIds || (addon.catalogs?.map(getCatalogUniqueId) || [])
       }));
       setInstalledAddons(processedAddons);
+      const storedResourceOrder = localStorage.getItem(profileStorageKey(RESOURCE_ORDER_STORAGE_KEY));
+      if (storedResourceOrder) setAddonResourceOrderState(JSON.parse(storedResourceOrder));
 
       console.log('AddonContext: Loaded', processedAddons.length, 'addons from storage');
       setError(null);
@@ -98,10 +129,10 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     if (!isLoading) {
       try {
         // Save to our new storage key
-        localStorage.setItem(ADDONS_STORAGE_KEY, JSON.stringify(installedAddons));
+        localStorage.setItem(profileStorageKey(ADDONS_STORAGE_KEY), JSON.stringify(installedAddons));
         
         // Also save to the original 'installedAddons' key for backward compatibility
-        localStorage.setItem('installedAddons', JSON.stringify(installedAddons));
+        localStorage.setItem(profileStorageKey('installedAddons'), JSON.stringify(installedAddons));
         
         console.log('AddonContext: Saved', installedAddons.length, 'addons to localStorage');
       } catch (e) {
@@ -111,6 +142,15 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, [installedAddons, isLoading]);
 
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      localStorage.setItem(profileStorageKey(RESOURCE_ORDER_STORAGE_KEY), JSON.stringify(addonResourceOrder));
+    } catch (e) {
+      console.error("AddonContext: Error saving addon priority:", e);
+    }
+  }, [addonResourceOrder, isLoading]);
+
   const installAddon = useCallback(async (manifestUrl: string) => {
     setError(null);
     if (!manifestUrl || !manifestUrl.endsWith('manifest.json')) {
@@ -121,15 +161,14 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
     
     try {
-      const res = await fetch(manifestUrl);
-      if (!res.ok) throw new Error(`HTTP error ${res.status}`);
-      const manifest = await res.json() as AddonManifest;
-      if (!manifest.id || !manifest.version || !manifest.name) throw new Error('Manifest is missing required fields (id, version, name).');
+      const { manifest, useProxy } = await fetchManifestWithFallback(manifestUrl);
       
       const newAddon: InstalledAddon = {
         ...manifest,
         manifestUrl: manifestUrl,
         selectedCatalogIds: manifest.catalogs?.map(getCatalogUniqueId) || [],
+        ...(useProxy ? { useProxy } : {}),
+        manifestCheckedAt: Date.now(),
       };
       
       setInstalledAddons(prev => [...prev, newAddon]);
@@ -158,19 +197,116 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
       })
     );
   }, []);
+
+  const setAddonUseProxy = useCallback((addonManifestUrl: string, useProxy: boolean) => {
+    setInstalledAddons(prevAddons =>
+      prevAddons.map(addon => (addon.manifestUrl === addonManifestUrl ? { ...addon, useProxy } : addon))
+    );
+  }, []);
   
+  const setAddonNewCatalogPolicy = useCallback((addonManifestUrl: string, policy: NewCatalogPolicy) => {
+    setInstalledAddons(prevAddons =>
+      prevAddons.map(addon => (addon.manifestUrl === addonManifestUrl ? { ...addon, newCatalogPolicy: policy } : addon))
+    );
+  }, []);
+
+  const moveAddon = useCallback((fromIndex: number, toIndex: number) => {
+    setInstalledAddons(prev => moveItem(prev, fromIndex, toIndex));
+  }, []);
+
+  const setAddonResourceOrder = useCallback((resource: AddonPriorityResource, manifestUrls: string[] | null) => {
+    setAddonResourceOrderState(prev => {
+      const next = { ...prev };
+      if (manifestUrls) next[resource] = manifestUrls;
+      else delete next[resource];
+      return next;
+    });
+  }, []);
+
+  // Installed addons in the order they should be asked for a resource
+  const getAddonsForResource = useCallback((resource: AddonPriorityResource) => {
+    return sortAddonsByPriority(installedAddons, addonResourceOrder[resource]);
+  }, [installedAddons, addonResourceOrder]);
+
+  // Fetches the manifests again and applies what changed. A failing manifest URL leaves the
+  // installed manifest alone and is reported in addonRefreshResults.
+  const runRefresh = useCallback(async (manifestUrls?: string[]) => {
+    const targets = installedAddonsRef.current.filter(addon => !manifestUrls || manifestUrls.includes(addon.manifestUrl));
+    if (targets.length === 0) return;
+    const checkedAt = Date.now();
+    const results: Record<string, AddonRefreshResult> = {};
+    const fetched = new Map<string, { manifest: AddonManifest; useProxy: boolean }>();
+
+    await Promise.all(targets.map(async addon => {
+      try {
+        const { manifest, useProxy } = await fetchManifestWithFallback(addon.manifestUrl, addon.useProxy);
+        if (manifest.id !== addon.id) throw new Error(`The URL now serves a different addon (${manifest.id})`);
+        const diff = diffManifests(addon, manifest);
+        results[addon.manifestUrl] = { checkedAt, ...(hasManifestChanges(diff) ? { diff } : {}) };
+        fetched.set(addon.manifestUrl, { manifest, useProxy });
+      } catch (err) {
+        console.warn('AddonContext: Manifest refresh failed for', addon.manifestUrl, err instanceof Error ? err.message : err);
+        results[addon.manifestUrl] = { checkedAt, error: err instanceof Error ? err.message : 'The manifest could not be loaded' };
+      }
+    }));
+
+    // Applied to the latest list, so catalog toggles made during the refresh stay
+    setInstalledAddons(prev => prev.map(addon => {
+      const update = fetched.get(addon.manifestUrl);
+      if (!update) return addon;
+      const current = update.useProxy ? { ...addon, useProxy: true } : addon;
+      return applyManifestUpdate(current, update.manifest, diffManifests(addon, update.manifest), checkedAt);
+    }));
+    setAddonRefreshResults(prev => ({ ...prev, ...results }));
+    console.log('AddonContext: Refreshed', fetched.size, 'of', targets.length, 'addon manifests');
+  }, []);
+
+  // Refreshes run one at a time. One asked for while another runs waits its turn, and the returned
+  // promise settles once its own results are in.
+  const refreshAddons = useCallback((manifestUrls?: string[]) => {
+    pendingRefreshesRef.current++;
+    setIsRefreshingAddons(true);
+    const run = refreshQueueRef.current
+      .then(() => runRefresh(manifestUrls))
+      .finally(() => {
+        pendingRefreshesRef.current--;
+        if (pendingRefreshesRef.current === 0) setIsRefreshingAddons(false);
+      });
+    refreshQueueRef.current = run.catch(() => undefined);
+    return run;
+  }, [runRefresh]);
+
+  // Refresh manifests that haven't been checked for a while, on load and then periodically
+  useEffect(() => {
+    if (isLoading) return;
+    const refreshDueAddons = () => {
+      const now = Date.now();
+      const due = installedAddonsRef.current.filter(addon => isManifestRefreshDue(addon, now));
+      // Anything still due is picked up on the next check
+      if (due.length > 0 && pendingRefreshesRef.current === 0) refreshAddons(due.map(addon => addon.manifestUrl));
+    };
+    refreshDueAddons();
+    const interval = setInterval(refreshDueAddons, REFRESH_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isLoading, refreshAddons]);
+
   const getAddonById = useCallback((id: string): InstalledAddon | undefined => {
     return installedAddons.find(addon => addon.id === id);
   }, [installedAddons]);
 
   const isStreamingAddon = useCallback((addon: InstalledAddon): boolean => {
-    if (!addon.resources) return false;
-    return addon.resources.some(resource => {
-      if (typeof resource === 'string') {
-        return resource === 'stream';
-      }
-      return resource.name === 'stream' && 
-             (Array.isArray(resource.types) && (resource.types.includes('movie') || resource.types.includes('series')));
+    return addonSupportsResource(addon, 'stream', 'movie') || addonSupportsResource(addon, 'stream', 'series');
+  }, []);
+
+  // Record the outcome of an addon request so the UI can flag failing/slow addons.
+  // Pass no error for success; cancelled requests are ignored.
+  const reportAddonResult = useCallback((addonId: string, err?: unknown) => {
+    const status = getAddonStatusFromResult(err);
+    if (!status) return;
+    setAddonStatuses(prev => {
+      const current = prev[addonId];
+      if (current && current.state === status.state && current.message === status.message) return prev;
+      return { ...prev, [addonId]: status };
     });
   }, []);
 
@@ -191,6 +327,12 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
   }, [installAddon]);
 
+  // Installs addons from an external account (see lib/addonAccounts)
+  const importAccountAddons = useCallback((items: AddonImportItem[]) => {
+    setInstalledAddons(prev => mergeAccountAddons(prev, items));
+    console.log('AddonContext: Imported', items.length, 'addons from an account');
+  }, []);
+
   const value = {
     installedAddons,
     isLoading,
@@ -198,9 +340,21 @@ export const AddonProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     installAddon,
     uninstallAddon,
     toggleCatalogSelection,
+    setAddonUseProxy,
     getAddonById,
     installSampleAddon,
+    importAccountAddons,
+    refreshAddons,
+    isRefreshingAddons,
+    addonRefreshResults,
+    setAddonNewCatalogPolicy,
+    moveAddon,
+    addonResourceOrder,
+    setAddonResourceOrder,
+    getAddonsForResource,
     isStreamingAddon,
+    addonStatuses,
+    reportAddonResult,
   };
 
   return <AddonContext.Provider value={value}>{children}</AddonContext.Provider>;
@@ -0,0 +1,86 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import { EMPTY_HOME_LAYOUT, cleanRowSettings, type HomeLayout, type HomeRowSettings } from '@/lib/homeLayout';
+import { profileStorageKey } from '@/lib/profiles';
+
+interface HomeLayoutContextType {
+  layout: HomeLayout;
+  isLoading: boolean;
+  setRowOrder: (rowIds: string[]) => void;
+  updateRow: (rowId: string, changes: Partial<HomeRowSettings>) => void;
+  resetLayout: () => void;
+}
+
+const HomeLayoutContext = createContext<HomeLayoutContextType | undefined>(undefined);
+
+// Key for local storage
+const HOME_LAYOUT_STORAGE_KEY = 'homeLayout';
+
+export const HomeLayoutProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [layout, setLayout] = useState<HomeLayout>(EMPTY_HOME_LAYOUT);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Load the layout from local storage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(profileStorageKey(HOME_LAYOUT_STORAGE_KEY));
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        setLayout({
+          order: Array.isArray(parsed.order) ? parsed.order : [],
+          rows: parsed.rows && typeof parsed.rows === 'object' ? parsed.rows : {},
+        });
+      }
+    } catch (e) {
+      console.error('HomeLayoutContext: Error loading layout:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save the layout whenever it changes
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      localStorage.setItem(profileStorageKey(HOME_LAYOUT_STORAGE_KEY), JSON.stringify(layout));
+    } catch (e) {
+      console.error('HomeLayoutContext: Error saving layout:', e);
+    }
+  }, [layout, isLoading]);
+
+  const setRowOrder = useCallback((rowIds: string[]) => {
+    setLayout(prev => ({ ...prev, order: rowIds }));
+  }, []);
+
+  const updateRow = useCallback((rowId: string, changes: Partial<HomeRowSettings>) => {
+    setLayout(prev => {
+      const rows = { ...prev.rows };
+      const settings = cleanRowSettings({ ...rows[rowId], ...changes });
+      if (settings) rows[rowId] = settings;
+      else delete rows[rowId];
+      return { ...prev, rows };
+    });
+  }, []);
+
+  const resetLayout = useCallback(() => setLayout(EMPTY_HOME_LAYOUT), []);
+
+  const value = {
+    layout,
+    isLoading,
+    setRowOrder,
+    updateRow,
+    resetLayout,
+  };
+
+  return <HomeLayoutContext.Provider value={value}>{children}</HomeLayoutContext.Provider>;
+};
+
+// Custom hook for easy consumption
+export const useHomeLayoutContext = () => {
+  const context = useContext(HomeLayoutContext);
+  if (context === undefined) {
+    throw new Error('useHomeLayoutContext must be used within a HomeLayoutProvider');
+  }
+  return context;
+};
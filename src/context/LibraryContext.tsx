@@ -0,0 +1,87 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import { createLibrarySnapshot, type LibraryItem, type LibrarySnapshot } from '@/lib/library';
+import { profileStorageKey } from '@/lib/profiles';
+
+interface LibraryContextType {
+  libraryItems: LibraryItem[]; // Most recently added first
+  isLoading: boolean;
+  isInLibrary: (id: string) => boolean;
+  addToLibrary: (meta: LibrarySnapshot) => void;
+  removeFromLibrary: (ids: string | string[]) => void;
+  toggleLibraryItem: (meta: LibrarySnapshot) => void;
+}
+
+const LibraryContext = createContext<LibraryContextType | undefined>(undefined);
+
+// Key for local storage
+const LIBRARY_STORAGE_KEY = 'libraryItems';
+
+export const LibraryProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [libraryItems, setLibraryItems] = useState<LibraryItem[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Load the library from local storage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(profileStorageKey(LIBRARY_STORAGE_KEY));
+      if (stored) setLibraryItems(JSON.parse(stored));
+    } catch (e) {
+      console.error('LibraryContext: Error loading library:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save the library whenever it changes
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      localStorage.setItem(profileStorageKey(LIBRARY_STORAGE_KEY), JSON.stringify(libraryItems));
+    } catch (e) {
+      console.error('LibraryContext: Error saving library:', e);
+    }
+  }, [libraryItems, isLoading]);
+
+  const isInLibrary = useCallback((id: string) => libraryItems.some(item => item.id === id), [libraryItems]);
+
+  const addToLibrary = useCallback((meta: LibrarySnapshot) => {
+    setLibraryItems(prev => {
+      if (prev.some(item => item.id === meta.id)) return prev;
+      console.log('LibraryContext: Added', meta.id, 'to My List');
+      return [{ ...createLibrarySnapshot(meta), addedAt: Date.now() }, ...prev];
+    });
+  }, []);
+
+  const removeFromLibrary = useCallback((ids: string | string[]) => {
+    const idSet = new Set(Array.isArray(ids) ? ids : [ids]);
+    setLibraryItems(prev => prev.filter(item => !idSet.has(item.id)));
+  }, []);
+
+  const toggleLibraryItem = useCallback((meta: LibrarySnapshot) => {
+    setLibraryItems(prev => prev.some(item => item.id === meta.id)
+      ? prev.filter(item => item.id !== meta.id)
+      : [{ ...createLibrarySnapshot(meta), addedAt: Date.now() }, ...prev]);
+  }, []);
+
+  const value = {
+    libraryItems,
+    isLoading,
+    isInLibrary,
+    addToLibrary,
+    removeFromLibrary,
+    toggleLibraryItem,
+  };
+
+  return <LibraryContext.Provider value={value}>{children}</LibraryContext.Provider>;
+};
+
+// Custom hook for easy consumption
+export const useLibraryContext = () => {
+  const context = useContext(LibraryContext);
+  if (context === undefined) {
+    throw new Error('useLibraryContext must be used within a LibraryProvider');
+  }
+  return context;
+};
@@ -0,0 +1,153 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useMemo, useRef } from 'react';
+import { useTmdbContext } from '@/context/TmdbContext';
+import {
+  DEFAULT_PARENTAL_SETTINGS,
+  fetchContentRating,
+  isContentAllowed,
+  type ContentRating,
+  type ContentRef,
+  type ParentalSettings,
+} from '@/lib/parentalControls';
+import { profileStorageKey, verifyPin } from '@/lib/profiles';
+
+interface ParentalControlsContextType {
+  settings: ParentalSettings;
+  isLoading: boolean;
+  isRestricted: boolean;
+  updateSettings: (changes: Partial<ParentalSettings>) => void;
+  checkSettingsPin: (pin: string) => Promise<boolean>; // True when there's no PIN
+  checkContent: (ref: ContentRef) => Promise<boolean>;
+}
+
+const ParentalControlsContext = createContext<ParentalControlsContextType | undefined>(undefined);
+
+// Key for local storage
+const PARENTAL_STORAGE_KEY = 'parentalControls';
+
+export const ParentalControlsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { tmdbApiKey, isTmdbEnabled } = useTmdbContext();
+  const [settings, setSettings] = useState<ParentalSettings>(DEFAULT_PARENTAL_SETTINGS);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Load settings from local storage on mount
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(profileStorageKey(PARENTAL_STORAGE_KEY));
+      if (stored) setSettings({ ...DEFAULT_PARENTAL_SETTINGS, ...JSON.parse(stored) });
+    } catch (e) {
+      console.error('ParentalControlsContext: Error loading settings:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save settings whenever they change
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      localStorage.setItem(profileStorageKey(PARENTAL_STORAGE_KEY), JSON.stringify(settings));
+    } catch (e) {
+      console.error('ParentalControlsContext: Error saving settings:', e);
+    }
+  }, [settings, isLoading]);
+
+  const updateSettings = useCallback((changes: Partial<ParentalSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...changes };
+      if (!next.pinHash) delete next.pinHash;
+      return next;
+    });
+  }, []);
+
+  const checkSettingsPin = useCallback(async (pin: string) => {
+    return !settings.pinHash || verifyPin(pin, settings.pinHash);
+  }, [settings.pinHash]);
+
+  // Ratings need TMDB; without it every title is unknown, and so restricted
+  const ratingApiKey = isTmdbEnabled ? tmdbApiKey : null;
+
+  const checkContent = useCallback(async (ref: ContentRef) => {
+    if (!settings.enabled) return true;
+    try {
+      const rating = ref.rating || await fetchContentRating(ref.type, ref.id, ratingApiKey);
+      return isContentAllowed(settings, rating);
+    } catch (err) {
+      console.warn('ParentalControlsContext: Could not look up the rating for', ref.id, err instanceof Error ? err.message : err);
+      return false;
+    }
+  }, [settings, ratingApiKey]);
+
+  const value = {
+    settings,
+    isLoading,
+    isRestricted: settings.enabled,
+    updateSettings,
+    checkSettingsPin,
+    checkContent,
+  };
+
+  return <ParentalControlsContext.Provider value={value}>{children}</ParentalControlsContext.Provider>;
+};
+
+// Custom hook for easy consumption
+export const useParentalControlsContext = () => {
+  const context = useContext(ParentalControlsContext);
+  if (context === undefined) {
+    throw new Error('useParentalControlsContext must be used within a ParentalControlsProvider');
+  }
+  return context;
+};
+
+const getRefKey = (ref: ContentRef) => `${ref.type}/${ref.id}`;
+
+// The items that pass parental controls. Everything passes straight through when restricted mode
+// is off; otherwise an item only shows once its rating has been checked. Verdicts are kept per
+// title, so a list that's re-rendered with the same titles doesn't flicker.
+export const useAllowedItems = <T,>(items: T[], getRef: (item: T) => ContentRef) => {
+  const { isRestricted, checkContent, isLoading } = useParentalControlsContext();
+  // Tied to the checkContent they came from, so changed settings start from scratch
+  const [verdicts, setVerdicts] = useState<{ checker: typeof checkContent | null; results: Record<string, boolean> }>({
+    checker: null,
+    results: {},
+  });
+  const getRefRef = useRef(getRef);
+  getRefRef.current = getRef;
+
+  useEffect(() => {
+    if (!isRestricted) return;
+    let cancelled = false;
+    const refs = items.map(item => getRefRef.current(item));
+    Promise.all(refs.map(ref => checkContent(ref))).then(allowed => {
+      if (cancelled) return;
+      setVerdicts(prev => {
+        const results = prev.checker === checkContent ? { ...prev.results } : {};
+        refs.forEach((ref, index) => {
+          results[getRefKey(ref)] = allowed[index];
+        });
+        return { checker: checkContent, results };
+      });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [items, isRestricted, checkContent]);
+
+  if (isLoading) return { allowedItems: [] as T[], isChecking: true };
+  if (!isRestricted) return { allowedItems: items, isChecking: false };
+  const results = verdicts.checker === checkContent ? verdicts.results : {};
+  const keys = items.map(item => getRefKey(getRef(item)));
+  return {
+    allowedItems: items.filter((_item, index) => results[keys[index]]),
+    isChecking: keys.some(key => !(key in results)),
+  };
+};
+
+// Whether a single title passes parental controls; null while it's being checked
+export const useContentAllowed = (type: string | undefined, id: string | undefined, rating?: ContentRating) => {
+  const refs = useMemo<ContentRef[]>(() => (type && id ? [{ type, id, rating }] : []), [type, id, rating]);
+  const { allowedItems, isChecking } = useAllowedItems(refs, item => item);
+  if (refs.length === 0 || isChecking) return null;
+  return allowedItems.length > 0;
+};
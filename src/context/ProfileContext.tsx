@@ -0,0 +1,170 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import {
+  clearProfileStorage,
+  createProfileId,
+  DEFAULT_PROFILE_ID,
+  hashPin,
+  MAX_PROFILES,
+  migrateLegacyStorage,
+  PROFILE_COLORS,
+  setStorageProfile,
+  verifyPin,
+  type UserProfile,
+} from '@/lib/profiles';
+
+interface ProfileContextType {
+  profiles: UserProfile[];
+  activeProfile: UserProfile | null; // null while the profile picker is showing
+  isLoading: boolean;
+  selectProfile: (id: string, pin?: string) => Promise<boolean>; // false when the PIN is wrong
+  switchProfile: () => void; // Back to the picker
+  createProfile: (name: string, pin?: string | null) => Promise<UserProfile>;
+  renameProfile: (id: string, name: string) => void;
+  setProfilePin: (id: string, pin: string | null) => Promise<void>;
+  checkProfilePin: (id: string, pin: string) => Promise<boolean>;
+  deleteProfile: (id: string) => void;
+}
+
+const ProfileContext = createContext<ProfileContextType | undefined>(undefined);
+
+// Keys for storage. The profile list is global; the chosen profile lasts for the browser session,
+// so every new launch starts at the picker.
+const PROFILES_STORAGE_KEY = 'userProfiles';
+const ACTIVE_PROFILE_SESSION_KEY = 'userProfiles_activeId';
+
+export const ProfileProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Load profiles on mount; the first run creates a profile holding any pre-profile data
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+      let loadedProfiles: UserProfile[] = stored ? JSON.parse(stored) : [];
+      if (loadedProfiles.length === 0) {
+        loadedProfiles = [{ id: DEFAULT_PROFILE_ID, name: 'Me', color: PROFILE_COLORS[0], createdAt: Date.now() }];
+        migrateLegacyStorage(DEFAULT_PROFILE_ID);
+        localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(loadedProfiles));
+        console.log('ProfileContext: Created the first profile');
+      }
+      setProfiles(loadedProfiles);
+
+      // Resume this session's profile, or skip the picker when there's nothing to pick
+      const sessionProfileId = sessionStorage.getItem(ACTIVE_PROFILE_SESSION_KEY);
+      const onlyOpenProfile = loadedProfiles.length === 1 && !loadedProfiles[0].pinHash ? loadedProfiles[0].id : null;
+      const initialId = loadedProfiles.some(profile => profile.id === sessionProfileId) ? sessionProfileId : onlyOpenProfile;
+      if (initialId) {
+        setStorageProfile(initialId);
+        setActiveProfileId(initialId);
+      }
+    } catch (e) {
+      console.error('ProfileContext: Error loading profiles:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save profiles whenever they change
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    } catch (e) {
+      console.error('ProfileContext: Error saving profiles:', e);
+    }
+  }, [profiles, isLoading]);
+
+  const activate = useCallback((id: string | null) => {
+    // Storage has to point at the profile before its providers mount and read from it
+    if (id) setStorageProfile(id);
+    try {
+      if (id) sessionStorage.setItem(ACTIVE_PROFILE_SESSION_KEY, id);
+      else sessionStorage.removeItem(ACTIVE_PROFILE_SESSION_KEY);
+    } catch (e) {
+      console.warn('ProfileContext: Could not remember the active profile', e);
+    }
+    setActiveProfileId(id);
+  }, []);
+
+  const checkProfilePin = useCallback(async (id: string, pin: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return false;
+    return !profile.pinHash || verifyPin(pin, profile.pinHash);
+  }, [profiles]);
+
+  const selectProfile = useCallback(async (id: string, pin?: string) => {
+    if (!(await checkProfilePin(id, pin || ''))) return false;
+    console.log('ProfileContext: Switched to profile', id);
+    activate(id);
+    return true;
+  }, [checkProfilePin, activate]);
+
+  const switchProfile = useCallback(() => {
+    activate(null);
+  }, [activate]);
+
+  const createProfile = useCallback(async (name: string, pin?: string | null) => {
+    if (profiles.length >= MAX_PROFILES) {
+      throw new Error(`You can have up to ${MAX_PROFILES} profiles.`);
+    }
+    const profile: UserProfile = {
+      id: createProfileId(),
+      name: name.trim() || 'Profile',
+      color: PROFILE_COLORS[profiles.length % PROFILE_COLORS.length],
+      createdAt: Date.now(),
+      ...(pin ? { pinHash: await hashPin(pin) } : {}),
+    };
+    setProfiles(prev => [...prev, profile]);
+    return profile;
+  }, [profiles.length]);
+
+  const renameProfile = useCallback((id: string, name: string) => {
+    if (!name.trim()) return;
+    setProfiles(prev => prev.map(profile => (profile.id === id ? { ...profile, name: name.trim() } : profile)));
+  }, []);
+
+  const setProfilePin = useCallback(async (id: string, pin: string | null) => {
+    const pinHash = pin ? await hashPin(pin) : undefined;
+    setProfiles(prev => prev.map(profile => {
+      if (profile.id !== id) return profile;
+      const updated = { ...profile, pinHash };
+      if (!pinHash) delete updated.pinHash;
+      return updated;
+    }));
+  }, []);
+
+  // Deletes the profile and everything stored for it. The last profile can't be deleted.
+  const deleteProfile = useCallback((id: string) => {
+    if (profiles.length <= 1) return;
+    setProfiles(prev => prev.filter(profile => profile.id !== id));
+    clearProfileStorage(id);
+    if (activeProfileId === id) activate(null);
+  }, [profiles.length, activeProfileId, activate]);
+
+  const value = {
+    profiles,
+    activeProfile: profiles.find(profile => profile.id === activeProfileId) || null,
+    isLoading,
+    selectProfile,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    setProfilePin,
+    checkProfilePin,
+    deleteProfile,
+  };
+
+  return <ProfileContext.Provider value={value}>{children}</ProfileContext.Provider>;
+};
+
+// Custom hook for easy consumption
+export const useProfileContext = () => {
+  const context = useContext(ProfileContext);
+  if (context === undefined) {
+    throw new Error('useProfileContext must be used within a ProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,105 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import { createStreamProfile, DEFAULT_STREAM_PROFILES, type StreamProfile } from '@/lib/streamRanking';
+import { profileStorageKey } from '@/lib/profiles';
+
+interface StreamProfileContextType {
+  profiles: StreamProfile[];
+  activeProfile: StreamProfile;
+  setActiveProfileId: (id: string) => void;
+  saveProfile: (profile: StreamProfile) => void; // Adds or replaces by ID
+  addProfile: (name: string, base?: StreamProfile) => StreamProfile;
+  deleteProfile: (id: string) => void;
+}
+
+const StreamProfileContext = createContext<StreamProfileContextType | undefined>(undefined);
+
+// Keys for local storage
+const PROFILES_STORAGE_KEY = 'streamProfiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'streamProfiles_activeId';
+
+export const StreamProfileProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [profiles, setProfiles] = useState<StreamProfile[]>(DEFAULT_STREAM_PROFILES);
+  const [activeProfileId, setActiveProfileIdInternal] = useState<string>(DEFAULT_STREAM_PROFILES[0].id);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Load profiles from local storage on mount
+  useEffect(() => {
+    try {
+      const storedProfiles = localStorage.getItem(profileStorageKey(PROFILES_STORAGE_KEY));
+      const loadedProfiles: StreamProfile[] = storedProfiles ? JSON.parse(storedProfiles) : [];
+      if (loadedProfiles.length > 0) {
+        // Fill in fields added after the profile was saved
+        setProfiles(loadedProfiles.map(profile => ({
+          ...DEFAULT_STREAM_PROFILES[0],
+          ...profile,
+          weights: { ...DEFAULT_STREAM_PROFILES[0].weights, ...profile.weights },
+          excludes: { ...DEFAULT_STREAM_PROFILES[0].excludes, ...profile.excludes },
+        })));
+      }
+      const storedActiveId = localStorage.getItem(profileStorageKey(ACTIVE_PROFILE_STORAGE_KEY));
+      if (storedActiveId) setActiveProfileIdInternal(storedActiveId);
+      console.log('StreamProfileContext: Loaded', loadedProfiles.length || DEFAULT_STREAM_PROFILES.length, 'profiles');
+    } catch (e) {
+      console.error('StreamProfileContext: Error loading stream profiles:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save profiles whenever they change
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      localStorage.setItem(profileStorageKey(PROFILES_STORAGE_KEY), JSON.stringify(profiles));
+      localStorage.setItem(profileStorageKey(ACTIVE_PROFILE_STORAGE_KEY), activeProfileId);
+    } catch (e) {
+      console.error('StreamProfileContext: Error saving stream profiles:', e);
+    }
+  }, [profiles, activeProfileId, isLoading]);
+
+  const setActiveProfileId = useCallback((id: string) => {
+    setActiveProfileIdInternal(id);
+  }, []);
+
+  const saveProfile = useCallback((profile: StreamProfile) => {
+    setProfiles(prev => prev.some(p => p.id === profile.id)
+      ? prev.map(p => (p.id === profile.id ? profile : p))
+      : [...prev, profile]);
+  }, []);
+
+  const addProfile = useCallback((name: string, base?: StreamProfile) => {
+    const profile = createStreamProfile(name, base);
+    setProfiles(prev => [...prev, profile]);
+    return profile;
+  }, []);
+
+  // The last profile can't be deleted; there always has to be one to rank with
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles(prev => (prev.length > 1 ? prev.filter(p => p.id !== id) : prev));
+  }, []);
+
+  // Fall back to the first profile if the stored active ID no longer exists
+  const activeProfile = profiles.find(p => p.id === activeProfileId) || profiles[0];
+
+  const value = {
+    profiles,
+    activeProfile,
+    setActiveProfileId,
+    saveProfile,
+    addProfile,
+    deleteProfile,
+  };
+
+  return <StreamProfileContext.Provider value={value}>{children}</StreamProfileContext.Provider>;
+};
+
+// Custom hook for easy consumption
+export const useStreamProfileContext = () => {
+  const context = useContext(StreamProfileContext);
+  if (context === undefined) {
+    throw new Error('useStreamProfileContext must be used within a StreamProfileProvider');
+  }
+  return context;
+};
@@ -0,0 +1,116 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import {
+  getStreamingServerVersion,
+  normalizeServerUrl,
+  type StreamingServerStatus,
+} from '@/lib/streamingServer';
+import { profileStorageKey } from '@/lib/profiles';
+
+interface StreamingServerContextType {
+  serverUrl: string | null; // null when no server is configured
+  setServerUrl: (url: string | null) => void;
+  hideUnplayableStreams: boolean; // Hide torrent streams while no server can play them
+  setHideUnplayableStreams: (hide: boolean) => void;
+  status: StreamingServerStatus;
+  serverVersion: string | null;
+  checkServer: () => Promise<void>;
+}
+
+const StreamingServerContext = createContext<StreamingServerContextType | undefined>(undefined);
+
+// Keys for local storage
+const SERVER_STORAGE_PREFIX = 'streamingServer';
+const SERVER_URL_STORAGE_KEY = `${SERVER_STORAGE_PREFIX}_url`;
+const HIDE_UNPLAYABLE_STORAGE_KEY = `${SERVER_STORAGE_PREFIX}_hideUnplayable`;
+
+export const StreamingServerProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [serverUrl, setServerUrlInternal] = useState<string | null>(null);
+  const [hideUnplayableStreams, setHideUnplayableInternal] = useState<boolean>(false);
+  const [status, setStatus] = useState<StreamingServerStatus>('disabled');
+  const [serverVersion, setServerVersion] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Load settings from local storage on mount
+  useEffect(() => {
+    try {
+      const storedUrl = localStorage.getItem(profileStorageKey(SERVER_URL_STORAGE_KEY));
+      if (storedUrl) setServerUrlInternal(storedUrl);
+      const storedHide = localStorage.getItem(profileStorageKey(HIDE_UNPLAYABLE_STORAGE_KEY));
+      if (storedHide !== null) setHideUnplayableInternal(JSON.parse(storedHide));
+    } catch (e) {
+      console.error('StreamingServerContext: Error loading settings:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save settings whenever they change
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      if (serverUrl) {
+        localStorage.setItem(profileStorageKey(SERVER_URL_STORAGE_KEY), serverUrl);
+      } else {
+        localStorage.removeItem(profileStorageKey(SERVER_URL_STORAGE_KEY));
+      }
+      localStorage.setItem(profileStorageKey(HIDE_UNPLAYABLE_STORAGE_KEY), JSON.stringify(hideUnplayableStreams));
+    } catch (e) {
+      console.error('StreamingServerContext: Error saving settings:', e);
+    }
+  }, [serverUrl, hideUnplayableStreams, isLoading]);
+
+  const checkServer = useCallback(async () => {
+    if (!serverUrl) {
+      setStatus('disabled');
+      setServerVersion(null);
+      return;
+    }
+    setStatus('checking');
+    try {
+      const version = await getStreamingServerVersion(serverUrl);
+      setServerVersion(version);
+      setStatus('online');
+      console.log('StreamingServerContext: Server online at', serverUrl, version ? `(v${version})` : '');
+    } catch (err) {
+      console.warn('StreamingServerContext: Server not reachable at', serverUrl, err);
+      setServerVersion(null);
+      setStatus('offline');
+    }
+  }, [serverUrl]);
+
+  // Probe the server whenever the URL changes
+  useEffect(() => {
+    if (!isLoading) void checkServer();
+  }, [checkServer, isLoading]);
+
+  const setServerUrl = useCallback((url: string | null) => {
+    setServerUrlInternal(url && url.trim() ? normalizeServerUrl(url) : null);
+  }, []);
+
+  const setHideUnplayableStreams = useCallback((hide: boolean) => {
+    setHideUnplayableInternal(hide);
+  }, []);
+
+  const value = {
+    serverUrl,
+    setServerUrl,
+    hideUnplayableStreams,
+    setHideUnplayableStreams,
+    status,
+    serverVersion,
+    checkServer,
+  };
+
+  return <StreamingServerContext.Provider value={value}>{children}</StreamingServerContext.Provider>;
+};
+
+// Custom hook for easy consumption
+export const useStreamingServerContext = () => {
+  const context = useContext(StreamingServerContext);
+  if (context === undefined) {
+    throw new Error('useStreamingServerContext must be used within a StreamingServerProvider');
+  }
+  return context;
+};
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback, useRef } from 'react';
+import { readBackupData, writeBackupData } from '@/lib/backup';
+import { fetchJsonWithPolicy, fetchWithPolicy, NetworkError } from '@/lib/network';
+import { profileStorageKey } from '@/lib/profiles';
+import {
+  diffSyncFields,
+  flattenSyncFields,
+  isNewerChange,
+  mergeRemoteChanges,
+  queueSyncChanges,
+  serializeSyncFields,
+  SYNC_AUTH_ROUTE,
+  SYNC_ROUTE,
+  unflattenSyncFields,
+  type SyncAuthResponse,
+  type SyncChange,
+  type SyncRequest,
+  type SyncResponse,
+} from '@/lib/sync';
+
+// 'updates' means the server sent changes that wait for the user to apply them
+export type SyncStatus = 'off' | 'synced' | 'syncing' | 'pending' | 'offline' | 'error' | 'updates';
+
+interface SyncAccount {
+  username: string;
+  token: string;
+}
+
+interface SyncContextType {
+  username: string | null;
+  status: SyncStatus;
+  pendingCount: number; // Local changes the server hasn't confirmed yet
+  lastSyncedAt: number | null;
+  error: string | null;
+  signIn: (action: 'register' | 'login', username: string, password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  syncNow: () => Promise<void>;
+  applyUpdates: () => void;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+// Keys for local storage (per profile)
+const ACCOUNT_STORAGE_KEY = 'sync_account';
+const SNAPSHOT_STORAGE_KEY = 'sync_snapshot'; // Fields as of the last sync, to spot local edits
+const QUEUE_STORAGE_KEY = 'sync_queue'; // Outgoing changes, kept while offline
+const INCOMING_STORAGE_KEY = 'sync_incoming'; // Server changes not applied yet
+const CURSOR_STORAGE_KEY = 'sync_cursor'; // Last server revision seen
+const LAST_SYNC_STORAGE_KEY = 'sync_lastSyncedAt';
+const SYNC_STATE_KEYS = [SNAPSHOT_STORAGE_KEY, QUEUE_STORAGE_KEY, INCOMING_STORAGE_KEY, CURSOR_STORAGE_KEY, LAST_SYNC_STORAGE_KEY];
+
+const SYNC_INTERVAL_MS = 15000;
+const SYNC_TIMEOUT_MS = 20000;
+const CHANGES_PER_REQUEST = 500;
+
+const readStored = <T,>(key: string, fallback: T): T => {
+  try {
+    const stored = localStorage.getItem(profileStorageKey(key));
+    return stored === null ? fallback : JSON.parse(stored) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+const writeStored = (key: string, value: unknown) => {
+  if (value === null) localStorage.removeItem(profileStorageKey(key));
+  else localStorage.setItem(profileStorageKey(key), JSON.stringify(value));
+};
+
+const clearSyncStorage = () => SYNC_STATE_KEYS.forEach(key => writeStored(key, null));
+
+// --- Sync steps ---
+// Every step works on local storage directly: contexts save there on each change, and the
+// queue has to survive reloads while offline.
+
+// Compares the profile's data with the last snapshot and queues whatever changed
+const collectLocalChanges = (): SyncChange[] => {
+  const current = serializeSyncFields(flattenSyncFields(readBackupData()));
+  const snapshot = readStored<Record<string, string> | null>(SNAPSHOT_STORAGE_KEY, null);
+  // A device's first sync only fills gaps: stamped at 0, its fields lose to anything on the server
+  const changes = snapshot ? diffSyncFields(snapshot, current, Date.now()) : diffSyncFields({}, current, 0);
+  const queue = queueSyncChanges(readStored<SyncChange[]>(QUEUE_STORAGE_KEY, []), changes);
+  writeStored(QUEUE_STORAGE_KEY, queue);
+  writeStored(SNAPSHOT_STORAGE_KEY, current);
+  return queue;
+};
+
+// Writes waiting server changes into the profile's data. Local edits made after a server
+// change stay queued instead and win on the next sync.
+const applyIncomingChanges = () => {
+  const queue = collectLocalChanges();
+  const queued = new Map(queue.map(change => [change.key, change]));
+  const incoming = readStored<SyncChange[]>(INCOMING_STORAGE_KEY, [])
+    .filter(change => isNewerChange(change, queued.get(change.key)));
+  const appliedKeys = new Set(incoming.map(change => change.key));
+  writeStored(QUEUE_STORAGE_KEY, queue.filter(change => !appliedKeys.has(change.key)));
+
+  const data = readBackupData();
+  const fields = mergeRemoteChanges(flattenSyncFields(data), incoming);
+  writeBackupData(unflattenSyncFields(fields, (data.addons || []).map(addon => addon.manifestUrl)));
+  writeStored(SNAPSHOT_STORAGE_KEY, serializeSyncFields(flattenSyncFields(readBackupData())));
+  writeStored(INCOMING_STORAGE_KEY, null);
+  console.log(`SyncContext: Applied ${incoming.length} change(s) from the server`);
+};
+
+export const SyncProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [account, setAccount] = useState<SyncAccount | null>(null);
+  const [status, setStatus] = useState<SyncStatus>('off');
+  const [pendingCount, setPendingCount] = useState<number>(0);
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  // Bumped after server changes are written, so every context below remounts and reads them
+  const [dataVersion, setDataVersion] = useState<number>(0);
+  const accountRef = useRef<SyncAccount | null>(null);
+  const isSyncingRef = useRef(false);
+
+  // Load the account from local storage on mount
+  useEffect(() => {
+    const stored = readStored<SyncAccount | null>(ACCOUNT_STORAGE_KEY, null);
+    accountRef.current = stored;
+    setAccount(stored);
+    setLastSyncedAt(readStored<number | null>(LAST_SYNC_STORAGE_KEY, null));
+    setIsLoading(false);
+  }, []);
+
+  const applyUpdates = useCallback(() => {
+    applyIncomingChanges();
+    setPendingCount(readStored<SyncChange[]>(QUEUE_STORAGE_KEY, []).length);
+    setStatus('synced');
+    setDataVersion(prev => prev + 1);
+  }, []);
+
+  // Pushes queued changes and pulls the server's. With `applyNow` the server's changes are
+  // applied right away; otherwise they wait, so the page doesn't reload under the user.
+  const runSync = useCallback(async (applyNow: boolean) => {
+    const current = accountRef.current;
+    if (!current || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    try {
+      let queue = collectLocalChanges();
+      setPendingCount(queue.length);
+      if (!navigator.onLine) {
+        setStatus('offline');
+        return;
+      }
+      // Quiet background checks don't flash the indicator
+      if (applyNow || queue.length > 0) setStatus('syncing');
+
+      let cursor = readStored<number>(CURSOR_STORAGE_KEY, 0);
+      let incoming = readStored<SyncChange[]>(INCOMING_STORAGE_KEY, []);
+      do {
+        const batch = queue.slice(0, CHANGES_PER_REQUEST);
+        const response = await fetchJsonWithPolicy<SyncResponse>(SYNC_ROUTE, { timeoutMs: SYNC_TIMEOUT_MS }, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${current.token}` },
+          body: JSON.stringify({ since: cursor, changes: batch } satisfies SyncRequest),
+        });
+        if (accountRef.current !== current) return; // Signed out meanwhile
+
+        const sent = new Map(batch.map(change => [change.key, change.updatedAt]));
+        // Edits made while the request was out are newer than what was sent and stay queued
+        queue = readStored<SyncChange[]>(QUEUE_STORAGE_KEY, []).filter(change => sent.get(change.key) !== change.updatedAt);
+        // Waiting server changes that were just overwritten are stale now
+        incoming = incoming.filter(change => !sent.has(change.key) || change.updatedAt > sent.get(change.key)!);
+        incoming = queueSyncChanges(incoming, response.changes);
+        cursor = response.revision;
+        writeStored(QUEUE_STORAGE_KEY, queue);
+        writeStored(INCOMING_STORAGE_KEY, incoming.length > 0 ? incoming : null);
+        writeStored(CURSOR_STORAGE_KEY, cursor);
+      } while (queue.length > 0);
+
+      const syncedAt = Date.now();
+      writeStored(LAST_SYNC_STORAGE_KEY, syncedAt);
+      setLastSyncedAt(syncedAt);
+      setPendingCount(0);
+      setError(null);
+      if (incoming.length > 0 && applyNow) applyUpdates();
+      else setStatus(incoming.length > 0 ? 'updates' : 'synced');
+    } catch (err) {
+      setPendingCount(readStored<SyncChange[]>(QUEUE_STORAGE_KEY, []).length);
+      if (err instanceof NetworkError && err.status === 401) {
+        // The token was revoked or expired. Signing in again syncs this device from scratch.
+        writeStored(ACCOUNT_STORAGE_KEY, null);
+        accountRef.current = null;
+        setAccount(null);
+        setStatus('off');
+        setError('Your sync session has ended. Sign in again to keep syncing.');
+      } else if (err instanceof NetworkError && (err.kind === 'network' || err.kind === 'timeout')) {
+        setStatus('offline');
+      } else {
+        console.error('SyncContext: Sync failed:', err);
+        setStatus('error');
+        setError(err instanceof Error ? err.message : 'Sync failed');
+      }
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [applyUpdates]);
+
+  // Sync on start (applying what other devices changed), then in the background
+  useEffect(() => {
+    if (isLoading || !account) return;
+    runSync(true);
+    const interval = setInterval(() => runSync(false), SYNC_INTERVAL_MS);
+    const handleOnline = () => runSync(false);
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') runSync(false);
+    };
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [isLoading, account, runSync]);
+
+  const signIn = useCallback(async (action: 'register' | 'login', username: string, password: string) => {
+    const response = await fetchJsonWithPolicy<SyncAuthResponse>(SYNC_AUTH_ROUTE, { retries: 0 }, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action, username, password }),
+    });
+    // Start over, so this device's data is offered to the account as a first sync
+    clearSyncStorage();
+    setPendingCount(0);
+    setLastSyncedAt(null);
+    const signedIn = { username: response.username, token: response.token };
+    writeStored(ACCOUNT_STORAGE_KEY, signedIn);
+    accountRef.current = signedIn;
+    setAccount(signedIn);
+    setError(null);
+    console.log('SyncContext: Signed in as', response.username);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const current = accountRef.current;
+    if (!current) return;
+    writeStored(ACCOUNT_STORAGE_KEY, null);
+    accountRef.current = null;
+    setAccount(null);
+    setStatus('off');
+    clearSyncStorage();
+    setPendingCount(0);
+    setLastSyncedAt(null);
+    try {
+      await fetchWithPolicy(SYNC_AUTH_ROUTE, { retries: 0 }, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${current.token}` },
+      });
+    } catch (err) {
+      // The token stays valid on the server until it expires; this device forgot it either way
+      console.warn('SyncContext: Could not revoke the sync token:', err instanceof Error ? err.message : err);
+    }
+  }, []);
+
+  const syncNow = useCallback(() => runSync(true), [runSync]);
+
+  const value = {
+    username: account?.username ?? null,
+    status: status === 'synced' && pendingCount > 0 ? 'pending' : status,
+    pendingCount,
+    lastSyncedAt,
+    error,
+    signIn,
+    signOut,
+    syncNow,
+    applyUpdates,
+  };
+
+  return (
+    <SyncContext.Provider value={value}>
+      <React.Fragment key={dataVersion}>{children}</React.Fragment>
+    </SyncContext.Provider>
+  );
+};
+
+// Custom hook for easy consumption
+export const useSyncContext = () => {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSyncContext must be used within a SyncProvider');
+  }
+  return context;
+};
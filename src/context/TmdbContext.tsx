@@ -1,6 +1,8 @@
 'use client';
 
 import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import { setTmdbProxyEnabled } from '@/lib/tmdbClient';
+import { profileStorageKey } from '@/lib/profiles';
 
 // Interface for the TMDB Context
 interface TmdbContextType {
@@ -10,6 +12,8 @@ interface TmdbContextType {
   keyError: string | null;
   isTmdbEnabled: boolean;
   toggleTmdbEnabled: () => void;
+  useTmdbProxy: boolean; // Route TMDB requests through /api/tmdb
+  toggleTmdbProxy: () => void;
 }
 
 // Create the context
@@ -19,11 +23,13 @@ const TmdbContext = createContext<TmdbContextType | undefined>(undefined);
 const TMDB_STORAGE_PREFIX = 'tmdbConfig';
 const TMDB_API_KEY_STORAGE_KEY = `${TMDB_STORAGE_PREFIX}_apiKey`;
 const TMDB_ENABLED_STATUS_KEY = `${TMDB_STORAGE_PREFIX}_isEnabled`;
+const TMDB_USE_PROXY_KEY = `${TMDB_STORAGE_PREFIX}_useProxy`;
 
 // Provider component
 export const TmdbProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [tmdbApiKey, setTmdbApiKeyInternal] = useState<string | null>(null);
   const [isTmdbEnabled, setIsTmdbEnabledInternal] = useState<boolean>(true);
+  const [useTmdbProxy, setUseTmdbProxyInternal] = useState<boolean>(false);
   const [isLoadingKey, setIsLoadingKey] = useState<boolean>(true);
   const [keyError, setKeyError] = useState<string | null>(null);
 
@@ -31,12 +37,16 @@ export const TmdbProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   useEffect(() => {
     setIsLoadingKey(true);
     try {
-      const storedKey = localStorage.getItem(TMDB_API_KEY_STORAGE_KEY);
+      const storedKey = localStorage.getItem(profileStorageKey(TMDB_API_KEY_STORAGE_KEY));
       if (storedKey) {
         setTmdbApiKeyInternal(storedKey);
       }
-      const storedEnabledStatus = localStorage.getItem(TMDB_ENABLED_STATUS_KEY);
+      const storedEnabledStatus = localStorage.getItem(profileStorageKey(TMDB_ENABLED_STATUS_KEY));
       setIsTmdbEnabledInternal(storedEnabledStatus === null ? true : JSON.parse(storedEnabledStatus));
+      const storedUseProxy = localStorage.getItem(profileStorageKey(TMDB_USE_PROXY_KEY));
+      const shouldUseProxy = storedUseProxy === null ? false : JSON.parse(storedUseProxy);
+      setUseTmdbProxyInternal(shouldUseProxy);
+      setTmdbProxyEnabled(shouldUseProxy);
       
       setKeyError(null);
     } catch (e) {
@@ -54,9 +64,9 @@ export const TmdbProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     if (!isLoadingKey) { 
       try {
         if (tmdbApiKey) {
-          localStorage.setItem(TMDB_API_KEY_STORAGE_KEY, tmdbApiKey);
+          localStorage.setItem(profileStorageKey(TMDB_API_KEY_STORAGE_KEY), tmdbApiKey);
         } else {
-          localStorage.removeItem(TMDB_API_KEY_STORAGE_KEY);
+          localStorage.removeItem(profileStorageKey(TMDB_API_KEY_STORAGE_KEY));
         }
       } catch (e) {
         console.error("TmdbContext: Error saving TMDB API key:", e);
@@ -69,7 +79,7 @@ export const TmdbProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   useEffect(() => {
     if (!isLoadingKey) {
         try {
-            localStorage.setItem(TMDB_ENABLED_STATUS_KEY, JSON.stringify(isTmdbEnabled));
+            localStorage.setItem(profileStorageKey(TMDB_ENABLED_STATUS_KEY), JSON.stringify(isTmdbEnabled));
         } catch (e) {
             console.error("TmdbContext: Error saving TMDB enabled status:", e);
             setKeyError("Error saving TMDB enabled status.");
@@ -77,6 +87,18 @@ export const TmdbProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [isTmdbEnabled, isLoadingKey]);
 
+  // Keep the client in sync and persist the proxy setting
+  useEffect(() => {
+    if (!isLoadingKey) {
+        setTmdbProxyEnabled(useTmdbProxy);
+        try {
+            localStorage.setItem(profileStorageKey(TMDB_USE_PROXY_KEY), JSON.stringify(useTmdbProxy));
+        } catch (e) {
+            console.error("TmdbContext: Error saving TMDB proxy setting:", e);
+        }
+    }
+  }, [useTmdbProxy, isLoadingKey]);
+
   // Public setter for the API key
   const setTmdbApiKey = useCallback((key: string | null) => {
     setTmdbApiKeyInternal(key);
@@ -87,13 +109,20 @@ export const TmdbProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setIsTmdbEnabledInternal(prev => !prev);
   }, []);
 
+  // Public toggle for the server-side proxy
+  const toggleTmdbProxy = useCallback(() => {
+    setUseTmdbProxyInternal(prev => !prev);
+  }, []);
+
   const value = {
     tmdbApiKey,
     setTmdbApiKey,
     isLoadingKey,
     keyError,
     isTmdbEnabled,
-    toggleTmdbEnabled
+    toggleTmdbEnabled,
+    useTmdbProxy,
+    toggleTmdbProxy
   };
 
   return <TmdbContext.Provider value={value}>{children}</TmdbContext.Provider>;
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { createContext, useState, useEffect, useContext, ReactNode, useCallback } from 'react';
+import {
+  buildWatchProgress,
+  DEFAULT_WATCHED_THRESHOLD,
+  getWatchKey,
+  type WatchProgress,
+  type WatchTarget,
+} from '@/lib/watchState';
+import { profileStorageKey } from '@/lib/profiles';
+
+interface WatchStateContextType {
+  watchProgress: Record<string, WatchProgress>; // Keyed by getWatchKey()
+  isLoading: boolean;
+  getProgress: (target: Pick<WatchTarget, 'contentId' | 'season' | 'episode'>) => WatchProgress | undefined;
+  saveProgress: (target: WatchTarget, position: number, duration: number) => void;
+  setWatched: (target: WatchTarget, watched: boolean) => void;
+  clearProgress: (target: Pick<WatchTarget, 'contentId' | 'season' | 'episode'>) => void;
+  removeFromContinueWatching: (contentId: string) => void; // Keeps the progress, hides the title from the row
+  watchedThreshold: number; // 0.5-1: fraction of the duration after which an item counts as watched
+  setWatchedThreshold: (threshold: number) => void;
+}
+
+const WatchStateContext = createContext<WatchStateContextType | undefined>(undefined);
+
+// Keys for local storage
+const WATCH_STORAGE_KEY = 'watchProgress';
+const WATCH_THRESHOLD_STORAGE_KEY = `${WATCH_STORAGE_KEY}_threshold`;
+
+// Oldest entries are dropped past this so localStorage doesn't grow forever
+const MAX_ENTRIES = 1000;
+
+const pruneEntries = (entries: Record<string, WatchProgress>) => {
+  const keys = Object.keys(entries);
+  if (keys.length <= MAX_ENTRIES) return entries;
+  const kept = keys.sort((a, b) => entries[b].updatedAt - entries[a].updatedAt).slice(0, MAX_ENTRIES);
+  return Object.fromEntries(kept.map(key => [key, entries[key]]));
+};
+
+export const WatchStateProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [watchProgress, setWatchProgress] = useState<Record<string, WatchProgress>>({});
+  const [watchedThreshold, setWatchedThresholdInternal] = useState<number>(DEFAULT_WATCHED_THRESHOLD);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Load watch state from local storage on mount
+  useEffect(() => {
+    try {
+      const storedProgress = localStorage.getItem(profileStorageKey(WATCH_STORAGE_KEY));
+      if (storedProgress) setWatchProgress(JSON.parse(storedProgress));
+      const storedThreshold = localStorage.getItem(profileStorageKey(WATCH_THRESHOLD_STORAGE_KEY));
+      if (storedThreshold !== null) setWatchedThresholdInternal(JSON.parse(storedThreshold));
+      console.log('WatchStateContext: Loaded watch progress from storage');
+    } catch (e) {
+      console.error('WatchStateContext: Error loading watch progress:', e);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Save watch state whenever it changes
+  useEffect(() => {
+    if (isLoading) return;
+    try {
+      localStorage.setItem(profileStorageKey(WATCH_STORAGE_KEY), JSON.stringify(watchProgress));
+      localStorage.setItem(profileStorageKey(WATCH_THRESHOLD_STORAGE_KEY), JSON.stringify(watchedThreshold));
+    } catch (e) {
+      console.error('WatchStateContext: Error saving watch progress:', e);
+    }
+  }, [watchProgress, watchedThreshold, isLoading]);
+
+  const getProgress = useCallback((target: Pick<WatchTarget, 'contentId' | 'season' | 'episode'>) => {
+    return watchProgress[getWatchKey(target)];
+  }, [watchProgress]);
+
+  const saveProgress = useCallback((target: WatchTarget, position: number, duration: number) => {
+    if (!(position > 0) || !isFinite(position)) return;
+    const entry = buildWatchProgress(target, position, duration, watchedThreshold);
+    setWatchProgress(prev => {
+      const key = getWatchKey(target);
+      // Once watched, stay watched when the user scrubs back to rewatch a scene. Details the
+      // caller didn't pass this time (poster, next episode) are kept; playing again un-dismisses.
+      const watched = entry.watched || !!prev[key]?.watched;
+      return pruneEntries({ ...prev, [key]: { ...prev[key], ...entry, watched, dismissed: undefined } });
+    });
+  }, [watchedThreshold]);
+
+  const setWatched = useCallback((target: WatchTarget, watched: boolean) => {
+    setWatchProgress(prev => {
+      const key = getWatchKey(target);
+      const existing = prev[key] || buildWatchProgress(target, 0, 0, watchedThreshold);
+      return pruneEntries({
+        ...prev,
+        // Marking as unwatched also resets the position so it starts over next time
+        [key]: { ...existing, watched, position: watched ? existing.position : 0, updatedAt: Date.now() },
+      });
+    });
+  }, [watchedThreshold]);
+
+  const clearProgress = useCallback((target: Pick<WatchTarget, 'contentId' | 'season' | 'episode'>) => {
+    setWatchProgress(prev => {
+      const key = getWatchKey(target);
+      if (!prev[key]) return prev;
+      const next = { ...prev };
+      delete next[key];
+      return next;
+    });
+  }, []);
+
+  const removeFromContinueWatching = useCallback((contentId: string) => {
+    setWatchProgress(prev => Object.fromEntries(
+      Object.entries(prev).map(([key, entry]) => [key, entry.contentId === contentId ? { ...entry, dismissed: true } : entry])
+    ));
+  }, []);
+
+  const setWatchedThreshold = useCallback((threshold: number) => {
+    setWatchedThresholdInternal(Math.min(1, Math.max(0.5, threshold)));
+  }, []);
+
+  const value = {
+    watchProgress,
+    isLoading,
+    getProgress,
+    saveProgress,
+    setWatched,
+    clearProgress,
+    removeFromContinueWatching,
+    watchedThreshold,
+    setWatchedThreshold,
+  };
+
+  return <WatchStateContext.Provider value={value}>{children}</WatchStateContext.Provider>;
+};
+
+// Custom hook for easy consumption
+export const useWatchStateContext = () => {
+  const context = useContext(WatchStateContext);
+  if (context === undefined) {
+    throw new Error('useWatchStateContext must be used within a WatchStateProvider');
+  }
+  return context;
+};
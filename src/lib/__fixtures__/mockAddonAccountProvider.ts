@@ -0,0 +1,67 @@
+// An in-memory addon account service implementing AddonAccountProvider, for tests of the import
+// and export flows. Accounts are keyed by email; sessions stay valid until logout.
+
+import {
+  AddonAccountError,
+  type AccountAddon,
+  type AddonAccountProvider,
+} from '@/lib/addonAccounts';
+import type { AddonManifest } from '@/types/stremio';
+
+export interface MockAccount {
+  password: string;
+  addons: AccountAddon[];
+}
+
+export interface MockAddonAccountProvider extends AddonAccountProvider {
+  accounts: Record<string, MockAccount>;
+  loginAttempts: string[]; // Emails, in order
+}
+
+export const createMockAddonAccountProvider = (accounts: Record<string, MockAccount>): MockAddonAccountProvider => {
+  const sessions = new Map<string, string>(); // authKey -> email
+  const loginAttempts: string[] = [];
+
+  const getAccount = (authKey: string): MockAccount => {
+    const email = sessions.get(authKey);
+    if (!email) throw new AddonAccountError('Session expired');
+    return accounts[email];
+  };
+
+  return {
+    id: 'mock',
+    name: 'Mock Account',
+    accounts,
+    loginAttempts,
+
+    login: async (email, password) => {
+      loginAttempts.push(email);
+      if (accounts[email]?.password !== password) throw new AddonAccountError('Wrong email or password');
+      const authKey = `session-${sessions.size + 1}`;
+      sessions.set(authKey, email);
+      return { authKey, email };
+    },
+
+    logout: async (session) => {
+      sessions.delete(session.authKey);
+    },
+
+    getAddonCollection: async (session) => structuredClone(getAccount(session.authKey).addons),
+
+    setAddonCollection: async (session, addons) => {
+      getAccount(session.authKey).addons = structuredClone(addons);
+    },
+  };
+};
+
+export const createManifest = (id: string, version: string, catalogIds: string[] = []): AddonManifest => ({
+  id,
+  version,
+  name: id,
+  resources: ['catalog', 'stream'],
+  types: ['movie', 'series'],
+  catalogs: catalogIds.map(catalogId => {
+    const [type, catalog] = catalogId.split('/');
+    return { type, id: catalog, name: catalog };
+  }),
+});
@@ -0,0 +1,81 @@
+// A stand-in for stremio-server on a random local port. Each route answers with a JSON body,
+// optionally after a delay, and every request is recorded for the test to inspect.
+
+import { createServer, type IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface MockServerRequest {
+  method: string;
+  path: string;
+  body: unknown;
+}
+
+export interface MockServerReply {
+  status?: number; // Defaults to 200
+  body?: unknown;
+  delayMs?: number; // Wait this long before answering, e.g. to run into a client timeout
+}
+
+// Keyed by "METHOD /path", e.g. "POST /0123abcd/create"
+export type MockServerRoutes = Record<string, (request: MockServerRequest) => MockServerReply>;
+
+export interface MockStreamingServer {
+  url: string;
+  requests: MockServerRequest[];
+  close: () => Promise<void>;
+}
+
+const readBody = async (request: IncomingMessage): Promise<unknown> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString();
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+export const startMockStreamingServer = async (routes: MockServerRoutes): Promise<MockStreamingServer> => {
+  const requests: MockServerRequest[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+
+  const server = createServer(async (request, response) => {
+    const recorded = { method: request.method || 'GET', path: request.url || '/', body: await readBody(request) };
+    requests.push(recorded);
+    const route = routes[`${recorded.method} ${recorded.path}`];
+    const reply: MockServerReply = route ? route(recorded) : { status: 404, body: { error: 'Not found' } };
+
+    const send = () => {
+      response.writeHead(reply.status || 200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify(reply.body ?? {}));
+    };
+    if (!reply.delayMs) return send();
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      send();
+    }, reply.delayMs);
+    timers.add(timer);
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => {
+      timers.forEach(timer => clearTimeout(timer));
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+};
+
+// The URL of a local port nothing listens on
+export const getUnreachableServerUrl = async (): Promise<string> => {
+  const server = await startMockStreamingServer({});
+  await server.close();
+  return server.url;
+};
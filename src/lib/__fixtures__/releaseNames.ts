@@ -0,0 +1,172 @@
+// Release names as they show up in addon streams, with what parseReleaseName should read from them.
+// Only the listed fields are checked; null means the field must not be set.
+
+import type { ParsedRelease } from '@/lib/streamParser';
+
+export type ExpectedRelease = {
+  [K in keyof ParsedRelease]?: NonNullable<ParsedRelease[K]>['value'] | null;
+};
+
+export interface ReleaseNameFixture {
+  name: string;
+  expected: ExpectedRelease;
+}
+
+// --- HDR and Dolby Vision ---
+
+const HDR_FIXTURES: ReleaseNameFixture[] = [
+  {
+    name: 'Dune.Part.Two.2024.2160p.UHD.BluRay.REMUX.DV.P7.HDR10.TrueHD.Atmos.7.1-FraMeSToR.mkv',
+    expected: {
+      resolution: '2160p',
+      source: 'BluRay',
+      releaseType: 'remux',
+      hdr: ['DV', 'HDR10'],
+      dvProfile: 7,
+      audio: ['Atmos', 'TrueHD'],
+      channels: '7.1',
+      year: 2024,
+      releaseGroup: 'FraMeSToR',
+      codec: null,
+      threeD: null,
+    },
+  },
+  {
+    name: 'The.Boys.S04E01.2160p.AMZN.WEB-DL.DDP5.1.HDR10+.H.265-FLUX.mkv',
+    expected: {
+      resolution: '2160p',
+      source: 'WEB-DL',
+      codec: 'HEVC',
+      hdr: ['HDR10+'],
+      dvProfile: null,
+      audio: ['DD+'],
+      channels: '5.1',
+      seasons: [4],
+      episodes: [1],
+      seasonPack: null,
+      releaseGroup: 'FLUX',
+    },
+  },
+  {
+    name: 'Top.Gun.Maverick.2022.2160p.WEB-DL.DoVi.P8.HDR10Plus.DDP5.1.Atmos.H265-HONE',
+    expected: {
+      hdr: ['DV', 'HDR10+'],
+      dvProfile: 8,
+      audio: ['Atmos', 'DD+'],
+      codec: 'HEVC',
+      year: 2022,
+      releaseGroup: 'HONE',
+    },
+  },
+  {
+    name: 'Shogun.2024.S01E02.Servants.of.Two.Masters.2160p.DSNP.WEB-DL.DDP5.1.DV.HDR.H.265-NTb.mkv',
+    expected: {
+      hdr: ['DV', 'HDR'],
+      dvProfile: null,
+      seasons: [1],
+      episodes: [2],
+    },
+  },
+  {
+    name: 'Planet.Earth.II.S01E01.Islands.2160p.UHD.BluRay.x265.10bit.HLG.DTS-HD.MA.5.1-SWTYBLZ',
+    expected: {
+      hdr: ['HLG'],
+      bitDepth: 10,
+      releaseType: 'encode',
+      audio: ['DTS-HD MA'],
+    },
+  },
+];
+
+// --- Dolby Digital naming ---
+
+const AUDIO_FIXTURES: ReleaseNameFixture[] = [
+  {
+    name: 'The.Office.US.S02E05.720p.WEB-DL.DD5.1.H.264-NTb.mkv',
+    expected: { audio: ['DD'], channels: '5.1', codec: 'AVC', resolution: '720p' },
+  },
+  {
+    name: 'Gladiator.2000.1080p.BluRay.x264.AC3-ETRG',
+    expected: { audio: ['DD'], releaseType: 'encode', year: 2000, releaseGroup: 'ETRG' },
+  },
+  {
+    name: 'Severance.S02E01.Hello.Ms.Cobel.1080p.ATVP.WEB-DL.DD+5.1.H.264-FLUX',
+    expected: { audio: ['DD+'], channels: '5.1' },
+  },
+  {
+    name: 'Mad.Max.Fury.Road.2015.1080p.BluRay.E-AC3.7.1.x264-SbR',
+    expected: { audio: ['DD+'], channels: '7.1' },
+  },
+];
+
+// --- Remux vs encode ---
+
+const RELEASE_TYPE_FIXTURES: ReleaseNameFixture[] = [
+  {
+    name: 'The.Dark.Knight.2008.1080p.BluRay.REMUX.AVC.DTS-HD.MA.5.1-EPSiLON',
+    expected: { releaseType: 'remux', source: 'BluRay', codec: 'AVC', audio: ['DTS-HD MA'], year: 2008 },
+  },
+  {
+    name: 'Interstellar.2014.1080p.BluRay.x265.10bit.AAC5.1-RARBG',
+    expected: { releaseType: 'encode', codec: 'HEVC', bitDepth: 10, audio: ['AAC'], channels: '5.1', releaseGroup: 'RARBG' },
+  },
+  {
+    name: 'Succession.S04E03.Connors.Wedding.1080p.WEBRip.x265-RARBG',
+    expected: { releaseType: 'encode', source: 'WEBRip' },
+  },
+  {
+    // H.264 is how the service shipped it; nothing says it was re-encoded
+    name: 'The.Bear.S03E01.Tomorrow.1080p.DSNP.WEB-DL.DDP5.1.H.264-NTb',
+    expected: { releaseType: null, source: 'WEB-DL', codec: 'AVC' },
+  },
+];
+
+// --- Season packs and episode ranges ---
+
+const SEASON_FIXTURES: ReleaseNameFixture[] = [
+  {
+    name: 'Breaking.Bad.S01-S05.COMPLETE.1080p.BluRay.x264-ROVERS',
+    expected: { seasons: [1, 2, 3, 4, 5], seasonPack: true, episodes: null },
+  },
+  {
+    name: 'The.Wire.Season.1.1080p.BluRay.x264-DEMAND',
+    expected: { seasons: [1], seasonPack: true, episodes: null },
+  },
+  {
+    name: 'Shogun.2024.S01.2160p.DSNP.WEB-DL.DDP5.1.DV.HDR.H.265-NTb',
+    expected: { seasons: [1], seasonPack: true, episodes: null, year: 2024 },
+  },
+  {
+    name: 'Chernobyl.S01E01-E03.1080p.AMZN.WEB-DL.DDP5.1.H.264-NTb',
+    expected: { seasons: [1], episodes: [1, 2, 3], seasonPack: null },
+  },
+  {
+    name: 'Friends.Complete.Series.1080p.BluRay.x265-SiQ',
+    expected: { seasonPack: true, seasons: null },
+  },
+];
+
+// --- 3D ---
+
+const THREE_D_FIXTURES: ReleaseNameFixture[] = [
+  {
+    name: 'Avatar.2009.1080p.3D.HSBS.BluRay.x264-YTS',
+    expected: { threeD: 'SBS', resolution: '1080p', year: 2009 },
+  },
+  {
+    name: 'Gravity.2013.3D.1080p.BluRay.Half-OU.DTS-HD.MA.5.1-RARBG',
+    expected: { threeD: 'OU', audio: ['DTS-HD MA'], channels: '5.1', releaseGroup: 'RARBG' },
+  },
+  {
+    name: 'Hugo.2011.3D.1080p.BluRay.AVC.DTS-HD.MA.5.1-FGT',
+    expected: { threeD: '3D', codec: 'AVC' },
+  },
+];
+
+export const RELEASE_NAME_FIXTURES: ReleaseNameFixture[] = [
+  ...HDR_FIXTURES,
+  ...AUDIO_FIXTURES,
+  ...RELEASE_TYPE_FIXTURES,
+  ...SEASON_FIXTURES,
+  ...THREE_D_FIXTURES,
+];
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AddonAccountError,
+  createStremioAccountProvider,
+  mergeAccountAddons,
+  previewAddonImport,
+  type AccountAddon,
+} from '@/lib/addonAccounts';
+import type { InstalledAddon } from '@/types/stremio';
+import { createManifest, createMockAddonAccountProvider } from '@/lib/__fixtures__/mockAddonAccountProvider';
+
+const EMAIL = 'viewer@example.com';
+const PASSWORD = 'correct horse battery staple';
+
+const CINEMETA_URL = 'https://v3-cinemeta.strem.io/manifest.json';
+const TORRENTIO_URL = 'https://torrentio.strem.fun/manifest.json';
+const TORRENTIO_CONFIGURED_URL = 'https://torrentio.strem.fun/qualityfilter=scr,cam/manifest.json';
+const KITSU_URL = 'https://anime-kitsu.strem.fun/manifest.json';
+const WATCHHUB_URL = 'https://watchhub.strem.io/manifest.json';
+const OPENSUBTITLES_URL = 'https://opensubtitles-v3.strem.io/manifest.json';
+
+const installedAddons = (): InstalledAddon[] => [
+  { ...createManifest('com.linvo.cinemeta', '3.0.13', ['movie/top', 'series/top']), manifestUrl: CINEMETA_URL, selectedCatalogIds: ['movie/top'] },
+  { ...createManifest('com.stremio.torrentio.addon', '0.0.14', ['movie/popular', 'series/popular']), manifestUrl: TORRENTIO_URL, selectedCatalogIds: ['movie/popular'], useProxy: true },
+  { ...createManifest('org.stremio.opensubtitlesv3', '1.0.0'), manifestUrl: OPENSUBTITLES_URL },
+];
+
+const accountAddons = (): AccountAddon[] => [
+  { manifestUrl: CINEMETA_URL, manifest: createManifest('com.linvo.cinemeta', '3.0.13', ['movie/top', 'series/top']), flags: { official: true, protected: true } },
+  { manifestUrl: TORRENTIO_CONFIGURED_URL, manifest: createManifest('com.stremio.torrentio.addon', '0.0.15', ['series/popular']) },
+  { manifestUrl: KITSU_URL, manifest: createManifest('com.stremio.kitsu', '0.0.10', ['anime/kitsu-anime-trending']) },
+  { manifestUrl: WATCHHUB_URL, manifest: createManifest('org.stremio.watchhub', '0.3.0') },
+];
+
+const createProvider = () => createMockAddonAccountProvider({ [EMAIL]: { password: PASSWORD, addons: accountAddons() } });
+
+describe('login', () => {
+  it('rejects a wrong password and leaves no session to import with', async () => {
+    const provider = createProvider();
+
+    await expect(provider.login(EMAIL, 'wrong password')).rejects.toBeInstanceOf(AddonAccountError);
+    await expect(provider.getAddonCollection({ authKey: 'session-1', email: EMAIL })).rejects.toThrow('Session expired');
+
+    const session = await provider.login(EMAIL, PASSWORD);
+    await expect(provider.getAddonCollection(session)).resolves.toHaveLength(4);
+    expect(provider.loginAttempts).toEqual([EMAIL, EMAIL]);
+  });
+});
+
+describe('partial import', () => {
+  it('previews what each account addon would do', async () => {
+    const provider = createProvider();
+    const session = await provider.login(EMAIL, PASSWORD);
+
+    const items = previewAddonImport(installedAddons(), await provider.getAddonCollection(session));
+
+    expect(items.map(item => [item.addon.manifestUrl, item.action, item.existingUrl])).toEqual([
+      [CINEMETA_URL, 'unchanged', CINEMETA_URL],
+      [TORRENTIO_CONFIGURED_URL, 'update', TORRENTIO_URL],
+      [KITSU_URL, 'add', undefined],
+      [WATCHHUB_URL, 'add', undefined],
+    ]);
+  });
+
+  it('installs only the chosen addons and keeps the rest as they were', async () => {
+    const provider = createProvider();
+    const session = await provider.login(EMAIL, PASSWORD);
+    const installed = installedAddons();
+    const items = previewAddonImport(installed, await provider.getAddonCollection(session));
+
+    const chosen = items.filter(item => item.addon.manifestUrl === TORRENTIO_CONFIGURED_URL || item.addon.manifestUrl === KITSU_URL);
+    const merged = mergeAccountAddons(installed, chosen);
+
+    expect(merged.map(addon => addon.manifestUrl)).toEqual([TORRENTIO_CONFIGURED_URL, KITSU_URL, CINEMETA_URL, OPENSUBTITLES_URL]);
+    const torrentio = merged[0];
+    expect(torrentio.version).toBe('0.0.15');
+    expect(torrentio.selectedCatalogIds).toEqual([]); // "movie/popular" no longer exists
+    expect(torrentio.useProxy).toBe(true);
+    expect(merged[1].selectedCatalogIds).toEqual(['anime/kitsu-anime-trending']);
+    expect(merged[2]).toEqual(installed[0]);
+  });
+
+  it('selects catalogs an update adds unless the addon ignores new catalogs', () => {
+    const account: AccountAddon[] = [{
+      manifestUrl: CINEMETA_URL,
+      manifest: createManifest('com.linvo.cinemeta', '3.0.14', ['movie/top', 'series/top', 'movie/imdbRating']),
+    }];
+    const importAll = (installed: InstalledAddon[]) => mergeAccountAddons(installed, previewAddonImport(installed, account));
+
+    const [selecting] = importAll(installedAddons());
+    expect(selecting.selectedCatalogIds).toEqual(['movie/top', 'movie/imdbRating']);
+
+    const [ignoring] = importAll(installedAddons().map(addon => ({ ...addon, newCatalogPolicy: 'ignore' as const })));
+    expect(ignoring.selectedCatalogIds).toEqual(['movie/top']);
+    expect(ignoring.newCatalogPolicy).toBe('ignore');
+  });
+});
+
+describe('Stremio provider', () => {
+  const API_URL = 'https://api.example.com';
+
+  const stubApi = (result: unknown) => {
+    const fetchMock = vi.fn(async () => Response.json(result));
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('turns a login error from the API into an AddonAccountError', async () => {
+    const fetchMock = stubApi({ error: { message: 'Wrong passphrase', code: 3 } });
+    const provider = createStremioAccountProvider(API_URL);
+
+    await expect(provider.login(EMAIL, 'wrong password')).rejects.toThrow(new AddonAccountError('Wrong passphrase'));
+    expect(fetchMock).toHaveBeenCalledTimes(1); // Login is never retried
+    expect(fetchMock.mock.calls[0]).toEqual([
+      `${API_URL}/api/login`,
+      expect.objectContaining({ method: 'POST', body: JSON.stringify({ type: 'Login', email: EMAIL, password: 'wrong password', facebook: false }) }),
+    ]);
+  });
+
+  it('fails a login that returns no session', async () => {
+    stubApi({ result: { user: { email: EMAIL } } });
+
+    await expect(createStremioAccountProvider(API_URL).login(EMAIL, PASSWORD))
+      .rejects.toThrow('The account service did not return a session');
+  });
+
+  it('skips collection entries without a URL or a usable manifest', async () => {
+    stubApi({
+      result: {
+        addons: [
+          { transportUrl: CINEMETA_URL, manifest: createManifest('com.linvo.cinemeta', '3.0.13'), flags: { protected: true } },
+          { manifest: createManifest('org.example.nourl', '1.0.0') },
+          { transportUrl: 'https://broken.example.com/manifest.json', manifest: { id: 'org.example.broken' } },
+          { transportUrl: KITSU_URL, manifest: createManifest('com.stremio.kitsu', '0.0.10') },
+        ],
+      },
+    });
+
+    const collection = await createStremioAccountProvider(API_URL).getAddonCollection({ authKey: 'key', email: EMAIL });
+
+    expect(collection.map(addon => addon.manifestUrl)).toEqual([CINEMETA_URL, KITSU_URL]);
+    expect(collection[0].flags).toEqual({ protected: true });
+    expect(collection[1]).not.toHaveProperty('flags');
+  });
+});
@@ -0,0 +1,183 @@
+// Importing and exporting the addon collection of an external account (Stremio and compatible
+// APIs). Providers implement AddonAccountProvider, so the UI doesn't depend on one service and
+// a local provider can stand in for the real API.
+
+import type { AddonManifest, InstalledAddon } from '@/types/stremio';
+import { getCatalogUniqueId } from '@/lib/addonClient';
+import { diffManifests, getUpdatedCatalogSelection } from '@/lib/addonUpdates';
+import { fetchJsonWithPolicy } from '@/lib/network';
+
+export const STREMIO_API_URL = 'https://api.strem.io';
+
+// One addon in an account's collection, in the account's order
+export interface AccountAddon {
+  manifestUrl: string; // Includes the addon's configuration, if any
+  manifest: AddonManifest;
+  flags?: { official?: boolean; protected?: boolean }; // Protected addons can't be removed from the account
+}
+
+export interface AddonAccountSession {
+  authKey: string;
+  email: string;
+}
+
+export interface AddonAccountProvider {
+  id: string;
+  name: string;
+  login: (email: string, password: string) => Promise<AddonAccountSession>;
+  logout: (session: AddonAccountSession) => Promise<void>;
+  getAddonCollection: (session: AddonAccountSession) => Promise<AccountAddon[]>;
+  setAddonCollection: (session: AddonAccountSession, addons: AccountAddon[]) => Promise<void>;
+}
+
+export class AddonAccountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AddonAccountError';
+  }
+}
+
+// --- Stremio API ---
+
+// Addon descriptor as the Stremio API stores it
+interface StremioAddonDescriptor {
+  transportUrl?: string;
+  transportName?: string;
+  manifest?: AddonManifest;
+  flags?: AccountAddon['flags'];
+}
+
+interface StremioApiResponse<T> {
+  result?: T;
+  error?: { message?: string; code?: number };
+}
+
+// The Stremio API answers every call with 200 and reports failures in `error`
+const callStremioApi = async <T>(apiUrl: string, method: string, body: Record<string, unknown>): Promise<T> => {
+  const response = await fetchJsonWithPolicy<StremioApiResponse<T>>(`${apiUrl}/api/${method}`, { retries: 0 }, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (response.error || response.result === undefined) {
+    throw new AddonAccountError(response.error?.message || `The account service didn't answer ${method}`);
+  }
+  return response.result;
+};
+
+const isValidManifest = (manifest: unknown): manifest is AddonManifest =>
+  !!manifest && typeof manifest === 'object' && typeof (manifest as AddonManifest).id === 'string' && typeof (manifest as AddonManifest).name === 'string';
+
+export const createStremioAccountProvider = (apiUrl: string = STREMIO_API_URL): AddonAccountProvider => ({
+  id: 'stremio',
+  name: 'Stremio',
+
+  login: async (email, password) => {
+    const result = await callStremioApi<{ authKey?: string; user?: { email?: string } }>(apiUrl, 'login', {
+      type: 'Login',
+      email,
+      password,
+      facebook: false,
+    });
+    if (!result.authKey) throw new AddonAccountError('The account service did not return a session');
+    return { authKey: result.authKey, email: result.user?.email || email };
+  },
+
+  logout: async (session) => {
+    await callStremioApi(apiUrl, 'logout', { type: 'Logout', authKey: session.authKey });
+  },
+
+  getAddonCollection: async (session) => {
+    const result = await callStremioApi<{ addons?: StremioAddonDescriptor[] }>(apiUrl, 'addonCollectionGet', {
+      type: 'AddonCollectionGet',
+      authKey: session.authKey,
+      update: true,
+    });
+    return (result.addons || [])
+      .filter(descriptor => descriptor.transportUrl && isValidManifest(descriptor.manifest))
+      .map(descriptor => ({
+        manifestUrl: descriptor.transportUrl!,
+        manifest: descriptor.manifest!,
+        ...(descriptor.flags ? { flags: descriptor.flags } : {}),
+      }));
+  },
+
+  setAddonCollection: async (session, addons) => {
+    await callStremioApi(apiUrl, 'addonCollectionSet', {
+      type: 'AddonCollectionSet',
+      authKey: session.authKey,
+      addons: addons.map(addon => ({
+        transportUrl: addon.manifestUrl,
+        transportName: 'http',
+        manifest: addon.manifest,
+        flags: addon.flags || {},
+      })),
+    });
+  },
+});
+
+// --- Import ---
+
+export type AddonImportAction = 'add' | 'update' | 'unchanged';
+
+export interface AddonImportItem {
+  addon: AccountAddon;
+  action: AddonImportAction;
+  existingUrl?: string; // The installed addon it replaces
+}
+
+// What importing each account addon would do. An installed addon matches by URL first, then
+// by manifest ID, so an addon configured differently on the account is updated to that URL.
+export const previewAddonImport = (installed: InstalledAddon[], accountAddons: AccountAddon[]): AddonImportItem[] => {
+  const matchedUrls = new Set<string>();
+  return accountAddons.map(addon => {
+    const existing = installed.find(item => item.manifestUrl === addon.manifestUrl && !matchedUrls.has(item.manifestUrl))
+      || installed.find(item => item.id === addon.manifest.id && !matchedUrls.has(item.manifestUrl));
+    if (!existing) return { addon, action: 'add' };
+    matchedUrls.add(existing.manifestUrl);
+    const unchanged = existing.manifestUrl === addon.manifestUrl && existing.version === addon.manifest.version;
+    return { addon, action: unchanged ? 'unchanged' : 'update', existingUrl: existing.manifestUrl };
+  });
+};
+
+// Installs the chosen items in the account's order, ahead of the addons only installed here.
+// Updated addons keep their proxy setting and new catalog policy, and their catalog selection
+// changes the way a manifest refresh would change it (see getUpdatedCatalogSelection).
+export const mergeAccountAddons = (installed: InstalledAddon[], items: AddonImportItem[]): InstalledAddon[] => {
+  const replacedUrls = new Set(items.map(item => item.existingUrl).filter((url): url is string => !!url));
+  const imported = items.map(({ addon, existingUrl }): InstalledAddon => {
+    const existing = existingUrl ? installed.find(item => item.manifestUrl === existingUrl) : undefined;
+    const catalogIds = (addon.manifest.catalogs || []).map(getCatalogUniqueId);
+    return {
+      ...addon.manifest,
+      manifestUrl: addon.manifestUrl,
+      selectedCatalogIds: existing?.selectedCatalogIds
+        ? getUpdatedCatalogSelection(existing, diffManifests(existing, addon.manifest))
+        : catalogIds,
+      ...(existing?.useProxy ? { useProxy: true } : {}),
+      ...(existing?.newCatalogPolicy ? { newCatalogPolicy: existing.newCatalogPolicy } : {}),
+    };
+  });
+  return [...imported, ...installed.filter(addon => !replacedUrls.has(addon.manifestUrl))];
+};
+
+// --- Export ---
+
+// The account collection that mirrors the installed addons. Protected addons stay on the account
+// even when they aren't installed here, and flags survive for addons the account already has.
+export const buildAccountCollection = (installed: InstalledAddon[], current: AccountAddon[]): AccountAddon[] => {
+  const currentByUrl = new Map(current.map(addon => [addon.manifestUrl, addon]));
+  const collection = installed.map((addon): AccountAddon => {
+    const manifest: AddonManifest & Partial<InstalledAddon> = { ...addon };
+    delete manifest.manifestUrl;
+    delete manifest.selectedCatalogIds;
+    delete manifest.useProxy;
+    delete manifest.newCatalogPolicy;
+    delete manifest.manifestCheckedAt;
+    const flags = currentByUrl.get(addon.manifestUrl)?.flags;
+    return { manifestUrl: addon.manifestUrl, manifest, ...(flags ? { flags } : {}) };
+  });
+  const installedUrls = new Set(installed.map(addon => addon.manifestUrl));
+  const keptProtected = current.filter(addon => addon.flags?.protected && !installedUrls.has(addon.manifestUrl));
+  return [...keptProtected, ...collection];
+};
@@ -0,0 +1,229 @@
+// Typed client for the Stremio addon protocol.
+// Every addon request in the app goes through here so URL building, extras encoding
+// and response parsing only have to be fixed in one place.
+
+import type {
+  AddonCatalog,
+  AddonCatalogResponse,
+  AddonManifest,
+  AddonResourceName,
+  AddonStream,
+  AddonSubtitle,
+  CatalogResponse,
+  InstalledAddon,
+  MetaDetail,
+  MetaPreview,
+  MetaResponse,
+  ResourceExtras,
+  StreamResponse,
+  SubtitlesResponse,
+} from '@/types/stremio';
+import { fetchJsonWithPolicy, type RequestOptions } from '@/lib/network';
+
+// Anything with a manifest URL can be queried (installed addons, or a bare { manifestUrl })
+type AddonLike = Pick<InstalledAddon, 'manifestUrl' | 'useProxy'>;
+
+export const ADDON_PROXY_ROUTE = '/api/addon-proxy';
+
+// --- URL helpers ---
+
+// "https://host/path/manifest.json" -> "https://host/path"
+export const getAddonBaseUrl = (manifestUrl: string): string => {
+  return manifestUrl.replace(/\/manifest\.json(\?.*)?$/, '').replace(/\/+$/, '');
+};
+
+export const getCatalogUniqueId = (catalog: Pick<AddonCatalog, 'type' | 'id'>) => `${catalog.type}/${catalog.id}`;
+
+// Encode extras the way Stremio does: "genre=Action&skip=100". Empty values are dropped.
+export const encodeExtras = (extras?: ResourceExtras): string => {
+  if (!extras) return '';
+  return Object.entries(extras)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([name, value]) => `${encodeURIComponent(name)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+};
+
+// IDs keep their ':' separators (e.g. "tt0903747:1:2"), everything else is percent-encoded
+const encodeResourceId = (id: string) => encodeURIComponent(id).replace(/%3A/gi, ':');
+
+export const buildResourceUrl = (
+  addon: AddonLike,
+  resource: AddonResourceName,
+  type: string,
+  id: string,
+  extras?: ResourceExtras
+): string => {
+  const baseUrl = getAddonBaseUrl(addon.manifestUrl);
+  const encodedExtras = encodeExtras(extras);
+  const extraSegment = encodedExtras ? `/${encodedExtras}` : '';
+  return `${baseUrl}/${resource}/${encodeURIComponent(type)}/${encodeResourceId(id)}${extraSegment}.json`;
+};
+
+// --- Manifest matching ---
+
+// Whether the addon declares `resource`, optionally for a given type and ID.
+// String resources inherit the manifest-level `types`/`idPrefixes`.
+export const addonSupportsResource = (
+  addon: AddonManifest,
+  resource: AddonResourceName,
+  type?: string,
+  id?: string
+): boolean => {
+  if (!addon.resources) return false;
+  return addon.resources.some(entry => {
+    const name = typeof entry === 'string' ? entry : entry.name;
+    if (name !== resource) return false;
+
+    const types = (typeof entry === 'object' && entry.types) || addon.types;
+    const idPrefixes = (typeof entry === 'object' && entry.idPrefixes) || addon.idPrefixes;
+
+    if (type && Array.isArray(types) && types.length > 0 && !types.includes(type)) return false;
+    if (id && Array.isArray(idPrefixes) && idPrefixes.length > 0 && !idPrefixes.some(prefix => id.startsWith(prefix))) return false;
+    return true;
+  });
+};
+
+// Names of the extras a catalog accepts, from either `extra` or the legacy `extraSupported`
+export const getCatalogExtraNames = (catalog: AddonCatalog): string[] => {
+  const names = new Set<string>(catalog.extraSupported || []);
+  catalog.extra?.forEach(extra => names.add(extra.name));
+  return Array.from(names);
+};
+
+export const catalogSupportsExtra = (catalog: AddonCatalog, extraName: string): boolean =>
+  getCatalogExtraNames(catalog).includes(extraName);
+
+// A catalog with a required extra (e.g. search-only catalogs) can't be listed on its own
+export const catalogRequiresExtra = (catalog: AddonCatalog, extraName?: string): boolean => {
+  const required = new Set<string>(catalog.extraRequired || []);
+  catalog.extra?.forEach(extra => { if (extra.isRequired) required.add(extra.name); });
+  return extraName ? required.has(extraName) : required.size > 0;
+};
+
+// --- Response parsing ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseMetaPreview = (raw: unknown): MetaPreview | null => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || !raw.id) return null;
+  return {
+    ...(raw as unknown as MetaPreview),
+    type: typeof raw.type === 'string' ? raw.type : '',
+    name: typeof raw.name === 'string' ? raw.name : raw.id,
+  };
+};
+
+export const parseCatalogResponse = (data: unknown): CatalogResponse => {
+  const metas = isObject(data) && Array.isArray(data.metas) ? data.metas : [];
+  return {
+    metas: metas.map(parseMetaPreview).filter((meta): meta is MetaPreview => meta !== null),
+  };
+};
+
+export const parseMetaResponse = (data: unknown): MetaResponse => {
+  if (!isObject(data) || !isObject(data.meta)) return { meta: null };
+  const meta = data.meta;
+  if (typeof meta.id !== 'string' || typeof meta.name !== 'string' || typeof meta.type !== 'string') {
+    return { meta: null };
+  }
+  return { meta: meta as unknown as MetaDetail };
+};
+
+export const parseStreamResponse = (data: unknown): StreamResponse => {
+  const streams = isObject(data) && Array.isArray(data.streams) ? data.streams : [];
+  return {
+    // A playable stream needs at least one of these sources
+    streams: streams.filter((stream): stream is AddonStream =>
+      isObject(stream) && !!(stream.url || stream.ytId || stream.infoHash || stream.externalUrl)
+    ),
+  };
+};
+
+export const parseSubtitlesResponse = (data: unknown): SubtitlesResponse => {
+  const subtitles = isObject(data) && Array.isArray(data.subtitles) ? data.subtitles : [];
+  return {
+    subtitles: subtitles.filter((sub): sub is AddonSubtitle =>
+      isObject(sub) && typeof sub.url === 'string' && typeof sub.lang === 'string'
+    ),
+  };
+};
+
+export const parseAddonCatalogResponse = (data: unknown): AddonCatalogResponse => {
+  const addons = isObject(data) && Array.isArray(data.addons) ? data.addons : [];
+  return {
+    addons: addons.filter((entry): entry is AddonCatalogResponse['addons'][number] =>
+      isObject(entry) && typeof entry.transportUrl === 'string' && isObject(entry.manifest)
+    ),
+  };
+};
+
+// --- Requests ---
+
+// "https://addon/stream/movie/tt1.json" -> "/api/addon-proxy?url=https%3A%2F%2Faddon%2F..."
+export const buildProxiedAddonUrl = (url: string) => `${ADDON_PROXY_ROUTE}?url=${encodeURIComponent(url)}`;
+
+// All requests accept RequestOptions (signal, timeout, retries); see lib/network
+const fetchJson = (url: string, options?: RequestOptions, useProxy?: boolean): Promise<unknown> =>
+  fetchJsonWithPolicy(useProxy ? buildProxiedAddonUrl(url) : url, options);
+
+export const fetchManifest = async (manifestUrl: string, options?: RequestOptions, useProxy?: boolean): Promise<AddonManifest> => {
+  const manifest = await fetchJson(manifestUrl, options, useProxy) as AddonManifest;
+  if (!isObject(manifest) || !manifest.id || !manifest.version || !manifest.name) {
+    throw new Error('Manifest is missing required fields (id, version, name).');
+  }
+  return manifest;
+};
+
+export const fetchCatalog = async (
+  addon: AddonLike,
+  type: string,
+  catalogId: string,
+  extras?: ResourceExtras,
+  options?: RequestOptions
+): Promise<CatalogResponse> => {
+  return parseCatalogResponse(await fetchJson(buildResourceUrl(addon, 'catalog', type, catalogId, extras), options, addon.useProxy));
+};
+
+export const fetchMeta = async (
+  addon: AddonLike,
+  type: string,
+  id: string,
+  extras?: ResourceExtras,
+  options?: RequestOptions
+): Promise<MetaResponse> => {
+  return parseMetaResponse(await fetchJson(buildResourceUrl(addon, 'meta', type, id, extras), options, addon.useProxy));
+};
+
+export const fetchStreams = async (
+  addon: AddonLike,
+  type: string,
+  videoId: string,
+  options?: RequestOptions
+): Promise<StreamResponse> => {
+  return parseStreamResponse(await fetchJson(buildResourceUrl(addon, 'stream', type, videoId), options, addon.useProxy));
+};
+
+export const fetchSubtitles = async (
+  addon: AddonLike,
+  type: string,
+  videoId: string,
+  extras?: ResourceExtras,
+  options?: RequestOptions
+): Promise<SubtitlesResponse> => {
+  return parseSubtitlesResponse(await fetchJson(buildResourceUrl(addon, 'subtitles', type, videoId, extras), options, addon.useProxy));
+};
+
+export const fetchAddonCatalog = async (
+  addon: AddonLike,
+  type: string,
+  catalogId: string,
+  options?: RequestOptions
+): Promise<AddonCatalogResponse> => {
+  return parseAddonCatalogResponse(await fetchJson(buildResourceUrl(addon, 'addon_catalog', type, catalogId), options, addon.useProxy));
+};
+
+// Builds the stream video ID: "tt123" for movies, "tt123:1:2" for an episode
+export const buildVideoId = (id: string, season?: number | null, episode?: number | null): string => {
+  return season && episode ? `${id}:${season}:${episode}` : id;
+};
@@ -0,0 +1,46 @@
+// Addon priority. The order of installedAddons is the global priority: the first addon is asked
+// first for metadata, its streams win ties, and its catalogs come first on the home page.
+// Each resource can override that order; addons missing from an override follow in global order.
+
+import type { InstalledAddon } from '@/types/stremio';
+import { addonSupportsResource } from '@/lib/addonClient';
+
+export type AddonPriorityResource = 'catalog' | 'meta' | 'stream' | 'subtitles';
+
+// Manifest URLs in priority order, per resource
+export type AddonResourceOrder = Partial<Record<AddonPriorityResource, string[]>>;
+
+export const ADDON_PRIORITY_RESOURCES: { resource: AddonPriorityResource; label: string }[] = [
+  { resource: 'catalog', label: 'Home rows' },
+  { resource: 'meta', label: 'Details' },
+  { resource: 'stream', label: 'Streams' },
+  { resource: 'subtitles', label: 'Subtitles' },
+];
+
+export const moveItem = <T>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  if (fromIndex === toIndex || fromIndex < 0 || toIndex < 0 || fromIndex >= items.length || toIndex >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, moved);
+  return next;
+};
+
+export const sortAddonsByPriority = (addons: InstalledAddon[], order?: string[]): InstalledAddon[] => {
+  if (!order || order.length === 0) return addons;
+  const rank = (addon: InstalledAddon) => {
+    const index = order.indexOf(addon.manifestUrl);
+    return index === -1 ? order.length : index;
+  };
+  // Array.prototype.sort is stable, so unlisted addons keep their global order
+  return [...addons].sort((a, b) => rank(a) - rank(b));
+};
+
+// Addons that provide a resource, for the per-resource order editor
+export const getAddonsProvidingResource = (addons: InstalledAddon[], resource: AddonPriorityResource) =>
+  addons.filter(addon => (resource === 'catalog' ? (addon.catalogs?.length || 0) > 0 : addonSupportsResource(addon, resource)));
+
+// Position of an addon in a priority list, by addon ID; unknown addons go last
+export const getAddonPriorityIndex = (addons: InstalledAddon[], addonId: string) => {
+  const index = addons.findIndex(addon => addon.id === addonId);
+  return index === -1 ? addons.length : index;
+};
@@ -0,0 +1,80 @@
+// Manifest refresh for installed addons: what changed between the installed manifest and the
+// addon's current one, and how that is applied to an InstalledAddon.
+
+import type { AddonManifest, AddonResource, InstalledAddon, NewCatalogPolicy } from '@/types/stremio';
+import { getCatalogUniqueId } from '@/lib/addonClient';
+
+export const DEFAULT_NEW_CATALOG_POLICY: NewCatalogPolicy = 'select';
+export const MANIFEST_REFRESH_INTERVAL_MS = 12 * 60 * 60 * 1000;
+
+export interface ManifestDiff {
+  previousVersion: string;
+  version: string;
+  addedCatalogs: string[]; // Catalog IDs like "movie/top"
+  removedCatalogs: string[];
+  addedResources: string[];
+  removedResources: string[];
+}
+
+// Outcome of the last refresh of one addon (kept for the session, keyed by manifest URL)
+export interface AddonRefreshResult {
+  checkedAt: number;
+  diff?: ManifestDiff; // Only when something changed
+  error?: string; // The manifest URL failed; the installed manifest stays as it was
+}
+
+const getResourceName = (resource: AddonResource) => (typeof resource === 'string' ? resource : resource.name);
+
+const difference = (from: string[], to: string[]) => from.filter(item => !to.includes(item));
+
+export const diffManifests = (previous: AddonManifest, next: AddonManifest): ManifestDiff => {
+  const previousCatalogs = (previous.catalogs || []).map(getCatalogUniqueId);
+  const nextCatalogs = (next.catalogs || []).map(getCatalogUniqueId);
+  const previousResources = Array.from(new Set((previous.resources || []).map(getResourceName)));
+  const nextResources = Array.from(new Set((next.resources || []).map(getResourceName)));
+  return {
+    previousVersion: previous.version,
+    version: next.version,
+    addedCatalogs: difference(nextCatalogs, previousCatalogs),
+    removedCatalogs: difference(previousCatalogs, nextCatalogs),
+    addedResources: difference(nextResources, previousResources),
+    removedResources: difference(previousResources, nextResources),
+  };
+};
+
+export const hasManifestChanges = (diff: ManifestDiff) =>
+  diff.previousVersion !== diff.version ||
+  diff.addedCatalogs.length > 0 ||
+  diff.removedCatalogs.length > 0 ||
+  diff.addedResources.length > 0 ||
+  diff.removedResources.length > 0;
+
+// The addon's catalog selection after a manifest change: selections of removed catalogs are
+// dropped, and new catalogs are selected or not per the addon's policy
+export const getUpdatedCatalogSelection = (addon: InstalledAddon, diff: ManifestDiff): string[] => {
+  const policy = addon.newCatalogPolicy || DEFAULT_NEW_CATALOG_POLICY;
+  const selected = (addon.selectedCatalogIds || []).filter(id => !diff.removedCatalogs.includes(id));
+  return policy === 'select' ? [...selected, ...diff.addedCatalogs] : selected;
+};
+
+// The addon with its refreshed manifest and updated catalog selection. Local settings are kept.
+export const applyManifestUpdate = (addon: InstalledAddon, manifest: AddonManifest, diff: ManifestDiff, checkedAt: number): InstalledAddon => ({
+  ...manifest,
+  manifestUrl: addon.manifestUrl,
+  selectedCatalogIds: getUpdatedCatalogSelection(addon, diff),
+  ...(addon.useProxy ? { useProxy: true } : {}),
+  ...(addon.newCatalogPolicy ? { newCatalogPolicy: addon.newCatalogPolicy } : {}),
+  manifestCheckedAt: checkedAt,
+});
+
+export const isManifestRefreshDue = (addon: InstalledAddon, now: number) =>
+  !addon.manifestCheckedAt || now - addon.manifestCheckedAt >= MANIFEST_REFRESH_INTERVAL_MS;
+
+// Short summary for the Addons page, e.g. "v1.2.0 → v1.3.0 · 2 new catalogs"
+export const describeManifestDiff = (diff: ManifestDiff) => [
+  diff.previousVersion !== diff.version ? `v${diff.previousVersion} → v${diff.version}` : null,
+  diff.addedCatalogs.length ? `${diff.addedCatalogs.length} new catalog(s)` : null,
+  diff.removedCatalogs.length ? `${diff.removedCatalogs.length} catalog(s) removed` : null,
+  diff.addedResources.length ? `now provides ${diff.addedResources.join(', ')}` : null,
+  diff.removedResources.length ? `no longer provides ${diff.removedResources.join(', ')}` : null,
+].filter(Boolean).join(' · ');
@@ -0,0 +1,312 @@
+// Backup files: everything a profile has saved (addons and catalog selections, TMDB config,
+// stream profiles, streaming server, watch history, library, parental controls, addon priority,
+// home layout) in one schema-versioned JSON file. Older versions are migrated on import, one
+// version at a time.
+
+import type { InstalledAddon } from '@/types/stremio';
+import type { StreamProfile } from '@/lib/streamRanking';
+import type { WatchProgress } from '@/lib/watchState';
+import type { LibraryItem } from '@/lib/library';
+import type { ParentalSettings } from '@/lib/parentalControls';
+import type { AddonResourceOrder } from '@/lib/addonPriority';
+import type { HomeLayout } from '@/lib/homeLayout';
+import { profileStorageKey } from '@/lib/profiles';
+
+export const BACKUP_FORMAT = 'nuvio-backup';
+export const BACKUP_VERSION = 1;
+
+// Every section is optional: a missing section leaves that data alone on import
+export interface BackupData {
+  addons?: InstalledAddon[];
+  tmdb?: { apiKey: string | null; enabled: boolean; useProxy: boolean };
+  streamProfiles?: { profiles: StreamProfile[]; activeId: string | null };
+  streamingServer?: { url: string | null; hideUnplayableStreams: boolean };
+  watchHistory?: { entries: Record<string, WatchProgress>; watchedThreshold: number | null };
+  library?: LibraryItem[];
+  parentalControls?: ParentalSettings;
+  addonPriority?: AddonResourceOrder;
+  homeLayout?: HomeLayout;
+}
+
+export type BackupSection = keyof BackupData;
+
+export const BACKUP_SECTION_LABELS: Record<BackupSection, string> = {
+  addons: 'Addons & catalogs',
+  tmdb: 'TMDB settings',
+  streamProfiles: 'Stream profiles',
+  streamingServer: 'Streaming server',
+  watchHistory: 'Watch history',
+  library: 'My List',
+  parentalControls: 'Parental controls',
+  addonPriority: 'Addon priority',
+  homeLayout: 'Home layout',
+};
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string; // ISO date
+  profileName?: string;
+  data: BackupData;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// --- Storage ---
+
+const readJson = <T>(key: string): T | undefined => {
+  const stored = localStorage.getItem(profileStorageKey(key));
+  if (stored === null) return undefined;
+  try {
+    return JSON.parse(stored) as T;
+  } catch {
+    return undefined;
+  }
+};
+
+const readString = (key: string) => localStorage.getItem(profileStorageKey(key));
+
+const writeJson = (key: string, value: unknown) => localStorage.setItem(profileStorageKey(key), JSON.stringify(value));
+
+const writeString = (key: string, value: string | null) => {
+  if (value) localStorage.setItem(profileStorageKey(key), value);
+  else localStorage.removeItem(profileStorageKey(key));
+};
+
+// The active profile's data, read the way each context stores it
+export const readBackupData = (): BackupData => ({
+  addons: readJson<InstalledAddon[]>('installedAddonsData') || readJson<InstalledAddon[]>('installedAddons') || [],
+  tmdb: {
+    apiKey: readString('tmdbConfig_apiKey'),
+    enabled: readJson<boolean>('tmdbConfig_isEnabled') ?? true,
+    useProxy: readJson<boolean>('tmdbConfig_useProxy') ?? false,
+  },
+  streamProfiles: readJson<StreamProfile[]>('streamProfiles')
+    ? { profiles: readJson<StreamProfile[]>('streamProfiles')!, activeId: readString('streamProfiles_activeId') }
+    : undefined,
+  streamingServer: {
+    url: readString('streamingServer_url'),
+    hideUnplayableStreams: readJson<boolean>('streamingServer_hideUnplayable') ?? false,
+  },
+  watchHistory: {
+    entries: readJson<Record<string, WatchProgress>>('watchProgress') || {},
+    watchedThreshold: readJson<number>('watchProgress_threshold') ?? null,
+  },
+  library: readJson<LibraryItem[]>('libraryItems') || [],
+  parentalControls: readJson<ParentalSettings>('parentalControls'),
+  addonPriority: readJson<AddonResourceOrder>('addonResourceOrder'),
+  homeLayout: readJson<HomeLayout>('homeLayout'),
+});
+
+// Writes the sections present in `data` to the active profile. Contexts only read storage on
+// mount, so the page has to reload afterwards.
+export const writeBackupData = (data: BackupData) => {
+  if (data.addons) {
+    writeJson('installedAddonsData', data.addons);
+    writeJson('installedAddons', data.addons); // Legacy key AddonContext still keeps in sync
+  }
+  if (data.tmdb) {
+    writeString('tmdbConfig_apiKey', data.tmdb.apiKey);
+    writeJson('tmdbConfig_isEnabled', data.tmdb.enabled);
+    writeJson('tmdbConfig_useProxy', data.tmdb.useProxy);
+  }
+  if (data.streamProfiles) {
+    writeJson('streamProfiles', data.streamProfiles.profiles);
+    writeString('streamProfiles_activeId', data.streamProfiles.activeId);
+  }
+  if (data.streamingServer) {
+    writeString('streamingServer_url', data.streamingServer.url);
+    writeJson('streamingServer_hideUnplayable', data.streamingServer.hideUnplayableStreams);
+  }
+  if (data.watchHistory) {
+    writeJson('watchProgress', data.watchHistory.entries);
+    if (data.watchHistory.watchedThreshold !== null) writeJson('watchProgress_threshold', data.watchHistory.watchedThreshold);
+  }
+  if (data.library) writeJson('libraryItems', data.library);
+  if (data.parentalControls) writeJson('parentalControls', data.parentalControls);
+  if (data.addonPriority) writeJson('addonResourceOrder', data.addonPriority);
+  if (data.homeLayout) writeJson('homeLayout', data.homeLayout);
+};
+
+export const createBackupFile = (profileName?: string): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  profileName,
+  data: readBackupData(),
+});
+
+// "nuvio-backup-kids-2024-05-01.json"
+export const getBackupFileName = (file: BackupFile) => {
+  const profilePart = file.profileName ? `-${file.profileName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}` : '';
+  return `${BACKUP_FORMAT}${profilePart}-${file.exportedAt.slice(0, 10)}.json`;
+};
+
+// --- Versions ---
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Upgrades from each version to the next, keyed by the version they upgrade from. Empty while
+// version 1 is the only format.
+const MIGRATIONS: Record<number, (file: UnknownRecord) => UnknownRecord> = {};
+
+// --- Validation ---
+
+const validateSection = (section: BackupSection, value: unknown): string | null => {
+  switch (section) {
+    case 'addons':
+      return Array.isArray(value) && value.every(addon => isRecord(addon) && typeof addon.manifestUrl === 'string' && typeof addon.id === 'string')
+        ? null : 'every addon needs an id and a manifestUrl';
+    case 'library':
+      return Array.isArray(value) && value.every(item => isRecord(item) && typeof item.id === 'string' && typeof item.type === 'string')
+        ? null : 'every item needs an id and a type';
+    case 'streamProfiles':
+      return isRecord(value) && Array.isArray(value.profiles) && value.profiles.every(profile => isRecord(profile) && typeof profile.id === 'string')
+        ? null : 'expected a list of profiles';
+    case 'watchHistory':
+      return isRecord(value) && isRecord(value.entries) && Object.values(value.entries).every(entry => isRecord(entry) && typeof entry.contentId === 'string')
+        ? null : 'expected progress entries';
+    case 'tmdb':
+    case 'streamingServer':
+    case 'parentalControls':
+    case 'addonPriority':
+      return isRecord(value) ? null : 'expected an object';
+    case 'homeLayout':
+      return isRecord(value) && Array.isArray(value.order) && isRecord(value.rows) ? null : 'expected a row order and row settings';
+  }
+};
+
+// Parses, validates and migrates a backup file's text. Throws BackupError with a readable message.
+export const parseBackupFile = (text: string): BackupFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError('The file is not valid JSON.');
+  }
+  if (!isRecord(parsed) || (parsed.format !== undefined && parsed.format !== BACKUP_FORMAT) || typeof parsed.version !== 'number') {
+    throw new BackupError('This is not a backup file.');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new BackupError(`This backup was made by a newer version (schema ${parsed.version}). Update the app to import it.`);
+  }
+
+  let file: UnknownRecord = parsed;
+  while ((file.version as number) < BACKUP_VERSION) {
+    const migrate = MIGRATIONS[file.version as number];
+    if (!migrate) throw new BackupError(`Backups with schema version ${file.version} can't be imported.`);
+    file = migrate(file);
+  }
+
+  if (!isRecord(file.data)) throw new BackupError('The backup has no data.');
+  const data: UnknownRecord = {};
+  (Object.keys(BACKUP_SECTION_LABELS) as BackupSection[]).forEach(section => {
+    const value = file.data && (file.data as UnknownRecord)[section];
+    if (value === undefined || value === null) return;
+    const problem = validateSection(section, value);
+    if (problem) throw new BackupError(`${BACKUP_SECTION_LABELS[section]} in the backup is invalid: ${problem}.`);
+    data[section] = value;
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    profileName: typeof file.profileName === 'string' ? file.profileName : undefined,
+    data: data as BackupData,
+  };
+};
+
+// --- Merge & preview ---
+
+const byKey = <T>(items: T[], getKey: (item: T) => string) =>
+  Object.fromEntries(items.map(item => [getKey(item), item])) as Record<string, T>;
+
+// Lists are combined (the backup wins for items both have, except watch progress, where the
+// newer entry wins); settings come from the backup unless it leaves them empty.
+// Replace mode takes every section the backup has as-is.
+export const combineBackupData = (current: BackupData, incoming: BackupData, mode: ImportMode): BackupData => {
+  if (mode === 'replace') return { ...current, ...incoming };
+  const result: BackupData = { ...current };
+
+  if (incoming.addons) {
+    result.addons = Object.values({ ...byKey(current.addons || [], addon => addon.manifestUrl), ...byKey(incoming.addons, addon => addon.manifestUrl) });
+  }
+  if (incoming.tmdb) {
+    result.tmdb = { ...incoming.tmdb, apiKey: incoming.tmdb.apiKey || current.tmdb?.apiKey || null };
+  }
+  if (incoming.streamProfiles) {
+    const profiles = Object.values({
+      ...byKey(current.streamProfiles?.profiles || [], profile => profile.id),
+      ...byKey(incoming.streamProfiles.profiles, profile => profile.id),
+    });
+    result.streamProfiles = { profiles, activeId: incoming.streamProfiles.activeId || current.streamProfiles?.activeId || null };
+  }
+  if (incoming.streamingServer) {
+    result.streamingServer = { ...incoming.streamingServer, url: incoming.streamingServer.url || current.streamingServer?.url || null };
+  }
+  if (incoming.watchHistory) {
+    const entries = { ...(current.watchHistory?.entries || {}) };
+    Object.entries(incoming.watchHistory.entries).forEach(([key, entry]) => {
+      if (!entries[key] || entry.updatedAt > entries[key].updatedAt) entries[key] = entry;
+    });
+    result.watchHistory = {
+      entries,
+      watchedThreshold: incoming.watchHistory.watchedThreshold ?? current.watchHistory?.watchedThreshold ?? null,
+    };
+  }
+  if (incoming.library) {
+    const items = Object.values({ ...byKey(current.library || [], item => item.id), ...byKey(incoming.library, item => item.id) });
+    result.library = items.sort((a, b) => b.addedAt - a.addedAt);
+  }
+  if (incoming.parentalControls) result.parentalControls = incoming.parentalControls;
+  if (incoming.addonPriority) result.addonPriority = incoming.addonPriority;
+  if (incoming.homeLayout) result.homeLayout = incoming.homeLayout;
+  return result;
+};
+
+export interface BackupSectionChange {
+  section: BackupSection;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+// Keyed view of a section, so lists and settings can be compared the same way
+const getSectionEntries = (data: BackupData, section: BackupSection): Record<string, unknown> => {
+  switch (section) {
+    case 'addons': return byKey(data.addons || [], addon => addon.manifestUrl);
+    case 'library': return byKey(data.library || [], item => item.id);
+    case 'watchHistory': return data.watchHistory?.entries || {};
+    case 'streamProfiles': return byKey(data.streamProfiles?.profiles || [], profile => profile.id);
+    default: return (data[section] as Record<string, unknown> | undefined) || {};
+  }
+};
+
+// What importing would change, per section the backup contains
+export const previewImport = (current: BackupData, incoming: BackupData, mode: ImportMode): BackupSectionChange[] => {
+  const result = combineBackupData(current, incoming, mode);
+  return (Object.keys(BACKUP_SECTION_LABELS) as BackupSection[])
+    .filter(section => incoming[section] !== undefined)
+    .map(section => {
+      const before = getSectionEntries(current, section);
+      const after = getSectionEntries(result, section);
+      const change: BackupSectionChange = { section, added: 0, updated: 0, removed: 0 };
+      Object.keys(after).forEach(key => {
+        if (!(key in before)) change.added++;
+        else if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) change.updated++;
+      });
+      change.removed = Object.keys(before).filter(key => !(key in after)).length;
+      return change;
+    });
+};
@@ -0,0 +1,296 @@
+// Rows of the Movies, TV Shows, New & Popular and Browse by Languages pages. Each page gathers its
+// rows from the selected addon catalogs and the TMDB lists. Rows hold plain metas, so the page's
+// hero can show the same titles with their backdrops and descriptions.
+
+import type { AddonCatalog, InstalledAddon, MetaPreview } from '@/types/stremio';
+import { fetchCatalog, getCatalogUniqueId } from '@/lib/addonClient';
+import { fetchTmdb, type TmdbParams } from '@/lib/tmdbClient';
+import { isAbortError } from '@/lib/network';
+import { isImdbId, rememberIdMapping } from '@/lib/idMapping';
+import {
+  buildCatalogPath,
+  buildTmdbCatalogRequest,
+  TMDB_CATALOGS,
+  TMDB_IMAGE_BASE_URL,
+  TMDB_SOURCE_ID,
+  type CatalogFilterOption,
+} from '@/lib/catalogBrowse';
+
+export type BrowseContentType = 'movie' | 'series';
+
+export interface BrowseRow {
+  id: string;
+  title: string;
+  sourceLabel?: string; // "TMDB" or the addon's name; absent for rows merged from several sources
+  items: MetaPreview[];
+  addonId?: string; // Rows from a single addon, passed on to the details page
+  seeAllHref?: string;
+}
+
+export interface BrowseSources {
+  addons: InstalledAddon[]; // Catalog addons, in priority order
+  tmdbApiKey: string | null; // Null while TMDB is off
+  reportAddonResult: (addonId: string, err?: unknown) => void;
+}
+
+// Merged rows stop here; the catalogs themselves are a "See all" away
+const MAX_MERGED_ROW_ITEMS = 40;
+
+// --- Merging ---
+
+// Addon metas that name their TMDB ID count as the same title as the TMDB item
+const getMetaKey = (meta: MetaPreview) => `${meta.type}/${meta.moviedb_id ? `tmdb:${meta.moviedb_id}` : meta.id}`;
+
+// Takes the lists in turns, so each source keeps its best items near the front
+export const interleaveMetas = (lists: MetaPreview[][], limit: number = MAX_MERGED_ROW_ITEMS): MetaPreview[] => {
+  const seen = new Set<string>();
+  const merged: MetaPreview[] = [];
+  const longest = Math.max(0, ...lists.map(list => list.length));
+  for (let index = 0; index < longest && merged.length < limit; index++) {
+    lists.forEach(list => {
+      const meta = list[index];
+      if (!meta || merged.length >= limit) return;
+      const key = getMetaKey(meta);
+      if (seen.has(key)) return;
+      seen.add(key);
+      merged.push(meta);
+    });
+  }
+  return merged;
+};
+
+// First year in "2019", "2019–2023" or "2019-"
+export const getReleaseYear = (meta: MetaPreview): number | null => {
+  const match = meta.releaseInfo?.match(/\d{4}/);
+  return match ? Number(match[0]) : null;
+};
+
+// --- Languages ---
+
+// The original language of an addon meta, taken to be the first one listed ("English, Spanish" or ["en"])
+export const getOriginalLanguage = (meta: MetaPreview): string | null => {
+  const languages = Array.isArray(meta.language) ? meta.language : meta.language?.split(/[,/|]/) || [];
+  return languages[0]?.trim().toLowerCase() || null;
+};
+
+// Addons name languages either by code or in English
+export const isInOriginalLanguage = (meta: MetaPreview, language: CatalogFilterOption): boolean => {
+  const original = getOriginalLanguage(meta);
+  return original === language.value || original === language.label.toLowerCase();
+};
+
+// --- Sources ---
+
+interface TmdbListItem {
+  id: number;
+  title?: string;
+  name?: string;
+  overview?: string;
+  poster_path: string | null;
+  backdrop_path: string | null;
+  release_date?: string;
+  first_air_date?: string;
+  vote_average?: number;
+  media_type?: string; // Only in mixed lists such as /trending/all
+}
+
+interface TmdbListResponse {
+  results?: TmdbListItem[];
+}
+
+const tmdbItemToMeta = (item: TmdbListItem, type?: BrowseContentType): MetaPreview | null => {
+  const itemType = type || (item.media_type === 'movie' ? 'movie' : item.media_type === 'tv' ? 'series' : null);
+  if (!itemType || !item.poster_path) return null; // People in mixed lists, and items without art
+  return {
+    id: `tmdb:${item.id}`,
+    type: itemType,
+    name: item.title || item.name || 'TMDB Item',
+    poster: `${TMDB_IMAGE_BASE_URL}w342${item.poster_path}`,
+    background: item.backdrop_path ? `${TMDB_IMAGE_BASE_URL}w1280${item.backdrop_path}` : undefined,
+    description: item.overview || undefined,
+    releaseInfo: (item.release_date || item.first_air_date)?.slice(0, 4),
+    imdbRating: item.vote_average ? item.vote_average.toFixed(1) : undefined, // TMDB votes use the same 0-10 scale
+  };
+};
+
+const fetchTmdbMetas = async (path: string, apiKey: string, params: TmdbParams, type: BrowseContentType | undefined, signal: AbortSignal) => {
+  const data = await fetchTmdb<TmdbListResponse>(path, apiKey, { language: 'en-US', ...params }, { signal });
+  return (data.results || [])
+    .map(item => tmdbItemToMeta(item, type))
+    .filter((meta): meta is MetaPreview => meta !== null);
+};
+
+interface SelectedCatalog {
+  addon: InstalledAddon;
+  catalog: AddonCatalog;
+}
+
+const hasRequiredExtra = (catalog: AddonCatalog) =>
+  !!catalog.extraRequired?.length || !!catalog.extra?.some(extra => extra.isRequired);
+
+// Selected movie and series catalogs in addon priority order. Catalogs that can't be listed
+// without an extra (search, a required genre) are left out.
+export const getSelectedCatalogs = (addons: InstalledAddon[], type?: BrowseContentType): SelectedCatalog[] =>
+  addons.flatMap(addon => (addon.catalogs || [])
+    .filter(catalog =>
+      addon.selectedCatalogIds?.includes(getCatalogUniqueId(catalog)) &&
+      (type ? catalog.type === type : catalog.type === 'movie' || catalog.type === 'series') &&
+      !hasRequiredExtra(catalog)
+    )
+    .map(catalog => ({ addon, catalog })));
+
+const fetchAddonMetas = async ({ addon, catalog }: SelectedCatalog, sources: BrowseSources, signal: AbortSignal) => {
+  try {
+    const data = await fetchCatalog(addon, catalog.type, catalog.id, undefined, { signal });
+    sources.reportAddonResult(addon.id);
+    // Catalogs that cross-reference TMDB save us a lookup later (StreamDialog, details page)
+    data.metas.forEach(meta => {
+      if (meta.moviedb_id && isImdbId(meta.id)) rememberIdMapping(meta.type, { imdb: meta.id, tmdb: `tmdb:${meta.moviedb_id}` });
+    });
+    return data.metas
+      .filter(meta => meta.poster)
+      .map(meta => ({ ...meta, type: meta.type || catalog.type }));
+  } catch (err) {
+    sources.reportAddonResult(addon.id, err);
+    throw err;
+  }
+};
+
+const getCatalogTitle = (catalog: AddonCatalog) =>
+  catalog.name || `${catalog.type} ${catalog.id}`.replace(/[-_]/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+const logSourceError = (label: string, err: unknown) => {
+  if (!isAbortError(err)) console.error(`BrowsePage: Error fetching ${label}:`, err instanceof Error ? err.message : err);
+};
+
+// Rows in the order given; a failing source only loses its own row, and empty rows are dropped
+const settleRows = async (rows: Promise<BrowseRow>[]): Promise<BrowseRow[]> => {
+  const results = await Promise.allSettled(rows);
+  return results.flatMap(result => {
+    if (result.status === 'rejected') return [];
+    return result.value.items.length > 0 ? [result.value] : [];
+  });
+};
+
+const addonRow = async (selected: SelectedCatalog, sources: BrowseSources, signal: AbortSignal, filter?: (meta: MetaPreview) => boolean): Promise<BrowseRow> => {
+  const { addon, catalog } = selected;
+  const title = getCatalogTitle(catalog);
+  try {
+    const metas = await fetchAddonMetas(selected, sources, signal);
+    return {
+      id: `${addon.id}-${getCatalogUniqueId(catalog)}`,
+      title,
+      sourceLabel: addon.name,
+      items: filter ? metas.filter(filter) : metas,
+      addonId: addon.id,
+      // The catalog page can't apply our own filter
+      seeAllHref: filter ? undefined : buildCatalogPath(addon.id, catalog.type, catalog.id),
+    };
+  } catch (err) {
+    logSourceError(`${title} from ${addon.name}`, err);
+    throw err;
+  }
+};
+
+// --- Pages ---
+
+// Movies and TV Shows: every TMDB list and selected catalog of the type, TMDB first like on the home page
+export const loadTypeRows = (type: BrowseContentType) => async (sources: BrowseSources, signal: AbortSignal): Promise<BrowseRow[]> => {
+  const { tmdbApiKey } = sources;
+  const tmdbRows = tmdbApiKey
+    ? TMDB_CATALOGS.filter(catalog => catalog.type === type).map(async (catalog): Promise<BrowseRow> => {
+      try {
+        return {
+          id: `tmdb-${catalog.id}`,
+          title: catalog.title,
+          sourceLabel: 'TMDB',
+          items: await fetchTmdbMetas(catalog.endpoint, tmdbApiKey, {}, type, signal),
+          seeAllHref: buildCatalogPath(TMDB_SOURCE_ID, type, catalog.id),
+        };
+      } catch (err) {
+        logSourceError(catalog.title, err);
+        throw err;
+      }
+    })
+    : [];
+  const addonRows = getSelectedCatalogs(sources.addons, type).map(selected => addonRow(selected, sources, signal));
+  return settleRows([...tmdbRows, ...addonRows]);
+};
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// New & Popular: three rows, each merging TMDB's movies and shows with the selected catalogs.
+// Addon catalogs have no release dates, so their new and upcoming items go by release year.
+export const loadNewAndPopularRows = async (sources: BrowseSources, signal: AbortSignal): Promise<BrowseRow[]> => {
+  const { tmdbApiKey } = sources;
+  const fromTmdb = (label: string, path: string, params: TmdbParams, type?: BrowseContentType): Promise<MetaPreview[]> => {
+    if (!tmdbApiKey) return Promise.resolve([]);
+    return fetchTmdbMetas(path, tmdbApiKey, params, type, signal).catch(err => {
+      logSourceError(label, err);
+      return [];
+    });
+  };
+  const fromAddons = Promise.all(getSelectedCatalogs(sources.addons).map(selected =>
+    fetchAddonMetas(selected, sources, signal).catch(err => {
+      logSourceError(`${getCatalogTitle(selected.catalog)} from ${selected.addon.name}`, err);
+      return [];
+    })
+  ));
+
+  const tomorrow = new Date();
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  const upcomingParams = { include_adult: false, sort_by: 'popularity.desc' };
+  const [trending, nowPlaying, onTheAir, upcomingMovies, upcomingShows, addonLists] = await Promise.all([
+    fromTmdb('trending titles', '/trending/all/week', {}),
+    fromTmdb('movies in theaters', '/movie/now_playing', {}, 'movie'),
+    fromTmdb('shows on the air', '/tv/on_the_air', {}, 'series'),
+    fromTmdb('upcoming movies', '/discover/movie', { ...upcomingParams, 'primary_release_date.gte': formatDate(tomorrow) }, 'movie'),
+    fromTmdb('upcoming shows', '/discover/tv', { ...upcomingParams, 'first_air_date.gte': formatDate(tomorrow) }, 'series'),
+    fromAddons,
+  ]);
+
+  const currentYear = new Date().getFullYear();
+  const addonMetas = interleaveMetas(addonLists, Infinity);
+  const addonNew = addonMetas.filter(meta => {
+    const year = getReleaseYear(meta);
+    return year !== null && year >= currentYear - 1 && year <= currentYear;
+  });
+  const addonUpcoming = addonMetas.filter(meta => (getReleaseYear(meta) || 0) > currentYear);
+
+  return [
+    { id: 'trending-now', title: 'Trending Now', items: interleaveMetas([trending, ...addonLists]) },
+    { id: 'new-releases', title: 'New Releases', items: interleaveMetas([nowPlaying, onTheAir, addonNew]) },
+    { id: 'coming-soon', title: 'Coming Soon', items: interleaveMetas([upcomingMovies, upcomingShows, addonUpcoming]) },
+  ].filter(row => row.items.length > 0);
+};
+
+// TMDB lists that discover can narrow to one language; trending would only repeat popular
+const LANGUAGE_TMDB_CATALOG_IDS = ['popular_movies', 'top_rated_movies', 'popular_tv', 'top_rated_tv'];
+
+// Browse by Languages: TMDB discover by original language, and the selected catalogs narrowed to
+// the metas that name it
+export const loadLanguageRows = (language: CatalogFilterOption) => async (sources: BrowseSources, signal: AbortSignal): Promise<BrowseRow[]> => {
+  const { tmdbApiKey } = sources;
+  const filters = { language: language.value };
+  const tmdbRows = tmdbApiKey
+    ? TMDB_CATALOGS.filter(catalog => LANGUAGE_TMDB_CATALOG_IDS.includes(catalog.id)).map(async (catalog): Promise<BrowseRow> => {
+      const request = buildTmdbCatalogRequest(catalog, filters, 1);
+      try {
+        return {
+          id: `tmdb-${catalog.id}`,
+          title: catalog.title,
+          sourceLabel: 'TMDB',
+          items: await fetchTmdbMetas(request.path, tmdbApiKey, request.params, catalog.type, signal),
+          seeAllHref: buildCatalogPath(TMDB_SOURCE_ID, catalog.type, catalog.id, filters),
+        };
+      } catch (err) {
+        logSourceError(`${language.label} ${catalog.title}`, err);
+        throw err;
+      }
+    })
+    : [];
+  const addonRows = getSelectedCatalogs(sources.addons).map(selected =>
+    addonRow(selected, sources, signal, meta => isInOriginalLanguage(meta, language))
+  );
+  return settleRows([...tmdbRows, ...addonRows]);
+};
@@ -0,0 +1,165 @@
+// "See all" catalog pages at /catalog/{sourceId}/{type}/{catalogId}. The source is an addon ID,
+// or "tmdb" for the TMDB lists. Filters live in the page's query string, named after the extra
+// they set (addons) or the discover filter (TMDB), so a filtered page can be shared.
+
+import type { AddonCatalog } from '@/types/stremio';
+import type { TmdbParams } from '@/lib/tmdbClient';
+
+export const TMDB_SOURCE_ID = 'tmdb';
+export const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/';
+
+export type CatalogFilters = Record<string, string>;
+
+export interface CatalogFilterOption {
+  value: string;
+  label: string;
+}
+
+export interface CatalogFilter {
+  name: string; // Query parameter, and extra name for addons
+  label: string;
+  options: CatalogFilterOption[];
+  isRequired?: boolean; // The catalog can't be listed without it; the first option is the default
+}
+
+export const buildCatalogPath = (sourceId: string, type: string, catalogId: string, filters?: CatalogFilters): string => {
+  const path = `/catalog/${encodeURIComponent(sourceId)}/${encodeURIComponent(type)}/${encodeURIComponent(catalogId)}`;
+  const query = new URLSearchParams(Object.entries(filters || {}).filter(([, value]) => value !== '')).toString();
+  return query ? `${path}?${query}` : path;
+};
+
+// The filters in a query string, limited to the ones the catalog offers
+export const readCatalogFilters = (searchParams: URLSearchParams, filters: CatalogFilter[]): CatalogFilters => {
+  const values: CatalogFilters = {};
+  filters.forEach(filter => {
+    const value = searchParams.get(filter.name);
+    if (value) values[filter.name] = value;
+    else if (filter.isRequired && filter.options.length > 0) values[filter.name] = filter.options[0].value;
+  });
+  return values;
+};
+
+const toLabel = (name: string) => name.charAt(0).toUpperCase() + name.slice(1);
+
+// --- Addon catalogs ---
+
+// Extras handled by the page itself rather than offered as filters
+const RESERVED_EXTRAS = new Set(['skip', 'search']);
+
+// Every declared extra with a list of options, plus the legacy `genres` list
+export const getAddonCatalogFilters = (catalog: AddonCatalog): CatalogFilter[] => {
+  const filters: CatalogFilter[] = (catalog.extra || [])
+    .filter(extra => !RESERVED_EXTRAS.has(extra.name) && (extra.options?.length || 0) > 0)
+    .map(extra => ({
+      name: extra.name,
+      label: toLabel(extra.name),
+      options: extra.options!.map(option => ({ value: option, label: option })),
+      isRequired: extra.isRequired,
+    }));
+  if (!filters.some(filter => filter.name === 'genre') && catalog.genres?.length && catalog.extraSupported?.includes('genre')) {
+    filters.push({
+      name: 'genre',
+      label: 'Genre',
+      options: catalog.genres.map(genre => ({ value: genre, label: genre })),
+      isRequired: catalog.extraRequired?.includes('genre'),
+    });
+  }
+  return filters;
+};
+
+// --- TMDB lists ---
+
+export interface TmdbCatalog {
+  id: string;
+  endpoint: string; // Used as is while no filter is set
+  title: string;
+  type: 'movie' | 'series';
+  sortBy: string; // Discover order that matches the list once filters are set
+  discoverParams?: TmdbParams; // Conditions of the list that discover has to repeat
+}
+
+export const TMDB_CATALOGS: TmdbCatalog[] = [
+  { id: 'trending_movies_week', endpoint: '/trending/movie/week', title: 'Trending Movies', type: 'movie', sortBy: 'popularity.desc' },
+  { id: 'popular_movies', endpoint: '/movie/popular', title: 'Popular Movies', type: 'movie', sortBy: 'popularity.desc' },
+  {
+    id: 'top_rated_movies',
+    endpoint: '/movie/top_rated',
+    title: 'Top Rated Movies',
+    type: 'movie',
+    sortBy: 'vote_average.desc',
+    discoverParams: { 'vote_count.gte': 200 },
+  },
+  { id: 'trending_tv_week', endpoint: '/trending/tv/week', title: 'Trending TV Shows', type: 'series', sortBy: 'popularity.desc' },
+  {
+    id: 'popular_tv',
+    endpoint: '/discover/tv?include_adult=false&sort_by=popularity.desc&without_genres=10767',
+    title: 'Popular TV Shows',
+    type: 'series',
+    sortBy: 'popularity.desc',
+    discoverParams: { without_genres: 10767 },
+  },
+  {
+    id: 'top_rated_tv',
+    endpoint: '/tv/top_rated',
+    title: 'Top Rated TV Shows',
+    type: 'series',
+    sortBy: 'vote_average.desc',
+    discoverParams: { 'vote_count.gte': 200 },
+  },
+];
+
+export const findTmdbCatalog = (type: string, catalogId: string) =>
+  TMDB_CATALOGS.find(catalog => catalog.type === type && catalog.id === catalogId);
+
+export const TMDB_LANGUAGE_OPTIONS: CatalogFilterOption[] = [
+  { value: 'en', label: 'English' },
+  { value: 'es', label: 'Spanish' },
+  { value: 'fr', label: 'French' },
+  { value: 'de', label: 'German' },
+  { value: 'it', label: 'Italian' },
+  { value: 'ja', label: 'Japanese' },
+  { value: 'ko', label: 'Korean' },
+  { value: 'zh', label: 'Chinese' },
+  { value: 'hi', label: 'Hindi' },
+  { value: 'pt', label: 'Portuguese' },
+  { value: 'tr', label: 'Turkish' },
+  { value: 'sv', label: 'Swedish' },
+];
+
+// Discover filters; genres come from TMDB's genre list for the type
+export const getTmdbCatalogFilters = (genres: { id: number; name: string }[]): CatalogFilter[] => {
+  const currentYear = new Date().getFullYear();
+  return [
+    { name: 'genre', label: 'Genre', options: genres.map(genre => ({ value: String(genre.id), label: genre.name })) },
+    {
+      name: 'year',
+      label: 'Year',
+      options: Array.from({ length: currentYear - 1949 }, (_, index) => String(currentYear - index)).map(year => ({ value: year, label: year })),
+    },
+    { name: 'rating', label: 'Rating', options: ['5', '6', '7', '8'].map(rating => ({ value: rating, label: `${rating}+` })) },
+    { name: 'language', label: 'Language', options: TMDB_LANGUAGE_OPTIONS },
+  ];
+};
+
+export const getTmdbMediaType = (type: 'movie' | 'series') => (type === 'movie' ? 'movie' : 'tv');
+
+// The list's own endpoint when unfiltered, otherwise discover with the filters and the list's order
+export const buildTmdbCatalogRequest = (catalog: TmdbCatalog, filters: CatalogFilters, page: number): { path: string; params: TmdbParams } => {
+  if (Object.keys(filters).length === 0) return { path: catalog.endpoint, params: { page } };
+  const mediaType = getTmdbMediaType(catalog.type);
+  return {
+    path: `/discover/${mediaType}`,
+    params: {
+      include_adult: false,
+      sort_by: catalog.sortBy,
+      ...catalog.discoverParams,
+      with_genres: filters.genre,
+      [mediaType === 'movie' ? 'primary_release_year' : 'first_air_date_year']: filters.year,
+      'vote_average.gte': filters.rating,
+      // A handful of votes makes any rating meaningless
+      ...(filters.rating && !catalog.discoverParams?.['vote_count.gte'] ? { 'vote_count.gte': 50 } : {}),
+      with_original_language: filters.language,
+      page,
+    },
+  };
+};
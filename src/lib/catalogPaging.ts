@@ -0,0 +1,20 @@
+// Loading further pages of a catalog. Addon catalogs page with the `skip` extra (how many items
+// were already received), TMDB lists with `page`. Lists can shift between requests, so pages are
+// deduplicated by item ID, and a page that adds nothing new ends the catalog.
+
+import type { AddonCatalog } from '@/types/stremio';
+import { catalogSupportsExtra } from '@/lib/addonClient';
+
+export const catalogSupportsSkip = (catalog: AddonCatalog): boolean => catalogSupportsExtra(catalog, 'skip');
+
+// Appends the items of a page that aren't loaded yet
+export const mergeCatalogPage = <T extends { id: string | number }>(existing: T[], page: T[]): { items: T[]; added: number } => {
+  const seen = new Set(existing.map(item => String(item.id)));
+  const added = page.filter(item => {
+    const id = String(item.id);
+    if (seen.has(id)) return false;
+    seen.add(id);
+    return true;
+  });
+  return { items: [...existing, ...added], added: added.length };
+};
@@ -0,0 +1,61 @@
+// Home page row layout. Rows are identified by their row ID (`tmdb-{catalog}` or
+// `{addonId}-{type}/{catalogId}`), so a layout outlives refetches and applies to rows that
+// haven't loaded yet.
+
+export type HomeRowImageType = 'poster' | 'backdrop';
+
+export interface HomeRowSettings {
+  title?: string; // Replaces the catalog's title
+  hidden?: boolean;
+  pinned?: boolean; // Pinned rows come first, whatever their position in the order
+  imageType?: HomeRowImageType; // Replaces the row's default card style
+}
+
+export interface HomeLayout {
+  order: string[]; // Row IDs; rows missing from it follow in their fetched order
+  rows: Record<string, HomeRowSettings>;
+}
+
+export const EMPTY_HOME_LAYOUT: HomeLayout = { order: [], rows: {} };
+
+// The minimum the layout needs to know about a row
+export interface HomeLayoutRow {
+  id: string;
+  title: string;
+  sourceLabel?: string; // "TMDB" or the addon's name
+  imageType: HomeRowImageType;
+}
+
+// Rows in layout order: pinned first, then the saved order, then new rows as fetched
+export const orderHomeRows = <T extends { id: string }>(rows: T[], layout: HomeLayout): T[] => {
+  const rank = (row: T) => {
+    const index = layout.order.indexOf(row.id);
+    return index === -1 ? layout.order.length : index;
+  };
+  const isPinned = (row: T) => (layout.rows[row.id]?.pinned ? 0 : 1);
+  return [...rows].sort((a, b) => isPinned(a) - isPinned(b) || rank(a) - rank(b));
+};
+
+// The rows to show, ordered, renamed and restyled. Hidden rows are left out.
+export const applyHomeLayout = <T extends HomeLayoutRow>(rows: T[], layout: HomeLayout): T[] =>
+  orderHomeRows(rows, layout)
+    .filter(row => !layout.rows[row.id]?.hidden)
+    .map(row => {
+      const settings = layout.rows[row.id];
+      if (!settings) return row;
+      return {
+        ...row,
+        title: settings.title?.trim() || row.title,
+        imageType: settings.imageType || row.imageType,
+      };
+    });
+
+// Drops settings that match the defaults, so an untouched row leaves nothing behind
+export const cleanRowSettings = (settings: HomeRowSettings): HomeRowSettings | null => {
+  const cleaned: HomeRowSettings = {};
+  if (settings.title?.trim()) cleaned.title = settings.title;
+  if (settings.hidden) cleaned.hidden = true;
+  if (settings.pinned) cleaned.pinned = true;
+  if (settings.imageType) cleaned.imageType = settings.imageType;
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+};
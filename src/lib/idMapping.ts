@@ -0,0 +1,240 @@
+// Maps content IDs between namespaces ("tmdb:1396" <-> "tt0903747" <-> "tvdb:81189").
+// Lookups are cached in memory and in IndexedDB, so a TMDB item is resolved once rather than
+// once per addon and per dialog open.
+
+import { addonSupportsResource } from '@/lib/addonClient';
+import { fetchTmdb } from '@/lib/tmdbClient';
+import { NetworkError, type RequestOptions } from '@/lib/network';
+import type { AddonManifest, AddonResourceName } from '@/types/stremio';
+
+export interface ContentIds {
+  imdb?: string; // "tt0903747"
+  tmdb?: string; // "tmdb:1396"
+  tvdb?: string; // "tvdb:81189"
+}
+
+interface StoredMapping {
+  key: string;
+  ids: ContentIds;
+  updatedAt: number;
+}
+
+const DB_NAME = 'nuvioIdMappings';
+const DB_VERSION = 1;
+const STORE_NAME = 'mappings';
+
+const MAPPING_TTL_MS = 30 * 24 * 60 * 60 * 1000; // IDs basically never change
+const MISSING_TTL_MS = 24 * 60 * 60 * 1000; // Retry items without an IMDb ID sooner
+
+const memoryCache = new Map<string, StoredMapping>();
+const inFlight = new Map<string, Promise<ContentIds>>();
+
+// --- ID helpers ---
+
+export const isImdbId = (id: string) => /^tt\d+$/.test(id);
+export const isTmdbId = (id: string) => id.startsWith('tmdb:');
+
+// Which namespace an ID belongs to ("tt123:1:2" counts as imdb)
+const getIdNamespace = (id: string): keyof ContentIds | null => {
+  const baseId = id.split(':')[0];
+  if (isImdbId(baseId)) return 'imdb';
+  if (baseId === 'tmdb') return 'tmdb';
+  if (baseId === 'tvdb') return 'tvdb';
+  return null;
+};
+
+// "tmdb:1396" -> { tmdb: "tmdb:1396" }
+const idsFromId = (id: string): ContentIds => {
+  const namespace = getIdNamespace(id);
+  return namespace ? { [namespace]: id } : {};
+};
+
+const getCacheKey = (type: string, id: string) => `${type === 'series' ? 'series' : 'movie'}/${id}`;
+
+// --- IndexedDB storage ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise(resolve => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IdMapping: Could not open IndexedDB, using memory cache only', request.error);
+        resolve(null);
+      };
+    } catch (e) {
+      console.warn('IdMapping: IndexedDB unavailable, using memory cache only', e);
+      resolve(null);
+    }
+  });
+  return dbPromise;
+};
+
+const readStoredMapping = async (key: string): Promise<StoredMapping | null> => {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise(resolve => {
+    const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key);
+    request.onsuccess = () => resolve((request.result as StoredMapping | undefined) || null);
+    request.onerror = () => resolve(null);
+  });
+};
+
+const writeStoredMapping = async (mapping: StoredMapping) => {
+  memoryCache.set(mapping.key, mapping);
+  const db = await openDb();
+  if (!db) return;
+  try {
+    db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(mapping);
+  } catch (e) {
+    console.warn('IdMapping: Failed to persist mapping', mapping.key, e);
+  }
+};
+
+const isFresh = (mapping: StoredMapping) =>
+  Date.now() - mapping.updatedAt < (mapping.ids.imdb ? MAPPING_TTL_MS : MISSING_TTL_MS);
+
+// Store the same IDs under every ID they contain, so a later lookup from any side hits the cache
+const saveMapping = (type: string, ids: ContentIds) => {
+  const updatedAt = Date.now();
+  Object.values(ids).forEach(id => {
+    if (id) void writeStoredMapping({ key: getCacheKey(type, id), ids, updatedAt });
+  });
+};
+
+// Record IDs learned for free elsewhere (e.g. Cinemeta metas carry `moviedb_id`)
+export const rememberIdMapping = (type: string, ids: ContentIds) => {
+  const known = Object.values(ids).filter(Boolean);
+  if (known.length < 2) return; // Nothing to map
+  const cached = memoryCache.get(getCacheKey(type, known[0]!));
+  if (cached && isFresh(cached) && known.every(id => Object.values(cached.ids).includes(id))) return; // Already known
+  saveMapping(type, ids);
+};
+
+// --- Lookups ---
+
+interface TmdbExternalIds {
+  imdb_id?: string | null;
+  tvdb_id?: number | null;
+}
+
+interface TmdbFindResponse {
+  movie_results?: { id: number }[];
+  tv_results?: { id: number }[];
+}
+
+const lookupIds = async (id: string, type: string, tmdbApiKey: string | null, options?: RequestOptions): Promise<ContentIds> => {
+  const ids = idsFromId(id);
+  if (!tmdbApiKey) return ids; // Can't resolve anything without TMDB
+  const tmdbType = type === 'series' ? 'tv' : 'movie';
+
+  if (ids.tmdb) {
+    const numericId = ids.tmdb.substring(5);
+    const external = await fetchTmdb<TmdbExternalIds>(`/${tmdbType}/${numericId}/external_ids`, tmdbApiKey, undefined, options);
+    if (external.imdb_id) ids.imdb = external.imdb_id;
+    if (external.tvdb_id) ids.tvdb = `tvdb:${external.tvdb_id}`;
+    return ids;
+  }
+
+  if (ids.imdb || ids.tvdb) {
+    const externalId = ids.imdb || ids.tvdb!.substring(5);
+    const found = await fetchTmdb<TmdbFindResponse>(
+      `/find/${externalId}`,
+      tmdbApiKey,
+      { external_source: ids.imdb ? 'imdb_id' : 'tvdb_id' },
+      options
+    );
+    const match = (type === 'series' ? found.tv_results : found.movie_results)?.[0];
+    if (match) ids.tmdb = `tmdb:${match.id}`;
+  }
+  return ids;
+};
+
+// Waits for a shared lookup, giving up early (for this caller only) when its own signal aborts
+const waitForLookup = (lookup: Promise<ContentIds>, signal: AbortSignal | undefined, id: string): Promise<ContentIds> => {
+  if (!signal) return lookup;
+  if (signal.aborted) return Promise.reject(new NetworkError('aborted', id, 'Request was cancelled'));
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new NetworkError('aborted', id, 'Request was cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    lookup.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+// Resolves every known ID for `id` (episode suffixes are ignored). Concurrent calls for the same
+// item share one request, which doesn't belong to any caller's signal: one caller giving up leaves
+// the others waiting, and the finished lookup still fills the cache. Failures are not cached, so
+// the next open tries again.
+export const resolveContentIds = async (
+  id: string,
+  type: string,
+  tmdbApiKey: string | null,
+  options?: RequestOptions
+): Promise<ContentIds> => {
+  const baseId = isTmdbId(id) || id.startsWith('tvdb:') ? id.split(':').slice(0, 2).join(':') : id.split(':')[0];
+  const key = getCacheKey(type, baseId);
+
+  const cached = memoryCache.get(key);
+  if (cached && isFresh(cached)) return cached.ids;
+
+  const pending = inFlight.get(key);
+  if (pending) return waitForLookup(pending, options?.signal, baseId);
+
+  const resolution = (async () => {
+    const stored = await readStoredMapping(key);
+    if (stored && isFresh(stored)) {
+      memoryCache.set(key, stored);
+      return stored.ids;
+    }
+    const ids = await lookupIds(baseId, type, tmdbApiKey, { ...options, signal: undefined });
+    if (tmdbApiKey) saveMapping(type, ids); // Only cache real lookups, not "no key" results
+    console.log(`IdMapping: Resolved ${baseId} ->`, ids);
+    return ids;
+  })();
+
+  inFlight.set(key, resolution);
+  resolution.then(() => inFlight.delete(key), () => inFlight.delete(key));
+  return waitForLookup(resolution, options?.signal, baseId);
+};
+
+// Picks the ID this addon understands for `resource`, checked against its (resource-level or
+// manifest-level) idPrefixes. IMDb IDs are tried first since most addons are IMDb based, and
+// tmdb:/tvdb: IDs are only sent to addons that explicitly declare those prefixes.
+// Returns null if none of our IDs are accepted.
+export const getIdForAddon = (
+  addon: AddonManifest,
+  resource: AddonResourceName,
+  type: string,
+  originalId: string,
+  ids: ContentIds
+): string | null => {
+  const declaredPrefixes = [
+    ...(addon.idPrefixes || []),
+    ...(addon.resources || []).flatMap(entry =>
+      typeof entry === 'object' && entry.name === resource ? entry.idPrefixes || [] : []
+    ),
+  ];
+  const candidates = [ids.imdb, originalId, ids.tmdb, ids.tvdb]
+    .filter((candidate, index, all): candidate is string => !!candidate && all.indexOf(candidate) === index);
+
+  return candidates.find(candidate => {
+    if (!addonSupportsResource(addon, resource, type, candidate)) return false;
+    const namespace = getIdNamespace(candidate);
+    if (namespace === 'tmdb' || namespace === 'tvdb') {
+      return declaredPrefixes.some(prefix => candidate.startsWith(prefix));
+    }
+    return true;
+  }) || null;
+};
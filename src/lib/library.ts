@@ -0,0 +1,75 @@
+// "My List": titles the user saved, with enough of their meta to render without refetching
+
+export interface LibraryItem {
+  id: string; // Same ID the details page uses ("tt0903747", "tmdb:1396")
+  type: string; // "movie" | "series" | ...
+  name: string;
+  poster?: string;
+  background?: string;
+  logo?: string;
+  description?: string;
+  releaseInfo?: string; // "2008-2013"
+  year?: number;
+  imdbRating?: string;
+  genres?: string[];
+  addedAt: number; // ms timestamp
+}
+
+export type LibrarySnapshot = Omit<LibraryItem, 'addedAt'>;
+
+export type LibrarySortKey = 'addedAt' | 'name' | 'year' | 'rating';
+
+export const LIBRARY_SORT_LABELS: Record<LibrarySortKey, string> = {
+  addedAt: 'Date added',
+  name: 'Name',
+  year: 'Year',
+  rating: 'Rating',
+};
+
+// Year from the numeric field, else the first four-digit year in releaseInfo ("2008-2013" -> 2008)
+export const getLibraryItemYear = (item: Pick<LibraryItem, 'year' | 'releaseInfo'>): number | null => {
+  if (item.year) return item.year;
+  const match = item.releaseInfo?.match(/\d{4}/);
+  return match ? parseInt(match[0], 10) : null;
+};
+
+const getRating = (item: LibraryItem): number | null => {
+  const rating = item.imdbRating ? parseFloat(item.imdbRating) : NaN;
+  return isNaN(rating) ? null : rating;
+};
+
+// Items missing the sorted-on value go last in either direction
+export const sortLibraryItems = (items: LibraryItem[], sortKey: LibrarySortKey, descending: boolean): LibraryItem[] => {
+  const direction = descending ? -1 : 1;
+  const compareNullable = (a: number | null, b: number | null) => {
+    if (a === null && b === null) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return (a - b) * direction;
+  };
+
+  return [...items].sort((a, b) => {
+    switch (sortKey) {
+      case 'name':
+        return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }) * direction;
+      case 'year':
+        return compareNullable(getLibraryItemYear(a), getLibraryItemYear(b));
+      case 'rating':
+        return compareNullable(getRating(a), getRating(b));
+      default:
+        return (a.addedAt - b.addedAt) * direction;
+    }
+  });
+};
+
+// Drops empty fields so the stored snapshot stays small
+export const createLibrarySnapshot = (meta: LibrarySnapshot): LibrarySnapshot => {
+  const snapshot = { ...meta };
+  (Object.keys(snapshot) as (keyof LibrarySnapshot)[]).forEach(key => {
+    const value = snapshot[key];
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      delete snapshot[key];
+    }
+  });
+  return snapshot;
+};
@@ -0,0 +1,164 @@
+// Shared network layer for addon and TMDB requests.
+// Adds per-request timeouts, cancellation through AbortSignal and bounded retries with backoff,
+// and normalizes every failure into a NetworkError so callers can tell timeouts from real errors.
+
+export type NetworkErrorKind = 'timeout' | 'aborted' | 'http' | 'network' | 'parse';
+
+export class NetworkError extends Error {
+  kind: NetworkErrorKind;
+  url: string;
+  status?: number;
+
+  constructor(kind: NetworkErrorKind, url: string, message: string, status?: number) {
+    super(message);
+    this.name = 'NetworkError';
+    this.kind = kind;
+    this.url = url;
+    this.status = status;
+  }
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Caller-owned signal (e.g. aborted when a dialog closes)
+  timeoutMs?: number; // Per attempt, not for the whole retry sequence
+  retries?: number; // Extra attempts after the first one
+  retryDelayMs?: number; // Base delay, doubled on every retry
+}
+
+export const DEFAULT_TIMEOUT_MS = 10000;
+export const DEFAULT_RETRIES = 1;
+export const DEFAULT_RETRY_DELAY_MS = 500;
+
+export const isAbortError = (err: unknown): boolean =>
+  (err instanceof NetworkError && err.kind === 'aborted') ||
+  (err instanceof DOMException && err.name === 'AbortError');
+
+// Timeouts, network failures, 429 and 5xx are worth another try; 4xx and aborts are not
+const isRetryable = (err: NetworkError) =>
+  err.kind === 'timeout' ||
+  err.kind === 'network' ||
+  (err.kind === 'http' && (err.status === 429 || (err.status !== undefined && err.status >= 500)));
+
+// Resolves after `ms`, or rejects early if the signal aborts
+const wait = (ms: number, signal?: AbortSignal, url = '') => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new NetworkError('aborted', url, 'Request was cancelled'));
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new NetworkError('aborted', url, 'Request was cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Our /api proxy routes answer errors with { error: { message } }; use that message when present
+const readProxyErrorMessage = async (response: Response): Promise<string | null> => {
+  if (!response.headers.get('content-type')?.includes('application/json')) return null;
+  try {
+    const body = await response.json();
+    return typeof body?.error?.message === 'string' ? body.error.message : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads what the caller needs from a successful response. Runs under the attempt's timeout and
+// signal, so a server that stalls mid-body still times out.
+type ResponseReader<T> = (response: Response, url: string, signal: AbortSignal) => Promise<T>;
+
+// One attempt: links the caller's signal to a local controller that also fires on timeout
+const attemptFetch = async <T>(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal | undefined,
+  timeoutMs: number,
+  read: ResponseReader<T>
+): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      const proxyMessage = await readProxyErrorMessage(response);
+      throw new NetworkError('http', url, proxyMessage || `HTTP error ${response.status} for ${url}`, response.status);
+    }
+    return await read(response, url, controller.signal);
+  } catch (err) {
+    if (err instanceof NetworkError) throw err;
+    if (timedOut) throw new NetworkError('timeout', url, `Request timed out after ${timeoutMs}ms`);
+    if (signal?.aborted) throw new NetworkError('aborted', url, 'Request was cancelled');
+    throw new NetworkError('network', url, err instanceof Error ? err.message : 'Network request failed');
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+const requestWithPolicy = async <T>(url: string, options: RequestOptions, init: RequestInit, read: ResponseReader<T>): Promise<T> => {
+  const {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    retries = DEFAULT_RETRIES,
+    retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw new NetworkError('aborted', url, 'Request was cancelled');
+    try {
+      return await attemptFetch(url, init, signal, timeoutMs, read);
+    } catch (err) {
+      const networkError = err as NetworkError;
+      if (attempt >= retries || !isRetryable(networkError)) throw networkError;
+      // Exponential backoff with a little jitter so parallel retries don't line up
+      const delay = retryDelayMs * 2 ** attempt + Math.random() * 100;
+      console.warn(`Network: Retrying ${url} in ${Math.round(delay)}ms (${networkError.message})`);
+      await wait(delay, signal, url);
+    }
+  }
+};
+
+// The timeout covers the response headers only; callers that read the body do so on their own time
+export const fetchWithPolicy = (url: string, options: RequestOptions = {}, init: RequestInit = {}): Promise<Response> =>
+  requestWithPolicy(url, options, init, async response => response);
+
+// The timeout covers the whole body as well
+export const fetchJsonWithPolicy = <T = unknown>(url: string, options: RequestOptions = {}, init: RequestInit = {}): Promise<T> =>
+  requestWithPolicy(url, options, init, async (response, responseUrl, signal) => {
+    try {
+      return await response.json() as T;
+    } catch (err) {
+      if (signal.aborted) throw err; // Timed out or cancelled mid-body, reported as such by attemptFetch
+      throw new NetworkError('parse', responseUrl, `Invalid JSON response from ${responseUrl}`);
+    }
+  });
+
+// --- Addon status ---
+
+export type AddonStatusState = 'ok' | 'failed' | 'timeout';
+
+export interface AddonStatus {
+  state: AddonStatusState;
+  message?: string;
+  updatedAt: number;
+}
+
+// Maps a request outcome to the status shown next to an addon. Aborts return null (nothing to report).
+export const getAddonStatusFromResult = (err?: unknown): AddonStatus | null => {
+  if (!err) return { state: 'ok', updatedAt: Date.now() };
+  if (isAbortError(err)) return null;
+  const message = err instanceof Error ? err.message : String(err);
+  const state: AddonStatusState = err instanceof NetworkError && err.kind === 'timeout' ? 'timeout' : 'failed';
+  return { state, message, updatedAt: Date.now() };
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { assertPublicUrl, isPublicAddress, OutboundRequestError } from '@/lib/outboundRequests';
+
+describe('isPublicAddress', () => {
+  it.each([
+    '93.184.215.14',
+    '2606:4700:4700::1111',
+    '2a00:1450:4001:82b::200e',
+    '::ffff:93.184.215.14',
+    '64:ff9b::5db8:d70e', // NAT64 of 93.184.215.14
+  ])('accepts %s', address => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '169.254.169.254',
+    '192.168.0.10',
+    '::',
+    '::1',
+    '::7f00:1', // IPv4-compatible 127.0.0.1
+    '::a9fe:a9fe', // IPv4-compatible 169.254.169.254
+    '::93.184.215.14', // Any IPv4-compatible address
+    '::ffff:127.0.0.1',
+    '::ffff:a9fe:a9fe',
+    '0:0:0:0:0:ffff:7f00:1',
+    '64:ff9b::7f00:1',
+    '64:ff9b::169.254.169.254',
+    'fd12:3456:789a::1',
+    'fe80::1',
+    'fe80::1%eth0',
+    'ff02::1',
+    'localhost',
+  ])('rejects %s', address => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+});
+
+describe('assertPublicUrl', () => {
+  it.each([
+    'http://127.0.0.1:11470/settings',
+    'http://[::1]/',
+    'http://[::ffff:7f00:1]/',
+    'http://2130706433/', // 127.0.0.1 as a number
+    'file:///etc/passwd',
+  ])('refuses %s', async url => {
+    await expect(assertPublicUrl(new URL(url))).rejects.toBeInstanceOf(OutboundRequestError);
+  });
+});
@@ -0,0 +1,110 @@
+// Server-side fetches to URLs that come from the client (addon and stream proxies). Only public
+// hosts are reached: every hop's host is resolved and rejected if any of its addresses is
+// private, loopback, link-local or otherwise internal, and redirects are followed here rather
+// than by fetch so each one is checked again.
+// The address is checked before fetch resolves it once more, so a host that changes its DNS
+// answer in between (rebinding) isn't caught; that needs a pinned connection.
+
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+const MAX_REDIRECTS = 5;
+
+export class OutboundRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OutboundRequestError';
+  }
+}
+
+const isPublicIpv4 = (address: string) => {
+  const [a, b, c] = address.split('.').map(Number);
+  return !(
+    a === 0 || // "This" network
+    a === 10 ||
+    a === 127 || // Loopback
+    (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) || // IETF protocol assignments
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast and reserved
+  );
+};
+
+// "::ffff:1.2.3.4" -> [0, 0, 0, 0, 0, 0xffff, 0x0102, 0x0304]. Expects an address isIP accepts.
+const getIpv6Groups = (address: string): number[] => {
+  let text = address.toLowerCase().split('%')[0]; // Drop a zone ID ("fe80::1%eth0")
+  const dottedTail = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (dottedTail) {
+    const [a, b, c, d] = dottedTail.slice(2).map(Number);
+    text = `${dottedTail[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+  const [head, tail] = text.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups = tail === undefined
+    ? headGroups
+    : [...headGroups, ...Array(8 - headGroups.length - tailGroups.length).fill('0'), ...tailGroups];
+  return groups.map(group => parseInt(group, 16));
+};
+
+export const isPublicAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 4) return isPublicIpv4(address);
+  if (version !== 6) return false;
+
+  const groups = getIpv6Groups(address);
+  const embeddedIpv4 = `${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`;
+  const prefixIs = (...prefix: number[]) => prefix.every((group, index) => groups[index] === group);
+  // Unspecified, loopback and IPv4-compatible addresses (::/96)
+  if (prefixIs(0, 0, 0, 0, 0, 0)) return false;
+  // IPv4-mapped (::ffff:0:0/96) and NAT64 (64:ff9b::/96) reach the IPv4 address they carry
+  if (prefixIs(0, 0, 0, 0, 0, 0xffff) || prefixIs(0x64, 0xff9b, 0, 0, 0, 0)) return isPublicIpv4(embeddedIpv4);
+  return !(
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local (fc00::/7)
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local (fe80::/10)
+    (groups[0] & 0xff00) === 0xff00 // Multicast
+  );
+};
+
+// Throws OutboundRequestError unless the URL is http(s) and every address of its host is public
+export const assertPublicUrl = async (url: URL): Promise<void> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new OutboundRequestError('Only http(s) URLs can be fetched');
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, ''); // IPv6 literals come bracketed
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new OutboundRequestError(`Could not resolve ${hostname}`);
+  }
+  if (addresses.length === 0 || addresses.some(({ address }) => !isPublicAddress(address))) {
+    throw new OutboundRequestError(`${hostname} is not a public host`);
+  }
+};
+
+// Fetches `url`, following up to MAX_REDIRECTS redirects. Every hop must pass assertPublicUrl and
+// `checkUrl`, which returns a reason to refuse the URL or null. The final response is returned
+// as is, whatever its status.
+export const fetchPublicUrl = async (
+  url: URL,
+  init: RequestInit = {},
+  checkUrl?: (url: URL) => string | null
+): Promise<Response> => {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const refusal = checkUrl?.(current);
+    if (refusal) throw new OutboundRequestError(refusal);
+    await assertPublicUrl(current);
+
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+  throw new OutboundRequestError(`Gave up after ${MAX_REDIRECTS} redirects`);
+};
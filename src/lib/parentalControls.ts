@@ -0,0 +1,192 @@
+// Parental controls: a restricted mode that hides titles above a maximum certification (per
+// rating region) or in blocked genres. Ratings come from TMDB, so they're looked up once per
+// title and cached for the session. A title without a usable rating counts as restricted.
+
+import { fetchTmdb } from '@/lib/tmdbClient';
+import { resolveContentIds } from '@/lib/idMapping';
+import type { RequestOptions } from '@/lib/network';
+
+export interface ParentalSettings {
+  enabled: boolean;
+  maxCertifications: Record<string, string>; // Region -> highest allowed rating, e.g. { US: 'PG-13' }
+  blockedGenres: string[];
+  pinHash?: string; // Needed to change the settings or leave restricted mode; see hashPin()
+}
+
+export const DEFAULT_PARENTAL_SETTINGS: ParentalSettings = {
+  enabled: false,
+  maxCertifications: { US: 'PG' },
+  blockedGenres: ['Horror'],
+};
+
+// Rating and genres of a title, as far as parental controls care
+export interface ContentRating {
+  certifications: Record<string, string>; // Region -> rating, e.g. { US: 'PG-13', GB: '12A' }
+  genres: string[];
+}
+
+export interface ContentRef {
+  type: string;
+  id: string;
+  rating?: ContentRating; // Skips the lookup when the caller already has TMDB data
+}
+
+// --- Rating systems ---
+
+interface RatingLevel {
+  label: string;
+  ratings: string[]; // Movie and TV ratings that sit at this level
+}
+
+// Levels from least to most restrictive. Ratings outside these lists (e.g. "NR") are unknown.
+export const RATING_SYSTEMS: Record<string, { label: string; levels: RatingLevel[] }> = {
+  US: {
+    label: 'United States',
+    levels: [
+      { label: 'G / TV-Y / TV-G', ratings: ['G', 'TV-Y', 'TV-G'] },
+      { label: 'PG / TV-Y7 / TV-PG', ratings: ['PG', 'TV-Y7', 'TV-Y7-FV', 'TV-PG'] },
+      { label: 'PG-13 / TV-14', ratings: ['PG-13', 'TV-14'] },
+      { label: 'R / TV-MA', ratings: ['R', 'TV-MA'] },
+      { label: 'NC-17', ratings: ['NC-17'] },
+    ],
+  },
+  GB: {
+    label: 'United Kingdom',
+    levels: [
+      { label: 'U', ratings: ['U', 'Uc'] },
+      { label: 'PG', ratings: ['PG'] },
+      { label: '12A / 12', ratings: ['12A', '12'] },
+      { label: '15', ratings: ['15'] },
+      { label: '18', ratings: ['18'] },
+      { label: 'R18', ratings: ['R18'] },
+    ],
+  },
+  DE: {
+    label: 'Germany',
+    levels: [
+      { label: 'FSK 0', ratings: ['0'] },
+      { label: 'FSK 6', ratings: ['6'] },
+      { label: 'FSK 12', ratings: ['12'] },
+      { label: 'FSK 16', ratings: ['16'] },
+      { label: 'FSK 18', ratings: ['18'] },
+    ],
+  },
+  FR: {
+    label: 'France',
+    levels: [
+      { label: 'Tous publics', ratings: ['U', 'TP'] },
+      { label: '-10', ratings: ['10'] },
+      { label: '-12', ratings: ['12'] },
+      { label: '-16', ratings: ['16'] },
+      { label: '-18', ratings: ['18'] },
+    ],
+  },
+};
+
+// Level index of a rating in a region's system, or -1 if it isn't one we know
+export const getRatingLevel = (region: string, rating: string): number => {
+  const levels = RATING_SYSTEMS[region]?.levels || [];
+  return levels.findIndex(level => level.ratings.includes(rating.trim()));
+};
+
+// --- Genres ---
+
+export const BLOCKABLE_GENRES = [
+  'Action', 'Adventure', 'Animation', 'Comedy', 'Crime', 'Documentary', 'Drama', 'Family', 'Fantasy',
+  'History', 'Horror', 'Music', 'Mystery', 'Reality', 'Romance', 'Science Fiction', 'Thriller', 'War', 'Western',
+];
+
+const GENRE_ALIASES: Record<string, string> = { 'sci-fi': 'science fiction', scifi: 'science fiction' };
+
+// TMDB TV genres are combined ("Sci-Fi & Fantasy"), so they're split before matching
+const normalizeGenres = (genres: string[]) => genres
+  .flatMap(genre => genre.toLowerCase().split(/\s*&\s*/))
+  .map(genre => GENRE_ALIASES[genre.trim()] || genre.trim());
+
+// --- Checks ---
+
+export const isContentAllowed = (settings: ParentalSettings, rating: ContentRating | null): boolean => {
+  if (!settings.enabled) return true;
+  if (!rating) return false; // Unknown counts as restricted
+
+  const blocked = new Set(normalizeGenres(settings.blockedGenres));
+  if (normalizeGenres(rating.genres).some(genre => blocked.has(genre))) return false;
+
+  const regions = Object.keys(settings.maxCertifications).filter(region => RATING_SYSTEMS[region]);
+  if (regions.length === 0) return true;
+  const ratedRegions = regions.filter(region => rating.certifications[region]);
+  if (ratedRegions.length === 0) return false; // Not rated anywhere we check
+
+  return ratedRegions.every(region => {
+    const level = getRatingLevel(region, rating.certifications[region]);
+    return level !== -1 && level <= getRatingLevel(region, settings.maxCertifications[region]);
+  });
+};
+
+// --- TMDB ratings ---
+
+interface TmdbReleaseDates {
+  results?: { iso_3166_1: string; release_dates?: { certification?: string }[] }[];
+}
+
+interface TmdbContentRatings {
+  results?: { iso_3166_1: string; rating?: string }[];
+}
+
+interface TmdbRatedDetails {
+  genres?: { name: string }[];
+  release_dates?: TmdbReleaseDates;
+  content_ratings?: TmdbContentRatings;
+}
+
+// Region -> rating from a TMDB movie (`release_dates`) or TV (`content_ratings`) response
+export const extractTmdbCertifications = (tmdbData: TmdbRatedDetails, type: string): Record<string, string> => {
+  const certifications: Record<string, string> = {};
+  if (type === 'movie') {
+    tmdbData.release_dates?.results?.forEach(result => {
+      const rating = result.release_dates?.find(release => release.certification)?.certification;
+      if (rating) certifications[result.iso_3166_1] = rating;
+    });
+  } else {
+    tmdbData.content_ratings?.results?.forEach(result => {
+      if (result.rating) certifications[result.iso_3166_1] = result.rating;
+    });
+  }
+  return certifications;
+};
+
+const ratingCache = new Map<string, Promise<ContentRating | null>>();
+
+// Rating for a title by any ID we can map to TMDB (episode suffixes are ignored).
+// Resolves to null when it can't be found; failed requests aren't cached.
+export const fetchContentRating = (
+  type: string,
+  id: string,
+  tmdbApiKey: string | null,
+  options?: RequestOptions
+): Promise<ContentRating | null> => {
+  if (!tmdbApiKey) return Promise.resolve(null);
+  const key = `${type}/${id}`;
+  const cached = ratingCache.get(key);
+  if (cached) return cached;
+
+  const lookup = (async () => {
+    const ids = await resolveContentIds(id, type, tmdbApiKey, options);
+    if (!ids.tmdb) return null;
+    const isMovie = type === 'movie';
+    const details = await fetchTmdb<TmdbRatedDetails>(
+      `/${isMovie ? 'movie' : 'tv'}/${ids.tmdb.substring(5)}`,
+      tmdbApiKey,
+      { append_to_response: isMovie ? 'release_dates' : 'content_ratings' },
+      options
+    );
+    return {
+      certifications: extractTmdbCertifications(details, type),
+      genres: details.genres?.map(genre => genre.name) || [],
+    };
+  })();
+
+  ratingCache.set(key, lookup);
+  lookup.catch(() => ratingCache.delete(key));
+  return lookup;
+};
@@ -0,0 +1,110 @@
+// User profiles. Every profile keeps its own addons, TMDB settings, library, watch history and
+// player preferences: contexts read and write their storage keys through profileStorageKey(),
+// which prefixes them with the active profile ("profile_{id}_watchProgress").
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  color: string; // Avatar background
+  pinHash?: string; // "{algorithm}:{salt}:{hash}"; no PIN when missing
+  createdAt: number;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+export const MAX_PROFILES = 5;
+
+export const PROFILE_COLORS = ['#e50914', '#2b7be5', '#f5c518', '#1f9d55', '#9b51e0', '#e8710a'];
+
+// Keys that were global before profiles existed; moved into the first profile on upgrade
+export const LEGACY_PROFILE_STORAGE_KEYS = [
+  'installedAddonsData',
+  'installedAddons',
+  'tmdbConfig_apiKey',
+  'tmdbConfig_isEnabled',
+  'tmdbConfig_useProxy',
+  'streamProfiles',
+  'streamProfiles_activeId',
+  'streamingServer_url',
+  'streamingServer_hideUnplayable',
+  'watchProgress',
+  'watchProgress_threshold',
+  'libraryItems',
+];
+
+// --- Active storage profile ---
+
+// Set by ProfileContext before the profile's providers mount, so their first reads use it
+let activeStorageProfileId = DEFAULT_PROFILE_ID;
+
+export const setStorageProfile = (profileId: string) => {
+  activeStorageProfileId = profileId;
+};
+
+export const getProfileStoragePrefix = (profileId: string) => `profile_${profileId}_`;
+
+// "watchProgress" -> "profile_default_watchProgress" (works for localStorage and sessionStorage)
+export const profileStorageKey = (key: string, profileId: string = activeStorageProfileId) =>
+  `${getProfileStoragePrefix(profileId)}${key}`;
+
+// Copies pre-profile data into the given profile, then drops the global copies
+export const migrateLegacyStorage = (profileId: string) => {
+  LEGACY_PROFILE_STORAGE_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value === null) return;
+    localStorage.setItem(profileStorageKey(key, profileId), value);
+    localStorage.removeItem(key);
+  });
+};
+
+export const clearProfileStorage = (profileId: string) => {
+  const prefix = getProfileStoragePrefix(profileId);
+  [localStorage, sessionStorage].forEach(storage => {
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+    keys.forEach(key => storage.removeItem(key));
+  });
+};
+
+// --- PINs ---
+// A PIN keeps housemates out of each other's profiles; it isn't real security, since everything
+// lives in this browser's storage anyway.
+
+export const isValidPin = (pin: string) => /^\d{4}$/.test(pin);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+
+// crypto.subtle only exists in secure contexts (https, localhost); plain-http LAN installs
+// fall back to FNV-1a
+const fnv1a = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const digestPin = async (algorithm: string, salt: string, pin: string): Promise<string> => {
+  if (algorithm === 'sha256') {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`));
+    return toHex(new Uint8Array(digest));
+  }
+  return fnv1a(`${salt}:${pin}`);
+};
+
+export const hashPin = async (pin: string): Promise<string> => {
+  const algorithm = typeof crypto !== 'undefined' && crypto.subtle ? 'sha256' : 'fnv1a';
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(8)));
+  return `${algorithm}:${salt}:${await digestPin(algorithm, salt, pin)}`;
+};
+
+export const verifyPin = async (pin: string, pinHash: string): Promise<boolean> => {
+  const [algorithm, salt, expected] = pinHash.split(':');
+  if (algorithm === 'sha256' && !(typeof crypto !== 'undefined' && crypto.subtle)) return false;
+  return (await digestPin(algorithm, salt, pin)) === expected;
+};
+
+export const createProfileId = () => `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
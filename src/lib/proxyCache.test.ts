@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_UPSTREAM_BODY_BYTES, readUpstreamBody, type ProxyErrorBody } from '@/lib/proxyCache';
+
+// A response whose body sends `chunks`, then fails with `error` if one is given
+const streamedResponse = (chunks: Uint8Array[], error?: unknown) => {
+  let index = 0;
+  return new Response(new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) return controller.enqueue(chunks[index++]);
+      if (error) return controller.error(error);
+      controller.close();
+    },
+  }));
+};
+
+const getError = async (result: Awaited<ReturnType<typeof readUpstreamBody>>) => {
+  if (!('error' in result)) throw new Error('Expected an error response');
+  return { status: result.error.status, body: (await result.error.json()) as ProxyErrorBody };
+};
+
+describe('readUpstreamBody', () => {
+  it('reads the whole body', async () => {
+    const encoder = new TextEncoder();
+    await expect(readUpstreamBody(streamedResponse([encoder.encode('{"metas":'), encoder.encode('[]}')])))
+      .resolves.toEqual({ body: '{"metas":[]}' });
+  });
+
+  it('stops reading past the size cap', async () => {
+    const chunk = new Uint8Array(1024 * 1024);
+    const chunks = Array.from({ length: MAX_UPSTREAM_BODY_BYTES / chunk.byteLength + 1 }, () => chunk);
+
+    const { status, body } = await getError(await readUpstreamBody(streamedResponse(chunks)));
+
+    expect(status).toBe(502);
+    expect(body.error.kind).toBe('upstream');
+  });
+
+  it('reports a timeout that fires while the body is read', async () => {
+    const result = await readUpstreamBody(streamedResponse([new Uint8Array(10)], new DOMException('Timed out', 'TimeoutError')));
+
+    const { status, body } = await getError(result);
+    expect(status).toBe(504);
+    expect(body.error.kind).toBe('timeout');
+  });
+
+  it('reports other read failures as upstream errors', async () => {
+    const { status, body } = await getError(await readUpstreamBody(streamedResponse([], new TypeError('terminated'))));
+
+    expect(status).toBe(502);
+    expect(body.error.kind).toBe('upstream');
+  });
+});
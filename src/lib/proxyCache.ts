@@ -0,0 +1,125 @@
+// Server-side response cache and helpers shared by the /api proxy routes.
+// Lives in the route handlers' process memory, so it is per server instance and lost on restart.
+
+import { fetchPublicUrl, OutboundRequestError } from '@/lib/outboundRequests';
+
+export interface CachedResponse {
+  body: string;
+  status: number;
+  contentType: string;
+  expiresAt: number;
+}
+
+// Shape of every error the proxy routes return, so the client can show one kind of message
+export interface ProxyErrorBody {
+  error: {
+    kind: 'forbidden' | 'bad_request' | 'unauthorized' | 'conflict' | 'timeout' | 'upstream' | 'network';
+    message: string;
+    status?: number; // Upstream status, when there was one
+  };
+}
+
+const MAX_ENTRIES = 500;
+const MAX_TTL_SECONDS = 24 * 60 * 60;
+export const UPSTREAM_TIMEOUT_MS = 15000;
+export const MAX_UPSTREAM_BODY_BYTES = 4 * 1024 * 1024; // Addon and TMDB JSON stays far below this
+
+const cache = new Map<string, CachedResponse>();
+
+export const getCachedResponse = (key: string): CachedResponse | null => {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  return entry;
+};
+
+export const setCachedResponse = (key: string, entry: Omit<CachedResponse, 'expiresAt'>, ttlSeconds: number) => {
+  if (ttlSeconds <= 0 || Buffer.byteLength(entry.body) > MAX_UPSTREAM_BODY_BYTES) return;
+  // Map keeps insertion order, so the first key is the oldest entry
+  if (cache.size >= MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+  cache.set(key, { ...entry, expiresAt: Date.now() + Math.min(ttlSeconds, MAX_TTL_SECONDS) * 1000 });
+};
+
+// Upstream Cache-Control wins over our default: "no-store"/"no-cache" disable caching,
+// "max-age=N" sets the TTL
+export const getTtlSeconds = (cacheControl: string | null, defaultTtlSeconds: number): number => {
+  if (!cacheControl) return defaultTtlSeconds;
+  if (/no-store|no-cache|private/i.test(cacheControl)) return 0;
+  const maxAge = cacheControl.match(/max-age=(\d+)/i);
+  return maxAge ? parseInt(maxAge[1], 10) : defaultTtlSeconds;
+};
+
+export const proxyErrorResponse = (
+  httpStatus: number,
+  kind: ProxyErrorBody['error']['kind'],
+  message: string,
+  upstreamStatus?: number
+) => Response.json({ error: { kind, message, status: upstreamStatus } } satisfies ProxyErrorBody, { status: httpStatus });
+
+const tooLargeResponse = () =>
+  proxyErrorResponse(502, 'upstream', `Upstream response is larger than ${MAX_UPSTREAM_BODY_BYTES / 1024 / 1024} MB`);
+
+const isTimeoutError = (err: unknown) => err instanceof DOMException && err.name === 'TimeoutError';
+
+export const cachedJsonResponse = (entry: Omit<CachedResponse, 'expiresAt'>, cacheState: 'HIT' | 'MISS', ttlSeconds: number) =>
+  new Response(entry.body, {
+    status: entry.status,
+    headers: {
+      'Content-Type': entry.contentType,
+      'Cache-Control': ttlSeconds > 0 ? `public, max-age=${ttlSeconds}` : 'no-store',
+      'X-Proxy-Cache': cacheState,
+    },
+  });
+
+// Fetches upstream with a timeout and turns failures into normalized error responses. Only public
+// hosts are fetched, and every redirect hop must also pass `checkUrl` (see fetchPublicUrl).
+// Returns the upstream Response on success.
+export const fetchUpstream = async (url: string, init: RequestInit = {}, checkUrl?: (url: URL) => string | null): Promise<Response> => {
+  try {
+    const upstream = await fetchPublicUrl(new URL(url), { ...init, signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS) }, checkUrl);
+    if (!upstream.ok) {
+      await upstream.body?.cancel();
+      return proxyErrorResponse(upstream.status >= 500 ? 502 : upstream.status, 'upstream', `Upstream responded with ${upstream.status}`, upstream.status);
+    }
+    if (Number(upstream.headers.get('content-length')) > MAX_UPSTREAM_BODY_BYTES) {
+      await upstream.body?.cancel();
+      return tooLargeResponse();
+    }
+    return upstream;
+  } catch (err) {
+    if (err instanceof OutboundRequestError) return proxyErrorResponse(403, 'forbidden', err.message);
+    if (isTimeoutError(err)) {
+      return proxyErrorResponse(504, 'timeout', `Upstream did not respond within ${UPSTREAM_TIMEOUT_MS / 1000}s`);
+    }
+    return proxyErrorResponse(502, 'network', err instanceof Error ? err.message : 'Upstream request failed');
+  }
+};
+
+// Reads the body of a response from fetchUpstream, up to MAX_UPSTREAM_BODY_BYTES. The upstream
+// timeout keeps running while the body streams in, so it can still fire here. Failures come back
+// as an error response for the route to return.
+export const readUpstreamBody = async (upstream: Response): Promise<{ body: string } | { error: Response }> => {
+  if (!upstream.body) return { body: '' };
+  const reader = upstream.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.byteLength;
+      if (size > MAX_UPSTREAM_BODY_BYTES) {
+        await reader.cancel();
+        return { error: tooLargeResponse() };
+      }
+      chunks.push(chunk.value);
+    }
+  } catch (err) {
+    if (isTimeoutError(err)) {
+      return { error: proxyErrorResponse(504, 'timeout', `Upstream did not finish responding within ${UPSTREAM_TIMEOUT_MS / 1000}s`) };
+    }
+    return { error: proxyErrorResponse(502, 'upstream', 'Upstream response could not be read') };
+  }
+  return { body: Buffer.concat(chunks).toString('utf8') };
+};
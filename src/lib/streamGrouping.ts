@@ -0,0 +1,93 @@
+// Collapses the same release coming from several addons (or twice from one addon) into a group.
+// Two streams belong together when they share an infoHash, a filename, an exact byte size, or
+// the same parsed release fingerprint (resolution, source, codec, group and size).
+
+import type { ParsedRelease } from '@/lib/streamParser';
+
+export interface GroupableStream {
+  addon: string;
+  infoHash?: string;
+  fileIdx?: number;
+  parsed?: ParsedRelease;
+  behaviorHints?: { filename?: string; videoSize?: number };
+}
+
+export interface StreamGroup<T> {
+  key: string;
+  members: T[]; // In incoming order, so members[0] is the preferred source when the input is ranked
+  addonIds: string[];
+}
+
+interface IndexGroup {
+  key: string;
+  indexes: number[]; // Positions in the input list
+}
+
+// Sizes written in titles are rounded ("12.3 GB"), so compare them at 100 MB precision
+const SIZE_BUCKET_BYTES = 100 * 1024 * 1024;
+
+const getGroupKeys = (stream: GroupableStream): string[] => {
+  const keys: string[] = [];
+  if (stream.infoHash) keys.push(`hash:${stream.infoHash.toLowerCase()}:${stream.fileIdx ?? ''}`);
+
+  const filename = stream.behaviorHints?.filename?.trim().toLowerCase();
+  if (filename) keys.push(`file:${filename}`);
+
+  const videoSize = stream.behaviorHints?.videoSize;
+  if (typeof videoSize === 'number' && videoSize > 0) keys.push(`size:${videoSize}`);
+
+  // Only fingerprint when there is enough to tell releases apart
+  const parsed = stream.parsed;
+  const sizeBytes = videoSize || parsed?.sizeBytes?.value;
+  if (parsed?.releaseGroup && parsed.resolution && sizeBytes) {
+    keys.push([
+      'release',
+      parsed.resolution.value,
+      parsed.source?.value || '',
+      parsed.codec?.value || '',
+      parsed.releaseGroup.value.toLowerCase(),
+      Math.round(sizeBytes / SIZE_BUCKET_BYTES),
+    ].join(':'));
+  }
+  return keys;
+};
+
+// Groups streams that share any key. Groups come out in the order of their first member,
+// so a ranked input stays ranked.
+export const groupStreams = <T>(items: T[], getStream: (item: T) => GroupableStream): StreamGroup<T>[] => {
+  // Work with item indexes so merged groups can be put back in input order
+  const groups: IndexGroup[] = [];
+  const groupByKey = new Map<string, IndexGroup>();
+
+  items.forEach((item, index) => {
+    const keys = getGroupKeys(getStream(item));
+    const matches = [...new Set(keys.map(key => groupByKey.get(key)).filter((group): group is IndexGroup => !!group))];
+
+    const group: IndexGroup = matches[0] || { key: keys[0] || `single:${index}`, indexes: [] };
+    if (!matches[0]) groups.push(group);
+
+    // A stream can bridge two existing groups (same hash as one, same filename as another)
+    matches.slice(1).forEach(other => {
+      group.indexes.push(...other.indexes);
+      groups.splice(groups.indexOf(other), 1);
+      groupByKey.forEach((value, key) => {
+        if (value === other) groupByKey.set(key, group);
+      });
+    });
+
+    group.indexes.push(index);
+    keys.forEach(key => groupByKey.set(key, group));
+  });
+
+  groups.forEach(group => group.indexes.sort((a, b) => a - b));
+  return groups
+    .sort((a, b) => a.indexes[0] - b.indexes[0])
+    .map(group => {
+      const members = group.indexes.map(index => items[index]);
+      return {
+        key: group.key,
+        members,
+        addonIds: [...new Set(members.map(member => getStream(member).addon))],
+      };
+    });
+};
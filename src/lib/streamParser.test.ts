@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseReleaseName, parseStream } from '@/lib/streamParser';
+import { RELEASE_NAME_FIXTURES } from '@/lib/__fixtures__/releaseNames';
+
+describe('parseReleaseName', () => {
+  it.each(RELEASE_NAME_FIXTURES)('$name', ({ name, expected }) => {
+    const parsed = parseReleaseName(name);
+    Object.entries(expected).forEach(([field, value]) => {
+      expect(parsed[field as keyof typeof parsed]?.value, field).toEqual(value ?? undefined);
+    });
+  });
+
+  it('does not read a bare "DD" as Dolby Digital', () => {
+    expect(parseReleaseName('Odd.Couple.DD.1080p.WEB.H264').audio).toBeUndefined();
+  });
+
+  it('trusts explicit tokens more than marketing terms', () => {
+    expect(parseReleaseName('Movie.2160p.WEB-DL').resolution).toEqual({ value: '2160p', confidence: 0.95 });
+    expect(parseReleaseName('Movie 4K WEB-DL').resolution).toEqual({ value: '2160p', confidence: 0.6 });
+  });
+
+  it('returns nothing for an empty name', () => {
+    expect(parseReleaseName('')).toEqual({});
+  });
+});
+
+describe('parseStream', () => {
+  it('prefers the filename over the addon name and merges list fields', () => {
+    const parsed = parseStream({
+      name: 'Torrentio\n4k DV',
+      title: 'Dune.Part.Two.2024.2160p.WEB-DL.DDP5.1.Atmos.DV.HDR10.H.265-FLUX\n👤 120 💾 18.4 GB ⚙️ ThePirateBay\n🇬🇧 / 🇮🇹',
+      behaviorHints: { filename: 'Dune.Part.Two.2024.2160p.WEB-DL.DDP5.1.Atmos.DV.HDR10.H.265-FLUX.mkv' },
+    });
+    expect(parsed.resolution).toEqual({ value: '2160p', confidence: 0.95 });
+    expect(parsed.hdr?.value).toEqual(['DV', 'HDR10']);
+    expect(parsed.audio?.value).toEqual(['Atmos', 'DD+']);
+    expect(parsed.languages?.value).toEqual(['English', 'Italian']);
+    expect(parsed.sizeBytes?.value).toBe(Math.round(18.4 * 1024 ** 3));
+    expect(parsed.releaseGroup?.value).toBe('FLUX');
+  });
+});
@@ -0,0 +1,434 @@
+// Release-name parser for stream titles/filenames
+// ("Show.S01E01-E03.2160p.UHD.BluRay.REMUX.DV.P7.HDR10.TrueHD.Atmos.7.1-GROUP.mkv").
+// Every field comes with a confidence between 0 and 1: explicit tokens score high, guesses
+// (a lone "4K", a three-letter language code, a name rather than a filename) score lower.
+
+export interface ParsedField<T> {
+  value: T;
+  confidence: number;
+}
+
+export type Resolution = '4320p' | '2160p' | '1440p' | '1080p' | '720p' | '576p' | '480p' | '360p';
+export type ReleaseSource = 'BluRay' | 'WEB-DL' | 'WEBRip' | 'WEB' | 'HDTV' | 'DVDRip' | 'CAM' | 'TS' | 'TC' | 'SCR';
+export type ReleaseType = 'remux' | 'encode';
+export type VideoCodec = 'HEVC' | 'AVC' | 'AV1' | 'VP9' | 'MPEG-2' | 'XviD';
+export type HdrFormat = 'DV' | 'HDR10+' | 'HDR10' | 'HDR' | 'HLG';
+export type AudioFormat = 'Atmos' | 'TrueHD' | 'DTS:X' | 'DTS-HD MA' | 'DTS-HD' | 'DTS' | 'DD+' | 'DD' | 'AAC' | 'FLAC' | 'Opus' | 'MP3' | 'PCM';
+export type ThreeDFormat = '3D' | 'SBS' | 'OU';
+
+export interface ParsedRelease {
+  resolution?: ParsedField<Resolution>;
+  source?: ParsedField<ReleaseSource>;
+  releaseType?: ParsedField<ReleaseType>;
+  codec?: ParsedField<VideoCodec>;
+  bitDepth?: ParsedField<number>;
+  hdr?: ParsedField<HdrFormat[]>;
+  dvProfile?: ParsedField<number>;
+  audio?: ParsedField<AudioFormat[]>; // Best first
+  channels?: ParsedField<string>; // "7.1", "5.1", "2.0", "7.1.4"
+  languages?: ParsedField<string[]>;
+  multiAudio?: ParsedField<boolean>;
+  seasons?: ParsedField<number[]>;
+  episodes?: ParsedField<number[]>;
+  seasonPack?: ParsedField<boolean>;
+  threeD?: ParsedField<ThreeDFormat>;
+  releaseGroup?: ParsedField<string>;
+  sizeBytes?: ParsedField<number>;
+  year?: ParsedField<number>;
+}
+
+// --- Grammar ---
+
+// Release names separate tokens with dots, dashes, underscores, spaces or brackets,
+// so "\b" isn't enough (it treats "x264" and "DDP5" as single words).
+const token = (pattern: string, flags = 'i') => new RegExp(`(?<![A-Za-z0-9])(?:${pattern})(?![A-Za-z0-9])`, flags);
+// Like token(), but allows a trailing number (e.g. "DDP5.1", "AAC2.0")
+const prefixToken = (pattern: string) => new RegExp(`(?<![a-z0-9])(?:${pattern})(?![a-z])`, 'i');
+
+interface Rule<T> {
+  regex: RegExp;
+  value: T;
+  confidence: number;
+}
+
+const RESOLUTION_RULES: Rule<Resolution>[] = [
+  { regex: token('4320[pi]|8k'), value: '4320p', confidence: 0.9 },
+  { regex: token('2160[pi]|3840x2160|4096x2160'), value: '2160p', confidence: 0.95 },
+  { regex: token('1440[pi]|2560x1440'), value: '1440p', confidence: 0.95 },
+  { regex: token('1080[pi]|1920x1080'), value: '1080p', confidence: 0.95 },
+  { regex: token('720[pi]|1280x720'), value: '720p', confidence: 0.95 },
+  { regex: token('576[pi]'), value: '576p', confidence: 0.95 },
+  { regex: token('480[pi]|640x480|720x480'), value: '480p', confidence: 0.95 },
+  { regex: token('360[pi]'), value: '360p', confidence: 0.95 },
+  // Marketing terms: plausible but often wrong ("4K" upscales, "UHD" in a site name...)
+  { regex: token('4k|uhd|ultra[ .-]?hd'), value: '2160p', confidence: 0.6 },
+  { regex: token('fhd|full[ .-]?hd'), value: '1080p', confidence: 0.5 },
+  // A bare "HD" says nothing reliable about the resolution, so it is deliberately not mapped
+];
+
+const SOURCE_RULES: Rule<ReleaseSource>[] = [
+  { regex: token('(?:uhd[ .-]?)?blu[ .-]?ray|bd[ .-]?remux|bdrip|brrip|bd25|bd50|bd66|bd100'), value: 'BluRay', confidence: 0.95 },
+  { regex: token('web[ .-]?dl|webdl'), value: 'WEB-DL', confidence: 0.95 },
+  { regex: token('web[ .-]?rip'), value: 'WEBRip', confidence: 0.95 },
+  { regex: token('hdtv|pdtv|dsr|tvrip'), value: 'HDTV', confidence: 0.9 },
+  { regex: token('dvd[ .-]?rip|dvd[59]?|dvdr'), value: 'DVDRip', confidence: 0.85 },
+  { regex: token('hd[ .-]?cam|cam[ .-]?rip|cam'), value: 'CAM', confidence: 0.85 },
+  { regex: token('telesync|hd[ .-]?ts|ts[ .-]?rip'), value: 'TS', confidence: 0.85 },
+  { regex: token('telecine|hd[ .-]?tc'), value: 'TC', confidence: 0.85 },
+  { regex: token('dvd[ .-]?scr|screener|scr'), value: 'SCR', confidence: 0.8 },
+  { regex: token('web'), value: 'WEB', confidence: 0.7 },
+  // Too short to trust on their own
+  { regex: token('TS', ''), value: 'TS', confidence: 0.4 },
+  { regex: token('TC', ''), value: 'TC', confidence: 0.4 },
+];
+
+const CODEC_RULES: Rule<VideoCodec>[] = [
+  { regex: token('x\\.?265|h\\.?265|hevc'), value: 'HEVC', confidence: 0.95 },
+  { regex: token('x\\.?264|h\\.?264|avc'), value: 'AVC', confidence: 0.95 },
+  { regex: token('av1'), value: 'AV1', confidence: 0.95 },
+  { regex: token('vp9'), value: 'VP9', confidence: 0.9 },
+  { regex: token('mpeg[ .-]?2'), value: 'MPEG-2', confidence: 0.9 },
+  { regex: token('xvid|divx'), value: 'XviD', confidence: 0.9 },
+];
+
+const BIT_DEPTH_RULES: Rule<number>[] = [
+  { regex: token('12[ .-]?bits?'), value: 12, confidence: 0.95 },
+  { regex: token('10[ .-]?bits?|hi10p?'), value: 10, confidence: 0.95 },
+  { regex: token('8[ .-]?bits?'), value: 8, confidence: 0.95 },
+];
+
+// All matching HDR formats are collected (hybrid releases carry "DV.HDR10")
+const HDR_RULES: Rule<HdrFormat>[] = [
+  { regex: token('dolby[ .-]?vision|dovi'), value: 'DV', confidence: 0.95 },
+  { regex: token('dv(?:[ .-]?p[4-9](?:\\.\\d)?)?'), value: 'DV', confidence: 0.75 },
+  { regex: token('hdr10(?:\\+|plus|p)'), value: 'HDR10+', confidence: 0.95 },
+  { regex: token('hdr10(?!\\+)'), value: 'HDR10', confidence: 0.95 },
+  { regex: token('hdr'), value: 'HDR', confidence: 0.85 },
+  { regex: token('hlg'), value: 'HLG', confidence: 0.85 },
+];
+
+const DV_PROFILE_REGEX = new RegExp('(?<![a-z0-9])(?:dv|dovi|dolby[ .-]?vision)[ .-]*(?:p|profile[ .-]?)([4-9])(?:\\.\\d)?(?![0-9])', 'i');
+
+// Ordered best first; all matches are collected
+const AUDIO_RULES: Rule<AudioFormat>[] = [
+  { regex: token('atmos'), value: 'Atmos', confidence: 0.95 },
+  { regex: prefixToken('true[ .-]?hd'), value: 'TrueHD', confidence: 0.95 },
+  { regex: token('dts[ .:-]?x'), value: 'DTS:X', confidence: 0.9 },
+  { regex: prefixToken('dts[ .-]?hd[ .-]?ma|dts[ .-]?ma'), value: 'DTS-HD MA', confidence: 0.95 },
+  { regex: prefixToken('dts[ .-]?hd(?![ .-]?ma)'), value: 'DTS-HD', confidence: 0.9 },
+  { regex: prefixToken('dts(?![ .:-]?(?:hd|ma|x(?![a-z0-9])))'), value: 'DTS', confidence: 0.9 },
+  { regex: prefixToken('dd\\+|ddp|e[ .-]?ac[ .-]?3|dolby[ .-]?digital[ .-]?plus'), value: 'DD+', confidence: 0.95 },
+  // "DD" alone is too ambiguous; only trust it with a channel count ("DD5.1", "DD 2.0")
+  { regex: new RegExp('(?<![a-z0-9])dd[ .]?[1-7]\\.[01](?![0-9])', 'i'), value: 'DD', confidence: 0.9 },
+  { regex: token('(?<!e[ .-]?)ac[ .-]?3|dolby[ .-]?digital(?![ .-]?plus)'), value: 'DD', confidence: 0.9 }, // Not the "AC3" of "E-AC3"
+  { regex: prefixToken('aac'), value: 'AAC', confidence: 0.9 },
+  { regex: prefixToken('flac'), value: 'FLAC', confidence: 0.9 },
+  { regex: prefixToken('opus'), value: 'Opus', confidence: 0.85 },
+  { regex: prefixToken('mp3'), value: 'MP3', confidence: 0.85 },
+  { regex: token('l?pcm'), value: 'PCM', confidence: 0.85 },
+];
+
+// "7.1", "5.1", "2.0", "7.1.4" not preceded by other digits (so "2019.1080p" doesn't count, but
+// "E-AC3.7.1" does) and not followed by a size unit ("2.1 GB")
+const CHANNELS_REGEX = new RegExp('(?<![0-9])(?<!(?<!ac)[0-9]\\.)([12]\\.[01]|[567]\\.1)(?:\\.([246]))?(?![0-9]|\\s?[gmt]i?b)', 'i');
+const CHANNELS_CH_REGEX = new RegExp('(?<![a-z0-9])([2-8])[ .]?ch(?![a-z])', 'i');
+
+interface LanguageRule {
+  regex: RegExp;
+  language: string;
+  confidence: number;
+}
+
+// Full names are reliable; three-letter codes less so
+const LANGUAGE_RULES: LanguageRule[] = [
+  { regex: token('english'), language: 'English', confidence: 0.85 },
+  { regex: token('eng'), language: 'English', confidence: 0.65 },
+  { regex: token('latino|lat'), language: 'Latino', confidence: 0.7 },
+  { regex: token('spanish|español|espanol|castellano'), language: 'Spanish', confidence: 0.85 },
+  { regex: token('spa|esp'), language: 'Spanish', confidence: 0.6 },
+  { regex: token('french|français|francais|truefrench|vff|vfq'), language: 'French', confidence: 0.85 },
+  { regex: token('fre|fra|vf'), language: 'French', confidence: 0.6 },
+  { regex: token('german|deutsch'), language: 'German', confidence: 0.85 },
+  { regex: token('ger|deu'), language: 'German', confidence: 0.6 },
+  { regex: token('italian|italiano'), language: 'Italian', confidence: 0.85 },
+  { regex: token('ita'), language: 'Italian', confidence: 0.65 },
+  { regex: token('portuguese|português|portugues|dublado'), language: 'Portuguese', confidence: 0.85 },
+  { regex: token('por|pt[ .-]?br'), language: 'Portuguese', confidence: 0.6 },
+  { regex: token('russian'), language: 'Russian', confidence: 0.85 },
+  { regex: token('rus'), language: 'Russian', confidence: 0.65 },
+  { regex: token('japanese'), language: 'Japanese', confidence: 0.85 },
+  { regex: token('jap|jpn'), language: 'Japanese', confidence: 0.6 },
+  { regex: token('korean'), language: 'Korean', confidence: 0.85 },
+  { regex: token('kor'), language: 'Korean', confidence: 0.6 },
+  { regex: token('chinese|mandarin|cantonese'), language: 'Chinese', confidence: 0.85 },
+  { regex: token('chi|chs|cht'), language: 'Chinese', confidence: 0.6 },
+  { regex: token('hindi'), language: 'Hindi', confidence: 0.85 },
+  { regex: token('hin'), language: 'Hindi', confidence: 0.6 },
+  { regex: token('polish'), language: 'Polish', confidence: 0.85 },
+  { regex: token('pol'), language: 'Polish', confidence: 0.6 },
+  { regex: token('dutch'), language: 'Dutch', confidence: 0.85 },
+  { regex: token('turkish'), language: 'Turkish', confidence: 0.85 },
+  { regex: token('ukrainian'), language: 'Ukrainian', confidence: 0.85 },
+  { regex: token('ukr'), language: 'Ukrainian', confidence: 0.6 },
+  { regex: token('arabic'), language: 'Arabic', confidence: 0.85 },
+];
+
+// Flag emojis used by addons such as Torrentio ("🇬🇧 / 🇮🇹")
+const FLAG_LANGUAGES: Record<string, string> = {
+  '🇬🇧': 'English', '🇺🇸': 'English', '🇪🇸': 'Spanish', '🇲🇽': 'Latino', '🇫🇷': 'French',
+  '🇩🇪': 'German', '🇮🇹': 'Italian', '🇵🇹': 'Portuguese', '🇧🇷': 'Portuguese', '🇷🇺': 'Russian',
+  '🇯🇵': 'Japanese', '🇰🇷': 'Korean', '🇨🇳': 'Chinese', '🇹🇼': 'Chinese', '🇮🇳': 'Hindi',
+  '🇵🇱': 'Polish', '🇳🇱': 'Dutch', '🇹🇷': 'Turkish', '🇺🇦': 'Ukrainian', '🇸🇦': 'Arabic',
+};
+
+// Every language name the parser can produce, e.g. for language preference pickers
+export const KNOWN_LANGUAGES = [...new Set(LANGUAGE_RULES.map(rule => rule.language))];
+
+const MULTI_AUDIO_REGEX = token('multi(?:[ .-]?(?:audio|lang|subs?))?|dual[ .-]?audio|dual');
+
+const THREE_D_RULES: Rule<ThreeDFormat>[] = [
+  { regex: token('h(?:alf)?[ .-]?sbs|sbs'), value: 'SBS', confidence: 0.9 },
+  { regex: token('h(?:alf)?[ .-]?ou|h(?:alf)?[ .-]?tab'), value: 'OU', confidence: 0.9 },
+  { regex: token('3d'), value: '3D', confidence: 0.85 },
+];
+
+// Words that look like a group name after a final dash but aren't
+const NOT_A_GROUP = new RegExp(
+  '^(?:\\d+p?|x26[45]|h26[45]|hevc|avc|web|webrip|dl|rip|hd|sd|uhd|4k|bluray|remux|hdr\\d*|dv|atmos|aac|ac3|dts|ddp?\\d*|mkv|mp4|avi|sample|proper|repack|multi|eng|english)$',
+  'i'
+);
+
+const VIDEO_EXTENSIONS = 'mkv|mp4|avi|m4v|ts|webm|wmv|mov';
+
+// --- Helpers ---
+
+const firstMatch = <T>(text: string, rules: Rule<T>[]): ParsedField<T> | undefined => {
+  for (const rule of rules) {
+    if (rule.regex.test(text)) return { value: rule.value, confidence: rule.confidence };
+  }
+  return undefined;
+};
+
+const allMatches = <T>(text: string, rules: Rule<T>[]): ParsedField<T[]> | undefined => {
+  const values: T[] = [];
+  let confidence = 0;
+  for (const rule of rules) {
+    if (rule.regex.test(text) && !values.includes(rule.value)) {
+      values.push(rule.value);
+      confidence = Math.max(confidence, rule.confidence);
+    }
+  }
+  return values.length > 0 ? { value: values, confidence } : undefined;
+};
+
+const range = (from: number, to: number): number[] => {
+  if (to < from || to - from > 500) return [from]; // Nonsense ranges (or years) are ignored
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  tb: 1024 ** 4, tib: 1024 ** 4,
+  gb: 1024 ** 3, gib: 1024 ** 3,
+  mb: 1024 ** 2, mib: 1024 ** 2,
+};
+
+// --- Field parsers ---
+
+const parseEpisodeInfo = (text: string): Pick<ParsedRelease, 'seasons' | 'episodes' | 'seasonPack'> => {
+  const result: Pick<ParsedRelease, 'seasons' | 'episodes' | 'seasonPack'> = {};
+
+  // S01E01, S01E01E02, S01E01-E03, S01E01-03
+  const episodeMatch = text.match(/(?:^|[^a-z0-9])s(\d{1,2})[ .-]?e(\d{1,4})((?:[ .]?-[ .]?e?\d{1,4}|e\d{1,4})*)(?![0-9a-z])/i);
+  if (episodeMatch) {
+    const season = parseInt(episodeMatch[1], 10);
+    const first = parseInt(episodeMatch[2], 10);
+    const rest = (episodeMatch[3] || '').match(/\d{1,4}/g)?.map(n => parseInt(n, 10)) || [];
+    const isRange = /-/.test(episodeMatch[3] || '');
+    const last = rest.length > 0 ? rest[rest.length - 1] : first;
+    result.seasons = { value: [season], confidence: 0.95 };
+    result.episodes = { value: isRange ? range(first, last) : Array.from(new Set([first, ...rest])), confidence: 0.95 };
+    return result;
+  }
+
+  // 1x05, 1x05-1x07
+  const crossMatch = text.match(/(?<![0-9])(\d{1,2})x(\d{2,3})(?:-(?:\d{1,2}x)?(\d{2,3}))?(?![0-9])/i);
+  if (crossMatch) {
+    const first = parseInt(crossMatch[2], 10);
+    const last = crossMatch[3] ? parseInt(crossMatch[3], 10) : first;
+    result.seasons = { value: [parseInt(crossMatch[1], 10)], confidence: 0.85 };
+    result.episodes = { value: range(first, last), confidence: 0.85 };
+    return result;
+  }
+
+  // Season packs: S01, S01-S05, S01-05, Season 1, Seasons 1-3, Complete Series
+  const packMatch =
+    text.match(/(?:^|[^a-z0-9])s(\d{1,2})(?:[ .]*-[ .]*s?(\d{1,2}))?(?![a-z0-9])/i) ||
+    text.match(/(?:^|[^a-z0-9])seasons?[ .-]?(\d{1,2})(?:[ .-]*(?:-|to|&)[ .-]*(\d{1,2}))?(?![0-9])/i);
+  if (packMatch) {
+    const first = parseInt(packMatch[1], 10);
+    const last = packMatch[2] ? parseInt(packMatch[2], 10) : first;
+    result.seasons = { value: range(first, last), confidence: 0.85 };
+    result.seasonPack = { value: true, confidence: 0.85 };
+  }
+  if (/(?:^|[^a-z0-9])complete(?:[ .-]?(?:series|seasons?|collection))?(?![a-z0-9])/i.test(text)) {
+    result.seasonPack = { value: true, confidence: result.seasonPack ? 0.95 : 0.7 };
+  }
+
+  // Episode range without a season ("E01-E12", "Episodes 1-12")
+  const episodeRange = text.match(/(?:^|[^a-z0-9])(?:e|ep|episodes?)[ .]?(\d{1,4})[ .]*-[ .]*(?:e|ep)?(\d{1,4})(?![0-9])/i);
+  if (episodeRange) {
+    result.episodes = { value: range(parseInt(episodeRange[1], 10), parseInt(episodeRange[2], 10)), confidence: 0.75 };
+  }
+  return result;
+};
+
+const parseReleaseGroup = (text: string): ParsedField<string> | undefined => {
+  const firstLine = text.split('\n')[0].trim();
+  // "...x265-GROUP.mkv", "...x265-GROUP[rarbg]"
+  const suffixMatch = firstLine.match(new RegExp(`-([a-z0-9][a-z0-9_]{1,24})(?:\\[[^\\]]*\\])?(?:\\.(?:${VIDEO_EXTENSIONS}))?$`, 'i'));
+  if (suffixMatch && !NOT_A_GROUP.test(suffixMatch[1])) {
+    return { value: suffixMatch[1], confidence: 0.8 };
+  }
+  // "[SubsPlease] Show - 01 (1080p).mkv"
+  const prefixMatch = firstLine.match(/^\[([^\]]{2,30})\]/);
+  if (prefixMatch && !NOT_A_GROUP.test(prefixMatch[1])) {
+    return { value: prefixMatch[1].trim(), confidence: 0.7 };
+  }
+  return undefined;
+};
+
+const parseSize = (text: string): ParsedField<number> | undefined => {
+  const match = text.match(/(?:💾\s*)?(?<![0-9.])(\d+(?:[.,]\d+)?)\s?(tib|gib|mib|tb|gb|mb)(?![a-z])/i);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1].replace(',', '.'));
+  const unit = SIZE_UNITS[match[2].toLowerCase()];
+  if (!amount || !unit) return undefined;
+  return { value: Math.round(amount * unit), confidence: text.includes('💾') ? 0.9 : 0.75 };
+};
+
+const parseLanguages = (text: string): Pick<ParsedRelease, 'languages' | 'multiAudio'> => {
+  const languages: string[] = [];
+  let confidence = 0;
+  const add = (language: string, ruleConfidence: number) => {
+    if (!languages.includes(language)) languages.push(language);
+    confidence = Math.max(confidence, ruleConfidence);
+  };
+
+  Object.entries(FLAG_LANGUAGES).forEach(([flag, language]) => {
+    if (text.includes(flag)) add(language, 0.9);
+  });
+  LANGUAGE_RULES.forEach(rule => {
+    if (rule.regex.test(text)) add(rule.language, rule.confidence);
+  });
+
+  const result: Pick<ParsedRelease, 'languages' | 'multiAudio'> = {};
+  if (languages.length > 0) result.languages = { value: languages, confidence };
+  if (MULTI_AUDIO_REGEX.test(text)) {
+    result.multiAudio = { value: true, confidence: 0.85 };
+  } else if (languages.length > 1) {
+    result.multiAudio = { value: true, confidence: 0.6 };
+  }
+  return result;
+};
+
+// --- Public API ---
+
+// Parses a single release name / stream title
+export const parseReleaseName = (text: string): ParsedRelease => {
+  const result: ParsedRelease = {};
+  if (!text) return result;
+
+  const assign = <K extends keyof ParsedRelease>(key: K, field: ParsedRelease[K] | undefined) => {
+    if (field) result[key] = field;
+  };
+
+  assign('resolution', firstMatch(text, RESOLUTION_RULES));
+  assign('source', firstMatch(text, SOURCE_RULES));
+  assign('codec', firstMatch(text, CODEC_RULES));
+  assign('bitDepth', firstMatch(text, BIT_DEPTH_RULES));
+  assign('hdr', allMatches(text, HDR_RULES));
+  assign('audio', allMatches(text, AUDIO_RULES));
+  assign('threeD', firstMatch(text, THREE_D_RULES));
+  assign('releaseGroup', parseReleaseGroup(text));
+  assign('sizeBytes', parseSize(text));
+
+  // Remux vs encode: a remux says so; x264/x265 or "*Rip" means someone re-encoded it
+  if (token('remux').test(text)) {
+    result.releaseType = { value: 'remux', confidence: 0.95 };
+  } else if (token('x\\.?26[45]|[a-z]*rip').test(text)) {
+    result.releaseType = { value: 'encode', confidence: 0.75 };
+  }
+
+  const dvProfile = text.match(DV_PROFILE_REGEX);
+  if (dvProfile) {
+    result.dvProfile = { value: parseInt(dvProfile[1], 10), confidence: 0.9 };
+    // A profile implies Dolby Vision even if only written as "P8"
+    if (!result.hdr?.value.includes('DV')) {
+      result.hdr = { value: ['DV', ...(result.hdr?.value || [])], confidence: 0.9 };
+    }
+  }
+
+  const channels = text.match(CHANNELS_REGEX);
+  if (channels) {
+    result.channels = { value: channels[2] ? `${channels[1]}.${channels[2]}` : channels[1], confidence: 0.85 };
+  } else {
+    const channelCount = text.match(CHANNELS_CH_REGEX);
+    if (channelCount) {
+      const count = parseInt(channelCount[1], 10);
+      result.channels = { value: count > 2 ? `${count - 1}.1` : `${count}.0`, confidence: 0.75 };
+    }
+  }
+
+  const year = text.match(/(?<![0-9])(19[2-9]\d|20[0-4]\d)(?![0-9p])/);
+  if (year) result.year = { value: parseInt(year[1], 10), confidence: 0.6 };
+
+  Object.assign(result, parseEpisodeInfo(text), parseLanguages(text));
+  return result;
+};
+
+// Fields that are lists are merged across sources; single-value fields come from the most trusted source
+const LIST_FIELDS: (keyof ParsedRelease)[] = ['hdr', 'audio', 'languages'];
+
+// Parses every text an addon gives us for a stream. Earlier sources are more trusted (a
+// filename beats a marketing-style name), so their fields win and keep a higher confidence.
+export const parseStreamTexts = (sources: { text?: string; weight: number }[]): ParsedRelease => {
+  const merged: ParsedRelease = {};
+  const target = merged as Record<string, ParsedField<unknown> | undefined>;
+
+  sources.forEach(({ text, weight }) => {
+    if (!text) return;
+    const parsed = parseReleaseName(text) as Record<string, ParsedField<unknown> | undefined>;
+    Object.entries(parsed).forEach(([key, field]) => {
+      if (!field) return;
+      const weighted = { value: field.value, confidence: Math.round(field.confidence * weight * 100) / 100 };
+      const existing = target[key];
+      if (!existing) {
+        target[key] = weighted;
+      } else if (LIST_FIELDS.includes(key as keyof ParsedRelease)) {
+        const values = [...(existing.value as unknown[])];
+        (weighted.value as unknown[]).forEach(value => { if (!values.includes(value)) values.push(value); });
+        target[key] = { value: values, confidence: Math.max(existing.confidence, weighted.confidence) };
+      }
+    });
+  });
+
+  // Keep audio formats in "best first" order after merging
+  if (merged.audio) {
+    const order = AUDIO_RULES.map(rule => rule.value);
+    merged.audio.value.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  }
+  return merged;
+};
+
+// Convenience for Stremio streams: filename, then description/title, then name
+export const parseStream = (stream: {
+  name?: string;
+  title?: string;
+  description?: string;
+  behaviorHints?: { filename?: string };
+}): ParsedRelease => parseStreamTexts([
+  { text: stream.behaviorHints?.filename, weight: 1 },
+  { text: stream.description, weight: 0.9 },
+  { text: stream.title, weight: 0.9 },
+  { text: stream.name, weight: 0.7 },
+]);
@@ -0,0 +1,144 @@
+// Turns an addon stream into something the browser player can load, following the stream's
+// behaviorHints:
+// - proxyHeaders: the request/response headers are applied by our /api/stream-proxy route, with
+//   a config the server signs (or by the streaming server, when the stream also needs it)
+// - notWebReady: the stream goes through the streaming server's proxy, which can remux/transcode
+// - countryWhitelist: streams not licensed for the user's country are filtered out
+// - bingeGroup: remembered between episodes so the next episode can pick the same kind of stream
+
+import type { AddonStream, StreamBehaviorHints } from '@/types/stremio';
+import { profileStorageKey } from '@/lib/profiles';
+import { fetchJsonWithPolicy, type RequestOptions } from '@/lib/network';
+
+export const STREAM_PROXY_ROUTE = '/api/stream-proxy';
+export const STREAM_PROXY_SIGN_ROUTE = `${STREAM_PROXY_ROUTE}/sign`;
+
+export interface StreamProxyConfig {
+  origin: string; // "https://cdn.example.com"
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+}
+
+export interface PlaybackSource {
+  url: string;
+  via: 'direct' | 'proxy' | 'server';
+  mayNotPlay?: boolean; // notWebReady without a streaming server: the browser may not decode it
+}
+
+export interface StreamProxySignResponse {
+  token: string;
+}
+
+// The signed config sits in the first path segment and the upstream path follows it, so relative
+// URLs inside HLS/DASH playlists resolve through the proxy too:
+// /api/stream-proxy/{token}/path/to/video.m3u8?token=1
+const buildAppProxyUrl = async (url: URL, hints: StreamBehaviorHints, options?: RequestOptions) => {
+  const config: StreamProxyConfig = {
+    origin: url.origin,
+    requestHeaders: hints.proxyHeaders?.request,
+    responseHeaders: hints.proxyHeaders?.response,
+  };
+  const { token } = await fetchJsonWithPolicy<StreamProxySignResponse>(STREAM_PROXY_SIGN_ROUTE, { ...options, retries: 0 }, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(config),
+  });
+  return `${STREAM_PROXY_ROUTE}/${token}${url.pathname}${url.search}`;
+};
+
+// Streaming server proxy: /proxy/d={origin}&h={name:value}&r={name:value}/path
+const buildServerProxyUrl = (serverUrl: string, url: URL, hints: StreamBehaviorHints) => {
+  const params = new URLSearchParams([['d', url.origin]]);
+  Object.entries(hints.proxyHeaders?.request || {}).forEach(([name, value]) => params.append('h', `${name}:${value}`));
+  Object.entries(hints.proxyHeaders?.response || {}).forEach(([name, value]) => params.append('r', `${name}:${value}`));
+  return `${serverUrl}/proxy/${params.toString()}${url.pathname}${url.search}`;
+};
+
+// Rejects only when the app proxy is needed and its config can't be signed
+export const getPlaybackSource = async (stream: AddonStream, serverUrl: string | null, options?: RequestOptions): Promise<PlaybackSource | null> => {
+  if (!stream.url) return null;
+  const hints = stream.behaviorHints || {};
+  const hasProxyHeaders = !!(hints.proxyHeaders?.request || hints.proxyHeaders?.response);
+  if (!hints.notWebReady && !hasProxyHeaders) return { url: stream.url, via: 'direct' };
+
+  let url: URL;
+  try {
+    url = new URL(stream.url);
+  } catch {
+    return { url: stream.url, via: 'direct' };
+  }
+
+  if (hints.notWebReady && serverUrl) return { url: buildServerProxyUrl(serverUrl, url, hints), via: 'server' };
+  return { url: await buildAppProxyUrl(url, hints, options), via: 'proxy', mayNotPlay: !!hints.notWebReady };
+};
+
+// --- countryWhitelist ---
+
+// ISO 3166-1 alpha-2 -> alpha-3 (countryWhitelist uses lowercase alpha-3 codes)
+const ALPHA3_BY_ALPHA2: Record<string, string> = Object.fromEntries(
+  ('AD:AND AE:ARE AF:AFG AG:ATG AI:AIA AL:ALB AM:ARM AO:AGO AQ:ATA AR:ARG AS:ASM AT:AUT AU:AUS AW:ABW AX:ALA ' +
+  'AZ:AZE BA:BIH BB:BRB BD:BGD BE:BEL BF:BFA BG:BGR BH:BHR BI:BDI BJ:BEN BL:BLM BM:BMU BN:BRN BO:BOL BQ:BES ' +
+  'BR:BRA BS:BHS BT:BTN BV:BVT BW:BWA BY:BLR BZ:BLZ CA:CAN CC:CCK CD:COD CF:CAF CG:COG CH:CHE CI:CIV CK:COK ' +
+  'CL:CHL CM:CMR CN:CHN CO:COL CR:CRI CU:CUB CV:CPV CW:CUW CX:CXR CY:CYP CZ:CZE DE:DEU DJ:DJI DK:DNK DM:DMA ' +
+  'DO:DOM DZ:DZA EC:ECU EE:EST EG:EGY EH:ESH ER:ERI ES:ESP ET:ETH FI:FIN FJ:FJI FK:FLK FM:FSM FO:FRO FR:FRA ' +
+  'GA:GAB GB:GBR GD:GRD GE:GEO GF:GUF GG:GGY GH:GHA GI:GIB GL:GRL GM:GMB GN:GIN GP:GLP GQ:GNQ GR:GRC GS:SGS ' +
+  'GT:GTM GU:GUM GW:GNB GY:GUY HK:HKG HM:HMD HN:HND HR:HRV HT:HTI HU:HUN ID:IDN IE:IRL IL:ISR IM:IMN IN:IND ' +
+  'IO:IOT IQ:IRQ IR:IRN IS:ISL IT:ITA JE:JEY JM:JAM JO:JOR JP:JPN KE:KEN KG:KGZ KH:KHM KI:KIR KM:COM KN:KNA ' +
+  'KP:PRK KR:KOR KW:KWT KY:CYM KZ:KAZ LA:LAO LB:LBN LC:LCA LI:LIE LK:LKA LR:LBR LS:LSO LT:LTU LU:LUX LV:LVA ' +
+  'LY:LBY MA:MAR MC:MCO MD:MDA ME:MNE MF:MAF MG:MDG MH:MHL MK:MKD ML:MLI MM:MMR MN:MNG MO:MAC MP:MNP MQ:MTQ ' +
+  'MR:MRT MS:MSR MT:MLT MU:MUS MV:MDV MW:MWI MX:MEX MY:MYS MZ:MOZ NA:NAM NC:NCL NE:NER NF:NFK NG:NGA NI:NIC ' +
+  'NL:NLD NO:NOR NP:NPL NR:NRU NU:NIU NZ:NZL OM:OMN PA:PAN PE:PER PF:PYF PG:PNG PH:PHL PK:PAK PL:POL PM:SPM ' +
+  'PN:PCN PR:PRI PS:PSE PT:PRT PW:PLW PY:PRY QA:QAT RE:REU RO:ROU RS:SRB RU:RUS RW:RWA SA:SAU SB:SLB SC:SYC ' +
+  'SD:SDN SE:SWE SG:SGP SH:SHN SI:SVN SJ:SJM SK:SVK SL:SLE SM:SMR SN:SEN SO:SOM SR:SUR SS:SSD ST:STP SV:SLV ' +
+  'SX:SXM SY:SYR SZ:SWZ TC:TCA TD:TCD TF:ATF TG:TGO TH:THA TJ:TJK TK:TKL TL:TLS TM:TKM TN:TUN TO:TON TR:TUR ' +
+  'TT:TTO TV:TUV TW:TWN TZ:TZA UA:UKR UG:UGA UM:UMI US:USA UY:URY UZ:UZB VA:VAT VC:VCT VE:VEN VG:VGB VI:VIR ' +
+  'VN:VNM VU:VUT WF:WLF WS:WSM XK:XKX YE:YEM YT:MYT ZA:ZAF ZM:ZMB ZW:ZWE')
+    .split(' ')
+    .map(pair => pair.split(':') as [string, string])
+);
+
+// Best guess at the user's country from the browser locale ("en-GB" -> "gbr"). Null if unknown.
+export const getUserCountryCode = (): string | null => {
+  if (typeof navigator === 'undefined') return null;
+  for (const locale of navigator.languages || [navigator.language]) {
+    const region = locale.split(/[-_]/)[1]?.toUpperCase();
+    if (region && ALPHA3_BY_ALPHA2[region]) return ALPHA3_BY_ALPHA2[region].toLowerCase();
+  }
+  return null;
+};
+
+// Streams without a whitelist, or users whose country we can't tell, are always allowed
+export const isStreamAllowedInCountry = (stream: AddonStream, countryCode: string | null) => {
+  const whitelist = stream.behaviorHints?.countryWhitelist;
+  if (!whitelist || whitelist.length === 0 || !countryCode) return true;
+  return whitelist.some(code => code.toLowerCase() === countryCode);
+};
+
+// --- bingeGroup ---
+
+const BINGE_STORAGE_KEY = 'streamBingeGroup';
+
+export interface BingeSelection {
+  contentId: string;
+  season: number;
+  episode: number;
+  addonId: string;
+  bingeGroup: string;
+}
+
+export const rememberBingeSelection = (selection: BingeSelection) => {
+  try {
+    sessionStorage.setItem(profileStorageKey(BINGE_STORAGE_KEY), JSON.stringify(selection));
+  } catch (e) {
+    console.warn('StreamPlayback: Could not store binge group', e);
+  }
+};
+
+export const getBingeSelection = (): BingeSelection | null => {
+  try {
+    const stored = sessionStorage.getItem(profileStorageKey(BINGE_STORAGE_KEY));
+    return stored ? JSON.parse(stored) as BingeSelection : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,94 @@
+// Server side of the stream proxy. The client can't build /api/stream-proxy URLs itself: it sends
+// the stream's proxy config to /api/stream-proxy/sign, which cleans it up and returns a token the
+// proxy route verifies. A crafted link therefore can't point the proxy at an origin or headers the
+// app never signed.
+// Tokens are "{payload}.{signature}" in base64url, signed with STREAM_PROXY_SECRET. Without it a
+// random secret is used, so tokens stop working when the server restarts.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { StreamProxyConfig } from '@/lib/streamPlayback';
+
+const TOKEN_TTL_MS = 12 * 60 * 60 * 1000; // Long enough for a film with pauses
+
+// --- Headers ---
+
+// The only headers the proxy answers with, from upstream or from the config
+export const ALLOWED_RESPONSE_HEADERS = ['content-type', 'content-length', 'content-range', 'accept-ranges'];
+
+// Media and subtitles only, so nothing the proxy serves renders as a page under the app's origin
+const MEDIA_CONTENT_TYPE_REGEX =
+  /^(video\/[\w.+-]+|audio\/[\w.+-]+|application\/(vnd\.apple\.mpegurl|x-mpegurl|dash\+xml|mp4|octet-stream|x-subrip)|binary\/octet-stream|text\/vtt|text\/srt)\s*(;.*)?$/i;
+
+export const getSafeContentType = (value: string | null): string =>
+  value && MEDIA_CONTENT_TYPE_REGEX.test(value) ? value : 'application/octet-stream';
+
+const HEADER_NAME_REGEX = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+// Set by fetch itself, or meaningless on a proxied request
+const BLOCKED_REQUEST_HEADERS = new Set(['host', 'connection', 'content-length', 'transfer-encoding', 'cookie']);
+
+const cleanHeaders = (value: unknown, isAllowed: (name: string, value: string) => boolean): Record<string, string> | undefined => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const headers: Record<string, string> = {};
+  Object.entries(value).forEach(([name, headerValue]) => {
+    const lowerName = name.toLowerCase();
+    if (typeof headerValue !== 'string' || !HEADER_NAME_REGEX.test(name) || /[\r\n]/.test(headerValue)) return;
+    if (isAllowed(lowerName, headerValue)) headers[lowerName] = headerValue;
+  });
+  return Object.keys(headers).length > 0 ? headers : undefined;
+};
+
+// The config as the client sent it, reduced to what the proxy may use. Null if the origin isn't
+// a plain http(s) origin.
+export const sanitizeProxyConfig = (value: unknown): StreamProxyConfig | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { origin, requestHeaders, responseHeaders } = value as Record<string, unknown>;
+  if (typeof origin !== 'string') return null;
+  try {
+    const url = new URL(origin);
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || url.origin !== origin) return null;
+  } catch {
+    return null;
+  }
+  return {
+    origin,
+    requestHeaders: cleanHeaders(requestHeaders, name => !BLOCKED_REQUEST_HEADERS.has(name)),
+    responseHeaders: cleanHeaders(responseHeaders, (name, headerValue) =>
+      ALLOWED_RESPONSE_HEADERS.includes(name) && (name !== 'content-type' || getSafeContentType(headerValue) === headerValue)
+    ),
+  };
+};
+
+// --- Tokens ---
+
+let generatedSecret: Buffer | null = null;
+
+const getSecret = (): Buffer => {
+  if (process.env.STREAM_PROXY_SECRET) return Buffer.from(process.env.STREAM_PROXY_SECRET);
+  if (!generatedSecret) {
+    generatedSecret = randomBytes(32);
+    console.warn('StreamProxy: STREAM_PROXY_SECRET is not set, using a random secret until the server restarts');
+  }
+  return generatedSecret;
+};
+
+const signPayload = (payload: string) => createHmac('sha256', getSecret()).update(payload).digest('base64url');
+
+export const signProxyConfig = (config: StreamProxyConfig): string => {
+  const payload = Buffer.from(JSON.stringify({ ...config, expiresAt: Date.now() + TOKEN_TTL_MS })).toString('base64url');
+  return `${payload}.${signPayload(payload)}`;
+};
+
+// The config of a valid, unexpired token; null otherwise
+export const verifyProxyToken = (token: string): StreamProxyConfig | null => {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+  const expected = Buffer.from(signPayload(payload));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+  try {
+    const { expiresAt, ...config } = JSON.parse(Buffer.from(payload, 'base64url').toString()) as StreamProxyConfig & { expiresAt: number };
+    return typeof config.origin === 'string' && typeof expiresAt === 'number' && expiresAt > Date.now() ? config : null;
+  } catch {
+    return null;
+  }
+};
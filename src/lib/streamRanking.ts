@@ -0,0 +1,249 @@
+// Ranks streams with a user-defined profile: weighted criteria add points, hard excludes drop a
+// stream entirely. Every point and every exclusion comes with a reason so the stream list can
+// explain its order.
+
+import type { AudioFormat, HdrFormat, ParsedRelease, ReleaseSource, Resolution, VideoCodec } from '@/lib/streamParser';
+
+export type RankCriterion = 'resolution' | 'codec' | 'hdr' | 'audio' | 'size' | 'cached' | 'language' | 'releaseGroup';
+
+export interface StreamProfile {
+  id: string;
+  name: string;
+  weights: Record<RankCriterion, number>; // -10..10, negative means "avoid"
+  preferredCodecs: VideoCodec[]; // Best first
+  preferredLanguages: string[]; // Best first, names as produced by the parser ("English")
+  preferredReleaseGroups: string[];
+  preferredSizeGb: { min?: number; max?: number };
+  excludes: {
+    sources: ReleaseSource[]; // e.g. CAM, TS
+    resolutions: Resolution[];
+    maxSizeGb?: number;
+    minSizeGb?: number;
+    keywords: string[]; // Matched case-insensitively against the stream's name/title/filename
+  };
+}
+
+// The stream fields ranking looks at; StreamDialog's Stream satisfies this
+export interface RankableStream {
+  name?: string;
+  title?: string;
+  description?: string;
+  resolution?: string;
+  codec?: string;
+  hdr?: boolean;
+  dv?: boolean;
+  audio?: string;
+  release_group?: string;
+  cachedInfo?: string;
+  parsed?: ParsedRelease;
+  behaviorHints?: { filename?: string; videoSize?: number };
+}
+
+export interface RankReason {
+  criterion: RankCriterion;
+  label: string; // "2160p", "HEVC (preferred #1)"
+  points: number;
+}
+
+export interface StreamRanking {
+  score: number;
+  reasons: RankReason[];
+  excludedBy: string[]; // Empty when the stream passes every hard exclude
+}
+
+export const RANK_CRITERIA: { key: RankCriterion; label: string }[] = [
+  { key: 'resolution', label: 'Resolution' },
+  { key: 'codec', label: 'Codec' },
+  { key: 'hdr', label: 'HDR / Dolby Vision' },
+  { key: 'audio', label: 'Audio' },
+  { key: 'size', label: 'Size in preferred range' },
+  { key: 'cached', label: 'Cached on debrid' },
+  { key: 'language', label: 'Preferred languages' },
+  { key: 'releaseGroup', label: 'Preferred release groups' },
+];
+
+// --- Default profiles ---
+
+const LOW_QUALITY_SOURCES: ReleaseSource[] = ['CAM', 'TS', 'TC', 'SCR'];
+
+export const DEFAULT_STREAM_PROFILES: StreamProfile[] = [
+  {
+    id: 'best-quality',
+    name: 'Best quality',
+    weights: { resolution: 10, codec: 2, hdr: 5, audio: 4, size: 0, cached: 6, language: 3, releaseGroup: 2 },
+    preferredCodecs: ['HEVC', 'AV1', 'AVC'],
+    preferredLanguages: [],
+    preferredReleaseGroups: [],
+    preferredSizeGb: {},
+    excludes: { sources: LOW_QUALITY_SOURCES, resolutions: [], maxSizeGb: 40, keywords: [] },
+  },
+  {
+    id: 'data-saver',
+    name: 'Data saver',
+    weights: { resolution: 3, codec: 6, hdr: 0, audio: 0, size: 10, cached: 6, language: 3, releaseGroup: 0 },
+    preferredCodecs: ['AV1', 'HEVC'],
+    preferredLanguages: [],
+    preferredReleaseGroups: [],
+    preferredSizeGb: { max: 3 },
+    excludes: { sources: LOW_QUALITY_SOURCES, resolutions: ['2160p', '4320p'], maxSizeGb: 10, keywords: ['remux'] },
+  },
+];
+
+export const createStreamProfile = (name: string, base: StreamProfile = DEFAULT_STREAM_PROFILES[0]): StreamProfile => ({
+  ...JSON.parse(JSON.stringify(base)) as StreamProfile,
+  id: `profile-${Date.now().toString(36)}`,
+  name,
+});
+
+// --- Criterion scores (0..1) ---
+
+const RESOLUTION_SCORES: Record<string, number> = {
+  '4320p': 1, '2160p': 1, '1440p': 0.85, '1080p': 0.75, '720p': 0.5, '576p': 0.3, '480p': 0.25, '360p': 0.1,
+};
+
+const HDR_SCORES: Record<HdrFormat, number> = { DV: 1, 'HDR10+': 0.9, HDR10: 0.8, HDR: 0.7, HLG: 0.6 };
+
+const AUDIO_SCORES: Record<AudioFormat, number> = {
+  Atmos: 1, 'DTS:X': 1, TrueHD: 0.95, 'DTS-HD MA': 0.9, 'DTS-HD': 0.8, PCM: 0.8, FLAC: 0.75,
+  'DD+': 0.7, DTS: 0.6, DD: 0.5, Opus: 0.4, AAC: 0.3, MP3: 0.1,
+};
+
+const GB = 1024 ** 3;
+
+// Position in a "best first" list: 1 for the first entry, fading towards 0.25 for later ones
+const preferenceScore = (index: number, length: number) =>
+  index < 0 ? 0 : 1 - (index / Math.max(length, 1)) * 0.75;
+
+const getResolution = (stream: RankableStream) =>
+  stream.parsed?.resolution?.value || stream.resolution?.match(/\d+p/i)?.[0]?.toLowerCase();
+
+const getHdrFormats = (stream: RankableStream): HdrFormat[] => {
+  if (stream.parsed?.hdr) return stream.parsed.hdr.value;
+  if (stream.dv) return ['DV'];
+  return stream.hdr ? ['HDR'] : [];
+};
+
+const getSizeBytes = (stream: RankableStream) =>
+  typeof stream.behaviorHints?.videoSize === 'number' ? stream.behaviorHints.videoSize : stream.parsed?.sizeBytes?.value;
+
+// Torrentio-style "[RD+]" markers and the ⚡ used by several debrid addons mean "cached"
+const CACHED_MARKER_REGEX = /\[(?:RD|AD|PM|DL|TB|OC|ED|PP)\+\]|⚡/i;
+
+const isCached = (stream: RankableStream) =>
+  !!stream.cachedInfo || CACHED_MARKER_REGEX.test(`${stream.name || ''} ${stream.title || ''}`);
+
+const getSearchText = (stream: RankableStream) =>
+  `${stream.name || ''} ${stream.title || ''} ${stream.description || ''} ${stream.behaviorHints?.filename || ''}`.toLowerCase();
+
+const formatGb = (bytes: number) => `${(bytes / GB).toFixed(1)} GB`;
+
+// --- Ranking ---
+
+const getExclusions = (stream: RankableStream, profile: StreamProfile): string[] => {
+  const { excludes } = profile;
+  const reasons: string[] = [];
+  const source = stream.parsed?.source?.value;
+  if (source && excludes.sources.includes(source)) reasons.push(`${source} source`);
+
+  const resolution = getResolution(stream);
+  if (resolution && excludes.resolutions.includes(resolution as Resolution)) reasons.push(`${resolution} excluded`);
+
+  const sizeBytes = getSizeBytes(stream);
+  if (sizeBytes !== undefined) {
+    if (excludes.maxSizeGb !== undefined && sizeBytes > excludes.maxSizeGb * GB) {
+      reasons.push(`${formatGb(sizeBytes)} is over ${excludes.maxSizeGb} GB`);
+    }
+    if (excludes.minSizeGb !== undefined && sizeBytes < excludes.minSizeGb * GB) {
+      reasons.push(`${formatGb(sizeBytes)} is under ${excludes.minSizeGb} GB`);
+    }
+  }
+
+  if (excludes.keywords.length > 0) {
+    const text = getSearchText(stream);
+    excludes.keywords
+      .filter(keyword => keyword.trim() && text.includes(keyword.trim().toLowerCase()))
+      .forEach(keyword => reasons.push(`Contains "${keyword.trim()}"`));
+  }
+  return reasons;
+};
+
+const getCriterionScores = (stream: RankableStream, profile: StreamProfile): { criterion: RankCriterion; label: string; value: number }[] => {
+  const scores: { criterion: RankCriterion; label: string; value: number }[] = [];
+
+  const resolution = getResolution(stream);
+  if (resolution && RESOLUTION_SCORES[resolution] !== undefined) {
+    scores.push({ criterion: 'resolution', label: resolution, value: RESOLUTION_SCORES[resolution] });
+  }
+
+  const codec = (stream.parsed?.codec?.value || stream.codec) as VideoCodec | undefined;
+  if (codec) {
+    const index = profile.preferredCodecs.indexOf(codec);
+    if (index >= 0) {
+      scores.push({ criterion: 'codec', label: `${codec} (preferred #${index + 1})`, value: preferenceScore(index, profile.preferredCodecs.length) });
+    }
+  }
+
+  const hdrFormats = getHdrFormats(stream);
+  if (hdrFormats.length > 0) {
+    scores.push({ criterion: 'hdr', label: hdrFormats.join(' + '), value: Math.max(...hdrFormats.map(format => HDR_SCORES[format] || 0)) });
+  }
+
+  const audioFormats = stream.parsed?.audio?.value || [];
+  if (audioFormats.length > 0) {
+    scores.push({ criterion: 'audio', label: audioFormats.join(' + '), value: Math.max(...audioFormats.map(format => AUDIO_SCORES[format] || 0)) });
+  }
+
+  const sizeBytes = getSizeBytes(stream);
+  const { min, max } = profile.preferredSizeGb;
+  if (sizeBytes !== undefined && (min !== undefined || max !== undefined)) {
+    const inRange = (min === undefined || sizeBytes >= min * GB) && (max === undefined || sizeBytes <= max * GB);
+    if (inRange) scores.push({ criterion: 'size', label: `${formatGb(sizeBytes)} in range`, value: 1 });
+  }
+
+  if (isCached(stream)) scores.push({ criterion: 'cached', label: stream.cachedInfo || 'Cached', value: 1 });
+
+  const languages = stream.parsed?.languages?.value || [];
+  if (profile.preferredLanguages.length > 0 && languages.length > 0) {
+    const indexes = languages
+      .map(language => profile.preferredLanguages.findIndex(preferred => preferred.toLowerCase() === language.toLowerCase()))
+      .filter(index => index >= 0);
+    if (indexes.length > 0) {
+      const best = Math.min(...indexes);
+      scores.push({
+        criterion: 'language',
+        label: profile.preferredLanguages[best],
+        value: preferenceScore(best, profile.preferredLanguages.length),
+      });
+    }
+  }
+
+  const releaseGroup = stream.parsed?.releaseGroup?.value || stream.release_group;
+  if (releaseGroup && profile.preferredReleaseGroups.some(group => group.toLowerCase() === releaseGroup.toLowerCase())) {
+    scores.push({ criterion: 'releaseGroup', label: releaseGroup, value: 1 });
+  }
+
+  return scores;
+};
+
+export const rankStream = (stream: RankableStream, profile: StreamProfile): StreamRanking => {
+  const reasons = getCriterionScores(stream, profile)
+    .map(({ criterion, label, value }) => ({ criterion, label, points: Math.round(value * profile.weights[criterion] * 10) / 10 }))
+    .filter(reason => reason.points !== 0)
+    .sort((a, b) => Math.abs(b.points) - Math.abs(a.points));
+
+  return {
+    score: Math.round(reasons.reduce((total, reason) => total + reason.points, 0) * 10) / 10,
+    reasons,
+    excludedBy: getExclusions(stream, profile),
+  };
+};
+
+// Sorts by score, highest first, with excluded streams at the end.
+// Equal scores keep their incoming order (Array.prototype.sort is stable).
+export const rankStreams = <T extends RankableStream>(streams: T[], profile: StreamProfile) =>
+  streams
+    .map(stream => ({ stream, ranking: rankStream(stream, profile) }))
+    .sort((a, b) =>
+      Number(a.ranking.excludedBy.length > 0) - Number(b.ranking.excludedBy.length > 0) ||
+      b.ranking.score - a.ranking.score
+    );
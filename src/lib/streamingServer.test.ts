@@ -0,0 +1,98 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { NetworkError } from '@/lib/network';
+import { getStreamingServerVersion, resolveTorrentStreamUrl } from '@/lib/streamingServer';
+import {
+  getUnreachableServerUrl,
+  startMockStreamingServer,
+  type MockStreamingServer,
+} from '@/lib/__fixtures__/mockStreamingServer';
+
+const INFO_HASH = 'ABCDEF0123456789ABCDEF0123456789ABCDEF01';
+const CREATE_ROUTE = `POST /${INFO_HASH.toLowerCase()}/create`;
+
+const TORRENT_FILES = [
+  { name: 'Sample.mkv', length: 50_000_000 },
+  { name: 'Movie.2024.1080p.BluRay.x264-GROUP.mkv', length: 9_000_000_000 },
+  { name: 'Movie.2024.1080p.BluRay.x264-GROUP.nfo', length: 20_000_000_000 },
+];
+
+let server: MockStreamingServer | null = null;
+
+afterEach(async () => {
+  await server?.close();
+  server = null;
+});
+
+describe('resolveTorrentStreamUrl', () => {
+  it('registers the torrent and picks the largest video file', async () => {
+    server = await startMockStreamingServer({ [CREATE_ROUTE]: () => ({ body: { files: TORRENT_FILES } }) });
+
+    const url = await resolveTorrentStreamUrl(`${server.url}/`, {
+      infoHash: INFO_HASH,
+      sources: ['tracker:udp://tracker.opentrackr.org:1337/announce'],
+    });
+
+    expect(url).toBe(`${server.url}/${INFO_HASH.toLowerCase()}/1`);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].body).toEqual({
+      torrent: { infoHash: INFO_HASH.toLowerCase() },
+      peerSearch: {
+        sources: [`dht:${INFO_HASH.toLowerCase()}`, 'tracker:udp://tracker.opentrackr.org:1337/announce'],
+        min: 40,
+        max: 150,
+      },
+    });
+  });
+
+  it('uses the addon file index or filename hint when there is one', async () => {
+    server = await startMockStreamingServer({ [CREATE_ROUTE]: () => ({ body: { files: TORRENT_FILES } }) });
+
+    await expect(resolveTorrentStreamUrl(server.url, { infoHash: INFO_HASH, fileIdx: 2 }))
+      .resolves.toBe(`${server.url}/${INFO_HASH.toLowerCase()}/2`);
+    await expect(resolveTorrentStreamUrl(server.url, { infoHash: INFO_HASH, behaviorHints: { filename: 'Sample.mkv' } }))
+      .resolves.toBe(`${server.url}/${INFO_HASH.toLowerCase()}/0`);
+  });
+
+  it('fails with a timeout when the server does not answer in time', async () => {
+    server = await startMockStreamingServer({ [CREATE_ROUTE]: () => ({ delayMs: 2000, body: { files: TORRENT_FILES } }) });
+
+    const result = resolveTorrentStreamUrl(server.url, { infoHash: INFO_HASH }, { timeoutMs: 100, retries: 1, retryDelayMs: 0 });
+
+    await expect(result).rejects.toBeInstanceOf(NetworkError);
+    await expect(result).rejects.toMatchObject({ kind: 'timeout' });
+    expect(server.requests).toHaveLength(2); // Timeouts are retried
+  });
+
+  it('fails with a network error when the server is unreachable', async () => {
+    const serverUrl = await getUnreachableServerUrl();
+
+    await expect(resolveTorrentStreamUrl(serverUrl, { infoHash: INFO_HASH }, { retries: 0 }))
+      .rejects.toMatchObject({ kind: 'network' });
+  });
+
+  it('passes on HTTP errors from the server', async () => {
+    server = await startMockStreamingServer({ [CREATE_ROUTE]: () => ({ status: 500, body: { error: 'Engine failed' } }) });
+
+    await expect(resolveTorrentStreamUrl(server.url, { infoHash: INFO_HASH }, { retries: 0 }))
+      .rejects.toMatchObject({ kind: 'http', status: 500 });
+  });
+
+  it('rejects streams without an infoHash', async () => {
+    await expect(resolveTorrentStreamUrl('http://127.0.0.1:11470', { url: 'https://example.com/video.mp4' }))
+      .rejects.toThrow('Stream has no infoHash');
+  });
+});
+
+describe('getStreamingServerVersion', () => {
+  it('reads the version from the settings', async () => {
+    server = await startMockStreamingServer({ 'GET /settings': () => ({ body: { values: { serverVersion: '4.20.8' } } }) });
+
+    await expect(getStreamingServerVersion(server.url)).resolves.toBe('4.20.8');
+  });
+
+  it('throws when the server is unreachable', async () => {
+    const serverUrl = await getUnreachableServerUrl();
+
+    await expect(getStreamingServerVersion(serverUrl)).rejects.toMatchObject({ kind: 'network' });
+  });
+});
@@ -0,0 +1,87 @@
+// Client for a local Stremio-compatible streaming server (stremio-server / server.js).
+// Torrent streams ({ infoHash, fileIdx }) can't play in the browser on their own; the server
+// downloads them and serves the file over HTTP at `{server}/{infoHash}/{fileIdx}`.
+
+import { fetchJsonWithPolicy, type RequestOptions } from '@/lib/network';
+import type { AddonStream } from '@/types/stremio';
+
+export const DEFAULT_STREAMING_SERVER_URL = 'http://127.0.0.1:11470';
+
+export type StreamingServerStatus = 'disabled' | 'checking' | 'online' | 'offline';
+
+interface ServerSettingsResponse {
+  values?: { serverVersion?: string };
+}
+
+interface TorrentFile {
+  name?: string;
+  path?: string;
+  length?: number;
+}
+
+interface CreateTorrentResponse {
+  files?: TorrentFile[];
+}
+
+const VIDEO_FILE_REGEX = /\.(mkv|mp4|avi|mov|wmv|m4v|webm|ts|m2ts|mpg|mpeg)$/i;
+
+// "http://127.0.0.1:11470/" -> "http://127.0.0.1:11470"
+export const normalizeServerUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const isTorrentStream = (stream: AddonStream) => !!stream.infoHash && !stream.url;
+
+// Probes the server; resolves with its version (if it reports one) or throws a NetworkError
+export const getStreamingServerVersion = async (serverUrl: string, options?: RequestOptions): Promise<string | null> => {
+  const settings = await fetchJsonWithPolicy<ServerSettingsResponse>(
+    `${normalizeServerUrl(serverUrl)}/settings`,
+    { timeoutMs: 3000, retries: 0, ...options }
+  );
+  return settings.values?.serverVersion || null;
+};
+
+// Picks the file to play when the addon didn't send a fileIdx: the one matching the filename
+// hint, else the largest video file
+const guessFileIdx = (files: TorrentFile[], filename?: string): number => {
+  if (filename) {
+    const hinted = files.findIndex(file => (file.name || file.path || '').endsWith(filename));
+    if (hinted >= 0) return hinted;
+  }
+  let best = -1;
+  files.forEach((file, index) => {
+    if (!VIDEO_FILE_REGEX.test(file.name || file.path || '')) return;
+    if (best < 0 || (file.length || 0) > (files[best].length || 0)) best = index;
+  });
+  return best >= 0 ? best : 0;
+};
+
+// Registers the torrent with the server (passing the addon's tracker/DHT sources) and returns
+// the HTTP URL the player can use
+export const resolveTorrentStreamUrl = async (
+  serverUrl: string,
+  stream: AddonStream,
+  options?: RequestOptions
+): Promise<string> => {
+  if (!stream.infoHash) throw new Error('Stream has no infoHash');
+  const base = normalizeServerUrl(serverUrl);
+  const infoHash = stream.infoHash.toLowerCase();
+
+  const created = await fetchJsonWithPolicy<CreateTorrentResponse>(
+    `${base}/${infoHash}/create`,
+    { timeoutMs: 20000, ...options },
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        torrent: { infoHash },
+        peerSearch: stream.sources?.length
+          ? { sources: [`dht:${infoHash}`, ...stream.sources], min: 40, max: 150 }
+          : undefined,
+      }),
+    }
+  );
+
+  const fileIdx = typeof stream.fileIdx === 'number'
+    ? stream.fileIdx
+    : guessFileIdx(created.files || [], stream.behaviorHints?.filename);
+  return `${base}/${infoHash}/${fileIdx}`;
+};
@@ -0,0 +1,143 @@
+// Sync model shared by the client (SyncContext) and the /api/sync routes.
+// A profile's data is flattened into independent fields ("addon:{manifestUrl}",
+// "watch:{key}", "settings:tmdb", ...). Each change carries the time it was made; for every
+// field the latest change wins, so edits to different fields on different devices all survive.
+
+import type { BackupData } from '@/lib/backup';
+import type { InstalledAddon } from '@/types/stremio';
+import type { LibraryItem } from '@/lib/library';
+import type { WatchProgress } from '@/lib/watchState';
+
+export const SYNC_ROUTE = '/api/sync';
+export const SYNC_AUTH_ROUTE = '/api/sync/auth';
+
+export interface SyncChange {
+  key: string;
+  value: unknown | null; // null deletes the field
+  updatedAt: number; // Time of the change on the device that made it
+}
+
+export interface SyncRequest {
+  since: number; // Last server revision the client has seen
+  changes: SyncChange[];
+}
+
+export interface SyncResponse {
+  revision: number;
+  changes: SyncChange[]; // Fields changed on the server after `since`
+}
+
+export interface SyncAuthResponse {
+  token: string;
+  username: string;
+}
+
+// Last-writer-wins for one field. Ties go to the incoming change so retries are harmless.
+export const isNewerChange = (incoming: Pick<SyncChange, 'updatedAt'>, existing?: Pick<SyncChange, 'updatedAt'>) =>
+  !existing || incoming.updatedAt >= existing.updatedAt;
+
+// --- Fields ---
+
+// Settings fields hold a whole BackupData section each
+const SETTINGS_SECTIONS = ['tmdb', 'streamingServer', 'streamProfiles', 'parentalControls', 'addonPriority', 'homeLayout'] as const;
+
+// Catalog selections and the addon order sync apart from the addons, so selecting catalogs on
+// one device and toggling the proxy on another don't overwrite each other
+export const flattenSyncFields = (data: BackupData): Record<string, unknown> => {
+  const fields: Record<string, unknown> = {};
+  if (data.addons) fields['settings:addonOrder'] = data.addons.map(addon => addon.manifestUrl);
+  (data.addons || []).forEach(addon => {
+    const { selectedCatalogIds, ...manifest } = addon;
+    fields[`addon:${addon.manifestUrl}`] = manifest;
+    fields[`catalogs:${addon.manifestUrl}`] = selectedCatalogIds || [];
+  });
+  (data.library || []).forEach(item => {
+    fields[`library:${item.id}`] = item;
+  });
+  Object.entries(data.watchHistory?.entries || {}).forEach(([key, entry]) => {
+    fields[`watch:${key}`] = entry;
+  });
+  if (data.watchHistory?.watchedThreshold != null) fields['settings:watchedThreshold'] = data.watchHistory.watchedThreshold;
+  SETTINGS_SECTIONS.forEach(section => {
+    if (data[section]) fields[`settings:${section}`] = data[section];
+  });
+  return fields;
+};
+
+// Inverse of flattenSyncFields. Sections without any field are left out, so writing the
+// result doesn't touch them.
+export const unflattenSyncFields = (fields: Record<string, unknown>, addonOrder: string[] = []): BackupData => {
+  const data: BackupData = {};
+  const addons: InstalledAddon[] = [];
+  const library: LibraryItem[] = [];
+  const entries: Record<string, WatchProgress> = {};
+
+  Object.entries(fields).forEach(([key, value]) => {
+    const separator = key.indexOf(':');
+    const kind = key.slice(0, separator);
+    const id = key.slice(separator + 1);
+    if (kind === 'addon') {
+      addons.push({ ...(value as InstalledAddon), selectedCatalogIds: (fields[`catalogs:${id}`] as string[] | undefined) || [] });
+    } else if (kind === 'library') {
+      library.push(value as LibraryItem);
+    } else if (kind === 'watch') {
+      entries[id] = value as WatchProgress;
+    }
+  });
+
+  // Synced order first, then the local one; addons in neither go last
+  const order = (fields['settings:addonOrder'] as string[] | undefined) || addonOrder;
+  addons.sort((a, b) => {
+    const indexA = order.indexOf(a.manifestUrl);
+    const indexB = order.indexOf(b.manifestUrl);
+    return (indexA === -1 ? Infinity : indexA) - (indexB === -1 ? Infinity : indexB);
+  });
+  data.addons = addons;
+  data.library = library.sort((a, b) => b.addedAt - a.addedAt);
+  data.watchHistory = {
+    entries,
+    watchedThreshold: (fields['settings:watchedThreshold'] as number | undefined) ?? null,
+  };
+  SETTINGS_SECTIONS.forEach(section => {
+    const value = fields[`settings:${section}`];
+    if (value !== undefined) Object.assign(data, { [section]: value });
+  });
+  return data;
+};
+
+// Changes between two serialized field maps, stamped with `updatedAt`. Fields missing from
+// `next` become deletions.
+export const diffSyncFields = (
+  previous: Record<string, string>,
+  next: Record<string, string>,
+  updatedAt: number
+): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  Object.entries(next).forEach(([key, serialized]) => {
+    if (previous[key] !== serialized) changes.push({ key, value: JSON.parse(serialized), updatedAt });
+  });
+  Object.keys(previous).forEach(key => {
+    if (!(key in next)) changes.push({ key, value: null, updatedAt });
+  });
+  return changes;
+};
+
+export const serializeSyncFields = (fields: Record<string, unknown>): Record<string, string> =>
+  Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, JSON.stringify(value)]));
+
+// Adds changes to the outgoing queue; a newer change to a queued field replaces the old one
+export const queueSyncChanges = (queue: SyncChange[], changes: SyncChange[]): SyncChange[] => {
+  const byKey = new Map(queue.map(change => [change.key, change]));
+  changes.forEach(change => byKey.set(change.key, change));
+  return Array.from(byKey.values());
+};
+
+// Applies changes from the server to a field map; null values delete the field
+export const mergeRemoteChanges = (fields: Record<string, unknown>, changes: SyncChange[]): Record<string, unknown> => {
+  const merged = { ...fields };
+  changes.forEach(change => {
+    if (change.value === null) delete merged[change.key];
+    else merged[change.key] = change.value;
+  });
+  return merged;
+};
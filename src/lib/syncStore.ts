@@ -0,0 +1,228 @@
+// Server-side store behind the /api/sync routes. Keeps accounts, login tokens and each
+// account's synced fields as JSON files under SYNC_DATA_DIR (default ".sync-data" in the
+// working directory), so a self-hosted instance needs no database.
+// Writes go through one in-process queue and land atomically (temp file + rename).
+
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { isNewerChange, type SyncChange, type SyncResponse } from '@/lib/sync';
+
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || '.sync-data');
+const ACCOUNTS_FILE = path.join(DATA_DIR, 'accounts.json');
+const TOKENS_FILE = path.join(DATA_DIR, 'tokens.json');
+const STATE_DIR = path.join(DATA_DIR, 'state');
+
+// Set SYNC_ALLOW_REGISTRATION=false to stop new accounts once yours exists
+export const isRegistrationAllowed = () => process.env.SYNC_ALLOW_REGISTRATION !== 'false';
+
+const USERNAME_REGEX = /^[a-z0-9_-]{3,32}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+const TOKEN_TTL_MS = 180 * 24 * 60 * 60 * 1000;
+const MAX_FIELD_BYTES = 256 * 1024;
+
+export class SyncStoreError extends Error {
+  kind: 'bad_request' | 'unauthorized' | 'conflict' | 'forbidden';
+
+  constructor(kind: SyncStoreError['kind'], message: string) {
+    super(message);
+    this.name = 'SyncStoreError';
+    this.kind = kind;
+  }
+}
+
+interface AccountRecord {
+  username: string;
+  passwordHash: string; // "scrypt:{salt}:{hash}", hex
+  createdAt: number;
+}
+
+interface TokenRecord {
+  username: string;
+  expiresAt: number;
+}
+
+interface StoredField {
+  value: unknown;
+  updatedAt: number;
+  revision: number; // Server revision that last changed it
+}
+
+interface AccountState {
+  revision: number;
+  fields: Record<string, StoredField>; // Deleted fields stay as null tombstones
+}
+
+// --- Files ---
+
+const readJsonFile = async <T>(file: string, fallback: T): Promise<T> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8')) as T;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw err;
+  }
+};
+
+const writeJsonFile = async (file: string, value: unknown) => {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tempFile = `${file}.${process.pid}.tmp`;
+  await writeFile(tempFile, JSON.stringify(value), 'utf8');
+  await rename(tempFile, file);
+};
+
+// Read-modify-write steps run one at a time so concurrent requests can't lose updates
+let queue: Promise<unknown> = Promise.resolve();
+const serialized = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const getStateFile = (username: string) => path.join(STATE_DIR, `${username}.json`);
+
+// --- Accounts ---
+
+const deriveKey = (password: string, salt: string) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, 64, (err, key) => (err ? reject(err) : resolve(key)));
+  });
+
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  return `scrypt:${salt}:${(await deriveKey(password, salt)).toString('hex')}`;
+};
+
+const checkPassword = async (password: string, passwordHash: string) => {
+  const [scheme, salt, hash] = passwordHash.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await deriveKey(password, salt);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+export const normalizeUsername = (username: string) => username.trim().toLowerCase();
+
+export const createAccount = (rawUsername: string, password: string) => serialized(async () => {
+  if (!isRegistrationAllowed()) throw new SyncStoreError('forbidden', 'Registration is disabled on this server');
+  const username = normalizeUsername(rawUsername);
+  if (!USERNAME_REGEX.test(username)) {
+    throw new SyncStoreError('bad_request', 'Usernames are 3 to 32 letters, digits, "-" or "_"');
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new SyncStoreError('bad_request', `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  const accounts = await readJsonFile<Record<string, AccountRecord>>(ACCOUNTS_FILE, {});
+  if (accounts[username]) throw new SyncStoreError('conflict', 'That username is taken');
+  accounts[username] = { username, passwordHash: await hashPassword(password), createdAt: Date.now() };
+  await writeJsonFile(ACCOUNTS_FILE, accounts);
+  console.log('SyncStore: Created account', username);
+  return username;
+});
+
+export const verifyAccount = async (rawUsername: string, password: string) => {
+  const username = normalizeUsername(rawUsername);
+  const accounts = await readJsonFile<Record<string, AccountRecord>>(ACCOUNTS_FILE, {});
+  const account = accounts[username];
+  if (!account || !(await checkPassword(password, account.passwordHash))) {
+    throw new SyncStoreError('unauthorized', 'Wrong username or password');
+  }
+  return username;
+};
+
+// --- Tokens ---
+
+// Only hashes are stored, so a leaked tokens file can't be used to log in
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const issueToken = (username: string) => serialized(async () => {
+  const token = randomBytes(32).toString('base64url');
+  const tokens = await readJsonFile<Record<string, TokenRecord>>(TOKENS_FILE, {});
+  const now = Date.now();
+  Object.keys(tokens).forEach(key => {
+    if (tokens[key].expiresAt <= now) delete tokens[key];
+  });
+  tokens[hashToken(token)] = { username, expiresAt: now + TOKEN_TTL_MS };
+  await writeJsonFile(TOKENS_FILE, tokens);
+  return token;
+});
+
+export const revokeToken = (token: string) => serialized(async () => {
+  const tokens = await readJsonFile<Record<string, TokenRecord>>(TOKENS_FILE, {});
+  if (!tokens[hashToken(token)]) return;
+  delete tokens[hashToken(token)];
+  await writeJsonFile(TOKENS_FILE, tokens);
+});
+
+// The account a token belongs to, or null when it's unknown or expired
+export const getAccountForToken = async (token: string) => {
+  const tokens = await readJsonFile<Record<string, TokenRecord>>(TOKENS_FILE, {});
+  const record = tokens[hashToken(token)];
+  return record && record.expiresAt > Date.now() ? record.username : null;
+};
+
+// --- State ---
+
+const isValidChange = (change: unknown): change is SyncChange => {
+  if (!change || typeof change !== 'object') return false;
+  const { key, updatedAt } = change as Partial<SyncChange>;
+  return typeof key === 'string' && key.includes(':') && typeof updatedAt === 'number' && Number.isFinite(updatedAt);
+};
+
+// Applies a client's changes field by field (last writer wins) and returns every field that
+// changed on the server after `since`, except the ones this client just wrote itself, plus
+// the current value of any field where its change lost.
+export const applySyncChanges = (username: string, since: number, changes: unknown[]) => serialized(async (): Promise<SyncResponse> => {
+  if (!changes.every(isValidChange)) throw new SyncStoreError('bad_request', 'Invalid change in request');
+  const oversized = changes.find(change => JSON.stringify(change.value ?? null).length > MAX_FIELD_BYTES);
+  if (oversized) throw new SyncStoreError('bad_request', `Field ${oversized.key} is too large`);
+
+  const stateFile = getStateFile(username);
+  const state = await readJsonFile<AccountState>(stateFile, { revision: 0, fields: {} });
+  const accepted = new Set<string>();
+  const rejected = new Set<string>();
+  let nextRevision = state.revision;
+
+  changes.forEach(change => {
+    const existing = state.fields[change.key];
+    if (!isNewerChange(change, existing)) {
+      rejected.add(change.key); // Another device changed it later; send that back
+      return;
+    }
+    if (existing && JSON.stringify(existing.value) === JSON.stringify(change.value ?? null)) {
+      existing.updatedAt = change.updatedAt;
+      return;
+    }
+    if (nextRevision === state.revision) nextRevision = state.revision + 1;
+    state.fields[change.key] = { value: change.value ?? null, updatedAt: change.updatedAt, revision: nextRevision };
+    accepted.add(change.key);
+  });
+
+  // A cursor from the future (e.g. the data dir was reset) means the client needs everything
+  const cursor = since > state.revision ? 0 : since;
+  state.revision = nextRevision;
+  if (changes.length > 0) await writeJsonFile(stateFile, state);
+
+  return {
+    revision: state.revision,
+    changes: Object.entries(state.fields)
+      .filter(([key, field]) => (field.revision > cursor && !accepted.has(key)) || rejected.has(key))
+      .map(([key, field]) => ({ key, value: field.value, updatedAt: field.updatedAt })),
+  };
+});
+
+// --- Requests ---
+
+export const getBearerToken = (request: Request) => {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+const ERROR_STATUS: Record<SyncStoreError['kind'], number> = {
+  bad_request: 400,
+  unauthorized: 401,
+  forbidden: 403,
+  conflict: 409,
+};
+
+export const getSyncErrorStatus = (err: SyncStoreError) => ERROR_STATUS[err.kind];
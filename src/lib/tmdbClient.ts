@@ -0,0 +1,83 @@
+// Minimal TMDB v3 client. Goes through the shared network layer so TMDB calls get the
+// same timeouts, cancellation and retries as addon calls.
+
+import { fetchJsonWithPolicy, NetworkError, type RequestOptions } from '@/lib/network';
+
+export const TMDB_API_BASE_URL = 'https://api.themoviedb.org/3';
+export const TMDB_PROXY_ROUTE = '/api/tmdb';
+
+// When on, requests go through /api/tmdb and the key travels in a header instead of the URL, or
+// not at all when the server has its own key.
+// Set by TmdbContext from the user's setting.
+let proxyEnabled = false;
+
+export const setTmdbProxyEnabled = (enabled: boolean) => {
+  proxyEnabled = enabled;
+};
+
+// Answer of /api/tmdb/status
+export interface TmdbProxyStatus {
+  serverKey: boolean; // The proxy has TMDB_API_KEY and ignores the user's key
+}
+
+// Asked once; a failed check is retried on the next request
+let serverKeyCheck: Promise<boolean> | null = null;
+
+const proxyHasServerKey = (): Promise<boolean> => {
+  if (!serverKeyCheck) {
+    serverKeyCheck = fetchJsonWithPolicy<TmdbProxyStatus>(`${TMDB_PROXY_ROUTE}/status`, { retries: 0 })
+      .then(status => status.serverKey === true)
+      .catch(() => {
+        serverKeyCheck = null;
+        return false;
+      });
+  }
+  return serverKeyCheck;
+};
+
+export type TmdbParams = Record<string, string | number | boolean | undefined>;
+
+// Builds "https://api.themoviedb.org/3/movie/popular?api_key=...&page=1". Path may already carry a query string.
+export const buildTmdbUrl = (path: string, apiKey: string, params?: TmdbParams): string => {
+  const searchParams = new URLSearchParams({ api_key: apiKey });
+  if (params) {
+    Object.entries(params).forEach(([name, value]) => {
+      if (value !== undefined) searchParams.set(name, String(value));
+    });
+  }
+  const separator = path.includes('?') ? '&' : '?';
+  return `${TMDB_API_BASE_URL}${path}${separator}${searchParams.toString()}`;
+};
+
+export const fetchTmdb = async <T = unknown>(
+  path: string,
+  apiKey: string,
+  params?: TmdbParams,
+  options?: RequestOptions
+): Promise<T> => {
+  try {
+    if (proxyEnabled) {
+      const query = new URLSearchParams();
+      Object.entries(params || {}).forEach(([name, value]) => {
+        if (value !== undefined) query.set(name, String(value));
+      });
+      const separator = path.includes('?') ? '&' : '?';
+      const queryString = query.toString();
+      // The user's key only leaves the browser when the server has none of its own
+      const headers: Record<string, string> = (await proxyHasServerKey()) ? {} : { 'x-tmdb-api-key': apiKey };
+      return await fetchJsonWithPolicy<T>(
+        `${TMDB_PROXY_ROUTE}${path}${queryString ? `${separator}${queryString}` : ''}`,
+        options,
+        { headers }
+      );
+    }
+    return await fetchJsonWithPolicy<T>(buildTmdbUrl(path, apiKey, params), options);
+  } catch (err) {
+    // Keep the API key out of error messages that end up in the UI
+    if (err instanceof NetworkError) {
+      const label = err.status ? `TMDB API error ${err.status} for ${path}` : `TMDB request for ${path} failed: ${err.message}`;
+      throw new NetworkError(err.kind, err.url, label, err.status);
+    }
+    throw err;
+  }
+};
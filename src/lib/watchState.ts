@@ -0,0 +1,140 @@
+// Watch progress entries, keyed by content ID plus season/episode for series.
+// Positions and durations are in seconds.
+
+export interface WatchTarget {
+  contentId: string; // e.g. "tt0903747" or "tmdb:1396"
+  contentType: string; // "movie" | "series" | ...
+  season?: number | null;
+  episode?: number | null;
+  name?: string; // Shown in lists like Continue Watching
+  episodeInfo?: string; // e.g. "S1:E3 - Pilot"
+  poster?: string;
+  background?: string;
+  nextEpisode?: EpisodeRef | null; // Episode after this one, when the caller knows the episode list
+}
+
+export interface EpisodeRef {
+  season: number;
+  episode: number;
+}
+
+export interface WatchProgress {
+  contentId: string;
+  contentType: string;
+  season?: number;
+  episode?: number;
+  name?: string;
+  episodeInfo?: string;
+  poster?: string;
+  background?: string;
+  nextEpisode?: EpisodeRef;
+  position: number;
+  duration: number;
+  watched: boolean;
+  dismissed?: boolean; // Removed from Continue Watching; cleared when the item is played again
+  updatedAt: number; // ms timestamp
+}
+
+// A Continue Watching card: the item to resume, or for series the next episode to start
+export interface ContinueWatchingItem {
+  contentId: string;
+  contentType: string;
+  name?: string;
+  poster?: string;
+  background?: string;
+  season?: number;
+  episode?: number;
+  episodeInfo?: string;
+  progress: number; // 0-1
+  updatedAt: number;
+}
+
+export const DEFAULT_WATCHED_THRESHOLD = 0.9; // Fraction of the duration
+export const MIN_RESUME_POSITION_SECONDS = 30; // Closer to the start than this, start over
+
+// "tt0903747" for movies, "tt0903747:1:3" for episodes
+export const getWatchKey = (target: Pick<WatchTarget, 'contentId' | 'season' | 'episode'>) =>
+  target.season != null && target.episode != null
+    ? `${target.contentId}:${target.season}:${target.episode}`
+    : target.contentId;
+
+export const isWatchedAt = (position: number, duration: number, threshold: number) =>
+  duration > 0 && position / duration >= threshold;
+
+export const buildWatchProgress = (
+  target: WatchTarget,
+  position: number,
+  duration: number,
+  threshold: number
+): WatchProgress => ({
+  contentId: target.contentId,
+  contentType: target.contentType,
+  ...(target.season != null && target.episode != null ? { season: target.season, episode: target.episode } : {}),
+  ...(target.name ? { name: target.name } : {}),
+  ...(target.episodeInfo ? { episodeInfo: target.episodeInfo } : {}),
+  ...(target.poster ? { poster: target.poster } : {}),
+  ...(target.background ? { background: target.background } : {}),
+  ...(target.nextEpisode ? { nextEpisode: target.nextEpisode } : {}),
+  position,
+  duration,
+  watched: isWatchedAt(position, duration, threshold),
+  updatedAt: Date.now(),
+});
+
+// Position to offer "Resume from ..." for, or null when the item should start from the beginning
+export const getResumePosition = (progress: WatchProgress | undefined): number | null => {
+  if (!progress || progress.watched || progress.position < MIN_RESUME_POSITION_SECONDS) return null;
+  if (progress.duration > 0 && progress.duration - progress.position < MIN_RESUME_POSITION_SECONDS) return null;
+  return progress.position;
+};
+
+// 2530 -> "42:10", 5400 -> "1:30:00"
+export const formatResumeTime = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// Most recent activity per title, newest first. Movies show while unfinished; series show the
+// episode in progress, or the next one once the last played episode is watched. Series whose
+// next episode isn't known (e.g. played outside the details page) drop out until played again.
+export const getContinueWatchingItems = (entries: Record<string, WatchProgress>, limit = 20): ContinueWatchingItem[] => {
+  const latestByContent = new Map<string, WatchProgress>();
+  Object.values(entries).forEach(entry => {
+    const current = latestByContent.get(entry.contentId);
+    if (!current || entry.updatedAt > current.updatedAt) latestByContent.set(entry.contentId, entry);
+  });
+
+  const items: ContinueWatchingItem[] = [];
+  latestByContent.forEach(entry => {
+    if (entry.dismissed) return;
+    const base = {
+      contentId: entry.contentId,
+      contentType: entry.contentType,
+      name: entry.name,
+      poster: entry.poster,
+      background: entry.background,
+      updatedAt: entry.updatedAt,
+    };
+
+    if (!entry.watched) {
+      if (entry.position < MIN_RESUME_POSITION_SECONDS) return;
+      items.push({
+        ...base,
+        season: entry.season,
+        episode: entry.episode,
+        episodeInfo: entry.episodeInfo,
+        progress: entry.duration > 0 ? Math.min(1, entry.position / entry.duration) : 0,
+      });
+      return;
+    }
+
+    const next = entry.nextEpisode;
+    if (!next || entries[getWatchKey({ contentId: entry.contentId, ...next })]?.watched) return;
+    items.push({ ...base, season: next.season, episode: next.episode, episodeInfo: `S${next.season}:E${next.episode}`, progress: 0 });
+  });
+
+  return items.sort((a, b) => b.updatedAt - a.updatedAt).slice(0, limit);
+};
@@ -0,0 +1,179 @@
+// Shared types for the Stremio addon protocol.
+// See https://github.com/Stremio/stremio-addon-sdk/tree/master/docs/api for the reference.
+
+// Resources an addon can declare in its manifest
+export type AddonResourceName = 'catalog' | 'meta' | 'stream' | 'subtitles' | 'addon_catalog';
+
+export interface AddonCatalogExtra {
+  name: string;
+  isRequired?: boolean;
+  options?: string[];
+  optionsLimit?: number;
+}
+
+export interface AddonCatalog {
+  type: string;
+  id: string;
+  name?: string;
+  extra?: AddonCatalogExtra[];
+  // Legacy (pre-`extra`) way of declaring supported/required extras
+  extraSupported?: string[];
+  extraRequired?: string[];
+  genres?: string[];
+}
+
+export interface AddonResourceDescriptor {
+  name: string;
+  types?: string[];
+  idPrefixes?: string[];
+}
+
+export type AddonResource = string | AddonResourceDescriptor;
+
+export interface AddonManifest {
+  id: string;
+  version: string;
+  name: string;
+  description?: string;
+  logo?: string;
+  background?: string;
+  catalogs?: AddonCatalog[];
+  addonCatalogs?: AddonCatalog[];
+  resources?: AddonResource[];
+  types?: string[];
+  idPrefixes?: string[];
+  behaviorHints?: {
+    adult?: boolean;
+    p2p?: boolean;
+    configurable?: boolean;
+    configurationRequired?: boolean;
+  };
+}
+
+// What a manifest refresh does with catalogs the addon didn't have before
+export type NewCatalogPolicy = 'select' | 'ignore';
+
+export interface InstalledAddon extends AddonManifest {
+  manifestUrl: string;
+  selectedCatalogIds?: string[]; // Stores IDs like "movie/top"
+  useProxy?: boolean; // Send requests through /api/addon-proxy (addons that block browser requests)
+  newCatalogPolicy?: NewCatalogPolicy; // Defaults to 'select'
+  manifestCheckedAt?: number; // Last time the manifest was fetched again
+}
+
+// --- Meta ---
+export interface MetaLink {
+  name: string;
+  category: string;
+  url: string;
+}
+
+export interface MetaVideo {
+  id: string;
+  title?: string;
+  name?: string;
+  season?: number;
+  episode?: number;
+  number?: number;
+  released?: string;
+  thumbnail?: string;
+  overview?: string;
+  description?: string;
+  runtime?: string;
+  // Non-standard fields some addons send instead of thumbnail/released/runtime
+  poster?: string;
+  air_date?: string;
+  duration?: string;
+}
+
+export interface MetaPreview {
+  id: string;
+  type: string;
+  name: string;
+  poster?: string;
+  posterShape?: 'square' | 'poster' | 'landscape';
+  background?: string;
+  logo?: string;
+  description?: string;
+  releaseInfo?: string;
+  imdbRating?: string;
+  runtime?: string;
+  genres?: string[];
+  language?: string | string[]; // Original language first, e.g. "English, Spanish"
+  links?: MetaLink[];
+  // Cross-references some addons (e.g. Cinemeta) include
+  imdb_id?: string;
+  moviedb_id?: number | string;
+}
+
+export interface MetaDetail extends MetaPreview {
+  year?: number;
+  director?: string | string[];
+  cast?: string[];
+  country?: string | string[];
+  certification?: string;
+  trailer?: string;
+  videos?: MetaVideo[];
+  // Non-standard, returned by some addons for the `season=` meta extra
+  episodes?: MetaVideo[];
+}
+
+// --- Streams ---
+export interface StreamBehaviorHints {
+  notWebReady?: boolean;
+  bingeGroup?: string;
+  countryWhitelist?: string[];
+  proxyHeaders?: {
+    request?: Record<string, string>;
+    response?: Record<string, string>;
+  };
+  videoHash?: string;
+  videoSize?: number;
+  filename?: string;
+  [key: string]: unknown;
+}
+
+export interface AddonStream {
+  url?: string;
+  ytId?: string;
+  infoHash?: string;
+  fileIdx?: number;
+  externalUrl?: string;
+  name?: string;
+  title?: string;
+  description?: string;
+  sources?: string[];
+  subtitles?: AddonSubtitle[];
+  behaviorHints?: StreamBehaviorHints;
+}
+
+// --- Subtitles ---
+export interface AddonSubtitle {
+  id: string;
+  url: string;
+  lang: string;
+}
+
+// --- Resource responses ---
+export interface CatalogResponse {
+  metas: MetaPreview[];
+}
+
+export interface MetaResponse {
+  meta: MetaDetail | null;
+}
+
+export interface StreamResponse {
+  streams: AddonStream[];
+}
+
+export interface SubtitlesResponse {
+  subtitles: AddonSubtitle[];
+}
+
+export interface AddonCatalogResponse {
+  addons: { transportUrl: string; transportName?: string; manifest: AddonManifest }[];
+}
+
+// Extras passed to catalog/meta/subtitles requests, e.g. { search: 'foo', skip: 100 }
+export type ResourceExtras = Record<string, string | number | undefined | null>;